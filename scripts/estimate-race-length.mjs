@@ -0,0 +1,54 @@
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { BOARD_OPTIONS_BY_LAYOUT } from "../src/game/board-config.ts";
+import { buildRaceEstimateTable } from "../src/game/race-estimate.ts";
+
+const USAGE =
+  "usage: npm run estimate:race -- [--runs 5] [--participants 2,5,10,20,40] [--out src/game/race-estimates.json]";
+
+function fail(message) {
+  console.error(`[race] ${message}`);
+  process.exit(2);
+}
+
+let values;
+try {
+  ({ values } = parseArgs({
+    options: {
+      runs: { type: "string", default: "5" },
+      participants: { type: "string", default: "2,5,10,20,40" },
+      out: { type: "string", default: "src/game/race-estimates.json" },
+      help: { type: "boolean", short: "h" },
+    },
+  }));
+} catch (err) {
+  fail(`${err?.message || err}\n${USAGE}`);
+}
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const runs = Number(values.runs);
+if (!Number.isInteger(runs) || runs < 1) fail("--runs must be a positive integer");
+const participants = values.participants.split(",").map((v) => Number(v.trim()));
+if (!participants.length || participants.some((n) => !Number.isInteger(n) || n < 1)) {
+  fail("--participants must be a comma-separated list of positive integers");
+}
+participants.sort((a, b) => a - b);
+
+const startedAt = Date.now();
+const table = buildRaceEstimateTable({
+  layouts: Object.keys(BOARD_OPTIONS_BY_LAYOUT),
+  participants,
+  runs,
+  onSample: (key, n, seconds) => {
+    const sec = ((Date.now() - startedAt) / 1000).toFixed(0);
+    const value = seconds == null ? "unfinished" : `${seconds.toFixed(1)}s`;
+    process.stderr.write(`[race] ${key} x${n}: ${value} (${sec}s)\n`);
+  },
+});
+
+fs.writeFileSync(values.out, `${JSON.stringify(table, null, 2)}\n`);
+console.log(`[race] wrote ${values.out}`);
@@ -0,0 +1,72 @@
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { BOARD_OPTIONS_BY_LAYOUT } from "../src/game/board-config.ts";
+import { formatFairnessAuditText, runFairnessAudit } from "../src/game/fairness-audit.ts";
+
+const USAGE =
+  "usage: npm run audit:fairness -- [--runs 2000] [--participants 8] [--layout zigzag|roulette|classic] [--seed-start 1] [--format text|json] [--csv records.csv]";
+
+function fail(message) {
+  console.error(`[audit] ${message}`);
+  process.exit(2);
+}
+
+function toPositiveInt(value, name) {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) fail(`--${name} must be a positive integer`);
+  return n;
+}
+
+let values;
+try {
+  ({ values } = parseArgs({
+    options: {
+      runs: { type: "string", default: "2000" },
+      participants: { type: "string", default: "8" },
+      layout: { type: "string", default: "zigzag" },
+      "seed-start": { type: "string", default: "1" },
+      format: { type: "string", default: "text" },
+      csv: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  }));
+} catch (err) {
+  fail(`${err?.message || err}\n${USAGE}`);
+}
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const boardOptions = BOARD_OPTIONS_BY_LAYOUT[values.layout];
+if (!Object.prototype.hasOwnProperty.call(BOARD_OPTIONS_BY_LAYOUT, values.layout)) fail(`unknown layout "${values.layout}"`);
+if (values.format !== "text" && values.format !== "json") fail(`unknown format "${values.format}"`);
+const runs = toPositiveInt(values.runs, "runs");
+const participants = toPositiveInt(values.participants, "participants");
+const seedStart = Number(values["seed-start"]);
+if (!Number.isInteger(seedStart) || seedStart < 0) fail("--seed-start must be a non-negative integer");
+
+const startedAt = Date.now();
+const { report, records } = runFairnessAudit({
+  boardOptions,
+  participants,
+  runs,
+  seedStart,
+  onRun: (done, total) => {
+    if (done % 100 !== 0 && done !== total) return;
+    const sec = ((Date.now() - startedAt) / 1000).toFixed(0);
+    process.stderr.write(`[audit] ${done}/${total} runs (${sec}s)\n`);
+  },
+});
+
+if (values.csv) {
+  const header = "run,seed,marbleId,ballId,spawnIndex,spawnRow,spawnX,finishRank,finishT";
+  const rows = records.map((r) =>
+    [r.run, r.seed, r.marbleId, r.ballId, r.spawnIndex, r.spawnRow, r.spawnX.toFixed(2), r.finishRank, r.finishT.toFixed(4)].join(",")
+  );
+  fs.writeFileSync(values.csv, `${[header, ...rows].join("\n")}\n`);
+}
+
+if (values.format === "json") console.log(JSON.stringify(report, null, 2));
+else console.log(formatFairnessAuditText(report));
@@ -0,0 +1,90 @@
+import fs from "node:fs";
+import { randomInt } from "node:crypto";
+import { parseArgs } from "node:util";
+import {
+  formatHeadlessDrawText,
+  isBoardLayout,
+  parseRosterText,
+  parseWinnerRuleText,
+  runHeadlessDraw,
+} from "../src/app/headless-draw.ts";
+
+const USAGE =
+  "usage: npm run simulate -- --roster <file> [--winners 1] [--rule last|first|<place>] [--layout zigzag|roulette|classic | --board <board.json>] [--seed <uint32>] [--deterministic] [--format text|json]";
+
+function fail(message, code = 2) {
+  console.error(`[simulate] ${message}`);
+  process.exit(code);
+}
+
+let values;
+try {
+  ({ values } = parseArgs({
+    options: {
+      roster: { type: "string", short: "r" },
+      winners: { type: "string", short: "w", default: "1" },
+      rule: { type: "string", default: "last" },
+      layout: { type: "string", short: "l", default: "zigzag" },
+      board: { type: "string", short: "b" },
+      seed: { type: "string", short: "s" },
+      deterministic: { type: "boolean", default: false },
+      format: { type: "string", short: "f", default: "text" },
+      help: { type: "boolean", short: "h" },
+    },
+  }));
+} catch (err) {
+  fail(`${err?.message || err}\n${USAGE}`);
+}
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (!values.roster) fail(USAGE);
+if (!isBoardLayout(values.layout)) fail(`unknown layout "${values.layout}"`);
+if (values.format !== "text" && values.format !== "json") fail(`unknown format "${values.format}"`);
+
+const winnerCount = Number(values.winners);
+if (!Number.isInteger(winnerCount) || winnerCount < 1) fail("--winners must be a positive integer");
+
+let winnerRule;
+try {
+  winnerRule = parseWinnerRuleText(values.rule);
+} catch (err) {
+  fail(`--${err?.message || err}`);
+}
+
+const seed = values.seed == null ? randomInt(0, 0x100000000) : Number(values.seed);
+if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) fail("--seed must be an integer in [0, 4294967295]");
+
+let board;
+if (values.board) {
+  try {
+    board = JSON.parse(fs.readFileSync(values.board, "utf8"));
+  } catch (err) {
+    fail(`${values.board}: ${err?.message || err}`);
+  }
+}
+
+let roster;
+try {
+  roster = parseRosterText(fs.readFileSync(values.roster, "utf8"));
+} catch (err) {
+  fail(`${values.roster}: ${err?.message || err}`);
+}
+
+try {
+  const result = runHeadlessDraw({
+    roster,
+    winnerCount,
+    winnerRule,
+    layout: values.layout,
+    board,
+    seed,
+    deterministic: values.deterministic,
+  });
+  if (values.format === "json") console.log(JSON.stringify(result, null, 2));
+  else console.log(formatHeadlessDrawText(result));
+} catch (err) {
+  fail(err?.message || String(err), 1);
+}
@@ -0,0 +1,30 @@
+import fs from "node:fs";
+import { formatBoardDefinitionIssues, validateBoardDefinition } from "../src/game/board-definition.ts";
+
+const USAGE = "usage: npm run validate:board -- <board.json> [more.json ...]";
+
+const files = process.argv.slice(2);
+if (!files.length || files.includes("--help") || files.includes("-h")) {
+  console.log(USAGE);
+  process.exit(files.length ? 0 : 2);
+}
+
+let failed = 0;
+for (const file of files) {
+  let input;
+  try {
+    input = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    console.error(`[board] ${file}: ${err?.message || err}`);
+    failed++;
+    continue;
+  }
+  const issues = validateBoardDefinition(input);
+  if (issues.length) {
+    console.error(`[board] ${file}: ${issues.length} issue(s)\n${formatBoardDefinitionIssues(issues)}`);
+    failed++;
+  } else {
+    console.log(`[board] ${file}: ok`);
+  }
+}
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,28 @@
+import fs from "node:fs";
+import { verifyDrawProof } from "../src/game/draw-proof.ts";
+
+// Usage: npm run verify:proof -- <proof.json>
+const file = process.argv[2];
+if (!file) {
+  console.error("[verify-proof] usage: npm run verify:proof -- <proof.json>");
+  process.exit(2);
+}
+
+let proof;
+try {
+  proof = JSON.parse(fs.readFileSync(file, "utf8"));
+} catch (err) {
+  console.error(`[verify-proof] cannot read ${file}: ${err?.message || err}`);
+  process.exit(2);
+}
+
+const result = verifyDrawProof(proof);
+for (const [name, passed] of Object.entries(result.checks)) {
+  console.log(`- ${name}: ${passed ? "ok" : "MISMATCH"}`);
+}
+if (result.error) console.error(`[verify-proof] ${result.error}`);
+if (!result.ok) {
+  console.error("[verify-proof] failed: proof does not match a re-run of the engine");
+  process.exit(1);
+}
+console.log(`[verify-proof] ok (winner ${result.replayWinner?.ballId}, seed ${proof.replay.seed})`);
@@ -0,0 +1,118 @@
+import type { GameState, WinnerRule } from "../game/engine.ts";
+import type { BuiltinBoardLayout, PrizeSlot, RaceLength } from "../game/board-config.ts";
+import type { DrawHistoryEntry } from "../game/draw-history.ts";
+import type { RepeatRule, RepeatRuleOutcome } from "../game/repeat-rules.ts";
+import { normalizeTags, type ParticipantFilter } from "../game/participant-tags.ts";
+import type { createCatalogController } from "../ui/catalog-controller.js";
+import type { DecodedImage } from "./avatar-crop";
+import type { ResultPresentationState } from "./result-presentation";
+import type { SettingsBackup } from "./settings-backup";
+import type { SharedDraw } from "./share-link";
+import type {
+  AvatarCropUiState,
+  InquiryForm,
+  RosterImportUiState,
+  SettingsRestoreUiModel,
+  ShareLinkUiState,
+  SharedDrawUiModel,
+} from "./ui-store";
+
+export type CatalogDraftItem = {
+  id: string;
+  name: string;
+  imageDataUrl: string;
+  tint: string;
+  tags?: string[];
+};
+
+export type UiLocalState = {
+  settingsOpen: boolean;
+  settingsDirty: boolean;
+  settingsConfirmOpen: boolean;
+  settingsDraft: CatalogDraftItem[] | null;
+  /** Counts for draft participants (from an import), applied together with the draft. */
+  settingsDraftCounts: Record<string, number>;
+  rosterImport: RosterImportUiState | null;
+  winnerCount: number;
+  winnerCountWasClamped: boolean;
+  winnerRule: WinnerRule;
+  /** Rule the shown result was drawn under (the setting may change before the copy). */
+  resultWinnerRule: WinnerRule;
+  repeatRule: RepeatRule;
+  /** What the anti-repeat rule does to the next draw; also mirrored into `state.entryAdjustments`. */
+  repeatRuleOutcome: RepeatRuleOutcome;
+  /** Tag filter for the next run; mirrored into `state.inactiveBallIds`. */
+  participantFilter: ParticipantFilter;
+  startCaption: string;
+  boardLayout: BuiltinBoardLayout;
+  raceLength: RaceLength;
+  prizeMode: boolean;
+  prizeSlots: PrizeSlot[];
+  /** Build boards on the bit-exact engine path so replays match on every device. */
+  exactReplay: boolean;
+  resultState: ResultPresentationState;
+  shareLink: ShareLinkUiState | null;
+  /** Opened share link waiting for the user to load or ignore it. */
+  sharedDrawOffer: { draw: SharedDraw; view: SharedDrawUiModel } | null;
+  /** Share link loaded into the settings draft; its board, winner count and caption apply with the draft. */
+  sharedDrawInDraft: SharedDraw | null;
+  /** Decoded upload waiting for its crop; the object URL in `view` is revoked on close. */
+  avatarCrop: { image: DecodedImage; view: AvatarCropUiState } | null;
+  /** Backup file picked for restore; `view` carries the per-section choices. */
+  settingsRestore: { backup: SettingsBackup; view: SettingsRestoreUiModel } | null;
+  /** Another tab's roster waits behind unsaved settings edits and the user has not chosen yet. */
+  tabSyncConflict: boolean;
+  /** Completed draws, newest first (persisted). */
+  drawHistory: DrawHistoryEntry[];
+  drawHistoryOpen: boolean;
+  inquiryOpen: boolean;
+  inquirySubmitting: boolean;
+  inquiryStatus: string;
+  inquiryOpenedAt: number;
+  inquiryForm: InquiryForm;
+  speedMultiplier: number;
+};
+
+export type CatalogController = ReturnType<typeof createCatalogController>;
+
+/**
+ * What the feature controllers share: the game state, the app's UI-local state and the hooks
+ * `create-game-app` wires between them. Hooks may be called only after bootstrap finished wiring.
+ */
+export type GameAppContext = {
+  state: GameState;
+  uiState: UiLocalState;
+  catalogController: CatalogController;
+  refreshUi: () => void;
+  /** A run is in progress: roster, counts and draw settings stay as they are. */
+  isBallControlLocked: () => boolean;
+  /** Clears a running or finished run the same way a restart does. */
+  prepareRestart: () => void;
+  syncLoopSpeed: (force?: boolean) => void;
+  getWinnerCountMax: () => number;
+};
+
+export function cloneCatalogForDraft(input: unknown[]): CatalogDraftItem[] {
+  return input.map((ball) => {
+    const item = ball as {
+      id?: unknown;
+      name?: unknown;
+      imageDataUrl?: unknown;
+      tint?: unknown;
+      tags?: unknown;
+    };
+    const tags = normalizeTags(item.tags);
+    return {
+      id: String(item.id || ""),
+      name: String(item.name || ""),
+      imageDataUrl: String(item.imageDataUrl || ""),
+      tint: typeof item.tint === "string" ? item.tint : "#ffffff",
+      ...(tags.length ? { tags } : {}),
+    };
+  });
+}
+
+/** The live roster as editable draft items (copies; edits never reach the catalog). */
+export function getLiveCatalogForDraft(ctx: GameAppContext): CatalogDraftItem[] {
+  return cloneCatalogForDraft(ctx.catalogController.getCatalog() as unknown[]);
+}
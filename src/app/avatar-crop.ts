@@ -0,0 +1,171 @@
+/**
+ * Avatar crop for uploaded images: the user picks the square the renderer clips into a circle,
+ * and only that square is kept, downscaled to `AVATAR_OUTPUT_SIZE` and re-encoded.
+ * Re-encoding through a canvas also drops the file's metadata (EXIF GPS, camera, comments).
+ */
+import { isSystemBallAvatarUrl } from "../game/assets.ts";
+import { t } from "../i18n/runtime";
+import { validateUploadImageFile } from "./image-upload-policy";
+
+/** Centre of the crop as a fraction of the image, and zoom (1 = the shorter side fits the circle). */
+export type AvatarCrop = {
+  centerX: number;
+  centerY: number;
+  zoom: number;
+};
+
+/** Crop square in source pixels. */
+export type AvatarCropRect = {
+  x: number;
+  y: number;
+  size: number;
+};
+
+export type DecodedImage = {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  /** Frees the decoded bitmap. */
+  release: () => void;
+};
+
+/** Twice the renderer's marble raster, so result cards stay sharp. */
+export const AVATAR_OUTPUT_SIZE = 256;
+export const AVATAR_CROP_MAX_ZOOM = 4;
+export const DEFAULT_AVATAR_CROP: AvatarCrop = Object.freeze({ centerX: 0.5, centerY: 0.5, zoom: 1 });
+
+const AVATAR_WEBP_QUALITY = 0.85;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function clampZoom(zoom: number): number {
+  return Number.isFinite(zoom) ? clamp(zoom, 1, AVATAR_CROP_MAX_ZOOM) : 1;
+}
+
+/** The crop square, kept inside the image whatever the centre says. */
+export function getAvatarCropRect(width: number, height: number, crop: AvatarCrop): AvatarCropRect {
+  const size = Math.min(width, height) / clampZoom(crop.zoom);
+  const half = size / 2;
+  const centerX = Number.isFinite(crop.centerX) ? crop.centerX * width : width / 2;
+  const centerY = Number.isFinite(crop.centerY) ? crop.centerY * height : height / 2;
+  return {
+    x: clamp(centerX, half, width - half) - half,
+    y: clamp(centerY, half, height - half) - half,
+    size,
+  };
+}
+
+/** Same crop with the centre moved back to where the square fits. */
+export function clampAvatarCrop(width: number, height: number, crop: AvatarCrop): AvatarCrop {
+  const rect = getAvatarCropRect(width, height, crop);
+  return {
+    centerX: (rect.x + rect.size / 2) / width,
+    centerY: (rect.y + rect.size / 2) / height,
+    zoom: clampZoom(crop.zoom),
+  };
+}
+
+/** Moves the crop by `dx`/`dy` source pixels. */
+export function panAvatarCrop(width: number, height: number, crop: AvatarCrop, dx: number, dy: number): AvatarCrop {
+  const rect = getAvatarCropRect(width, height, crop);
+  return clampAvatarCrop(width, height, {
+    centerX: (rect.x + rect.size / 2 + dx) / width,
+    centerY: (rect.y + rect.size / 2 + dy) / height,
+    zoom: crop.zoom,
+  });
+}
+
+export function zoomAvatarCrop(width: number, height: number, crop: AvatarCrop, zoom: number): AvatarCrop {
+  return clampAvatarCrop(width, height, { ...crop, zoom });
+}
+
+function loadImageElement(blob: Blob): Promise<DecodedImage> {
+  const url = URL.createObjectURL(blob);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () =>
+      resolve({
+        source: img,
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+        release: () => URL.revokeObjectURL(url),
+      });
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(t("upload.decode")));
+    };
+    img.src = url;
+  });
+}
+
+/** Decodes an image file (EXIF orientation applied, first frame of animations). */
+export async function decodeImageBlob(blob: Blob): Promise<DecodedImage> {
+  let decoded: DecodedImage;
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+      decoded = { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch {
+      decoded = await loadImageElement(blob);
+    }
+  } else {
+    decoded = await loadImageElement(blob);
+  }
+  if (!(decoded.width > 0 && decoded.height > 0)) {
+    decoded.release();
+    throw new Error(t("upload.decode"));
+  }
+  return decoded;
+}
+
+/** The cropped avatar as a WebP data URL (PNG where the browser cannot encode WebP). */
+export function encodeAvatar(image: DecodedImage, crop: AvatarCrop): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = AVATAR_OUTPUT_SIZE;
+  canvas.height = AVATAR_OUTPUT_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error(t("error.uploadFailed"));
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  const rect = getAvatarCropRect(image.width, image.height, crop);
+  ctx.drawImage(image.source, rect.x, rect.y, rect.size, rect.size, 0, 0, AVATAR_OUTPUT_SIZE, AVATAR_OUTPUT_SIZE);
+  // Browsers that cannot encode WebP return PNG instead, which is still small at this size.
+  return canvas.toDataURL("image/webp", AVATAR_WEBP_QUALITY);
+}
+
+/**
+ * An image from outside the app (roster import cell, backup file, share link) as an avatar: read
+ * (data URLs included), checked like an upload, centre-cropped and re-encoded, so neither the original
+ * file nor its metadata is kept. Resolves "" (letter avatar) when it cannot be used, e.g. a host without CORS.
+ */
+export async function reencodeIncomingImage(image: string): Promise<string> {
+  if (!image) return "";
+  try {
+    const response = await fetch(image);
+    if (!response.ok) return "";
+    const blob = await response.blob();
+    if (!validateUploadImageFile(new File([blob], "import", { type: blob.type })).ok) return "";
+    const decoded = await decodeImageBlob(blob);
+    try {
+      return encodeAvatar(decoded, DEFAULT_AVATAR_CROP);
+    } finally {
+      decoded.release();
+    }
+  } catch {
+    return "";
+  }
+}
+
+/** Participants with every carried-in picture re-encoded; generated letter avatars are kept as they are. */
+export async function reencodeIncomingAvatars<T extends { imageDataUrl: string }>(
+  balls: ReadonlyArray<T>
+): Promise<T[]> {
+  return Promise.all(
+    balls.map(async (ball) => {
+      if (!ball.imageDataUrl || isSystemBallAvatarUrl(ball.imageDataUrl)) return ball;
+      return { ...ball, imageDataUrl: await reencodeIncomingImage(ball.imageDataUrl) };
+    })
+  );
+}
@@ -6,224 +6,73 @@ import {
   startGame,
   step,
   dropAll,
-  getBallCount,
   getTotalSelectedCount,
-  setBallCount,
+  getRemainingToDecide,
+  isBallActive,
+  DEFAULT_WINNER_RULE,
 } from "../game/engine.ts";
-import {
-  getBallLibrary,
-  getDefaultBalls,
-  buildSystemBallImageDataUrl,
-  isSystemBallAvatarUrl,
-} from "../game/assets.ts";
 import { makeRenderer } from "../game/render.ts";
-import { createGameBoard } from "../game/board-config.ts";
+import {
+  createGameBoard,
+  getBoardOptions,
+  hasRaceLengthPresets,
+  supportsPrizeSlots,
+} from "../game/board-config.ts";
+import { estimateRaceSeconds } from "../game/race-estimate.ts";
 import { createLoopController } from "../game/loop-controller.ts";
+import { createPhysicsWorkerClient } from "../game/physics-worker-client.ts";
 import { createSessionController } from "../game/session-controller.ts";
 import { mountDebugHooks } from "../game/debug-hooks.ts";
-import { computeFinishTriggerRemaining } from "../game/finish-tension.ts";
 import { createCatalogController } from "../ui/catalog-controller.js";
 import { mountViewControls } from "../ui/view-controls.js";
 import { createAudioController } from "../ui/audio-controller.js";
-import { validateInquiryInput, submitInquiry, showInquiryToast } from "../ui/inquiry.js";
-import { playWinnerFanfare } from "../ui/result-controller.js";
+import { showInquiryToast } from "../ui/inquiry.js";
 import { mountKeyboardControls } from "../ui/keyboard-controls.js";
-import { clampResultCount, selectLastFinishers } from "./ui-selectors";
 import {
-  getDataUrlMimeType,
-  isAllowedUploadImageMimeType,
-  validateUploadImageFile,
-} from "./image-upload-policy";
+  loadBoardLayout,
+  loadDrawHistory,
+  loadExactReplay,
+  loadParticipantFilter,
+  loadPrizeSlots,
+  loadRaceLength,
+  loadRepeatRule,
+  loadWinnerRule,
+} from "../ui/storage.ts";
+import { subscribeStorageErrors } from "../ui/storage-core.ts";
+import { clampResultCount } from "./ui-selectors";
 import { setUiActions, setUiSnapshot } from "./ui-store";
 import { ANALYTICS_EVENTS, trackAnalyticsEvent } from "./analytics";
 import { createArrivalTimingTracker } from "./arrival-timing-tracker";
+import { createDrawProofTracker } from "./draw-proof-tracker";
+import type { GameAppContext, UiLocalState } from "./app-context";
+import { createRosterPresetController } from "./roster-preset-controller";
+import { createSettingsEditorController } from "./settings-editor-controller";
+import { createRosterImportController } from "./roster-import-controller";
+import { createShareLinkController } from "./share-link-controller";
+import { createSettingsBackupController } from "./settings-backup-controller";
+import { createTabSyncController } from "./tab-sync-controller";
+import { createParticipantTagController } from "./participant-tag-controller";
+import { createGameConfigController } from "./game-config-controller";
+import { createDrawHistoryController } from "./draw-history-controller";
+import { createResultRevealController } from "./result-reveal-controller";
+import { createInquiryFormController, EMPTY_INQUIRY_FORM } from "./inquiry-form-controller";
+import { createLiveRankingView } from "./live-ranking-view";
 import {
   getDefaultStartCaption,
   getStatusLabelByTone,
-  clamp,
   deriveStatusTone,
   getFinishTempoMultiplier,
   getFinishTensionSnapshot,
   getParticipantCount,
   getWinnerCountMax,
-  sanitizeBallName,
-  sanitizeStartCaption,
 } from "./game-flow-selectors";
-import {
-  getCurrentLanguage,
-  subscribeLanguage,
-  t,
-  type Language,
-} from "../i18n/runtime";
-import {
-  buildIdleResultState,
-  buildResultItems,
-  buildResultStateFromItems,
-  closeResultPresentation,
-  completeSpinResultPresentation,
-  type ResultPresentationState,
-} from "./result-presentation";
-import type {
-  AudioActions,
-  CatalogSettingsActions,
-  GameConfigActions,
-  InquiryField,
-  InquiryForm,
-  InquiryActions,
-  InquirySubmitResult,
-  ResultUiItem,
-  ResultActions,
-  RunActions,
-  UiSnapshot,
-} from "./ui-store";
-
-const EMPTY_INQUIRY_FORM = Object.freeze({
-  email: "",
-  subject: "",
-  message: "",
-  website: "",
-});
-
-type UiLocalState = {
-  settingsOpen: boolean;
-  settingsDirty: boolean;
-  settingsConfirmOpen: boolean;
-  settingsDraft: CatalogDraftItem[] | null;
-  winnerCount: number;
-  winnerCountWasClamped: boolean;
-  startCaption: string;
-  resultState: ResultPresentationState;
-  inquiryOpen: boolean;
-  inquirySubmitting: boolean;
-  inquiryStatus: string;
-  inquiryOpenedAt: number;
-  inquiryForm: InquiryForm;
-  speedMultiplier: number;
-};
-
-type InquiryValidationResult =
-  | {
-      ok: true;
-      data: {
-        email: string;
-        subject: string;
-        message: string;
-        website: string;
-      };
-    }
-  | {
-      ok: false;
-      field: "email" | "subject" | "message";
-      message: string;
-    };
+import { getCurrentLanguage, subscribeLanguage, t, type Language } from "../i18n/runtime";
+import { buildIdleResultState } from "./result-presentation";
+import type { AudioActions, RunActions, UiSnapshot } from "./ui-store";
 
-type CatalogDraftItem = {
-  id: string;
-  name: string;
-  imageDataUrl: string;
-  tint: string;
-};
 const LOOP_SPEED_BLEND_RATIO = 0.3;
 const LOOP_SPEED_EPSILON = 0.002;
-
-function fileToDataUrl(file: File): Promise<string> {
-  const validation = validateUploadImageFile(file);
-  if (!validation.ok) {
-    return Promise.reject(new Error(validation.message));
-  }
-  return new Promise<string>((resolve, reject) => {
-    const fr = new FileReader();
-    fr.onerror = () => reject(new Error(t("error.fileRead")));
-    fr.onload = () => resolve(String(fr.result || ""));
-    fr.readAsDataURL(file);
-  });
-}
-
-function isDataImageUrl(value: unknown): value is string {
-  if (typeof value !== "string" || !value.startsWith("data:image/")) return false;
-  const mime = getDataUrlMimeType(value);
-  return isAllowedUploadImageMimeType(mime);
-}
-
-function cloneCatalogForDraft(input: unknown[]): CatalogDraftItem[] {
-  return input.map((ball) => {
-    const item = ball as {
-      id?: unknown;
-      name?: unknown;
-      imageDataUrl?: unknown;
-      tint?: unknown;
-    };
-    return {
-      id: String(item.id || ""),
-      name: String(item.name || ""),
-      imageDataUrl: String(item.imageDataUrl || ""),
-      tint: typeof item.tint === "string" ? item.tint : "#ffffff",
-    };
-  });
-}
-
-function catalogFingerprint(input: CatalogDraftItem[]): string {
-  return JSON.stringify(
-    input.map((ball) => ({
-      id: ball.id,
-      name: ball.name,
-      imageDataUrl: ball.imageDataUrl,
-      tint: ball.tint,
-    }))
-  );
-}
-
-function reorderCatalogDraft(
-  draft: CatalogDraftItem[],
-  sourceBallId: string,
-  targetBallId: string
-): CatalogDraftItem[] | null {
-  if (!sourceBallId || !targetBallId || sourceBallId === targetBallId) return null;
-
-  const sourceIndex = draft.findIndex((ball) => ball.id === sourceBallId);
-  const targetIndex = draft.findIndex((ball) => ball.id === targetBallId);
-  if (sourceIndex < 0 || targetIndex < 0) return null;
-
-  const next = draft.slice();
-  const [moved] = next.splice(sourceIndex, 1);
-  if (!moved) return null;
-  next.splice(targetIndex, 0, moved);
-  return next;
-}
-
-function toResultCopyText(items: ResultUiItem[]): string {
-  if (!items.length) return "";
-  return items.map((item) => `${item.rank}. ${item.name}`).join("\n");
-}
-
-async function copyTextWithFallback(text: string): Promise<boolean> {
-  if (!text) return false;
-  try {
-    if (navigator.clipboard?.writeText) {
-      await navigator.clipboard.writeText(text);
-      return true;
-    }
-  } catch {
-    // Fallback below.
-  }
-
-  try {
-    const area = document.createElement("textarea");
-    area.value = text;
-    area.setAttribute("readonly", "true");
-    area.style.position = "fixed";
-    area.style.top = "-9999px";
-    area.style.left = "-9999px";
-    document.body.appendChild(area);
-    area.focus();
-    area.select();
-    const copied = document.execCommand("copy");
-    document.body.removeChild(area);
-    return !!copied;
-  } catch {
-    return false;
-  }
-}
+const NO_TAGS: ReadonlyArray<string> = Object.freeze([]);
 
 function getDomRefs() {
   const canvas = document.getElementById("game");
@@ -241,6 +90,7 @@ function getDomRefs() {
   const canvasCoordCopyBtnEl = document.getElementById("canvas-coord-copy");
   const canvasCoordCopyBtn =
     canvasCoordCopyBtnEl instanceof HTMLButtonElement ? canvasCoordCopyBtnEl : null;
+  const boardEditorEl = document.getElementById("board-editor");
 
   return {
     canvas,
@@ -249,6 +99,7 @@ function getDomRefs() {
     minimapTitleEl,
     canvasCoordReadoutEl,
     canvasCoordCopyBtn,
+    boardEditorEl,
   };
 }
 
@@ -260,6 +111,7 @@ export function bootstrapGameApp() {
     minimapTitleEl,
     canvasCoordReadoutEl,
     canvasCoordCopyBtn,
+    boardEditorEl,
   } = getDomRefs();
 
   function syncVisualViewportHeight() {
@@ -268,7 +120,12 @@ export function bootstrapGameApp() {
     document.documentElement.style.setProperty("--appH", `${Math.round(h)}px`);
   }
 
-  const board = createGameBoard() as any;
+  const initialLayout = loadBoardLayout();
+  const initialRaceLength = loadRaceLength();
+  const initialPrize = loadPrizeSlots();
+  const initialPrizeSlots = initialPrize.enabled ? initialPrize.slots : null;
+  const initialExactReplay = loadExactReplay();
+  const board = createGameBoard(initialLayout, initialRaceLength, initialPrizeSlots, initialExactReplay) as any;
   const state = makeGameState({ seed: 1337, board, ballsCatalog: [] }) as any;
   const renderer = makeRenderer(canvas, { board }) as any;
   const viewState = { tailFocusOn: true };
@@ -278,10 +135,30 @@ export function bootstrapGameApp() {
     settingsDirty: false,
     settingsConfirmOpen: false,
     settingsDraft: null,
+    settingsDraftCounts: {},
+    rosterImport: null,
     winnerCount: 1,
     winnerCountWasClamped: false,
+    winnerRule: loadWinnerRule(),
+    resultWinnerRule: DEFAULT_WINNER_RULE,
+    repeatRule: loadRepeatRule(),
+    repeatRuleOutcome: { adjustments: {}, changes: [], skipped: false },
+    participantFilter: loadParticipantFilter(),
     startCaption: getDefaultStartCaption(),
+    boardLayout: initialLayout,
+    raceLength: initialRaceLength,
+    prizeMode: initialPrize.enabled,
+    prizeSlots: initialPrize.slots,
+    exactReplay: initialExactReplay,
     resultState: buildIdleResultState(1),
+    shareLink: null,
+    sharedDrawOffer: null,
+    sharedDrawInDraft: null,
+    avatarCrop: null,
+    settingsRestore: null,
+    tabSyncConflict: false,
+    drawHistory: loadDrawHistory(),
+    drawHistoryOpen: false,
     inquiryOpen: false,
     inquirySubmitting: false,
     inquiryStatus: "",
@@ -297,6 +174,10 @@ export function bootstrapGameApp() {
   let lastFrameUiRefreshAt = 0;
   let lastFrameUiSignature = "";
   const arrivalTimingTracker = createArrivalTimingTracker();
+  // Replay record + commit/reveal proof survive resetGame so a draw can be re-checked later.
+  const drawProofTracker = createDrawProofTracker({
+    boardOptions: getBoardOptions(initialLayout, initialRaceLength, initialPrizeSlots, initialExactReplay),
+  });
 
   const FRAME_UI_THROTTLE_MS = 96;
 
@@ -308,22 +189,10 @@ export function bootstrapGameApp() {
   });
   catalogController.relocalizeCatalog?.(currentLanguage);
 
-  const audioController = createAudioController({
-    onStateChange: () => {
-      refreshUi();
-    },
-  });
-
   function getWinnerCountMaxForState() {
     return getWinnerCountMax(state.totalToDrop, getTotalSelectedCount(state));
   }
 
-  function syncFinishTriggerRemaining() {
-    const participantCount = getParticipantCount(state.totalToDrop, getTotalSelectedCount(state));
-    const winnerCount = clampResultCount(uiState.winnerCount, Math.max(1, participantCount));
-    state.finishTriggerRemaining = computeFinishTriggerRemaining(participantCount, winnerCount);
-  }
-
   function isBallControlLocked() {
     return state.mode === "playing" && !state.winner;
   }
@@ -335,6 +204,7 @@ export function bootstrapGameApp() {
       released: !!state.released,
       totalToDrop: Number(state.totalToDrop) || 0,
       finishedCount: state.finished.length,
+      remainingToDecide: getRemainingToDecide(state),
       finishTriggerRemaining: Number(state.finishTriggerRemaining) || 0,
       marbles: state.marbles,
       worldH: state.board.worldH,
@@ -352,20 +222,69 @@ export function bootstrapGameApp() {
     applyLoopSpeed(appliedLoopSpeed);
   }
 
-  function closeResultModalPresentation() {
-    uiState.resultState = closeResultPresentation(uiState.resultState);
-  }
+  const ctx: GameAppContext = {
+    state,
+    uiState,
+    catalogController,
+    refreshUi: () => refreshUi(),
+    isBallControlLocked,
+    prepareRestart: () => sessionController.prepareRestartForCountdown(),
+    syncLoopSpeed,
+    getWinnerCountMax: getWinnerCountMaxForState,
+  };
 
-  function resetResultHistory() {
-    uiState.resultState = buildIdleResultState(uiState.winnerCount);
-  }
+  const presets = createRosterPresetController(ctx);
 
-  function completeResultSpin() {
-    const nextState = completeSpinResultPresentation(uiState.resultState);
-    if (nextState === uiState.resultState) return;
-    uiState.resultState = nextState;
-    playWinnerFanfare();
-  }
+  const audioController = createAudioController({
+    onStateChange: () => {
+      refreshUi();
+    },
+  });
+
+  const participantTags = createParticipantTagController(ctx);
+  const gameConfig = createGameConfigController(ctx, {
+    presets,
+    renderer,
+    viewState,
+    onBoardChange: (nextBoard, options) => {
+      viewControls.setBoard(nextBoard);
+      drawProofTracker.setBoardOptions(options);
+    },
+  });
+  const editor = createSettingsEditorController(ctx, {
+    onDraftChange: () => rosterImport.refreshPreview(),
+    onClose: () => {
+      tabSync.flush();
+    },
+    applySharedDraw: (draw) => shareLink.applySharedDrawSettings(draw),
+  });
+  const rosterImport = createRosterImportController(ctx, editor);
+  const shareLink = createShareLinkController(ctx, {
+    editor,
+    presets,
+    getProof: drawProofTracker.getProof,
+    armSeed: drawProofTracker.armSeed,
+    switchBoard: gameConfig.switchBoard,
+  });
+  const drawHistory = createDrawHistoryController(ctx, {
+    getProof: drawProofTracker.getProof,
+    getRosterName: presets.getActiveName,
+  });
+  const resultReveal = createResultRevealController(ctx, {
+    arrivalTimingTracker,
+    getProof: drawProofTracker.getProof,
+    onResult: drawHistory.record,
+    restart: () => sessionController.handleStartClick(),
+  });
+  const settingsBackup = createSettingsBackupController(ctx, { editor, presets, audioController });
+  const tabSync = createTabSyncController(ctx, {
+    editor,
+    presets,
+    audioController,
+    reloadAttendance: gameConfig.reloadAttendance,
+  });
+  const inquiryForm = createInquiryFormController(ctx);
+  const getLiveRankingView = createLiveRankingView(state, arrivalTimingTracker);
 
   function trackGameStartEvent(restartedFromRun: boolean) {
     const participantCount = getParticipantCount(state.totalToDrop, getTotalSelectedCount(state));
@@ -378,68 +297,8 @@ export function bootstrapGameApp() {
     });
   }
 
-  function trackResultOpenEvent(source: "auto" | "manual") {
-    const selectedCount = uiState.resultState.items.length;
-    if (!selectedCount) return;
-    const participantCount = getParticipantCount(state.totalToDrop, getTotalSelectedCount(state));
-    trackAnalyticsEvent(ANALYTICS_EVENTS.resultOpen, {
-      source,
-      selectedCount,
-      requestedCount: uiState.resultState.requestedCount,
-      participantCount,
-    });
-  }
-
-  function prepareAndOpenResultReveal() {
-    if (!state.totalToDrop || !state.finished.length) return;
-    arrivalTimingTracker.capture({
-      nowMs: performance.now(),
-      simNow: Number(state.t) || 0,
-      finished: state.finished,
-    });
-    const selected = selectLastFinishers(state.finished, uiState.winnerCount, state.totalToDrop);
-    const items = buildResultItems({
-      selected,
-      getWinnerPayload: (ballId) => catalogController.getWinnerPayload(ballId),
-      getArrivalTimeSeconds: (entry) => arrivalTimingTracker.getArrivalSeconds(entry),
-    });
-    uiState.resultState = buildResultStateFromItems(items, uiState.winnerCount);
-    trackResultOpenEvent("auto");
-  }
-
-  function getLiveCatalogForDraft() {
-    return cloneCatalogForDraft(catalogController.getCatalog() as unknown[]);
-  }
-
-  function getLiveCatalogView() {
-    return catalogController.getCatalog() as unknown as CatalogDraftItem[];
-  }
-
-  function ensureSettingsDraft() {
-    if (!uiState.settingsDraft) {
-      uiState.settingsDraft = getLiveCatalogForDraft();
-    }
-    return uiState.settingsDraft;
-  }
-
-  function recalcSettingsDirty() {
-    if (!uiState.settingsDraft) {
-      uiState.settingsDirty = false;
-      return;
-    }
-    uiState.settingsDirty =
-      catalogFingerprint(uiState.settingsDraft) !== catalogFingerprint(getLiveCatalogForDraft());
-  }
-
-  function closeSettingsEditor() {
-    uiState.settingsOpen = false;
-    uiState.settingsDirty = false;
-    uiState.settingsConfirmOpen = false;
-    uiState.settingsDraft = null;
-  }
-
   function refreshUiFromFrame() {
-    syncFinishTriggerRemaining();
+    gameConfig.syncFinishTriggerRemaining();
     syncLoopSpeed();
     const now = performance.now();
     arrivalTimingTracker.capture({
@@ -458,21 +317,38 @@ export function bootstrapGameApp() {
     refreshUi();
   }
 
+  function getEstimatedRaceSeconds(total: number): number | null {
+    if (total <= 0) return null;
+    const simSeconds = estimateRaceSeconds(uiState.boardLayout, uiState.raceLength, total, {
+      prize: uiState.prizeMode,
+    });
+    if (simSeconds == null) return null;
+    return Math.max(1, Math.round(simSeconds / Math.max(1, uiState.speedMultiplier)));
+  }
+
   refreshUi = () => {
-    syncFinishTriggerRemaining();
+    participantTags.syncFilter();
+    gameConfig.syncFinishTriggerRemaining();
     const total = getTotalSelectedCount(state);
     const inRun = state.mode === "playing" && !state.winner;
     const remainingToFinish = inRun ? Math.max(0, (Number(state.totalToDrop) || 0) - state.finished.length) : 0;
     const view = renderer.getViewState?.();
-    const visibleCatalog = uiState.settingsOpen ? ensureSettingsDraft() : getLiveCatalogView();
+    const visibleCatalog = editor.getVisibleCatalog();
     const winnerCountMax = getWinnerCountMaxForState();
     const clampedWinnerCount = clampResultCount(uiState.winnerCount, winnerCountMax);
     if (clampedWinnerCount !== uiState.winnerCount) {
       uiState.winnerCount = clampedWinnerCount;
     }
+    gameConfig.syncWinnerRule();
+    gameConfig.syncRepeatRule();
+    const remainingToDecide = inRun ? getRemainingToDecide(state) : 0;
     const statusTone = deriveStatusTone(state);
     const statusLabel = getStatusLabelByTone(statusTone);
-
+    const drawCommit =
+      drawProofTracker.getPendingCommitment() ??
+      (state.mode === "playing" ? drawProofTracker.getActiveCommitment() : null);
+    const drawProof = drawProofTracker.getProof();
+    const rosterPresets = presets.getStore();
     const nextSnapshot: UiSnapshot = {
       startDisabled: total <= 0,
       startLabel: inRun ? t("game.restart") : t("game.start"),
@@ -482,24 +358,50 @@ export function bootstrapGameApp() {
       statusLabel,
       statusTone,
       statusRemainingCount: inRun ? remainingToFinish : null,
-      lastFewRemaining: remainingToFinish > 0 && remainingToFinish <= 3 ? remainingToFinish : 0,
+      lastFewRemaining: remainingToDecide > 0 && remainingToDecide <= 3 ? remainingToDecide : 0,
       viewLockChecked: !!viewState.tailFocusOn,
       viewLockDisabled: !(state.mode === "playing" && state.released && view),
       resultDisabled: uiState.resultState.items.length <= 0,
       winnerCount: uiState.winnerCount,
       winnerCountMax,
       winnerCountWasClamped: uiState.winnerCountWasClamped,
+      winnerRule: { ...uiState.winnerRule },
+      repeatRule: { ...uiState.repeatRule },
+      repeatRuleOutcome: uiState.repeatRuleOutcome,
+      participantTags: participantTags.getTagsView(),
+      participantFilter: uiState.participantFilter,
+      activeParticipantCount: state.ballsCatalog.filter((ball: { id: string }) => isBallActive(state, ball.id)).length,
       startCaption: uiState.startCaption,
+      boardLayout: uiState.boardLayout,
+      raceLength: uiState.raceLength,
+      raceLengthAvailable: hasRaceLengthPresets(uiState.boardLayout),
+      estimatedRaceSeconds: getEstimatedRaceSeconds(total),
+      prizeModeAvailable: supportsPrizeSlots(uiState.boardLayout),
+      prizeMode: uiState.prizeMode,
+      prizeSlots: uiState.prizeSlots.map((slot) => ({ ...slot })),
+      exactReplay: uiState.exactReplay,
       resultState: {
         open: uiState.resultState.open,
         phase: uiState.resultState.phase,
         requestedCount: uiState.resultState.requestedCount,
         effectiveCount: uiState.resultState.effectiveCount,
         items: uiState.resultState.items.map((item) => ({ ...item })),
+        slotLabels: [...uiState.resultState.slotLabels],
       },
       settingsOpen: uiState.settingsOpen,
       settingsDirty: uiState.settingsDirty,
       settingsConfirmOpen: uiState.settingsConfirmOpen,
+      rosterImport: uiState.rosterImport,
+      avatarCrop: uiState.avatarCrop?.view ?? null,
+      shareLink: uiState.shareLink,
+      sharedDrawOffer: uiState.sharedDrawOffer?.view ?? null,
+      sharedDrawInDraft: !!uiState.sharedDrawInDraft,
+      settingsRestore: uiState.settingsRestore?.view ?? null,
+      tabSyncConflict: uiState.tabSyncConflict,
+      drawHistoryOpen: uiState.drawHistoryOpen,
+      drawHistory: uiState.drawHistory,
+      rosterPresets: rosterPresets.presets.map((preset) => ({ id: preset.id, name: preset.name })),
+      activeRosterPresetId: rosterPresets.activeId,
       bgmOn: audioController.isOn(),
       bgmTrack: audioController.getTrack(),
       inquiryOpen: uiState.inquiryOpen,
@@ -507,14 +409,17 @@ export function bootstrapGameApp() {
       inquiryStatus: uiState.inquiryStatus,
       inquiryForm: { ...uiState.inquiryForm },
       speedMultiplier: uiState.speedMultiplier,
-      balls: visibleCatalog.map((ball: CatalogDraftItem) => ({
+      drawCommitment: drawCommit?.commitment ?? "",
+      drawRevealedSeed: drawProof ? drawProof.replay.seed : null,
+      liveRanking: getLiveRankingView(),
+      balls: visibleCatalog.map((ball) => ({
         id: ball.id,
         name: ball.name,
         imageDataUrl: ball.imageDataUrl,
-        count: Number.isFinite(state.counts?.[ball.id])
-          ? Math.max(1, Math.min(99, Number(state.counts[ball.id]) || 1))
-          : 1,
+        count: editor.getVisibleBallCount(ball.id),
         locked: isBallControlLocked(),
+        tags: ball.tags ?? NO_TAGS,
+        active: isBallActive(state, ball.id),
       })),
     };
     renderer.setStartCaption?.(uiState.startCaption);
@@ -527,58 +432,108 @@ export function bootstrapGameApp() {
     const nextDefaultCaption = getDefaultStartCaption(nextLanguage);
     if (uiState.startCaption === previousDefaultCaption) {
       uiState.startCaption = nextDefaultCaption;
+      presets.updateActive({ startCaption: nextDefaultCaption });
     }
     catalogController.relocalizeCatalog?.(nextLanguage);
     currentLanguage = nextLanguage;
     refreshUi();
   });
 
+  // Saves never throw; the user still has to know when their roster or images were not kept.
+  const unsubscribeStorageErrors = subscribeStorageErrors(({ kind }) => {
+    showInquiryToast(t(kind === "quota" ? "storage.quotaExceeded" : "storage.unavailable"), "error", 4200);
+  });
+
+  // Physics runs in a worker when available; the worker also affords full quality for large crowds.
+  const physicsClient = createPhysicsWorkerClient({
+    state,
+    createWorker: () =>
+      typeof Worker === "undefined"
+        ? null
+        : new Worker(new URL("../game/physics-worker.ts", import.meta.url), { type: "module" }),
+    onFallback: () => showInquiryToast(t("board.physicsFallback"), "error", 3200),
+  });
+  // Decided at boot so a countdown commitment never goes stale; after a worker failure the client switches
+  // back to adaptive once the run it rebuilt is over.
+  state.physicsQuality = physicsClient.isWorkerAvailable() ? "full" : "adaptive";
+
   const sessionController = createSessionController({
     state,
     renderer,
     viewState,
     getTotalSelectedCount,
     makeRng,
-    startGame,
+    pickSeed: () => drawProofTracker.takeSeed(state),
+    commitNow: () => {
+      drawProofTracker.commitNext(state);
+    },
+    canStart: () => {
+      if (drawProofTracker.isCommitmentCurrent(state)) return true;
+      // The roster or drop position changed after the commitment was shown (or none was shown):
+      // publish the matching commitment now and let the next start use it.
+      drawProofTracker.commitNext(state);
+      showInquiryToast(t("board.recommitted"), "error", 3200);
+      refreshUi();
+      return false;
+    },
+    startGame: (target) => {
+      physicsClient.endRun();
+      startGame(target);
+    },
     dropAll,
-    resetGame,
+    resetGame: (target) => {
+      physicsClient.endRun();
+      resetGame(target);
+    },
     onPreStart: () => {
+      physicsClient.beginRun(drawProofTracker.beginRun(state));
       refreshUi();
     },
     onReset: () => {
       arrivalTimingTracker.reset();
       uiState.winnerCountWasClamped = false;
-      resetResultHistory();
+      resultReveal.resetHistory();
       syncLoopSpeed(true);
+      // A cleared board is when other tabs' changes that waited for the run come in.
+      tabSync.flush();
       refreshUi();
     },
     onUpdateControls: refreshUiFromFrame,
     onShowWinner: () => {
-      prepareAndOpenResultReveal();
+      drawProofTracker.reveal(state);
+      resultReveal.prepareAndOpen();
       syncLoopSpeed(true);
       refreshUi();
     },
   });
 
+  function runStart(start: () => void): void {
+    const wasInRun = state.mode === "playing" && !state.winner;
+    resultReveal.closePresentation();
+    resultReveal.resetHistory();
+    uiState.winnerCountWasClamped = false;
+    start();
+    if (state.mode === "playing" && state.released) {
+      arrivalTimingTracker.begin(performance.now(), Number(state.t) || 0);
+      trackGameStartEvent(wasInRun);
+    }
+    syncLoopSpeed(true);
+    refreshUi();
+  }
+
   const runActions: RunActions = {
-    handleStartClick: () => {
-      const wasInRun = state.mode === "playing" && !state.winner;
-      closeResultModalPresentation();
-      resetResultHistory();
-      uiState.winnerCountWasClamped = false;
-      sessionController.handleStartClick();
-      if (state.mode === "playing" && state.released) {
-        arrivalTimingTracker.begin(performance.now(), Number(state.t) || 0);
-        trackGameStartEvent(wasInRun);
-      }
-      syncLoopSpeed(true);
-      refreshUi();
-    },
+    handleStartClick: () => runStart(sessionController.handleStartClick),
     prepareRestartForCountdown: () => {
       sessionController.prepareRestartForCountdown();
       syncLoopSpeed(true);
       refreshUi();
     },
+    commitNextDraw: () => {
+      if (state.mode === "playing" && !state.winner) return;
+      if (getTotalSelectedCount(state) <= 0) return;
+      drawProofTracker.commitNext(state);
+      refreshUi();
+    },
     stopRunNow: () => {
       const inRun = state.mode === "playing" && !state.winner;
       if (!inRun) return false;
@@ -599,310 +554,6 @@ export function bootstrapGameApp() {
     },
   };
 
-  const gameConfigActions: GameConfigActions = {
-    setWinnerCount: (nextValue) => {
-      if (isBallControlLocked()) return;
-      const raw = Math.floor(Number(nextValue) || 1);
-      const max = getWinnerCountMaxForState();
-      const clamped = clampResultCount(raw, max);
-      uiState.winnerCount = clamped;
-      uiState.winnerCountWasClamped = raw !== clamped;
-      refreshUi();
-    },
-    setStartCaption: (value) => {
-      const nextValue = sanitizeStartCaption(value);
-      if (nextValue === uiState.startCaption) return;
-      uiState.startCaption = nextValue;
-      refreshUi();
-    },
-    toggleViewLock: (isOn) => {
-      const view = renderer.getViewState?.();
-      if (!view) return;
-      viewState.tailFocusOn = !!isOn;
-      if (viewState.tailFocusOn) renderer.clearCameraOverride?.();
-      else renderer.setCameraOverrideY?.(view.cameraY);
-      refreshUi();
-    },
-    setBallCount: (ballId, nextValue) => {
-      if (isBallControlLocked()) return;
-      setBallCount(state, ballId, nextValue);
-      catalogController.saveCounts(state.counts || {});
-      uiState.winnerCountWasClamped = false;
-      refreshUi();
-    },
-    adjustBallCount: (ballId, delta) => {
-      if (isBallControlLocked()) return;
-      setBallCount(state, ballId, getBallCount(state, ballId) + delta);
-      catalogController.saveCounts(state.counts || {});
-      uiState.winnerCountWasClamped = false;
-      refreshUi();
-    },
-  };
-
-  const catalogSettingsActions: CatalogSettingsActions = {
-    openSettings: () => {
-      uiState.settingsOpen = true;
-      uiState.settingsDirty = false;
-      uiState.settingsConfirmOpen = false;
-      uiState.settingsDraft = getLiveCatalogForDraft();
-      refreshUi();
-    },
-    closeSettings: () => {
-      if (!uiState.settingsOpen) return;
-      if (uiState.settingsDirty) {
-        uiState.settingsOpen = false;
-        uiState.settingsConfirmOpen = true;
-        refreshUi();
-        return;
-      }
-      closeSettingsEditor();
-      refreshUi();
-    },
-    applySettings: () => {
-      if (!uiState.settingsOpen || !uiState.settingsDraft || !uiState.settingsDirty) return false;
-      const changed = catalogController.replaceCatalog(uiState.settingsDraft);
-      uiState.settingsDraft = getLiveCatalogForDraft();
-      uiState.settingsDirty = false;
-      uiState.settingsConfirmOpen = false;
-      refreshUi();
-      return !!changed;
-    },
-    confirmDiscardSettings: () => {
-      closeSettingsEditor();
-      refreshUi();
-    },
-    cancelDiscardSettings: () => {
-      if (!uiState.settingsConfirmOpen) return;
-      uiState.settingsConfirmOpen = false;
-      uiState.settingsOpen = true;
-      refreshUi();
-    },
-    addCatalogBall: () => {
-      if (!uiState.settingsOpen || isBallControlLocked()) return false;
-      const draft = ensureSettingsDraft();
-      const library = getBallLibrary();
-      if (draft.length >= library.length) return false;
-      const used = new Set(draft.map((ball) => ball.id));
-      const nextBall = library.find((ball) => !used.has(ball.id));
-      if (!nextBall) return false;
-      uiState.settingsDraft = [...draft, structuredClone(nextBall)];
-      recalcSettingsDirty();
-      refreshUi();
-      return true;
-    },
-    removeCatalogBall: (ballId) => {
-      if (!uiState.settingsOpen || isBallControlLocked()) return false;
-      const draft = ensureSettingsDraft();
-      if (draft.length <= 1) return false;
-      const next = draft.filter((ball) => ball.id !== ballId);
-      if (next.length === draft.length) return false;
-      uiState.settingsDraft = next;
-      recalcSettingsDirty();
-      refreshUi();
-      return true;
-    },
-    reorderCatalogBall: (sourceBallId, targetBallId) => {
-      if (isBallControlLocked()) return false;
-      if (uiState.settingsOpen) {
-        const draft = ensureSettingsDraft();
-        const next = reorderCatalogDraft(draft, sourceBallId, targetBallId);
-        if (!next) return false;
-        uiState.settingsDraft = next;
-        recalcSettingsDirty();
-        refreshUi();
-        return true;
-      }
-
-      const live = getLiveCatalogView();
-      const next = reorderCatalogDraft(live, sourceBallId, targetBallId);
-      if (!next) return false;
-      const changed = catalogController.replaceCatalog(next);
-      if (!changed) return false;
-      refreshUi();
-      return true;
-    },
-    restoreDefaultCatalog: () => {
-      if (!uiState.settingsOpen || isBallControlLocked()) return false;
-      uiState.settingsDraft = structuredClone(getDefaultBalls());
-      recalcSettingsDirty();
-      refreshUi();
-      return true;
-    },
-    setCatalogBallName: (ballId, name) => {
-      if (!uiState.settingsOpen || isBallControlLocked()) return false;
-      const draft = ensureSettingsDraft();
-      const idx = draft.findIndex((ball) => ball.id === ballId);
-      if (idx < 0) return false;
-      const target = draft[idx];
-      const nextName = sanitizeBallName(name, target.name);
-      const shouldSyncAvatar = isSystemBallAvatarUrl(target.imageDataUrl);
-      const nextImageDataUrl = shouldSyncAvatar
-        ? buildSystemBallImageDataUrl({
-            ballId: target.id,
-            name: nextName,
-            fallbackImageDataUrl: target.imageDataUrl,
-            tint: target.tint,
-          })
-        : target.imageDataUrl;
-
-      if (nextName === target.name && nextImageDataUrl === target.imageDataUrl) return false;
-      const next = draft.slice();
-      next[idx] = {
-        ...target,
-        name: nextName,
-        imageDataUrl: nextImageDataUrl,
-      };
-      uiState.settingsDraft = next;
-      recalcSettingsDirty();
-      refreshUi();
-      return true;
-    },
-    setCatalogBallImage: async (ballId, file) => {
-      if (!uiState.settingsOpen || isBallControlLocked()) return false;
-      if (!(file instanceof File)) return false;
-      let dataUrl = "";
-      try {
-        dataUrl = await fileToDataUrl(file);
-      } catch (err) {
-        const message = err instanceof Error && err.message ? err.message : t("error.uploadFailed");
-        showInquiryToast(message, "error", 2200);
-        refreshUi();
-        return false;
-      }
-      if (!isDataImageUrl(dataUrl)) return false;
-      const draft = ensureSettingsDraft();
-      const idx = draft.findIndex((ball) => ball.id === ballId);
-      if (idx < 0) return false;
-      const target = draft[idx];
-      if (target.imageDataUrl === dataUrl) return false;
-      const next = draft.slice();
-      next[idx] = { ...target, imageDataUrl: dataUrl };
-      uiState.settingsDraft = next;
-      recalcSettingsDirty();
-      refreshUi();
-      return true;
-    },
-  };
-
-  const resultActions: ResultActions = {
-    openResultModal: () => {
-      if (!uiState.resultState.items.length) return false;
-      const wasOpen = uiState.resultState.open;
-      uiState.resultState.open = true;
-      if (!wasOpen) trackResultOpenEvent("manual");
-      refreshUi();
-      return true;
-    },
-    closeResultModal: () => {
-      closeResultModalPresentation();
-      refreshUi();
-    },
-    skipResultReveal: () => {
-      if (uiState.resultState.phase !== "spinning") return;
-      completeResultSpin();
-      refreshUi();
-    },
-    completeResultSpin: () => {
-      if (uiState.resultState.phase !== "spinning") return;
-      completeResultSpin();
-      refreshUi();
-    },
-    copyResults: async () => {
-      const text = toResultCopyText(uiState.resultState.items);
-      if (!text) return false;
-      const copied = await copyTextWithFallback(text);
-      if (copied) {
-        trackAnalyticsEvent(ANALYTICS_EVENTS.resultCopy, {
-          selectedCount: uiState.resultState.items.length,
-          requestedCount: uiState.resultState.requestedCount,
-        });
-        showInquiryToast(t("toast.resultCopied"), "success", 1800);
-      } else {
-        showInquiryToast(t("toast.resultCopyFailed"), "error", 2200);
-      }
-      refreshUi();
-      return copied;
-    },
-    restartFromResult: () => {
-      closeResultModalPresentation();
-      resetResultHistory();
-      uiState.winnerCountWasClamped = false;
-      sessionController.handleStartClick();
-      syncLoopSpeed(true);
-      refreshUi();
-    },
-  };
-
-  const inquiryActions: InquiryActions = {
-    openInquiry: () => {
-      uiState.inquiryOpen = true;
-      uiState.inquirySubmitting = false;
-      uiState.inquiryStatus = "";
-      uiState.inquiryOpenedAt = Date.now();
-      uiState.inquiryForm = { ...EMPTY_INQUIRY_FORM };
-      refreshUi();
-    },
-    closeInquiry: () => {
-      uiState.inquiryOpen = false;
-      uiState.inquirySubmitting = false;
-      uiState.inquiryStatus = "";
-      refreshUi();
-    },
-    setInquiryField: (field: InquiryField, value: string) => {
-      if (!Object.prototype.hasOwnProperty.call(uiState.inquiryForm, field)) return false;
-      uiState.inquiryForm = {
-        ...uiState.inquiryForm,
-        [field]: String(value || ""),
-      };
-      refreshUi();
-      return true;
-    },
-    submitInquiry: async (): Promise<InquirySubmitResult> => {
-      if (uiState.inquirySubmitting) {
-        return { ok: false, message: t("inquiry.alreadySubmitting") };
-      }
-
-      const validated = validateInquiryInput(uiState.inquiryForm) as InquiryValidationResult;
-      if (!validated.ok) {
-        uiState.inquiryStatus = validated.message;
-        refreshUi();
-        return { ok: false, field: validated.field, message: validated.message };
-      }
-
-      uiState.inquirySubmitting = true;
-      uiState.inquiryStatus = t("inquiry.sendingStatus");
-      refreshUi();
-
-      try {
-        const result = (await submitInquiry({
-          ...validated.data,
-          openedAt: uiState.inquiryOpenedAt || Date.now(),
-        })) as { ok: boolean; message: string };
-
-        if (!result.ok) {
-          uiState.inquiryStatus = result.message;
-          showInquiryToast(result.message, "error", 2600);
-          return { ok: false, message: result.message };
-        }
-
-        uiState.inquiryOpen = false;
-        uiState.inquiryStatus = "";
-        uiState.inquiryOpenedAt = 0;
-        uiState.inquiryForm = { ...EMPTY_INQUIRY_FORM };
-        showInquiryToast(t("inquiry.sendDone"));
-        return { ok: true };
-      } catch {
-        const message = t("error.network");
-        uiState.inquiryStatus = message;
-        showInquiryToast(t("toast.networkError"), "error", 2600);
-        return { ok: false, message };
-      } finally {
-        uiState.inquirySubmitting = false;
-        refreshUi();
-      }
-    },
-  };
-
   const audioActions: AudioActions = {
     toggleBgm: () => {
       audioController.toggle({ autoplay: true });
@@ -916,21 +567,33 @@ export function bootstrapGameApp() {
 
   setUiActions({
     ...runActions,
-    ...gameConfigActions,
-    ...catalogSettingsActions,
-    ...resultActions,
-    ...inquiryActions,
+    ...gameConfig.actions,
+    ...participantTags.actions,
+    ...editor.actions,
+    ...rosterImport.actions,
+    ...presets.actions,
+    ...resultReveal.actions,
+    ...drawHistory.actions,
+    ...shareLink.actions,
+    ...settingsBackup.actions,
+    ...tabSync.actions,
+    ...inquiryForm.actions,
     ...audioActions,
   });
 
   mountKeyboardControls({
     getMode: () => state.mode,
-    tryStart: sessionController.tryStart,
+    tryStart: () => {
+      runStart(sessionController.commitAndStart);
+      return state.mode === "playing";
+    },
   });
 
   const loopController = createLoopController({
     state,
     stepFn: step,
+    advanceSteps: physicsClient.advance,
+    isDeterministic: () => state.board.deterministic,
     renderer,
     getBallsCatalog: catalogController.getCatalog,
     getImagesById: catalogController.getImagesById,
@@ -948,6 +611,7 @@ export function bootstrapGameApp() {
     renderer,
     snapshotForText,
     tickFixed: loopController.tickFixed,
+    getReplayRecord: drawProofTracker.getReplayRecord,
   });
 
   loopController.mountResizeListeners();
@@ -969,12 +633,14 @@ export function bootstrapGameApp() {
     canvas,
     canvasCoordReadoutEl,
     canvasCoordCopyBtn,
+    boardEditorEl,
     updateControls: refreshUi,
   });
 
   loopController.startAnimationLoop();
 
   audioController.restoreFromStorage();
+  shareLink.readSharedDrawFromUrl();
   refreshUi();
 
   return {
@@ -982,7 +648,10 @@ export function bootstrapGameApp() {
     dispose: () => {
       syncLoopSpeed(true);
       unsubscribeLanguage();
+      unsubscribeStorageErrors();
+      tabSync.dispose();
       viewControls.dispose?.();
+      physicsClient.dispose();
     },
   };
 }
@@ -0,0 +1,85 @@
+import { buildRosterFingerprint, type DrawProof } from "../game/draw-proof.ts";
+import {
+  createDrawHistoryId,
+  drawHistoryToCsv,
+  drawHistoryToJson,
+  filterDrawHistory,
+  type DrawHistoryEntry,
+} from "../game/draw-history.ts";
+import { appendStoredDrawHistory, loadDrawHistory } from "../ui/storage.ts";
+import { showInquiryToast } from "../ui/inquiry.js";
+import { t } from "../i18n/runtime";
+import type { GameAppContext } from "./app-context";
+import { copyTextWithFallback, downloadJsonFile, downloadTextFile } from "./browser-io";
+import { toResultCopyText } from "./result-reveal-controller";
+import type { DrawHistoryActions, ResultUiItem } from "./ui-store";
+
+/**
+ * Completed draws: `record` appends a shown result to the stored history (other tabs' draws
+ * included), and the history dialog copies or exports them.
+ */
+export function createDrawHistoryController(
+  ctx: GameAppContext,
+  opts: {
+    getProof: () => DrawProof | null;
+    getRosterName: () => string;
+  }
+) {
+  const { state, uiState } = ctx;
+
+  function record(items: ResultUiItem[], slotLabels: string[]) {
+    if (!items.length) return;
+    const proof = opts.getProof();
+    const at = new Date().toISOString();
+    const seed = proof ? proof.replay.seed : Number(state.seed) >>> 0;
+    const entry: DrawHistoryEntry = {
+      id: createDrawHistoryId(at, seed),
+      at,
+      rosterName: opts.getRosterName(),
+      rosterFingerprint: proof?.rosterFingerprint ?? buildRosterFingerprint(state.ballsCatalog, state.counts || {}),
+      seed,
+      layout: uiState.boardLayout,
+      raceLength: uiState.raceLength,
+      winnerRule: { ...uiState.resultWinnerRule },
+      winnerCount: uiState.winnerCount,
+      participantCount: Number(state.totalToDrop) || 0,
+      slotLabels: [...slotLabels],
+      winners: items.map(({ rank, ballId, name, finishedAt, slot, label }) => ({ rank, ballId, name, finishedAt, slot, label })),
+    };
+    uiState.drawHistory = appendStoredDrawHistory(entry);
+  }
+
+  const actions: DrawHistoryActions = {
+    openDrawHistory: () => {
+      // Another tab may have finished draws since this one loaded.
+      uiState.drawHistory = loadDrawHistory();
+      uiState.drawHistoryOpen = true;
+      ctx.refreshUi();
+    },
+    closeDrawHistory: () => {
+      uiState.drawHistoryOpen = false;
+      ctx.refreshUi();
+    },
+    copyDrawHistoryEntry: async (entryId) => {
+      const entry = uiState.drawHistory.find((item) => item.id === entryId);
+      if (!entry) return false;
+      const items = entry.winners.map((winner) => ({ ...winner, img: "" }));
+      const copied = await copyTextWithFallback(toResultCopyText(items, entry.slotLabels, entry.winnerRule));
+      if (copied) showInquiryToast(t("toast.resultCopied"), "success", 1800);
+      else showInquiryToast(t("toast.resultCopyFailed"), "error", 2200);
+      return copied;
+    },
+    exportDrawHistory: (format, filter) => {
+      const entries = filterDrawHistory(uiState.drawHistory, filter);
+      if (!entries.length) return false;
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (format === "csv") {
+        // BOM so spreadsheet apps open Korean names as UTF-8.
+        return downloadTextFile(`degururu-history-${stamp}.csv`, `\uFEFF${drawHistoryToCsv(entries)}`, "text/csv");
+      }
+      return downloadJsonFile(`degururu-history-${stamp}.json`, drawHistoryToJson(entries));
+    },
+  };
+
+  return { record, actions };
+}
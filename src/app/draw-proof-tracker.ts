@@ -0,0 +1,135 @@
+import type { BoardOptions, GameState } from "../game/engine.ts";
+import {
+  commitDraw,
+  createDrawSecret,
+  revealDrawProof,
+  type DrawCommitment,
+  type DrawProof,
+  type DrawSecret,
+} from "../game/draw-proof.ts";
+import { createReplayRecord, type ReplayRecord } from "../game/replay.ts";
+
+export type DrawProofTracker = {
+  commitNext: (state: GameState) => DrawCommitment;
+  isCommitmentCurrent: (state: GameState) => boolean;
+  takeSeed: (state: GameState) => number;
+  beginRun: (state: GameState) => ReplayRecord;
+  reveal: (state: GameState) => DrawProof | null;
+  getPendingCommitment: () => DrawCommitment | null;
+  getActiveCommitment: () => DrawCommitment | null;
+  getProof: () => DrawProof | null;
+  getReplayRecord: () => ReplayRecord | null;
+  setBoardOptions: (next: BoardOptions) => void;
+  armSeed: (seed: number | null) => void;
+};
+
+type CommittedDraw = {
+  secret: DrawSecret;
+  record: ReplayRecord;
+  commit: DrawCommitment;
+};
+
+/**
+ * Track the commit/reveal lifecycle of draws.
+ *
+ * - `commitNext` publishes a commitment before the drop (countdown); a shown one still current is kept
+ * - `isCommitmentCurrent` gates the start: a drop must match the commitment the audience saw
+ * - `takeSeed` hands the committed seed to the session controller
+ * - `beginRun` re-commits if the roster changed after the commitment (only for callers that skip the gate)
+ * - `reveal` builds the downloadable proof once the winner is known
+ * - `setBoardOptions` follows the layout picker; a shown commitment for the old board is dropped
+ * - `armSeed` takes a shared link's seed; the next new commitment uses it once
+ */
+export function createDrawProofTracker(opts: {
+  boardOptions: BoardOptions;
+  createSecret?: () => DrawSecret;
+}): DrawProofTracker {
+  const { createSecret = createDrawSecret } = opts;
+  let boardOptions = opts.boardOptions;
+
+  let pending: CommittedDraw | null = null;
+  let active: CommittedDraw | null = null;
+  let proof: DrawProof | null = null;
+  let armedSeed: number | null = null;
+
+  function nextSecret(): DrawSecret {
+    const secret = createSecret();
+    if (armedSeed == null) return secret;
+    const seed = armedSeed;
+    armedSeed = null;
+    return { ...secret, seed };
+  }
+
+  function commitSecret(state: GameState, secret: DrawSecret): CommittedDraw {
+    const record = { ...createReplayRecord(state, boardOptions), seed: secret.seed };
+    return { secret, record, commit: commitDraw(record, secret.nonce) };
+  }
+
+  function matches(state: GameState, draw: CommittedDraw): boolean {
+    const record = { ...createReplayRecord(state, boardOptions), seed: draw.secret.seed };
+    return commitDraw(record, draw.secret.nonce).commitment === draw.commit.commitment;
+  }
+
+  function commitNext(state: GameState): DrawCommitment {
+    if (!pending || !matches(state, pending)) pending = commitSecret(state, nextSecret());
+    return pending.commit;
+  }
+
+  function isCommitmentCurrent(state: GameState): boolean {
+    return !!pending && matches(state, pending);
+  }
+
+  function takeSeed(state: GameState): number {
+    const next = pending ?? commitSecret(state, nextSecret());
+    pending = next;
+    return next.secret.seed;
+  }
+
+  function beginRun(state: GameState): ReplayRecord {
+    const record = createReplayRecord(state, boardOptions);
+    const prev = pending;
+    let next: CommittedDraw;
+    if (prev && prev.secret.seed === record.seed && matches(state, prev)) {
+      next = prev;
+    } else {
+      // Roster or drop position changed after the commitment was shown: commit again before the drop.
+      next = commitSecret(state, { seed: record.seed, nonce: createSecret().nonce });
+    }
+    active = next;
+    pending = null;
+    proof = null;
+    return next.record;
+  }
+
+  function reveal(state: GameState): DrawProof | null {
+    if (!active || !state.winner || active.record.seed !== state.seed >>> 0) return null;
+    if (proof) return proof;
+    proof = revealDrawProof({
+      commit: active.commit,
+      record: active.record,
+      nonce: active.secret.nonce,
+      finished: state.finished,
+      winner: state.winner,
+    });
+    return proof;
+  }
+
+  return {
+    commitNext,
+    isCommitmentCurrent,
+    takeSeed,
+    beginRun,
+    reveal,
+    getPendingCommitment: () => pending?.commit ?? null,
+    getActiveCommitment: () => active?.commit ?? null,
+    getProof: () => proof,
+    getReplayRecord: () => active?.record ?? null,
+    setBoardOptions: (next) => {
+      boardOptions = next;
+      pending = null;
+    },
+    armSeed: (seed) => {
+      armedSeed = seed;
+    },
+  };
+}
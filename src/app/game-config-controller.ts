@@ -0,0 +1,251 @@
+import {
+  getBallCount,
+  getTotalSelectedCount,
+  isBallActive,
+  setBallCount,
+  setBoard,
+  setWinnerRule,
+  clampWinnerRank,
+  DEFAULT_WINNER_RULE,
+  type Board,
+  type BoardOptions,
+} from "../game/engine.ts";
+import {
+  createGameBoard,
+  getBoardOptions,
+  hasRaceLengthPresets,
+  isBoardLayout,
+  isRaceLength,
+  normalizePrizeSlots,
+  PRIZE_SLOT_MAX,
+  PRIZE_SLOT_MIN,
+  supportsPrizeSlots,
+  type BuiltinBoardLayout,
+  type PrizeSlot,
+  type RaceLength,
+} from "../game/board-config.ts";
+import { applyRepeatRule, normalizeRepeatRule } from "../game/repeat-rules.ts";
+import { computeFinishTriggerRemaining } from "../game/finish-tension.ts";
+import {
+  loadCountsBeforeAbsence,
+  saveBoardLayout,
+  saveCountsBeforeAbsence,
+  saveExactReplay,
+  savePrizeSlots,
+  saveRaceLength,
+  saveRepeatRule,
+  saveWinnerRule,
+} from "../ui/storage.ts";
+import type { GameAppContext } from "./app-context";
+import { getParticipantCount, sanitizeStartCaption } from "./game-flow-selectors";
+import type { RosterPresetController } from "./roster-preset-controller";
+import { clampResultCount } from "./ui-selectors";
+import type { GameConfigActions } from "./ui-store";
+
+/**
+ * The draw settings on the main screen: winner count and rule, anti-repeat rule, caption,
+ * participant counts and attendance, and the board (layout, length, prize slots, exact replay).
+ *
+ * - the `sync*` helpers mirror the settings into the game state before each snapshot; a running
+ *   draw keeps what it started with
+ * - `switchBoard` rebuilds the board and tells the view and the proof tracker (`onBoardChange`)
+ */
+export function createGameConfigController(
+  ctx: GameAppContext,
+  opts: {
+    presets: RosterPresetController;
+    renderer: any;
+    viewState: { tailFocusOn: boolean };
+    onBoardChange: (board: Board, options: BoardOptions) => void;
+  }
+) {
+  const { state, uiState, catalogController } = ctx;
+  const { presets, renderer, viewState } = opts;
+  /** Counts of participants marked absent, restored when they are marked present again. */
+  let countsBeforeAbsence = loadCountsBeforeAbsence();
+
+  function syncFinishTriggerRemaining() {
+    const participantCount = getParticipantCount(state.totalToDrop, getTotalSelectedCount(state));
+    const winnerCount = clampResultCount(uiState.winnerCount, Math.max(1, participantCount));
+    state.finishTriggerRemaining = computeFinishTriggerRemaining(participantCount, winnerCount);
+  }
+
+  function syncWinnerRule() {
+    if (ctx.isBallControlLocked()) return;
+    // Slot results list every finisher, so they always wait for the last arrival.
+    const rule = state.board.slots.length > 1 ? DEFAULT_WINNER_RULE : uiState.winnerRule;
+    setWinnerRule(state, rule, uiState.winnerCount);
+  }
+
+  /** Re-derive the anti-repeat adjustments for the next draw from the rule, roster and history. */
+  function syncRepeatRule() {
+    if (ctx.isBallControlLocked()) return;
+    // Slot results list every finisher, so there is no winner to keep from repeating.
+    const rule = state.board.slots.length > 1 ? normalizeRepeatRule(null) : uiState.repeatRule;
+    const next = applyRepeatRule({
+      rule,
+      participants: state.ballsCatalog
+        .filter((ball: { id: string }) => isBallActive(state, ball.id))
+        .map((ball: { id: string; name: string }) => ({
+          id: ball.id,
+          name: ball.name,
+          count: getBallCount(state, ball.id),
+        })),
+      history: uiState.drawHistory,
+      rosterName: presets.getActiveName(),
+      winnerCount: uiState.winnerCount,
+    });
+    // Keep the old object when nothing changed so the snapshot stays equal.
+    if (JSON.stringify(next) === JSON.stringify(uiState.repeatRuleOutcome)) return;
+    uiState.repeatRuleOutcome = next;
+    state.entryAdjustments = { ...next.adjustments };
+  }
+
+  /** Another tab changed who is absent. */
+  function reloadAttendance() {
+    countsBeforeAbsence = loadCountsBeforeAbsence();
+  }
+
+  function switchBoard(layout: BuiltinBoardLayout, length: RaceLength) {
+    const prizeSlots = uiState.prizeMode ? uiState.prizeSlots : null;
+    const nextBoard = createGameBoard(layout, length, prizeSlots, uiState.exactReplay);
+    // Clears a finished run (result, caches) the same way a restart does.
+    ctx.prepareRestart();
+    setBoard(state, nextBoard);
+    opts.onBoardChange(nextBoard, getBoardOptions(layout, length, prizeSlots, uiState.exactReplay));
+    uiState.boardLayout = layout;
+    uiState.raceLength = length;
+  }
+
+  function applyPrizeSlots(prizeMode: boolean, prizeSlots: PrizeSlot[]) {
+    uiState.prizeMode = prizeMode;
+    uiState.prizeSlots = prizeSlots;
+    savePrizeSlots({ enabled: prizeMode, slots: prizeSlots });
+    if (supportsPrizeSlots(uiState.boardLayout)) switchBoard(uiState.boardLayout, uiState.raceLength);
+    ctx.refreshUi();
+  }
+
+  const actions: GameConfigActions = {
+    setWinnerCount: (nextValue) => {
+      if (ctx.isBallControlLocked()) return;
+      const raw = Math.floor(Number(nextValue) || 1);
+      const max = ctx.getWinnerCountMax();
+      const clamped = clampResultCount(raw, max);
+      uiState.winnerCount = clamped;
+      uiState.winnerCountWasClamped = raw !== clamped;
+      presets.updateActive({ winnerCount: clamped });
+      ctx.refreshUi();
+    },
+    setWinnerRule: (rule) => {
+      if (ctx.isBallControlLocked()) return;
+      uiState.winnerRule = rule.kind === "rank" ? { kind: "rank", rank: clampWinnerRank(rule.rank) } : rule;
+      saveWinnerRule(uiState.winnerRule);
+      ctx.refreshUi();
+    },
+    setRepeatRule: (rule) => {
+      if (ctx.isBallControlLocked()) return;
+      uiState.repeatRule = normalizeRepeatRule(rule);
+      saveRepeatRule(uiState.repeatRule);
+      ctx.refreshUi();
+    },
+    setStartCaption: (value) => {
+      const nextValue = sanitizeStartCaption(value);
+      if (nextValue === uiState.startCaption) return;
+      uiState.startCaption = nextValue;
+      presets.updateActive({ startCaption: nextValue });
+      ctx.refreshUi();
+    },
+    toggleViewLock: (isOn) => {
+      const view = renderer.getViewState?.();
+      if (!view) return;
+      viewState.tailFocusOn = !!isOn;
+      if (viewState.tailFocusOn) renderer.clearCameraOverride?.();
+      else renderer.setCameraOverrideY?.(view.cameraY);
+      ctx.refreshUi();
+    },
+    setBallCount: (ballId, nextValue) => {
+      if (ctx.isBallControlLocked()) return;
+      setBallCount(state, ballId, nextValue);
+      catalogController.saveCounts(state.counts || {});
+      uiState.winnerCountWasClamped = false;
+      ctx.refreshUi();
+    },
+    adjustBallCount: (ballId, delta) => {
+      if (ctx.isBallControlLocked()) return;
+      setBallCount(state, ballId, getBallCount(state, ballId) + delta);
+      catalogController.saveCounts(state.counts || {});
+      uiState.winnerCountWasClamped = false;
+      ctx.refreshUi();
+    },
+    toggleBallAttendance: (ballId) => {
+      if (ctx.isBallControlLocked()) return;
+      const count = getBallCount(state, ballId);
+      const countBefore = countsBeforeAbsence[ballId] ?? 1;
+      // Drops this participant's entry and those of participants no longer on the roster.
+      const others = Object.fromEntries(
+        Object.entries(countsBeforeAbsence).filter(([id]) => id !== ballId && id in (state.counts || {}))
+      );
+      if (count > 0) {
+        countsBeforeAbsence = { ...others, [ballId]: count };
+        setBallCount(state, ballId, 0);
+      } else {
+        countsBeforeAbsence = others;
+        setBallCount(state, ballId, countBefore);
+      }
+      saveCountsBeforeAbsence(countsBeforeAbsence);
+      catalogController.saveCounts(state.counts || {});
+      uiState.winnerCountWasClamped = false;
+      ctx.refreshUi();
+    },
+    setBoardLayout: (layout) => {
+      if (ctx.isBallControlLocked() || !isBoardLayout(layout) || layout === uiState.boardLayout) return;
+      switchBoard(layout, uiState.raceLength);
+      saveBoardLayout(layout);
+      ctx.refreshUi();
+    },
+    setRaceLength: (length) => {
+      if (ctx.isBallControlLocked() || !isRaceLength(length) || length === uiState.raceLength) return;
+      if (!hasRaceLengthPresets(uiState.boardLayout)) return;
+      switchBoard(uiState.boardLayout, length);
+      saveRaceLength(length);
+      ctx.refreshUi();
+    },
+    setPrizeMode: (isOn) => {
+      if (ctx.isBallControlLocked() || !!isOn === uiState.prizeMode) return;
+      applyPrizeSlots(!!isOn, uiState.prizeSlots);
+    },
+    setPrizeSlotCount: (count) => {
+      if (ctx.isBallControlLocked()) return;
+      const nextCount = Math.max(PRIZE_SLOT_MIN, Math.min(PRIZE_SLOT_MAX, Math.floor(Number(count) || 0)));
+      if (nextCount === uiState.prizeSlots.length) return;
+      const padded = Array.from(
+        { length: nextCount },
+        (_, i) => uiState.prizeSlots[i] ?? { label: `S${i + 1}`, width: 1 }
+      );
+      applyPrizeSlots(uiState.prizeMode, normalizePrizeSlots(padded) ?? uiState.prizeSlots);
+    },
+    setPrizeSlot: (index, patch) => {
+      if (ctx.isBallControlLocked() || !uiState.prizeSlots[index]) return;
+      const edited = uiState.prizeSlots.map((slot, i) => (i === index ? { ...slot, ...patch } : slot));
+      const next = normalizePrizeSlots(edited);
+      if (!next || JSON.stringify(next) === JSON.stringify(uiState.prizeSlots)) return;
+      applyPrizeSlots(uiState.prizeMode, next);
+    },
+    setExactReplay: (isOn) => {
+      if (ctx.isBallControlLocked() || !!isOn === uiState.exactReplay) return;
+      uiState.exactReplay = !!isOn;
+      saveExactReplay(uiState.exactReplay);
+      switchBoard(uiState.boardLayout, uiState.raceLength);
+      ctx.refreshUi();
+    },
+  };
+
+  return {
+    syncFinishTriggerRemaining,
+    syncWinnerRule,
+    syncRepeatRule,
+    reloadAttendance,
+    switchBoard,
+    actions,
+  };
+}
@@ -103,6 +103,8 @@ export function getFinishTensionSnapshot(params: {
   released: boolean;
   totalToDrop: number;
   finishedCount: number;
+  /** Arrivals still needed under the winner rule; defaults to everyone left (the "last arrival" rule). */
+  remainingToDecide?: number;
   finishTriggerRemaining: number;
   marbles: FinishTensionMarble[];
   worldH: number;
@@ -113,6 +115,7 @@ export function getFinishTensionSnapshot(params: {
     released,
     totalToDrop,
     finishedCount,
+    remainingToDecide,
     finishTriggerRemaining,
     marbles,
     worldH,
@@ -121,7 +124,7 @@ export function getFinishTensionSnapshot(params: {
   const inRun = mode === "playing" && !hasWinner && released;
   if (!inRun) return { active: false, remaining: 0, progress: 0 };
 
-  const remaining = Math.max(0, (Number(totalToDrop) || 0) - finishedCount);
+  const remaining = Math.max(0, remainingToDecide ?? (Number(totalToDrop) || 0) - finishedCount);
   const triggerRemaining = Math.max(1, Number(finishTriggerRemaining) || 3);
   if (remaining <= 0 || remaining > triggerRemaining) {
     return { active: false, remaining, progress: 0 };
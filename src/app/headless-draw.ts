@@ -0,0 +1,201 @@
+import {
+  makeBoard,
+  makeGameState,
+  setBallCount,
+  setWinnerRule,
+  clampWinnerRank,
+  DEFAULT_WINNER_RULE,
+  type BallCatalogItem,
+  type BoardLayout,
+  type WinnerRule,
+} from "../game/engine.ts";
+import { BOARD_OPTIONS_BY_LAYOUT, isBoardLayout, type BuiltinBoardLayout } from "../game/board-config.ts";
+import type { BoardDefinition } from "../game/board-definition.ts";
+import { createReplayRecord, replayRun, type ReplayRecord } from "../game/replay.ts";
+import { sanitizeBallName } from "./game-flow-selectors";
+import { buildResultItems } from "./result-presentation";
+import { clampResultCount, getWinnerPlaceNumber, selectWinnersByRule } from "./ui-selectors";
+import type { ResultUiItem } from "./ui-store";
+
+export type HeadlessRosterEntry = {
+  ball: BallCatalogItem;
+  count: number;
+};
+
+export type HeadlessDrawOptions = {
+  roster: HeadlessRosterEntry[];
+  winnerCount?: number;
+  winnerRule?: WinnerRule;
+  layout?: BuiltinBoardLayout;
+  /** Data-driven board; takes precedence over `layout`. */
+  board?: BoardDefinition;
+  seed: number;
+  maxSteps?: number;
+  /** Build a bit-exact board so the record replays identically in any browser. */
+  deterministic?: boolean;
+};
+
+export type HeadlessDrawResult = {
+  seed: number;
+  layout: BoardLayout;
+  participantCount: number;
+  winnerCount: number;
+  winnerRule: WinnerRule;
+  simSeconds: number;
+  steps: number;
+  items: ResultUiItem[];
+  replay: ReplayRecord;
+};
+
+const DEFAULT_TINT = "#ffffff";
+const MAX_ENTRY_COUNT = 99;
+
+export { isBoardLayout };
+
+function toRosterEntry(raw: unknown, index: number, where: string): HeadlessRosterEntry {
+  const fallbackId = `p${index + 1}`;
+  if (typeof raw === "string") {
+    const name = sanitizeBallName(raw, "");
+    if (!name) throw new Error(`${where}: empty name`);
+    return { ball: { id: fallbackId, name, imageDataUrl: "", tint: DEFAULT_TINT }, count: 1 };
+  }
+  if (!raw || typeof raw !== "object") throw new Error(`${where}: expected a name or an object`);
+  const item = raw as Record<string, unknown>;
+  const name = sanitizeBallName(item.name, "");
+  if (!name) throw new Error(`${where}.name: must be a non-empty string`);
+  const count = item.count == null ? 1 : Number(item.count);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_ENTRY_COUNT) {
+    throw new Error(`${where}.count: must be an integer between 1 and ${MAX_ENTRY_COUNT}`);
+  }
+  return {
+    ball: {
+      id: typeof item.id === "string" && item.id.trim() ? item.id.trim() : fallbackId,
+      name,
+      imageDataUrl: typeof item.imageDataUrl === "string" ? item.imageDataUrl : "",
+      tint: typeof item.tint === "string" ? item.tint : DEFAULT_TINT,
+    },
+    count,
+  };
+}
+
+function parseRosterLine(line: string, index: number, lineNo: number): HeadlessRosterEntry {
+  const comma = line.lastIndexOf(",");
+  const countText = comma >= 0 ? line.slice(comma + 1).trim() : "";
+  if (comma >= 0 && /^\d+$/.test(countText)) {
+    return toRosterEntry({ name: line.slice(0, comma), count: Number(countText) }, index, `line ${lineNo}`);
+  }
+  return toRosterEntry(line, index, `line ${lineNo}`);
+}
+
+/**
+ * Parse a roster file.
+ *
+ * Accepts:
+ * - JSON: an array of names or `{ id?, name, count?, imageDataUrl?, tint? }` objects
+ * - text: one participant per line, optionally `name,count`; `#` starts a comment line
+ */
+export function parseRosterText(text: string): HeadlessRosterEntry[] {
+  const trimmed = String(text || "").trim();
+  let entries: HeadlessRosterEntry[];
+  if (trimmed.startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (err) {
+      throw new Error(`roster: invalid JSON (${err instanceof Error ? err.message : String(err)})`);
+    }
+    if (!Array.isArray(parsed)) throw new Error("roster: JSON roster must be an array");
+    entries = parsed.map((raw, i) => toRosterEntry(raw, i, `roster[${i}]`));
+  } else {
+    entries = [];
+    trimmed.split(/\r?\n/).forEach((rawLine, i) => {
+      const line = rawLine.trim();
+      if (!line || line.startsWith("#")) return;
+      entries.push(parseRosterLine(line, entries.length, i + 1));
+    });
+  }
+  if (!entries.length) throw new Error("roster: no participants");
+
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (seen.has(entry.ball.id)) throw new Error(`roster: duplicate id "${entry.ball.id}"`);
+    seen.add(entry.ball.id);
+  }
+  return entries;
+}
+
+/**
+ * Parse a CLI winner rule: `last`, `first`, or a positive arrival place (`3` = third to arrive).
+ */
+export function parseWinnerRuleText(text: string): WinnerRule {
+  const value = String(text || "").trim().toLowerCase();
+  if (value === "last" || value === "first") return { kind: value };
+  if (!/^\d+$/.test(value) || Number(value) < 1) throw new Error(`rule: expected "last", "first" or a place number, got "${text}"`);
+  return { kind: "rank", rank: clampWinnerRank(value) };
+}
+
+function formatWinnerRule(rule: WinnerRule): string {
+  return rule.kind === "rank" ? `place ${rule.rank}` : rule.kind;
+}
+
+/**
+ * Run one draw without a browser: fixed 60hz steps until the winner is set,
+ * then rank the winners by `winnerRule` the same way the result modal does.
+ */
+export function runHeadlessDraw(opts: HeadlessDrawOptions): HeadlessDrawResult {
+  const { roster, winnerCount = 1, winnerRule = DEFAULT_WINNER_RULE, layout = "zigzag", board, seed, maxSteps } = opts;
+  if (!board && !isBoardLayout(layout)) throw new Error(`layout: unknown layout "${String(layout)}"`);
+  const baseOptions = board ? { definition: board } : BOARD_OPTIONS_BY_LAYOUT[layout];
+  const boardOptions = opts.deterministic ? { ...baseOptions, deterministic: true } : baseOptions;
+  const ballsCatalog = roster.map((entry) => ({ ...entry.ball }));
+  const built = makeBoard(boardOptions);
+  const state = makeGameState({ seed: seed >>> 0, board: built, ballsCatalog });
+  for (const entry of roster) setBallCount(state, entry.ball.id, entry.count);
+  setWinnerRule(state, winnerRule, winnerCount);
+
+  const replay = createReplayRecord(state, boardOptions);
+  const run = replayRun(replay, { maxSteps });
+  if (!run.completed) throw new Error(`simulation did not finish within ${run.steps} steps`);
+
+  const participantCount = run.state.totalToDrop;
+  const effectiveCount = clampResultCount(winnerCount, participantCount);
+  const byId = new Map(ballsCatalog.map((b) => [b.id, b]));
+  const items = buildResultItems({
+    selected: selectWinnersByRule(run.finished, run.state.winnerRule, effectiveCount, participantCount),
+    getWinnerPayload: (ballId) => {
+      const ball = byId.get(ballId);
+      return ball ? { name: ball.name, img: ball.imageDataUrl } : null;
+    },
+    getArrivalTimeSeconds: (entry) => entry.t,
+  });
+
+  return {
+    seed: replay.seed,
+    layout: built.layout,
+    participantCount,
+    winnerCount: effectiveCount,
+    winnerRule: run.state.winnerRule,
+    simSeconds: run.state.t,
+    steps: run.steps,
+    items,
+    replay,
+  };
+}
+
+function formatSimTime(seconds: number): string {
+  const safe = Math.max(0, Number(seconds) || 0);
+  const minutes = Math.floor(safe / 60);
+  const rest = safe - minutes * 60;
+  return `${String(minutes).padStart(2, "0")}:${rest.toFixed(2).padStart(5, "0")}`;
+}
+
+/**
+ * Plain-text ranking for terminals and chat bots.
+ */
+export function formatHeadlessDrawText(result: HeadlessDrawResult): string {
+  const header = `seed ${result.seed} · ${result.layout} · ${result.participantCount} marbles · ${formatSimTime(result.simSeconds)} · ${formatWinnerRule(result.winnerRule)}`;
+  const lines = result.items.map(
+    (item) => `${getWinnerPlaceNumber(result.winnerRule, item.rank)}. ${item.name} (${formatSimTime(item.finishedAt)})`
+  );
+  return [header, ...lines].join("\n");
+}
@@ -0,0 +1,104 @@
+import { validateInquiryInput, submitInquiry, showInquiryToast } from "../ui/inquiry.js";
+import { t } from "../i18n/runtime";
+import type { GameAppContext } from "./app-context";
+import type { InquiryActions, InquiryField, InquirySubmitResult } from "./ui-store";
+
+export const EMPTY_INQUIRY_FORM = Object.freeze({
+  email: "",
+  subject: "",
+  message: "",
+  website: "",
+});
+
+type InquiryValidationResult =
+  | {
+      ok: true;
+      data: {
+        email: string;
+        subject: string;
+        message: string;
+        website: string;
+      };
+    }
+  | {
+      ok: false;
+      field: "email" | "subject" | "message";
+      message: string;
+    };
+
+/** The contact form dialog: field edits, validation and the send. */
+export function createInquiryFormController(ctx: GameAppContext) {
+  const { uiState } = ctx;
+
+  const actions: InquiryActions = {
+    openInquiry: () => {
+      uiState.inquiryOpen = true;
+      uiState.inquirySubmitting = false;
+      uiState.inquiryStatus = "";
+      uiState.inquiryOpenedAt = Date.now();
+      uiState.inquiryForm = { ...EMPTY_INQUIRY_FORM };
+      ctx.refreshUi();
+    },
+    closeInquiry: () => {
+      uiState.inquiryOpen = false;
+      uiState.inquirySubmitting = false;
+      uiState.inquiryStatus = "";
+      ctx.refreshUi();
+    },
+    setInquiryField: (field: InquiryField, value: string) => {
+      if (!Object.prototype.hasOwnProperty.call(uiState.inquiryForm, field)) return false;
+      uiState.inquiryForm = {
+        ...uiState.inquiryForm,
+        [field]: String(value || ""),
+      };
+      ctx.refreshUi();
+      return true;
+    },
+    submitInquiry: async (): Promise<InquirySubmitResult> => {
+      if (uiState.inquirySubmitting) {
+        return { ok: false, message: t("inquiry.alreadySubmitting") };
+      }
+
+      const validated = validateInquiryInput(uiState.inquiryForm) as InquiryValidationResult;
+      if (!validated.ok) {
+        uiState.inquiryStatus = validated.message;
+        ctx.refreshUi();
+        return { ok: false, field: validated.field, message: validated.message };
+      }
+
+      uiState.inquirySubmitting = true;
+      uiState.inquiryStatus = t("inquiry.sendingStatus");
+      ctx.refreshUi();
+
+      try {
+        const result = (await submitInquiry({
+          ...validated.data,
+          openedAt: uiState.inquiryOpenedAt || Date.now(),
+        })) as { ok: boolean; message: string };
+
+        if (!result.ok) {
+          uiState.inquiryStatus = result.message;
+          showInquiryToast(result.message, "error", 2600);
+          return { ok: false, message: result.message };
+        }
+
+        uiState.inquiryOpen = false;
+        uiState.inquiryStatus = "";
+        uiState.inquiryOpenedAt = 0;
+        uiState.inquiryForm = { ...EMPTY_INQUIRY_FORM };
+        showInquiryToast(t("inquiry.sendDone"));
+        return { ok: true };
+      } catch {
+        const message = t("error.network");
+        uiState.inquiryStatus = message;
+        showInquiryToast(t("toast.networkError"), "error", 2600);
+        return { ok: false, message };
+      } finally {
+        uiState.inquirySubmitting = false;
+        ctx.refreshUi();
+      }
+    },
+  };
+
+  return { actions };
+}
@@ -0,0 +1,49 @@
+import type { Board, GameState } from "../game/engine.ts";
+import { createCourseProgress, type CourseProgress } from "../game/course-progress.ts";
+import type { ArrivalTimingTracker } from "./arrival-timing-tracker";
+import { pickLiveRankingRows, rankLiveMarbles, type LiveRankingEntry } from "./live-ranking";
+import type { LiveRankingUiModel } from "./ui-store";
+
+// Fits a projector-height board; longer races show the leaders and the last places.
+const LIVE_RANKING_MAX_ROWS = 10;
+
+/** Leaderboard for the overlay; the same object until the shown order or an arrival changes. */
+export function createLiveRankingView(state: GameState, arrivalTimingTracker: ArrivalTimingTracker) {
+  let courseProgress: { board: Board; progressAt: CourseProgress } | null = null;
+  let current: { signature: string; view: LiveRankingUiModel | null } = { signature: "", view: null };
+
+  return function getLiveRankingView(): LiveRankingUiModel | null {
+    if (state.mode !== "playing" || !state.marbles.length) {
+      current = { signature: "", view: null };
+      return null;
+    }
+    if (!courseProgress || courseProgress.board !== state.board) {
+      courseProgress = { board: state.board, progressAt: createCourseProgress(state.board) };
+    }
+    const entries = rankLiveMarbles({
+      finished: state.finished,
+      marbles: state.marbles,
+      progressAt: courseProgress.progressAt,
+      getArrivalSeconds: (entry) => arrivalTimingTracker.getArrivalSeconds(entry),
+    });
+    const rows = pickLiveRankingRows(entries, LIVE_RANKING_MAX_ROWS);
+    const signature = [...rows.head, ...rows.tail]
+      .map((entry) => `${entry.marbleId}:${entry.arrivalSeconds ?? ""}`)
+      .concat(String(rows.hiddenCount))
+      .join("|");
+    if (signature === current.signature) return current.view;
+    const imageByBallId = new Map<string, string>(
+      state.ballsCatalog.map((ball: { id: string; imageDataUrl: string }) => [ball.id, ball.imageDataUrl])
+    );
+    const toRow = (entry: LiveRankingEntry) => ({
+      marbleId: entry.marbleId,
+      name: entry.name,
+      imageDataUrl: imageByBallId.get(entry.ballId) ?? "",
+      rank: entry.rank,
+      arrivalSeconds: entry.arrivalSeconds,
+    });
+    const view = { head: rows.head.map(toRow), tail: rows.tail.map(toRow), hiddenCount: rows.hiddenCount };
+    current = { signature, view };
+    return view;
+  };
+}
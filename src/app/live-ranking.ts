@@ -0,0 +1,62 @@
+import type { FinishedMarble, Marble } from "../game/engine.ts";
+import type { CourseProgress } from "../game/course-progress.ts";
+
+export type LiveRankingEntry = {
+  marbleId: string;
+  ballId: string;
+  name: string;
+  /** 1 = furthest along (or first to arrive). */
+  rank: number;
+  /** Arrival time in seconds for finished marbles, null while still on the course. */
+  arrivalSeconds: number | null;
+};
+
+export type LiveRankingRows = {
+  head: LiveRankingEntry[];
+  /** Last places, shown after a gap when the ranking is longer than the room for it. */
+  tail: LiveRankingEntry[];
+  hiddenCount: number;
+};
+
+/**
+ * Every released marble in running order: arrivals first in arrival order, then marbles still on
+ * the course, furthest along first. Marbles waiting to drop are not ranked yet.
+ */
+export function rankLiveMarbles(params: {
+  finished: ReadonlyArray<FinishedMarble>;
+  marbles: ReadonlyArray<Marble>;
+  progressAt: CourseProgress;
+  getArrivalSeconds: (entry: FinishedMarble) => number;
+}): LiveRankingEntry[] {
+  const { finished, marbles, progressAt, getArrivalSeconds } = params;
+  const nameByMarbleId = new Map(marbles.map((m) => [m.id, m.name]));
+  const arrived = finished
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.t - b.entry.t || a.index - b.index)
+    .map(({ entry }) => ({
+      marbleId: entry.marbleId,
+      ballId: entry.ballId,
+      name: nameByMarbleId.get(entry.marbleId) ?? entry.ballId,
+      arrivalSeconds: getArrivalSeconds(entry),
+    }));
+  const arrivedIds = new Set(arrived.map((entry) => entry.marbleId));
+  const running = marbles
+    .filter((m) => !m.done && !arrivedIds.has(m.id))
+    .map((m) => ({ marble: m, progress: progressAt(m.y) }))
+    // Ties (e.g. marbles released on the same row) keep a fixed order so rows do not flicker.
+    .sort((a, b) => b.progress - a.progress || (a.marble.id < b.marble.id ? -1 : 1))
+    .map(({ marble }) => ({ marbleId: marble.id, ballId: marble.ballId, name: marble.name, arrivalSeconds: null }));
+  return [...arrived, ...running].map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+/** At most `maxRows` rows: the leaders and the last places, which decide a `last` draw. */
+export function pickLiveRankingRows(entries: ReadonlyArray<LiveRankingEntry>, maxRows: number): LiveRankingRows {
+  if (entries.length <= maxRows) return { head: entries.slice(), tail: [], hiddenCount: 0 };
+  const headCount = Math.ceil(maxRows / 2);
+  const tailCount = maxRows - headCount;
+  return {
+    head: entries.slice(0, headCount),
+    tail: tailCount > 0 ? entries.slice(-tailCount) : [],
+    hiddenCount: entries.length - headCount - tailCount,
+  };
+}
@@ -0,0 +1,47 @@
+import {
+  collectParticipantTags,
+  cycleTagFilter,
+  getInactiveParticipantIds,
+  normalizeParticipantFilter,
+} from "../game/participant-tags.ts";
+import { saveParticipantFilter } from "../ui/storage.ts";
+import type { GameAppContext } from "./app-context";
+import type { ParticipantFilterActions } from "./ui-store";
+
+/** The tag filter bar: which tags the roster has and who sits out the next run because of them. */
+export function createParticipantTagController(ctx: GameAppContext) {
+  const { state, uiState } = ctx;
+  let tagsView: string[] = [];
+
+  /** Re-derive who sits out the next run from the tag filter; a running draw keeps its set. */
+  function syncFilter() {
+    if (ctx.isBallControlLocked()) return;
+    const next = getInactiveParticipantIds(state.ballsCatalog, uiState.participantFilter);
+    if (next.join("\n") !== state.inactiveBallIds.join("\n")) state.inactiveBallIds = next;
+  }
+
+  /** Roster tags for the filter bar; the same array until the tags change. */
+  function getTagsView(): string[] {
+    const next = collectParticipantTags(state.ballsCatalog);
+    if (next.join("\n") !== tagsView.join("\n")) tagsView = next;
+    return tagsView;
+  }
+
+  const actions: ParticipantFilterActions = {
+    cycleParticipantTagFilter: (tag) => {
+      if (ctx.isBallControlLocked()) return;
+      uiState.participantFilter = cycleTagFilter(uiState.participantFilter, tag);
+      saveParticipantFilter(uiState.participantFilter);
+      ctx.refreshUi();
+    },
+    clearParticipantFilter: () => {
+      const { include, exclude } = uiState.participantFilter;
+      if (ctx.isBallControlLocked() || (!include.length && !exclude.length)) return;
+      uiState.participantFilter = normalizeParticipantFilter(null);
+      saveParticipantFilter(uiState.participantFilter);
+      ctx.refreshUi();
+    },
+  };
+
+  return { syncFilter, getTagsView, actions };
+}
@@ -10,6 +10,8 @@ export type ResultPresentationState = {
   requestedCount: number;
   effectiveCount: number;
   items: ResultUiItem[];
+  /** Prize mode: labels of every finish slot; items are grouped by slot instead of ranked. */
+  slotLabels: string[];
 };
 
 type WinnerPayload = {
@@ -30,6 +32,7 @@ export function buildIdleResultState(winnerCount: number): ResultPresentationSta
     requestedCount: winnerCount,
     effectiveCount: 0,
     items: [],
+    slotLabels: [],
   };
 }
 
@@ -40,15 +43,18 @@ export function resolveResultPhase(items: ResultUiItem[]): "single" | "summary"
 
 export function buildResultStateFromItems(
   items: ResultUiItem[],
-  requestedCount: number
+  requestedCount: number,
+  slotLabels: string[] = []
 ): ResultPresentationState {
-  if (!items.length) {
+  // Slot results have no single winner to spin the reel for.
+  if (!items.length || slotLabels.length) {
     return {
       open: true,
       phase: "summary",
       requestedCount,
-      effectiveCount: 0,
+      effectiveCount: items.length,
       items,
+      slotLabels,
     };
   }
 
@@ -58,6 +64,7 @@ export function buildResultStateFromItems(
     requestedCount,
     effectiveCount: items.length,
     items,
+    slotLabels,
   };
 }
 
@@ -0,0 +1,176 @@
+import { getTotalSelectedCount, DEFAULT_WINNER_RULE, type WinnerRule } from "../game/engine.ts";
+import type { DrawProof } from "../game/draw-proof.ts";
+import { showInquiryToast } from "../ui/inquiry.js";
+import { playWinnerFanfare } from "../ui/result-controller.js";
+import { t } from "../i18n/runtime";
+import { ANALYTICS_EVENTS, trackAnalyticsEvent } from "./analytics";
+import type { GameAppContext } from "./app-context";
+import type { ArrivalTimingTracker } from "./arrival-timing-tracker";
+import { copyTextWithFallback, downloadJsonFile } from "./browser-io";
+import { getParticipantCount } from "./game-flow-selectors";
+import {
+  buildIdleResultState,
+  buildResultItems,
+  buildResultStateFromItems,
+  closeResultPresentation,
+  completeSpinResultPresentation,
+} from "./result-presentation";
+import { getWinnerPlaceNumber, selectFinishersBySlot, selectWinnersByRule } from "./ui-selectors";
+import type { ResultActions, ResultUiItem } from "./ui-store";
+
+function getWinnerRuleCopyHeader(rule: WinnerRule): string {
+  if (rule.kind === "first") return t("result.copyRule.first");
+  if (rule.kind === "rank") return t("result.copyRule.rank", { rank: rule.rank });
+  return t("result.copyRule.last");
+}
+
+/** Clipboard text for a result: one line per slot on prize boards, ranked names under the rule otherwise. */
+export function toResultCopyText(
+  items: ResultUiItem[],
+  slotLabels: string[] = [],
+  winnerRule: WinnerRule = DEFAULT_WINNER_RULE
+): string {
+  if (!items.length) return "";
+  if (slotLabels.length) {
+    return slotLabels
+      .map((label, slot) => {
+        const names = items.filter((item) => item.slot === slot).map((item) => item.name);
+        return `${label}: ${names.length ? names.join(", ") : "-"}`;
+      })
+      .join("\n");
+  }
+  const lines = items.map((item) => `${getWinnerPlaceNumber(winnerRule, item.rank)}. ${item.name}`);
+  return [getWinnerRuleCopyHeader(winnerRule), ...lines].join("\n");
+}
+
+/**
+ * The result modal: builds the reveal once the winner is known, records it in the draw history
+ * (`onResult`) and serves the copy, proof download and restart buttons.
+ */
+export function createResultRevealController(
+  ctx: GameAppContext,
+  opts: {
+    arrivalTimingTracker: ArrivalTimingTracker;
+    getProof: () => DrawProof | null;
+    onResult: (items: ResultUiItem[], slotLabels: string[]) => void;
+    restart: () => void;
+  }
+) {
+  const { state, uiState, catalogController } = ctx;
+  const { arrivalTimingTracker } = opts;
+
+  function closePresentation() {
+    uiState.resultState = closeResultPresentation(uiState.resultState);
+  }
+
+  function resetHistory() {
+    uiState.resultState = buildIdleResultState(uiState.winnerCount);
+  }
+
+  function completeSpin() {
+    const nextState = completeSpinResultPresentation(uiState.resultState);
+    if (nextState === uiState.resultState) return;
+    uiState.resultState = nextState;
+    playWinnerFanfare();
+  }
+
+  function trackResultOpenEvent(source: "auto" | "manual") {
+    const selectedCount = uiState.resultState.items.length;
+    if (!selectedCount) return;
+    const participantCount = getParticipantCount(state.totalToDrop, getTotalSelectedCount(state));
+    trackAnalyticsEvent(ANALYTICS_EVENTS.resultOpen, {
+      source,
+      selectedCount,
+      requestedCount: uiState.resultState.requestedCount,
+      participantCount,
+    });
+  }
+
+  function prepareAndOpen() {
+    if (!state.totalToDrop || !state.finished.length) return;
+    arrivalTimingTracker.capture({
+      nowMs: performance.now(),
+      simNow: Number(state.t) || 0,
+      finished: state.finished,
+    });
+    // Prize boards report where everyone landed; single-slot boards rank arrivals by the winner rule.
+    const slotLabels = state.board.slots.length > 1 ? state.board.slots.map((slot: { label: string }) => slot.label) : [];
+    const selected = slotLabels.length
+      ? selectFinishersBySlot(state.finished)
+      : selectWinnersByRule(state.finished, state.winnerRule, uiState.winnerCount, state.totalToDrop);
+    uiState.resultWinnerRule = { ...state.winnerRule };
+    const items = buildResultItems({
+      selected,
+      getWinnerPayload: (ballId) => catalogController.getWinnerPayload(ballId),
+      getArrivalTimeSeconds: (entry) => arrivalTimingTracker.getArrivalSeconds(entry),
+    });
+    uiState.resultState = buildResultStateFromItems(items, uiState.winnerCount, slotLabels);
+    opts.onResult(items, slotLabels);
+    trackResultOpenEvent("auto");
+  }
+
+  const actions: ResultActions = {
+    openResultModal: () => {
+      if (!uiState.resultState.items.length) return false;
+      const wasOpen = uiState.resultState.open;
+      uiState.resultState.open = true;
+      if (!wasOpen) trackResultOpenEvent("manual");
+      ctx.refreshUi();
+      return true;
+    },
+    closeResultModal: () => {
+      closePresentation();
+      ctx.refreshUi();
+    },
+    skipResultReveal: () => {
+      if (uiState.resultState.phase !== "spinning") return;
+      completeSpin();
+      ctx.refreshUi();
+    },
+    completeResultSpin: () => {
+      if (uiState.resultState.phase !== "spinning") return;
+      completeSpin();
+      ctx.refreshUi();
+    },
+    copyResults: async () => {
+      const text = toResultCopyText(
+        uiState.resultState.items,
+        uiState.resultState.slotLabels,
+        uiState.resultWinnerRule
+      );
+      if (!text) return false;
+      const copied = await copyTextWithFallback(text);
+      if (copied) {
+        trackAnalyticsEvent(ANALYTICS_EVENTS.resultCopy, {
+          selectedCount: uiState.resultState.items.length,
+          requestedCount: uiState.resultState.requestedCount,
+        });
+        showInquiryToast(t("toast.resultCopied"), "success", 1800);
+      } else {
+        showInquiryToast(t("toast.resultCopyFailed"), "error", 2200);
+      }
+      ctx.refreshUi();
+      return copied;
+    },
+    restartFromResult: () => {
+      closePresentation();
+      resetHistory();
+      uiState.winnerCountWasClamped = false;
+      opts.restart();
+      ctx.syncLoopSpeed(true);
+      ctx.refreshUi();
+    },
+    downloadDrawProof: () => {
+      const proof = opts.getProof();
+      if (!proof) return false;
+      return downloadJsonFile(`degururu-proof-${proof.commitment.slice(0, 12)}.json`, proof);
+    },
+  };
+
+  return {
+    closePresentation,
+    resetHistory,
+    prepareAndOpen,
+    actions,
+  };
+}
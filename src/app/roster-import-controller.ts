@@ -0,0 +1,128 @@
+import { BALL_CATALOG_MAX, createNextBall, buildSystemBallImageDataUrl } from "../game/assets.ts";
+import { showInquiryToast } from "../ui/inquiry.js";
+import { t } from "../i18n/runtime";
+import type { GameAppContext } from "./app-context";
+import { reencodeIncomingImage } from "./avatar-crop";
+import { buildRosterImportPreview } from "./roster-import";
+import type { SettingsEditorController } from "./settings-editor-controller";
+import type { RosterImportActions, RosterImportUiState } from "./ui-store";
+
+const ROSTER_IMPORT_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Pasted or loaded name lists, previewed against the settings draft and added to it on apply.
+ * Every listed image goes through `reencodeIncomingImage`; the ones that fail get a letter avatar.
+ */
+export function createRosterImportController(ctx: GameAppContext, editor: SettingsEditorController) {
+  const { uiState } = ctx;
+
+  function update(patch: Partial<Omit<RosterImportUiState, "preview">>) {
+    const current = uiState.rosterImport;
+    if (!current) return;
+    const next = { ...current, ...patch };
+    const base = next.replace ? [] : editor.ensureDraft();
+    uiState.rosterImport = {
+      ...next,
+      preview: buildRosterImportPreview(next.text, {
+        existingNames: base.map((ball) => ball.name),
+        capacity: BALL_CATALOG_MAX - base.length,
+        includeDuplicates: next.includeDuplicates,
+      }),
+    };
+  }
+
+  const actions: RosterImportActions = {
+    openRosterImport: () => {
+      if (!uiState.settingsOpen || uiState.rosterImport || ctx.isBallControlLocked()) return;
+      uiState.settingsRestore = null;
+      uiState.rosterImport = {
+        text: "",
+        replace: false,
+        includeDuplicates: false,
+        busy: false,
+        preview: buildRosterImportPreview(""),
+      };
+      update({});
+      ctx.refreshUi();
+    },
+    closeRosterImport: () => {
+      if (!uiState.rosterImport) return;
+      uiState.rosterImport = null;
+      ctx.refreshUi();
+    },
+    setRosterImportText: (text) => {
+      if (!uiState.rosterImport || uiState.rosterImport.busy) return;
+      update({ text: String(text || "") });
+      ctx.refreshUi();
+    },
+    loadRosterImportFile: async (file) => {
+      if (!uiState.rosterImport || uiState.rosterImport.busy || !(file instanceof File)) return false;
+      if (file.size > ROSTER_IMPORT_MAX_BYTES) {
+        showInquiryToast(t("import.fileTooLarge"), "error", 2200);
+        return false;
+      }
+      let text = "";
+      try {
+        text = await file.text();
+      } catch {
+        showInquiryToast(t("error.fileRead"), "error", 2200);
+        return false;
+      }
+      update({ text });
+      ctx.refreshUi();
+      return true;
+    },
+    setRosterImportOption: (option, isOn) => {
+      if (!uiState.rosterImport || uiState.rosterImport.busy) return;
+      update({ [option]: !!isOn });
+      ctx.refreshUi();
+    },
+    applyRosterImport: async () => {
+      const current = uiState.rosterImport;
+      if (!uiState.settingsOpen || !current || current.busy || ctx.isBallControlLocked()) return false;
+      const rows = current.preview.rows.filter((row) => row.included);
+      if (!rows.length) return false;
+      uiState.rosterImport = { ...current, busy: true };
+      ctx.refreshUi();
+
+      const images = await Promise.all(rows.map((row) => reencodeIncomingImage(row.image)));
+      // The dialog may have been closed while images were loading.
+      if (!uiState.settingsOpen || uiState.rosterImport?.busy !== true) return false;
+
+      const base = current.replace ? [] : editor.ensureDraft();
+      const used = new Set(base.map((ball) => ball.id));
+      const counts: Record<string, number> = {};
+      for (const ball of base) {
+        if (uiState.settingsDraftCounts[ball.id] != null) counts[ball.id] = uiState.settingsDraftCounts[ball.id];
+      }
+      const added = rows.slice(0, Math.max(0, BALL_CATALOG_MAX - base.length)).map((row, i) => {
+        const ball = createNextBall(used);
+        used.add(ball.id);
+        counts[ball.id] = row.count;
+        return {
+          id: ball.id,
+          name: row.name,
+          tint: ball.tint,
+          imageDataUrl:
+            images[i] ||
+            buildSystemBallImageDataUrl({ ballId: ball.id, name: row.name, fallbackImageDataUrl: ball.imageDataUrl }),
+        };
+      });
+      const failedImages = added.filter((_, i) => rows[i].image && !images[i]).length;
+
+      uiState.settingsDraft = [...base, ...added];
+      uiState.settingsDraftCounts = counts;
+      uiState.rosterImport = null;
+      editor.recalcDirty();
+      if (failedImages > 0) showInquiryToast(t("import.imageFailed", { count: failedImages }), "error", 2600);
+      ctx.refreshUi();
+      return added.length > 0;
+    },
+  };
+
+  return {
+    /** Re-check the preview after the draft changed. */
+    refreshPreview: () => update({}),
+    actions,
+  };
+}
@@ -0,0 +1,174 @@
+import { t } from "../i18n/runtime";
+import { sanitizeBallName } from "./game-flow-selectors";
+import { getDataUrlMimeType, isAllowedUploadImageMimeType } from "./image-upload-policy";
+
+export type RosterImportRow = {
+  /** 1-based source line, so problems can be pointed at. */
+  line: number;
+  name: string;
+  count: number;
+  /** Allowed `data:image/...` URL, an http(s) URL fetched on apply, or "" for a letter avatar. */
+  image: string;
+  /** Why the row is left out (already translated); "" when the row is valid. */
+  error: string;
+  /** Same name as an earlier row or a participant already in the list. */
+  duplicate: boolean;
+  /** Valid, but past the number of participants the list can still take. */
+  overLimit: boolean;
+  /** Added when the import is applied. */
+  included: boolean;
+};
+
+export type RosterImportPreview = {
+  rows: RosterImportRow[];
+  includedCount: number;
+  duplicateCount: number;
+  errorCount: number;
+  overLimitCount: number;
+};
+
+export type RosterImportOptions = {
+  /** Names already in the list the import is appended to. */
+  existingNames?: ReadonlyArray<string>;
+  /** How many participants can still be added. */
+  capacity?: number;
+  /** Keep duplicate names instead of skipping them (they stay flagged). */
+  includeDuplicates?: boolean;
+};
+
+const MAX_IMPORT_COUNT = 99;
+const HEADER_NAMES = new Set(["name", "names", "이름", "참가자"]);
+
+/**
+ * Split pasted text or a CSV file into rows of cells.
+ * Tab-separated text (a spreadsheet paste) uses tabs, anything else commas; quoted cells may hold
+ * delimiters, doubled quotes and line breaks.
+ */
+export function parseDelimitedText(text: string): { line: number; cells: string[] }[] {
+  const source = String(text || "").replace(/^\uFEFF/, "");
+  const delimiter = source.includes("\t") ? "\t" : ",";
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim())) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+      continue;
+    }
+    if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+function normalizeNameKey(name: string): string {
+  return sanitizeBallName(name, "").normalize("NFC").toLowerCase();
+}
+
+function parseCount(text: string): number | null {
+  const value = text.trim();
+  if (!value) return 1;
+  if (!/^\d+$/.test(value)) return null;
+  const count = Number(value);
+  return count >= 1 && count <= MAX_IMPORT_COUNT ? count : null;
+}
+
+function parseImage(text: string): string | null {
+  const value = text.trim();
+  if (!value) return "";
+  if (/^https?:\/\//i.test(value)) return value;
+  if (value.startsWith("data:image/") && isAllowedUploadImageMimeType(getDataUrlMimeType(value))) return value;
+  return null;
+}
+
+function parseRow(line: number, cells: string[]): RosterImportRow {
+  const row: RosterImportRow = {
+    line,
+    name: sanitizeBallName(cells[0], ""),
+    count: 1,
+    image: "",
+    error: "",
+    duplicate: false,
+    overLimit: false,
+    included: false,
+  };
+  const count = parseCount(cells[1] ?? "");
+  const image = parseImage(cells[2] ?? "");
+  if (!row.name) row.error = t("import.errorName");
+  else if (count == null) row.error = t("import.errorCount", { max: MAX_IMPORT_COUNT });
+  else if (image == null) row.error = t("import.errorImage");
+  row.count = count ?? 1;
+  row.image = image ?? "";
+  return row;
+}
+
+/**
+ * Parse pasted names (one per line) or CSV (`name[,count][,image]`) into a preview of what an
+ * import would add. Nothing is applied here; the caller turns `included` rows into participants.
+ */
+export function buildRosterImportPreview(text: string, opts: RosterImportOptions = {}): RosterImportPreview {
+  const { existingNames = [], capacity = Number.POSITIVE_INFINITY, includeDuplicates = false } = opts;
+  const parsed = parseDelimitedText(text);
+  if (parsed.length && HEADER_NAMES.has(normalizeNameKey(parsed[0].cells[0] ?? ""))) parsed.shift();
+
+  const seen = new Set(existingNames.map(normalizeNameKey));
+  let room = Math.max(0, capacity);
+  const rows = parsed.map(({ line, cells }) => {
+    const row = parseRow(line, cells);
+    if (row.error) return row;
+    const key = normalizeNameKey(row.name);
+    row.duplicate = seen.has(key);
+    seen.add(key);
+    if (row.duplicate && !includeDuplicates) return row;
+    if (room <= 0) {
+      row.overLimit = true;
+      return row;
+    }
+    room -= 1;
+    row.included = true;
+    return row;
+  });
+
+  return {
+    rows,
+    includedCount: rows.filter((row) => row.included).length,
+    duplicateCount: rows.filter((row) => row.duplicate).length,
+    errorCount: rows.filter((row) => row.error).length,
+    overLimitCount: rows.filter((row) => row.overLimit).length,
+  };
+}
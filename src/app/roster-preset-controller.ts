@@ -0,0 +1,148 @@
+import { setBallCount } from "../game/engine.ts";
+import { getDefaultBalls } from "../game/assets.ts";
+import { loadRosterPresets, saveRosterPresets } from "../ui/storage.ts";
+import { t } from "../i18n/runtime";
+import { cloneCatalogForDraft, getLiveCatalogForDraft, type GameAppContext } from "./app-context";
+import { getDefaultStartCaption } from "./game-flow-selectors";
+import {
+  addRosterPreset,
+  createRosterPresetStore,
+  deleteRosterPreset,
+  duplicateRosterPreset,
+  getActiveRosterPreset,
+  renameRosterPreset,
+  switchRosterPreset,
+  updateActiveRosterPreset,
+  type RosterPresetContent,
+  type RosterPresetStore,
+} from "./roster-presets";
+import type { RosterPresetActions } from "./ui-store";
+
+/**
+ * Saved rosters and the live one.
+ *
+ * - the active preset's winner count and caption are the live ones; `updateActive` saves edits to them
+ * - `loadRosterContent` makes a preset's roster live (clearing a finished run first)
+ * - `reloadFromStorage` takes the presets another tab saved
+ */
+export function createRosterPresetController(ctx: GameAppContext) {
+  const { state, uiState, catalogController } = ctx;
+
+  let store: RosterPresetStore =
+    loadRosterPresets() ?? createRosterPresetStore(t("preset.defaultName"), getLiveRosterContent());
+  saveRosterPresets(store);
+  uiState.winnerCount = getActiveRosterPreset(store).winnerCount;
+  uiState.startCaption = getActiveRosterPreset(store).startCaption;
+
+  function getLiveRosterContent(): RosterPresetContent {
+    return {
+      balls: getLiveCatalogForDraft(ctx),
+      counts: { ...(state.counts || {}) },
+      winnerCount: uiState.winnerCount,
+      startCaption: uiState.startCaption,
+    };
+  }
+
+  function commit(next: RosterPresetStore) {
+    store = next;
+    saveRosterPresets(next);
+  }
+
+  function updateActive(patch: Partial<Pick<RosterPresetContent, "winnerCount" | "startCaption">>) {
+    commit(updateActiveRosterPreset(store, patch));
+  }
+
+  /** Make a preset's roster the live one (catalog, counts, winner count and caption). */
+  function loadRosterContent(content: RosterPresetContent) {
+    // Clears a finished run so the result never lists another roster's names.
+    ctx.prepareRestart();
+    catalogController.replaceCatalog(content.balls);
+    for (const ball of content.balls) setBallCount(state, ball.id, content.counts[ball.id] ?? 1);
+    catalogController.saveCounts(state.counts || {});
+    uiState.winnerCount = content.winnerCount;
+    uiState.winnerCountWasClamped = false;
+    uiState.startCaption = content.startCaption;
+  }
+
+  function reloadFromStorage() {
+    const stored = loadRosterPresets();
+    if (!stored) return;
+    store = stored;
+    const active = getActiveRosterPreset(stored);
+    uiState.winnerCount = active.winnerCount;
+    uiState.winnerCountWasClamped = false;
+    uiState.startCaption = active.startCaption;
+  }
+
+  function canEdit() {
+    return !uiState.settingsOpen && !ctx.isBallControlLocked();
+  }
+
+  const actions: RosterPresetActions = {
+    switchRosterPreset: (presetId) => {
+      if (!canEdit()) return false;
+      const switched = switchRosterPreset(store, presetId, getLiveRosterContent());
+      if (!switched) return false;
+      commit(switched.store);
+      loadRosterContent(switched.content);
+      ctx.refreshUi();
+      return true;
+    },
+    createRosterPreset: () => {
+      if (!canEdit()) return false;
+      const name = t("preset.newName", { n: store.presets.length + 1 });
+      const content: RosterPresetContent = {
+        balls: cloneCatalogForDraft(getDefaultBalls()),
+        counts: {},
+        winnerCount: 1,
+        startCaption: getDefaultStartCaption(),
+      };
+      const switched = addRosterPreset(store, name, content, getLiveRosterContent());
+      if (!switched) return false;
+      commit(switched.store);
+      loadRosterContent(switched.content);
+      ctx.refreshUi();
+      return true;
+    },
+    renameRosterPreset: (presetId, name) => {
+      if (!canEdit()) return false;
+      const next = renameRosterPreset(store, presetId, name);
+      if (!next) return false;
+      commit(next);
+      ctx.refreshUi();
+      return true;
+    },
+    duplicateRosterPreset: (presetId) => {
+      if (!canEdit()) return false;
+      const source = store.presets.find((preset) => preset.id === presetId);
+      if (!source) return false;
+      const name = t("preset.copyName", { name: source.name });
+      const next = duplicateRosterPreset(store, presetId, name, getLiveRosterContent());
+      if (!next) return false;
+      commit(next);
+      ctx.refreshUi();
+      return true;
+    },
+    deleteRosterPreset: (presetId) => {
+      if (!canEdit()) return false;
+      const deleted = deleteRosterPreset(store, presetId);
+      if (!deleted) return false;
+      commit(deleted.store);
+      if (deleted.content) loadRosterContent(deleted.content);
+      ctx.refreshUi();
+      return true;
+    },
+  };
+
+  return {
+    getStore: () => store,
+    getActiveName: () => getActiveRosterPreset(store).name,
+    getLiveRosterContent,
+    updateActive,
+    loadRosterContent,
+    reloadFromStorage,
+    actions,
+  };
+}
+
+export type RosterPresetController = ReturnType<typeof createRosterPresetController>;
@@ -0,0 +1,176 @@
+/**
+ * Named roster presets ("dev team", "whole floor", ...).
+ *
+ * The active preset is the live roster: its participants and counts stay in the regular catalog
+ * storage, so its entry here only keeps the name, winner count and start caption. Switching parks
+ * the live roster in the old entry and takes the new entry's roster out.
+ */
+export type RosterPresetBall = {
+  id: string;
+  name: string;
+  imageDataUrl: string;
+  tint: string;
+  tags?: string[];
+};
+
+export type RosterPresetContent = {
+  balls: RosterPresetBall[];
+  counts: Record<string, number>;
+  winnerCount: number;
+  startCaption: string;
+};
+
+export type RosterPreset = RosterPresetContent & {
+  id: string;
+  name: string;
+};
+
+export type RosterPresetStore = {
+  activeId: string;
+  presets: RosterPreset[];
+};
+
+/** Store change that also replaces the live roster with `content`. */
+export type RosterPresetSwitch = {
+  store: RosterPresetStore;
+  content: RosterPresetContent;
+};
+
+export const ROSTER_PRESET_MAX = 12;
+export const ROSTER_PRESET_NAME_MAX = 24;
+
+const PRESET_ID_PREFIX = "preset-";
+
+export function sanitizeRosterPresetName(value: unknown): string {
+  return String(value || "")
+    .replace(/[\u0000-\u001F\u007F]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, ROSTER_PRESET_NAME_MAX);
+}
+
+function nextPresetId(presets: ReadonlyArray<RosterPreset>): string {
+  const used = new Set(presets.map((preset) => preset.id));
+  let n = presets.length + 1;
+  while (used.has(`${PRESET_ID_PREFIX}${n}`)) n++;
+  return `${PRESET_ID_PREFIX}${n}`;
+}
+
+function cloneContent(content: RosterPresetContent): RosterPresetContent {
+  return {
+    balls: content.balls.map((ball) => ({ ...ball })),
+    counts: { ...content.counts },
+    winnerCount: content.winnerCount,
+    startCaption: content.startCaption,
+  };
+}
+
+/** Entry for the live preset: the roster itself lives in catalog storage. */
+function toActiveEntry(id: string, name: string, content: RosterPresetContent): RosterPreset {
+  return { id, name, balls: [], counts: {}, winnerCount: content.winnerCount, startCaption: content.startCaption };
+}
+
+export function createRosterPresetStore(name: string, live: RosterPresetContent): RosterPresetStore {
+  const id = `${PRESET_ID_PREFIX}1`;
+  return { activeId: id, presets: [toActiveEntry(id, sanitizeRosterPresetName(name) || id, live)] };
+}
+
+export function getActiveRosterPreset(store: RosterPresetStore): RosterPreset {
+  return store.presets.find((preset) => preset.id === store.activeId) ?? store.presets[0];
+}
+
+/** Keep the live winner count / caption on the active entry so they survive a reload. */
+export function updateActiveRosterPreset(
+  store: RosterPresetStore,
+  patch: Partial<Pick<RosterPresetContent, "winnerCount" | "startCaption">>
+): RosterPresetStore {
+  return {
+    ...store,
+    presets: store.presets.map((preset) => (preset.id === store.activeId ? { ...preset, ...patch } : preset)),
+  };
+}
+
+function takeOver(
+  store: RosterPresetStore,
+  targetId: string,
+  live: RosterPresetContent | null
+): RosterPresetSwitch | null {
+  const target = store.presets.find((preset) => preset.id === targetId);
+  if (!target || !target.balls.length) return null;
+  const presets = store.presets.map((preset) => {
+    if (preset.id === targetId) return toActiveEntry(preset.id, preset.name, preset);
+    if (preset.id === store.activeId && live) return { ...cloneContent(live), id: preset.id, name: preset.name };
+    return preset;
+  });
+  return { store: { activeId: targetId, presets }, content: cloneContent(target) };
+}
+
+/** Park the live roster in the active entry and make `id` the live roster. */
+export function switchRosterPreset(
+  store: RosterPresetStore,
+  id: string,
+  live: RosterPresetContent
+): RosterPresetSwitch | null {
+  if (id === store.activeId) return null;
+  return takeOver(store, id, live);
+}
+
+/** Add a preset holding `content` and switch to it. */
+export function addRosterPreset(
+  store: RosterPresetStore,
+  name: string,
+  content: RosterPresetContent,
+  live: RosterPresetContent
+): RosterPresetSwitch | null {
+  if (store.presets.length >= ROSTER_PRESET_MAX || !content.balls.length) return null;
+  const id = nextPresetId(store.presets);
+  const added = { ...cloneContent(content), id, name: sanitizeRosterPresetName(name) || id };
+  return takeOver({ ...store, presets: [...store.presets, added] }, id, live);
+}
+
+/** Copy a preset right after the original; the live roster is copied when `id` is active. */
+export function duplicateRosterPreset(
+  store: RosterPresetStore,
+  id: string,
+  name: string,
+  live: RosterPresetContent
+): RosterPresetStore | null {
+  if (store.presets.length >= ROSTER_PRESET_MAX) return null;
+  const index = store.presets.findIndex((preset) => preset.id === id);
+  if (index < 0) return null;
+  const source = id === store.activeId ? live : store.presets[index];
+  const copy = { ...cloneContent(source), id: nextPresetId(store.presets), name: sanitizeRosterPresetName(name) };
+  if (!copy.name) copy.name = copy.id;
+  const presets = store.presets.slice();
+  presets.splice(index + 1, 0, copy);
+  return { ...store, presets };
+}
+
+export function renameRosterPreset(store: RosterPresetStore, id: string, name: string): RosterPresetStore | null {
+  const nextName = sanitizeRosterPresetName(name);
+  const target = store.presets.find((preset) => preset.id === id);
+  if (!target || !nextName || nextName === target.name) return null;
+  return {
+    ...store,
+    presets: store.presets.map((preset) => (preset.id === id ? { ...preset, name: nextName } : preset)),
+  };
+}
+
+/**
+ * Remove a preset (never the last one). Deleting the active preset switches to its neighbour,
+ * whose roster comes back as `content`.
+ */
+export function deleteRosterPreset(
+  store: RosterPresetStore,
+  id: string
+): { store: RosterPresetStore; content: RosterPresetContent | null } | null {
+  if (store.presets.length <= 1) return null;
+  const index = store.presets.findIndex((preset) => preset.id === id);
+  if (index < 0) return null;
+  const remaining = { ...store, presets: store.presets.filter((preset) => preset.id !== id) };
+  if (id !== store.activeId) return { store: remaining, content: null };
+
+  const neighbour = remaining.presets[Math.min(index, remaining.presets.length - 1)];
+  const switched = takeOver(remaining, neighbour.id, null);
+  return switched ?? { store: { ...remaining, activeId: neighbour.id }, content: null };
+}
@@ -0,0 +1,150 @@
+import { showInquiryToast } from "../ui/inquiry.js";
+import type { createAudioController } from "../ui/audio-controller.js";
+import { getCurrentLanguage, setCurrentLanguage, t } from "../i18n/runtime";
+import { getLiveCatalogForDraft, type GameAppContext } from "./app-context";
+import { reencodeIncomingAvatars } from "./avatar-crop";
+import { downloadTextFile } from "./browser-io";
+import type { RosterPresetController } from "./roster-preset-controller";
+import {
+  SETTINGS_BACKUP_MAX_BYTES,
+  buildSettingsBackup,
+  getDefaultRestoreModes,
+  getRestoreModeChoices,
+  mergeBackupRoster,
+  parseSettingsBackup,
+  settingsBackupToJson,
+  type SettingsBackup,
+  type SettingsRestoreModes,
+} from "./settings-backup";
+import type { SettingsEditorController } from "./settings-editor-controller";
+import { clampResultCount } from "./ui-selectors";
+import type { SettingsBackupActions } from "./ui-store";
+
+/**
+ * Settings files: export the live roster, draw, audio and language settings, and restore a
+ * picked file section by section from the settings dialog.
+ */
+export function createSettingsBackupController(
+  ctx: GameAppContext,
+  opts: {
+    editor: SettingsEditorController;
+    presets: RosterPresetController;
+    audioController: ReturnType<typeof createAudioController>;
+  }
+) {
+  const { uiState } = ctx;
+  const { editor, presets, audioController } = opts;
+
+  /** Restores one backup section as picked; returns whether anything was applied. */
+  function restoreBackupSections(backup: SettingsBackup, modes: SettingsRestoreModes): boolean {
+    let restored = false;
+    // Language first: its switch re-localizes default names and captions, which must not undo the restore.
+    if (backup.language && modes.language === "replace") {
+      setCurrentLanguage(backup.language);
+      restored = true;
+    }
+    if (backup.roster && modes.roster !== "skip") {
+      const live = presets.getLiveRosterContent();
+      const roster = modes.roster === "merge" ? mergeBackupRoster(live, backup.roster) : backup.roster;
+      presets.loadRosterContent({ ...roster, winnerCount: live.winnerCount, startCaption: live.startCaption });
+      restored = true;
+    }
+    if (backup.draw && modes.draw === "replace") {
+      uiState.winnerCount = clampResultCount(backup.draw.winnerCount, ctx.getWinnerCountMax());
+      uiState.winnerCountWasClamped = uiState.winnerCount !== backup.draw.winnerCount;
+      uiState.startCaption = backup.draw.startCaption;
+      uiState.speedMultiplier = backup.draw.speedMultiplier;
+      ctx.syncLoopSpeed(true);
+      restored = true;
+    }
+    if (backup.audio && modes.audio === "replace") {
+      audioController.setTrack(backup.audio.bgmTrack, { autoplay: false });
+      audioController.setOn(backup.audio.bgmOn, { autoplay: true });
+      restored = true;
+    }
+    presets.updateActive({ winnerCount: uiState.winnerCount, startCaption: uiState.startCaption });
+    return restored;
+  }
+
+  const actions: SettingsBackupActions = {
+    exportSettingsBackup: () => {
+      const { balls, counts, winnerCount, startCaption } = presets.getLiveRosterContent();
+      const backup = buildSettingsBackup({
+        roster: { balls, counts },
+        draw: { winnerCount, startCaption, speedMultiplier: uiState.speedMultiplier },
+        audio: { bgmOn: audioController.isOn(), bgmTrack: audioController.getTrack() },
+        language: getCurrentLanguage(),
+      });
+      const saved = downloadTextFile(
+        `degururu-settings-${backup.exportedAt.slice(0, 10)}.json`,
+        settingsBackupToJson(backup),
+        "application/json"
+      );
+      if (!saved) showInquiryToast(t("backup.exportFailed"), "error", 2200);
+      return saved;
+    },
+    loadSettingsBackupFile: async (file) => {
+      if (!uiState.settingsOpen || ctx.isBallControlLocked() || !(file instanceof File)) return false;
+      if (file.size > SETTINGS_BACKUP_MAX_BYTES) {
+        showInquiryToast(t("backup.fileTooLarge"), "error", 2200);
+        return false;
+      }
+      let backup: SettingsBackup;
+      try {
+        backup = parseSettingsBackup(await file.text());
+        if (backup.roster) {
+          backup.roster = { ...backup.roster, balls: await reencodeIncomingAvatars(backup.roster.balls) };
+        }
+      } catch {
+        showInquiryToast(t("backup.invalid"), "error", 2600);
+        return false;
+      }
+      if (!uiState.settingsOpen) return false;
+      uiState.rosterImport = null;
+      uiState.settingsRestore = {
+        backup,
+        view: {
+          fileName: file.name,
+          exportedAt: backup.exportedAt,
+          participantCount: backup.roster ? backup.roster.balls.length : null,
+          draw: backup.draw,
+          audio: backup.audio,
+          language: backup.language,
+          modes: getDefaultRestoreModes(backup),
+        },
+      };
+      ctx.refreshUi();
+      return true;
+    },
+    setSettingsRestoreMode: (section, mode) => {
+      const current = uiState.settingsRestore;
+      if (!current || current.backup[section] == null || current.view.modes[section] === mode) return;
+      if (!getRestoreModeChoices(section).includes(mode)) return;
+      const modes = { ...current.view.modes, [section]: mode };
+      uiState.settingsRestore = { ...current, view: { ...current.view, modes } };
+      ctx.refreshUi();
+    },
+    applySettingsRestore: () => {
+      const current = uiState.settingsRestore;
+      if (!uiState.settingsOpen || !current || ctx.isBallControlLocked()) return false;
+      const restored = restoreBackupSections(current.backup, current.view.modes);
+      // The editor starts over from what was restored; an unapplied draft would overwrite it.
+      uiState.settingsRestore = null;
+      uiState.settingsDraft = getLiveCatalogForDraft(ctx);
+      uiState.settingsDraftCounts = {};
+      uiState.rosterImport = null;
+      uiState.sharedDrawInDraft = null;
+      editor.recalcDirty();
+      if (restored) showInquiryToast(t("backup.restored"), "success", 2200);
+      ctx.refreshUi();
+      return restored;
+    },
+    closeSettingsRestore: () => {
+      if (!uiState.settingsRestore) return;
+      uiState.settingsRestore = null;
+      ctx.refreshUi();
+    },
+  };
+
+  return { actions };
+}
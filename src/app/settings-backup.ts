@@ -0,0 +1,158 @@
+/**
+ * Settings backup file: the roster (with uploaded images), draw settings, BGM and language
+ * in one versioned JSON bundle, so they survive clearing site data or moving to another device.
+ *
+ * Each section is optional on import and restored on its own: skipped, replaced, or (roster only)
+ * merged into the current roster.
+ */
+import { BALL_CATALOG_MAX } from "../game/assets.ts";
+import type { Language } from "../i18n/runtime";
+import { sanitizeStoredBalls, sanitizeStoredCounts } from "../ui/storage.ts";
+import { sanitizeStartCaption } from "./game-flow-selectors";
+import type { RosterPresetBall } from "./roster-presets";
+
+export type SettingsBackupSection = "roster" | "draw" | "audio" | "language";
+export type SettingsRestoreMode = "skip" | "merge" | "replace";
+export type SettingsRestoreModes = Record<SettingsBackupSection, SettingsRestoreMode>;
+
+export type SettingsBackupRoster = {
+  balls: RosterPresetBall[];
+  counts: Record<string, number>;
+};
+
+export type SettingsBackupDraw = {
+  winnerCount: number;
+  startCaption: string;
+  speedMultiplier: number;
+};
+
+export type SettingsBackupAudio = {
+  bgmOn: boolean;
+  bgmTrack: string;
+};
+
+/** A missing section is `null` (older or partial files). */
+export type SettingsBackup = {
+  version: number;
+  exportedAt: string;
+  roster: SettingsBackupRoster | null;
+  draw: SettingsBackupDraw | null;
+  audio: SettingsBackupAudio | null;
+  language: Language | null;
+};
+
+export const SETTINGS_BACKUP_VERSION = 1;
+export const SETTINGS_BACKUP_KIND = "degururu-settings";
+export const SETTINGS_BACKUP_SECTIONS: readonly SettingsBackupSection[] = ["roster", "draw", "audio", "language"];
+/** Uploaded avatars are data URLs, so a full roster file can get large. */
+export const SETTINGS_BACKUP_MAX_BYTES = 32 * 1024 * 1024;
+
+const SPEED_CHOICES = [1, 2];
+const TRACK_ID = /^[a-z0-9_-]{1,32}$/i;
+
+export function buildSettingsBackup(
+  sections: Omit<SettingsBackup, "version" | "exportedAt">,
+  now: Date = new Date()
+): SettingsBackup {
+  return { version: SETTINGS_BACKUP_VERSION, exportedAt: now.toISOString(), ...sections };
+}
+
+export function settingsBackupToJson(backup: SettingsBackup): string {
+  return JSON.stringify({ kind: SETTINGS_BACKUP_KIND, ...backup }, null, 2);
+}
+
+function readRoster(input: unknown): SettingsBackupRoster | null {
+  if (input == null) return null;
+  if (typeof input !== "object") throw new Error("backup.roster: must be an object");
+  const roster = input as Record<string, unknown>;
+  const balls = sanitizeStoredBalls(roster.balls);
+  if (!balls.length) throw new Error("backup.roster.balls: no valid participants");
+  return { balls, counts: sanitizeStoredCounts(roster.counts, balls) };
+}
+
+function readDraw(input: unknown): SettingsBackupDraw | null {
+  if (input == null) return null;
+  if (typeof input !== "object") throw new Error("backup.draw: must be an object");
+  const draw = input as Record<string, unknown>;
+  const winnerCount = Math.floor(Number(draw.winnerCount));
+  if (!(winnerCount >= 1)) throw new Error("backup.draw.winnerCount: must be a positive integer");
+  return {
+    winnerCount,
+    startCaption: sanitizeStartCaption(draw.startCaption),
+    speedMultiplier: SPEED_CHOICES.includes(draw.speedMultiplier as number) ? (draw.speedMultiplier as number) : 1,
+  };
+}
+
+function readAudio(input: unknown): SettingsBackupAudio | null {
+  if (input == null) return null;
+  if (typeof input !== "object") throw new Error("backup.audio: must be an object");
+  const audio = input as Record<string, unknown>;
+  if (typeof audio.bgmTrack !== "string" || !TRACK_ID.test(audio.bgmTrack)) {
+    throw new Error("backup.audio.bgmTrack: invalid track");
+  }
+  return { bgmOn: audio.bgmOn === true, bgmTrack: audio.bgmTrack };
+}
+
+function readLanguage(input: unknown): Language | null {
+  if (input == null) return null;
+  if (input !== "ko" && input !== "en") throw new Error(`backup.language: unsupported language ${String(input)}`);
+  return input;
+}
+
+/** Throws with the offending field when the file is not a usable backup. */
+export function parseSettingsBackup(text: string): SettingsBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("backup: file is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object") throw new Error("backup: file must contain an object");
+  const file = parsed as Record<string, unknown>;
+  if (file.kind !== SETTINGS_BACKUP_KIND) throw new Error("backup.kind: not a settings backup file");
+  if (file.version !== SETTINGS_BACKUP_VERSION) {
+    throw new Error(`backup.version: unsupported version ${String(file.version)}`);
+  }
+  const backup: SettingsBackup = {
+    version: SETTINGS_BACKUP_VERSION,
+    exportedAt: typeof file.exportedAt === "string" ? file.exportedAt : "",
+    roster: readRoster(file.roster),
+    draw: readDraw(file.draw),
+    audio: readAudio(file.audio),
+    language: readLanguage(file.language),
+  };
+  if (SETTINGS_BACKUP_SECTIONS.every((section) => backup[section] == null)) {
+    throw new Error("backup: file has no settings to restore");
+  }
+  return backup;
+}
+
+/** Every section the file has is replaced unless the user picks otherwise. */
+export function getDefaultRestoreModes(backup: SettingsBackup): SettingsRestoreModes {
+  const modes = {} as SettingsRestoreModes;
+  for (const section of SETTINGS_BACKUP_SECTIONS) modes[section] = backup[section] == null ? "skip" : "replace";
+  return modes;
+}
+
+/** Only the roster has something to merge; other sections are single values. */
+export function getRestoreModeChoices(section: SettingsBackupSection): readonly SettingsRestoreMode[] {
+  return section === "roster" ? ["replace", "merge", "skip"] : ["replace", "skip"];
+}
+
+/**
+ * Current roster plus the backup's participants it does not have yet (matched by id),
+ * up to the catalog limit. Participants in both keep their current name, image and count.
+ */
+export function mergeBackupRoster(current: SettingsBackupRoster, backup: SettingsBackupRoster): SettingsBackupRoster {
+  const balls = current.balls.slice();
+  const counts = { ...current.counts };
+  const used = new Set(balls.map((ball) => ball.id));
+  for (const ball of backup.balls) {
+    if (balls.length >= BALL_CATALOG_MAX) break;
+    if (used.has(ball.id)) continue;
+    used.add(ball.id);
+    balls.push(ball);
+    counts[ball.id] = backup.counts[ball.id] ?? 1;
+  }
+  return { balls, counts };
+}
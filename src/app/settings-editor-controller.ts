@@ -0,0 +1,359 @@
+import { setBallCount } from "../game/engine.ts";
+import {
+  BALL_CATALOG_MAX,
+  createNextBall,
+  getDefaultBalls,
+  buildSystemBallImageDataUrl,
+  isSystemBallAvatarUrl,
+} from "../game/assets.ts";
+import { normalizeTags } from "../game/participant-tags.ts";
+import { showInquiryToast } from "../ui/inquiry.js";
+import { t } from "../i18n/runtime";
+import { getLiveCatalogForDraft, type CatalogDraftItem, type GameAppContext } from "./app-context";
+import { decodeImageBlob, encodeAvatar, type AvatarCrop, type DecodedImage } from "./avatar-crop";
+import { sanitizeBallName } from "./game-flow-selectors";
+import { getDataUrlMimeType, isAllowedUploadImageMimeType, validateUploadImageFile } from "./image-upload-policy";
+import type { SharedDraw } from "./share-link";
+import type { CatalogSettingsActions } from "./ui-store";
+
+/** Decodes an uploaded or fetched image under the upload type/size policy. */
+async function decodeUploadImage(file: File): Promise<DecodedImage> {
+  const validation = validateUploadImageFile(file);
+  if (!validation.ok) throw new Error(validation.message);
+  return decodeImageBlob(file);
+}
+
+function isDataImageUrl(value: unknown): value is string {
+  if (typeof value !== "string" || !value.startsWith("data:image/")) return false;
+  const mime = getDataUrlMimeType(value);
+  return isAllowedUploadImageMimeType(mime);
+}
+
+function catalogFingerprint(input: CatalogDraftItem[]): string {
+  return JSON.stringify(
+    input.map((ball) => ({
+      id: ball.id,
+      name: ball.name,
+      imageDataUrl: ball.imageDataUrl,
+      tint: ball.tint,
+      tags: ball.tags ?? [],
+    }))
+  );
+}
+
+function reorderCatalogDraft(
+  draft: CatalogDraftItem[],
+  sourceBallId: string,
+  targetBallId: string
+): CatalogDraftItem[] | null {
+  if (!sourceBallId || !targetBallId || sourceBallId === targetBallId) return null;
+
+  const sourceIndex = draft.findIndex((ball) => ball.id === sourceBallId);
+  const targetIndex = draft.findIndex((ball) => ball.id === targetBallId);
+  if (sourceIndex < 0 || targetIndex < 0) return null;
+
+  const next = draft.slice();
+  const [moved] = next.splice(sourceIndex, 1);
+  if (!moved) return null;
+  next.splice(targetIndex, 0, moved);
+  return next;
+}
+
+/**
+ * The settings dialog: a roster draft that replaces the live catalog only when applied.
+ *
+ * - `ensureDraft` / `recalcDirty` are shared with the features that fill the draft (import, share
+ *   links, backups, tab sync); `onDraftChange` lets the import preview follow the draft
+ * - `close` drops the draft and everything opened from the dialog, then calls `onClose`
+ * - an applied draft that came from a share link also takes the link's draw settings (`applySharedDraw`)
+ */
+export function createSettingsEditorController(
+  ctx: GameAppContext,
+  opts: {
+    onDraftChange: () => void;
+    onClose: () => void;
+    applySharedDraw: (draw: SharedDraw) => void;
+  }
+) {
+  const { state, uiState, catalogController } = ctx;
+
+  function getLiveCatalogView() {
+    return catalogController.getCatalog() as unknown as CatalogDraftItem[];
+  }
+
+  function ensureDraft() {
+    if (!uiState.settingsDraft) {
+      uiState.settingsDraft = getLiveCatalogForDraft(ctx);
+    }
+    return uiState.settingsDraft;
+  }
+
+  function recalcDirty() {
+    if (!uiState.settingsDraft) {
+      uiState.settingsDirty = false;
+      return;
+    }
+    const draftCounts = uiState.settingsDraftCounts;
+    uiState.settingsDirty =
+      !!uiState.sharedDrawInDraft ||
+      catalogFingerprint(uiState.settingsDraft) !== catalogFingerprint(getLiveCatalogForDraft(ctx)) ||
+      uiState.settingsDraft.some((ball) => draftCounts[ball.id] != null && draftCounts[ball.id] !== state.counts?.[ball.id]);
+    // The import preview checks duplicates and room against the draft.
+    opts.onDraftChange();
+  }
+
+  function clearAvatarCrop() {
+    if (!uiState.avatarCrop) return;
+    uiState.avatarCrop.image.release();
+    URL.revokeObjectURL(uiState.avatarCrop.view.sourceUrl);
+    uiState.avatarCrop = null;
+  }
+
+  function close() {
+    uiState.settingsOpen = false;
+    uiState.settingsDirty = false;
+    uiState.settingsConfirmOpen = false;
+    uiState.settingsDraft = null;
+    uiState.settingsDraftCounts = {};
+    uiState.rosterImport = null;
+    uiState.sharedDrawInDraft = null;
+    uiState.settingsRestore = null;
+    uiState.tabSyncConflict = false;
+    clearAvatarCrop();
+    opts.onClose();
+  }
+
+  /** Participants the dialog shows: the draft while it is open, the live catalog otherwise. */
+  function getVisibleCatalog(): CatalogDraftItem[] {
+    return uiState.settingsOpen ? ensureDraft() : getLiveCatalogView();
+  }
+
+  function getVisibleBallCount(ballId: string): number {
+    const draftCount = uiState.settingsOpen ? uiState.settingsDraftCounts[ballId] : undefined;
+    if (draftCount != null) return draftCount;
+    return Number.isFinite(state.counts?.[ballId]) ? Math.max(0, Math.min(99, Number(state.counts[ballId]) || 0)) : 1;
+  }
+
+  function canEditDraft() {
+    return uiState.settingsOpen && !ctx.isBallControlLocked();
+  }
+
+  const actions: CatalogSettingsActions = {
+    openSettings: () => {
+      uiState.settingsOpen = true;
+      uiState.settingsDirty = false;
+      uiState.settingsConfirmOpen = false;
+      uiState.settingsDraft = getLiveCatalogForDraft(ctx);
+      uiState.settingsDraftCounts = {};
+      uiState.rosterImport = null;
+      uiState.sharedDrawInDraft = null;
+      uiState.settingsRestore = null;
+      ctx.refreshUi();
+    },
+    closeSettings: () => {
+      if (!uiState.settingsOpen) return;
+      if (uiState.settingsDirty) {
+        uiState.settingsOpen = false;
+        uiState.settingsConfirmOpen = true;
+        ctx.refreshUi();
+        return;
+      }
+      close();
+      ctx.refreshUi();
+    },
+    applySettings: () => {
+      if (!uiState.settingsOpen || !uiState.settingsDraft || !uiState.settingsDirty) return false;
+      const changed = catalogController.replaceCatalog(uiState.settingsDraft);
+      const draftCounts = Object.entries(uiState.settingsDraftCounts);
+      for (const [ballId, count] of draftCounts) setBallCount(state, ballId, count);
+      if (draftCounts.length) catalogController.saveCounts(state.counts || {});
+      const shared = uiState.sharedDrawInDraft;
+      if (shared) opts.applySharedDraw(shared);
+      uiState.settingsDraft = getLiveCatalogForDraft(ctx);
+      uiState.settingsDraftCounts = {};
+      uiState.rosterImport = null;
+      uiState.sharedDrawInDraft = null;
+      uiState.settingsDirty = false;
+      uiState.settingsConfirmOpen = false;
+      ctx.refreshUi();
+      return !!changed || draftCounts.length > 0 || !!shared;
+    },
+    confirmDiscardSettings: () => {
+      close();
+      ctx.refreshUi();
+    },
+    cancelDiscardSettings: () => {
+      if (!uiState.settingsConfirmOpen) return;
+      uiState.settingsConfirmOpen = false;
+      uiState.settingsOpen = true;
+      ctx.refreshUi();
+    },
+    addCatalogBall: () => {
+      if (!canEditDraft()) return false;
+      const draft = ensureDraft();
+      if (draft.length >= BALL_CATALOG_MAX) return false;
+      uiState.settingsDraft = [...draft, createNextBall(new Set(draft.map((ball) => ball.id)))];
+      recalcDirty();
+      ctx.refreshUi();
+      return true;
+    },
+    removeCatalogBall: (ballId) => {
+      if (!canEditDraft()) return false;
+      const draft = ensureDraft();
+      if (draft.length <= 1) return false;
+      const next = draft.filter((ball) => ball.id !== ballId);
+      if (next.length === draft.length) return false;
+      uiState.settingsDraft = next;
+      recalcDirty();
+      ctx.refreshUi();
+      return true;
+    },
+    reorderCatalogBall: (sourceBallId, targetBallId) => {
+      if (ctx.isBallControlLocked()) return false;
+      if (uiState.settingsOpen) {
+        const draft = ensureDraft();
+        const next = reorderCatalogDraft(draft, sourceBallId, targetBallId);
+        if (!next) return false;
+        uiState.settingsDraft = next;
+        recalcDirty();
+        ctx.refreshUi();
+        return true;
+      }
+
+      const live = getLiveCatalogView();
+      const next = reorderCatalogDraft(live, sourceBallId, targetBallId);
+      if (!next) return false;
+      const changed = catalogController.replaceCatalog(next);
+      if (!changed) return false;
+      ctx.refreshUi();
+      return true;
+    },
+    restoreDefaultCatalog: () => {
+      if (!canEditDraft()) return false;
+      uiState.settingsDraft = structuredClone(getDefaultBalls());
+      uiState.settingsDraftCounts = {};
+      uiState.sharedDrawInDraft = null;
+      recalcDirty();
+      ctx.refreshUi();
+      return true;
+    },
+    setCatalogBallName: (ballId, name) => {
+      if (!canEditDraft()) return false;
+      const draft = ensureDraft();
+      const idx = draft.findIndex((ball) => ball.id === ballId);
+      if (idx < 0) return false;
+      const target = draft[idx];
+      const nextName = sanitizeBallName(name, target.name);
+      const shouldSyncAvatar = isSystemBallAvatarUrl(target.imageDataUrl);
+      const nextImageDataUrl = shouldSyncAvatar
+        ? buildSystemBallImageDataUrl({
+            ballId: target.id,
+            name: nextName,
+            fallbackImageDataUrl: target.imageDataUrl,
+            tint: target.tint,
+          })
+        : target.imageDataUrl;
+
+      if (nextName === target.name && nextImageDataUrl === target.imageDataUrl) return false;
+      const next = draft.slice();
+      next[idx] = {
+        ...target,
+        name: nextName,
+        imageDataUrl: nextImageDataUrl,
+      };
+      uiState.settingsDraft = next;
+      recalcDirty();
+      ctx.refreshUi();
+      return true;
+    },
+    setCatalogBallTags: (ballId, text) => {
+      if (!canEditDraft()) return false;
+      const draft = ensureDraft();
+      const idx = draft.findIndex((ball) => ball.id === ballId);
+      if (idx < 0) return false;
+      const target = draft[idx];
+      const tags = normalizeTags(text);
+      if (tags.join(",") === (target.tags ?? []).join(",")) return false;
+      const next = draft.slice();
+      next[idx] = { ...target, tags };
+      uiState.settingsDraft = next;
+      recalcDirty();
+      ctx.refreshUi();
+      return true;
+    },
+    openAvatarCrop: async (ballId, file) => {
+      if (!canEditDraft()) return false;
+      if (!(file instanceof File)) return false;
+      const target = ensureDraft().find((ball) => ball.id === ballId);
+      if (!target) return false;
+      let image: DecodedImage;
+      try {
+        image = await decodeUploadImage(file);
+      } catch (err) {
+        const message = err instanceof Error && err.message ? err.message : t("error.uploadFailed");
+        showInquiryToast(message, "error", 2200);
+        ctx.refreshUi();
+        return false;
+      }
+      // The settings dialog may have closed while the file was decoding.
+      if (!uiState.settingsOpen) {
+        image.release();
+        return false;
+      }
+      clearAvatarCrop();
+      uiState.avatarCrop = {
+        image,
+        view: {
+          ballId,
+          ballName: target.name,
+          sourceUrl: URL.createObjectURL(file),
+          width: image.width,
+          height: image.height,
+        },
+      };
+      ctx.refreshUi();
+      return true;
+    },
+    applyAvatarCrop: (crop: AvatarCrop) => {
+      const current = uiState.avatarCrop;
+      if (!current || !canEditDraft()) return false;
+      let dataUrl = "";
+      try {
+        dataUrl = encodeAvatar(current.image, crop);
+      } catch (err) {
+        const message = err instanceof Error && err.message ? err.message : t("error.uploadFailed");
+        showInquiryToast(message, "error", 2200);
+        return false;
+      }
+      clearAvatarCrop();
+      const draft = ensureDraft();
+      const idx = draft.findIndex((ball) => ball.id === current.view.ballId);
+      if (idx < 0 || !isDataImageUrl(dataUrl)) {
+        ctx.refreshUi();
+        return false;
+      }
+      const next = draft.slice();
+      next[idx] = { ...draft[idx], imageDataUrl: dataUrl };
+      uiState.settingsDraft = next;
+      recalcDirty();
+      ctx.refreshUi();
+      return true;
+    },
+    closeAvatarCrop: () => {
+      if (!uiState.avatarCrop) return;
+      clearAvatarCrop();
+      ctx.refreshUi();
+    },
+  };
+
+  return {
+    ensureDraft,
+    recalcDirty,
+    close,
+    getVisibleCatalog,
+    getVisibleBallCount,
+    actions,
+  };
+}
+
+export type SettingsEditorController = ReturnType<typeof createSettingsEditorController>;
@@ -0,0 +1,160 @@
+import { getBallCount } from "../game/engine.ts";
+import { buildSystemBallImageDataUrl } from "../game/assets.ts";
+import { hasRaceLengthPresets, type BuiltinBoardLayout, type RaceLength } from "../game/board-config.ts";
+import type { DrawProof } from "../game/draw-proof.ts";
+import { saveBoardLayout, saveRaceLength } from "../ui/storage.ts";
+import { showInquiryToast } from "../ui/inquiry.js";
+import { t } from "../i18n/runtime";
+import { getLiveCatalogForDraft, type GameAppContext } from "./app-context";
+import { reencodeIncomingAvatars } from "./avatar-crop";
+import { copyTextWithFallback } from "./browser-io";
+import type { RosterPresetController } from "./roster-preset-controller";
+import type { SettingsEditorController } from "./settings-editor-controller";
+import { buildShareUrl, decodeSharedDraw, encodeSharedDraw, readShareToken, type SharedDraw } from "./share-link";
+import { clampResultCount } from "./ui-selectors";
+import type { ShareLinkActions, SharedDrawUiModel } from "./ui-store";
+
+function toSharedDrawUiModel(draw: SharedDraw): SharedDrawUiModel {
+  const { balls, ...settings } = draw;
+  return { ...settings, participantCount: balls.length, names: balls.map((ball) => ball.name) };
+}
+
+/**
+ * Draw links in both directions: the share dialog encodes the live roster and draw settings,
+ * and a link the page was opened with is offered, then loaded into the settings draft.
+ * Applying that draft takes the link's board, winner count and caption, and arms its seed
+ * (`armSeed`) for the next draw's commitment.
+ */
+export function createShareLinkController(
+  ctx: GameAppContext,
+  opts: {
+    editor: SettingsEditorController;
+    presets: RosterPresetController;
+    getProof: () => DrawProof | null;
+    armSeed: (seed: number | null) => void;
+    switchBoard: (layout: BuiltinBoardLayout, length: RaceLength) => void;
+  }
+) {
+  const { state, uiState } = ctx;
+  let shareLinkRequest = 0;
+
+  function buildLiveSharedDraw(includeSeed: boolean): SharedDraw {
+    const proof = opts.getProof();
+    return {
+      balls: getLiveCatalogForDraft(ctx).map((ball) => ({ ...ball, count: getBallCount(state, ball.id) })),
+      winnerCount: uiState.winnerCount,
+      startCaption: uiState.startCaption,
+      layout: uiState.boardLayout,
+      raceLength: uiState.raceLength,
+      seed: includeSeed && proof ? proof.replay.seed : null,
+    };
+  }
+
+  async function rebuildShareLink() {
+    const current = uiState.shareLink;
+    if (!current) return;
+    const request = ++shareLinkRequest;
+    const draw = buildLiveSharedDraw(current.includeSeed);
+    uiState.shareLink = { ...current, url: "", busy: true };
+    ctx.refreshUi();
+    let url = "";
+    try {
+      url = buildShareUrl(window.location.href, await encodeSharedDraw(draw, { includeImages: current.includeImages }));
+    } catch {
+      showInquiryToast(t("share.buildFailed"), "error", 2200);
+    }
+    // The dialog was closed or the options changed while encoding.
+    if (request !== shareLinkRequest || !uiState.shareLink) return;
+    uiState.shareLink = { ...uiState.shareLink, url, busy: false };
+    ctx.refreshUi();
+  }
+
+  /** Offer a draw link the page was opened with; the fragment is dropped so a reload does not ask again. */
+  function readSharedDrawFromUrl() {
+    const token = readShareToken(window.location.href);
+    if (!token) return;
+    window.history.replaceState(window.history.state, "", `${window.location.pathname}${window.location.search}`);
+    decodeSharedDraw(token).then(
+      async (decoded) => {
+        const draw = { ...decoded, balls: await reencodeIncomingAvatars(decoded.balls) };
+        uiState.sharedDrawOffer = { draw, view: toSharedDrawUiModel(draw) };
+        ctx.refreshUi();
+      },
+      () => showInquiryToast(t("share.invalid"), "error", 2600)
+    );
+  }
+
+  function applySharedDrawSettings(draw: SharedDraw) {
+    const raceLength = hasRaceLengthPresets(draw.layout) ? draw.raceLength : uiState.raceLength;
+    if (draw.layout !== uiState.boardLayout || raceLength !== uiState.raceLength) {
+      opts.switchBoard(draw.layout, raceLength);
+      saveBoardLayout(draw.layout);
+      saveRaceLength(raceLength);
+    }
+    uiState.winnerCount = clampResultCount(draw.winnerCount, ctx.getWinnerCountMax());
+    uiState.winnerCountWasClamped = uiState.winnerCount !== draw.winnerCount;
+    uiState.startCaption = draw.startCaption;
+    opts.presets.updateActive({ winnerCount: uiState.winnerCount, startCaption: draw.startCaption });
+    opts.armSeed(draw.seed);
+    if (draw.seed != null) showInquiryToast(t("share.seedArmed", { seed: draw.seed }), "success", 2600);
+  }
+
+  const actions: ShareLinkActions = {
+    openShareLink: () => {
+      if (uiState.shareLink) return;
+      uiState.shareLink = { includeImages: false, includeSeed: false, url: "", busy: false };
+      void rebuildShareLink();
+    },
+    closeShareLink: () => {
+      if (!uiState.shareLink) return;
+      uiState.shareLink = null;
+      ctx.refreshUi();
+    },
+    setShareLinkOption: (option, isOn) => {
+      const current = uiState.shareLink;
+      if (!current || current[option] === !!isOn) return;
+      if (option === "includeSeed" && isOn && !opts.getProof()) return;
+      uiState.shareLink = { ...current, [option]: !!isOn };
+      void rebuildShareLink();
+    },
+    copyShareLink: async () => {
+      const url = uiState.shareLink?.url;
+      if (!url) return false;
+      const copied = await copyTextWithFallback(url);
+      if (copied) showInquiryToast(t("share.copied"), "success", 1800);
+      else showInquiryToast(t("share.copyFailed"), "error", 2200);
+      return copied;
+    },
+    acceptSharedDraw: () => {
+      const offer = uiState.sharedDrawOffer;
+      if (!offer || ctx.isBallControlLocked()) return;
+      const { draw } = offer;
+      uiState.sharedDrawOffer = null;
+      uiState.settingsOpen = true;
+      uiState.settingsConfirmOpen = false;
+      uiState.rosterImport = null;
+      uiState.settingsDraft = draw.balls.map((ball) => ({
+        id: ball.id,
+        name: ball.name,
+        tint: ball.tint || "#ffffff",
+        imageDataUrl:
+          ball.imageDataUrl || buildSystemBallImageDataUrl({ ballId: ball.id, name: ball.name, tint: ball.tint || undefined }),
+      }));
+      uiState.settingsDraftCounts = Object.fromEntries(draw.balls.map((ball) => [ball.id, ball.count]));
+      uiState.sharedDrawInDraft = draw;
+      opts.editor.recalcDirty();
+      ctx.refreshUi();
+    },
+    dismissSharedDraw: () => {
+      if (!uiState.sharedDrawOffer) return;
+      uiState.sharedDrawOffer = null;
+      ctx.refreshUi();
+    },
+  };
+
+  return {
+    readSharedDrawFromUrl,
+    applySharedDrawSettings,
+    actions,
+  };
+}
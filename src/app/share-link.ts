@@ -0,0 +1,201 @@
+/**
+ * Shareable draw links: the roster and draw settings packed into the URL fragment
+ * (`#draw=...`), so names never reach the server or its logs.
+ *
+ * The payload is compact JSON, deflated when the browser can, then base64url encoded.
+ * System avatars are never sent (the receiver rebuilds them from id, name and tint);
+ * uploaded images only when asked for, since they make the link long.
+ */
+import { BALL_CATALOG_MAX, isSystemBallAvatarUrl } from "../game/assets.ts";
+import {
+  DEFAULT_RACE_LENGTH,
+  isBoardLayout,
+  isRaceLength,
+  type BuiltinBoardLayout,
+  type RaceLength,
+} from "../game/board-config.ts";
+import { sanitizeBallName, sanitizeStartCaption } from "./game-flow-selectors";
+import { getDataUrlMimeType, isAllowedUploadImageMimeType } from "./image-upload-policy";
+
+export type SharedBall = {
+  id: string;
+  name: string;
+  tint: string;
+  count: number;
+  /** "" when the image was left out of the link. */
+  imageDataUrl: string;
+};
+
+export type SharedDraw = {
+  balls: SharedBall[];
+  winnerCount: number;
+  startCaption: string;
+  layout: BuiltinBoardLayout;
+  raceLength: RaceLength;
+  /** Seed for the receiver's next draw, so the same roster and board replay the same result. */
+  seed: number | null;
+};
+
+export const SHARE_LINK_VERSION = 1;
+export const SHARE_HASH_PARAM = "draw";
+/** Some chat apps cut links off past roughly this many characters. */
+export const SHARE_LINK_SOFT_MAX = 2000;
+
+type WireBall = [id: string, name: string, tint: string, count: number, image?: string];
+
+type WireDraw = {
+  v: number;
+  b: WireBall[];
+  w: number;
+  c: string;
+  l: string;
+  r: string;
+  s?: number;
+};
+
+const DEFLATE_PREFIX = "z";
+const PLAIN_PREFIX = "j";
+const MAX_COUNT = 99;
+const MAX_ID_LENGTH = 40;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function canDeflate(): boolean {
+  return typeof CompressionStream === "function" && typeof DecompressionStream === "function";
+}
+
+function toWire(draw: SharedDraw, includeImages: boolean): WireDraw {
+  const wire: WireDraw = {
+    v: SHARE_LINK_VERSION,
+    b: draw.balls.map((ball) => {
+      const item: WireBall = [ball.id, ball.name, ball.tint, ball.count];
+      if (includeImages && ball.imageDataUrl && !isSystemBallAvatarUrl(ball.imageDataUrl)) item.push(ball.imageDataUrl);
+      return item;
+    }),
+    w: draw.winnerCount,
+    c: draw.startCaption,
+    l: draw.layout,
+    r: draw.raceLength,
+  };
+  if (draw.seed != null) wire.s = draw.seed >>> 0;
+  return wire;
+}
+
+export async function encodeSharedDraw(draw: SharedDraw, { includeImages = false } = {}): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(toWire(draw, includeImages)));
+  if (!canDeflate()) return PLAIN_PREFIX + toBase64Url(bytes);
+  return DEFLATE_PREFIX + toBase64Url(await pipeBytes(bytes, new CompressionStream("deflate")));
+}
+
+function readImage(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return isAllowedUploadImageMimeType(getDataUrlMimeType(value)) ? value : "";
+}
+
+function readBall(input: unknown, index: number): SharedBall {
+  if (!Array.isArray(input) || typeof input[0] !== "string" || typeof input[1] !== "string") {
+    throw new Error(`share.b[${index}]: invalid participant`);
+  }
+  const [rawId, rawName, tint, count, image] = input;
+  const id = rawId.trim().slice(0, MAX_ID_LENGTH);
+  const name = sanitizeBallName(rawName, "");
+  if (!id || !name) throw new Error(`share.b[${index}]: missing id or name`);
+  return {
+    id,
+    name,
+    tint: typeof tint === "string" && HEX_COLOR.test(tint) ? tint : "",
+    // 0 is an absent participant.
+    count: Number.isFinite(count) ? Math.max(0, Math.min(MAX_COUNT, Math.floor(count))) : 1,
+    imageDataUrl: readImage(image),
+  };
+}
+
+function fromWire(input: unknown): SharedDraw {
+  if (!input || typeof input !== "object") throw new Error("share: payload must be an object");
+  const wire = input as Partial<WireDraw>;
+  if (wire.v !== SHARE_LINK_VERSION) throw new Error(`share.v: unsupported version ${String(wire.v)}`);
+  if (!Array.isArray(wire.b) || !wire.b.length) throw new Error("share.b: must be a non-empty array");
+  if (!isBoardLayout(wire.l)) throw new Error("share.l: unknown board layout");
+
+  const seen = new Set<string>();
+  const balls: SharedBall[] = [];
+  wire.b.forEach((item, i) => {
+    const ball = readBall(item, i);
+    if (seen.has(ball.id) || balls.length >= BALL_CATALOG_MAX) return;
+    seen.add(ball.id);
+    balls.push(ball);
+  });
+  const winnerCount = Math.floor(Number(wire.w));
+  return {
+    balls,
+    winnerCount: winnerCount >= 1 ? winnerCount : 1,
+    startCaption: sanitizeStartCaption(wire.c),
+    layout: wire.l,
+    raceLength: isRaceLength(wire.r) ? wire.r : DEFAULT_RACE_LENGTH,
+    seed: Number.isInteger(wire.s) ? (wire.s as number) >>> 0 : null,
+  };
+}
+
+/** Throws with the offending field on a damaged or unsupported link. */
+export async function decodeSharedDraw(token: string): Promise<SharedDraw> {
+  const mode = token.charAt(0);
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(token.slice(1));
+  } catch {
+    throw new Error("share: link is not valid base64url");
+  }
+  if (mode === DEFLATE_PREFIX) {
+    if (!canDeflate()) throw new Error("share: this browser cannot read compressed links");
+    try {
+      bytes = await pipeBytes(bytes, new DecompressionStream("deflate"));
+    } catch {
+      throw new Error("share: link data is damaged");
+    }
+  } else if (mode !== PLAIN_PREFIX) {
+    throw new Error("share: unknown link encoding");
+  }
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("share: link data is damaged");
+  }
+  return fromWire(payload);
+}
+
+/** `href` with the draw token in its fragment (the query, e.g. `?lang`, is kept). */
+export function buildShareUrl(href: string, token: string): string {
+  const url = new URL(href);
+  url.hash = `${SHARE_HASH_PARAM}=${token}`;
+  return url.toString();
+}
+
+export function readShareToken(href: string): string | null {
+  try {
+    const params = new URLSearchParams(new URL(href).hash.slice(1));
+    return params.get(SHARE_HASH_PARAM) || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,102 @@
+import { loadStoredRosterImages } from "../ui/storage.ts";
+import { STORAGE_KEYS, readStorage, subscribeStorageChanges } from "../ui/storage-core.ts";
+import type { createAudioController } from "../ui/audio-controller.js";
+import { getCurrentLanguage, setCurrentLanguage } from "../i18n/runtime";
+import type { GameAppContext } from "./app-context";
+import type { RosterPresetController } from "./roster-preset-controller";
+import type { SettingsEditorController } from "./settings-editor-controller";
+import { getTabSyncGroup, getTabSyncStep, type TabSyncGroup } from "./tab-sync";
+import type { TabSyncActions } from "./ui-store";
+
+/**
+ * Settings other tabs saved: collected as they arrive and taken by `flush` once the run on screen
+ * is cleared and no unsaved settings edit is in the way (a roster behind edits asks the user).
+ */
+export function createTabSyncController(
+  ctx: GameAppContext,
+  opts: {
+    editor: SettingsEditorController;
+    presets: RosterPresetController;
+    audioController: ReturnType<typeof createAudioController>;
+    reloadAttendance: () => void;
+  }
+) {
+  const { state, uiState, catalogController } = ctx;
+  /** Settings other tabs changed that this tab has not taken yet. */
+  const pending = new Set<TabSyncGroup>();
+
+  function applyGroup(group: TabSyncGroup) {
+    if (group === "language") {
+      setCurrentLanguage(readStorage(STORAGE_KEYS.language) ?? getCurrentLanguage());
+      return;
+    }
+    if (group === "audio") {
+      opts.audioController.syncFromStorage();
+      return;
+    }
+    catalogController.reloadFromStorage();
+    opts.reloadAttendance();
+    opts.presets.reloadFromStorage();
+    if (uiState.settingsOpen) {
+      // Nothing unsaved (or the user chose to drop it): the dialog shows the synced roster.
+      uiState.settingsDraft = null;
+      uiState.settingsDraftCounts = {};
+      opts.editor.recalcDirty();
+    }
+  }
+
+  /** Takes what other tabs changed as far as the run on screen and unsaved edits allow; true on a conflict. */
+  function flush(): boolean {
+    const step = getTabSyncStep(pending, {
+      runOnScreen: state.mode === "playing",
+      settingsDirty: uiState.settingsOpen && uiState.settingsDirty,
+    });
+    for (const group of step.apply) {
+      pending.delete(group);
+      applyGroup(group);
+    }
+    if (!pending.has("roster")) uiState.tabSyncConflict = false;
+    return step.conflict;
+  }
+
+  function receive(group: TabSyncGroup) {
+    pending.add(group);
+    // Every new roster change asks again, even after "keep my edits".
+    if (flush() && group === "roster") uiState.tabSyncConflict = true;
+    ctx.refreshUi();
+  }
+
+  const unsubscribe = subscribeStorageChanges((key) => {
+    const group = getTabSyncGroup(key);
+    if (!group) return;
+    if (group !== "roster") {
+      receive(group);
+      return;
+    }
+    // The roster may point at images the other tab has just stored.
+    void loadStoredRosterImages().then(() => receive("roster"));
+  });
+
+  const actions: TabSyncActions = {
+    loadTabSyncChanges: () => {
+      if (!uiState.tabSyncConflict) return;
+      uiState.settingsDraft = null;
+      uiState.settingsDraftCounts = {};
+      uiState.sharedDrawInDraft = null;
+      opts.editor.recalcDirty();
+      flush();
+      ctx.refreshUi();
+    },
+    dismissTabSyncConflict: () => {
+      if (!uiState.tabSyncConflict) return;
+      uiState.tabSyncConflict = false;
+      ctx.refreshUi();
+    },
+  };
+
+  return {
+    flush,
+    dispose: unsubscribe,
+    actions,
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Live sync between tabs (e.g. a presenter tab and an editing tab): which stored settings are
+ * picked up from other tabs, and when. A tab showing a run takes nothing until the run is cleared,
+ * and a roster change meeting unsaved settings edits waits for the user to choose.
+ */
+import { STORAGE_KEYS } from "../ui/storage-core.ts";
+
+export type TabSyncGroup = "language" | "roster" | "audio";
+
+/** Apply order: the language first, so a synced roster is shown in it right away. */
+export const TAB_SYNC_GROUPS: readonly TabSyncGroup[] = ["language", "roster", "audio"];
+
+const TAB_SYNC_GROUP_BY_KEY: ReadonlyMap<string, TabSyncGroup> = new Map([
+  [STORAGE_KEYS.balls, "roster"],
+  [STORAGE_KEYS.ballCounts, "roster"],
+  [STORAGE_KEYS.countsBeforeAbsence, "roster"],
+  [STORAGE_KEYS.rosterPresets, "roster"],
+  [STORAGE_KEYS.language, "language"],
+  [STORAGE_KEYS.bgmOn, "audio"],
+  [STORAGE_KEYS.bgmTrack, "audio"],
+]);
+
+export type TabSyncBlockers = {
+  /** A run (or its finished board) is on screen. */
+  runOnScreen: boolean;
+  /** The settings dialog has unsaved edits. */
+  settingsDirty: boolean;
+};
+
+export type TabSyncStep = {
+  /** Groups to apply now, in apply order. */
+  apply: TabSyncGroup[];
+  /** The roster is held back by unsaved edits. */
+  conflict: boolean;
+};
+
+/** Group a changed storage key belongs to, or null for settings that are not synced. */
+export function getTabSyncGroup(key: string): TabSyncGroup | null {
+  return TAB_SYNC_GROUP_BY_KEY.get(key) ?? null;
+}
+
+/** What to apply of the pending groups; whatever is not applied stays pending. */
+export function getTabSyncStep(pending: ReadonlySet<TabSyncGroup>, blockers: TabSyncBlockers): TabSyncStep {
+  if (blockers.runOnScreen) return { apply: [], conflict: false };
+  const conflict = blockers.settingsDirty && pending.has("roster");
+  return {
+    apply: TAB_SYNC_GROUPS.filter((group) => pending.has(group) && !(conflict && group === "roster")),
+    conflict,
+  };
+}
@@ -1,4 +1,4 @@
-import type { FinishedMarble } from "../game/engine.ts";
+import type { FinishedMarble, WinnerRule } from "../game/engine.ts";
 
 export function clampResultCount(requested: number, max: number): number {
   const safeMax = Math.max(1, Math.floor(Number(max) || 1));
@@ -23,3 +23,51 @@ export function selectLastFinishers(
     .slice(0, effective)
     .map((x) => x.entry);
 }
+
+/**
+ * Winners under `rule`, starting at the deciding place and moving away from it:
+ * `last` counts back from the final arrival, `first`/`rank` count forward from their place.
+ */
+export function selectWinnersByRule(
+  finished: FinishedMarble[],
+  rule: WinnerRule,
+  requestedCount: number,
+  totalToDrop: number
+): FinishedMarble[] {
+  if (rule.kind === "last") return selectLastFinishers(finished, requestedCount, totalToDrop);
+  if (!Array.isArray(finished) || !finished.length || totalToDrop <= 0) return [];
+  const start = rule.kind === "rank" ? Math.min(totalToDrop, Math.max(1, Math.floor(rule.rank))) - 1 : 0;
+  const effective = clampResultCount(requestedCount, totalToDrop - start);
+
+  return finished
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      if (a.entry.t !== b.entry.t) return a.entry.t - b.entry.t;
+      return a.index - b.index;
+    })
+    .slice(start, start + effective)
+    .map((x) => x.entry);
+}
+
+/**
+ * Number printed next to a winner: `last` counts from the final arrival back, `first`/`rank` show the arrival place.
+ */
+export function getWinnerPlaceNumber(rule: WinnerRule, resultRank: number): number {
+  if (rule.kind === "rank") return rule.rank + resultRank - 1;
+  return resultRank;
+}
+
+/**
+ * Every finisher grouped by slot (left to right), in arrival order within a slot.
+ */
+export function selectFinishersBySlot(finished: FinishedMarble[]): FinishedMarble[] {
+  if (!Array.isArray(finished) || !finished.length) return [];
+  return finished
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      if (a.entry.slot !== b.entry.slot) return a.entry.slot - b.entry.slot;
+      if (a.entry.t !== b.entry.t) return a.entry.t - b.entry.t;
+      return a.index - b.index;
+    })
+    .map((x) => x.entry);
+}
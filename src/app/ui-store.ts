@@ -3,6 +3,27 @@
  */
 import { getDefaultStartCaption } from "./game-flow-selectors";
 import { t } from "../i18n/runtime";
+import {
+  DEFAULT_BOARD_LAYOUT,
+  DEFAULT_PRIZE_SLOTS,
+  DEFAULT_RACE_LENGTH,
+  type BuiltinBoardLayout,
+  type PrizeSlot,
+  type RaceLength,
+} from "../game/board-config.ts";
+import { DEFAULT_WINNER_RULE, type WinnerRule } from "../game/engine.ts";
+import type { DrawHistoryEntry, DrawHistoryFilter } from "../game/draw-history.ts";
+import { EMPTY_PARTICIPANT_FILTER, type ParticipantFilter } from "../game/participant-tags.ts";
+import { DEFAULT_REPEAT_RULE, type RepeatRule, type RepeatRuleOutcome } from "../game/repeat-rules.ts";
+import type { RosterImportPreview } from "./roster-import";
+import type { AvatarCrop } from "./avatar-crop";
+import type {
+  SettingsBackup,
+  SettingsBackupSection,
+  SettingsRestoreMode,
+  SettingsRestoreModes,
+} from "./settings-backup";
+import type { SharedDraw } from "./share-link";
 
 const listeners = new Set<() => void>();
 
@@ -31,16 +52,90 @@ export type ResultUiState = {
   requestedCount: number;
   effectiveCount: number;
   items: ReadonlyArray<ResultUiItem>;
+  /** Non-empty in prize mode: items are grouped by these slots instead of ranked. */
+  slotLabels: ReadonlyArray<string>;
 };
 
 export type StatusTone = "ready" | "running" | "paused" | "done";
 
+export type LiveRankingRowUiModel = {
+  marbleId: string;
+  name: string;
+  imageDataUrl: string;
+  rank: number;
+  /** Set once the marble has arrived. */
+  arrivalSeconds: number | null;
+};
+
+export type LiveRankingUiModel = {
+  head: ReadonlyArray<LiveRankingRowUiModel>;
+  /** Last places, after `hiddenCount` rows that do not fit. */
+  tail: ReadonlyArray<LiveRankingRowUiModel>;
+  hiddenCount: number;
+};
+
 export type BallUiModel = {
   id: string;
   name: string;
   imageDataUrl: string;
   count: number;
   locked: boolean;
+  /** Same array until the tags change. */
+  tags: ReadonlyArray<string>;
+  /** False when the tag filter leaves the participant out of the next run. */
+  active: boolean;
+};
+
+export type RosterPresetUiModel = {
+  id: string;
+  name: string;
+};
+
+export type RosterImportOption = "replace" | "includeDuplicates";
+
+/** Bulk import panel inside the settings dialog; replaced (never mutated) on every change. */
+export type RosterImportUiState = {
+  text: string;
+  /** Replace the draft's participants instead of appending to them. */
+  replace: boolean;
+  includeDuplicates: boolean;
+  /** Image URLs are being fetched for the apply. */
+  busy: boolean;
+  preview: RosterImportPreview;
+};
+
+/** Open share dialog; `url` is "" while the link is being built. */
+export type ShareLinkUiState = {
+  includeImages: boolean;
+  /** Only possible once a draw has revealed its seed. */
+  includeSeed: boolean;
+  url: string;
+  busy: boolean;
+};
+
+export type ShareLinkOption = "includeImages" | "includeSeed";
+
+/** What an opened share link would load, shown before anything is replaced. */
+export type SharedDrawUiModel = Omit<SharedDraw, "balls"> & {
+  participantCount: number;
+  names: string[];
+};
+
+/** Uploaded image waiting in the crop dialog; `sourceUrl` is an object URL of the picked file. */
+export type AvatarCropUiState = {
+  ballId: string;
+  ballName: string;
+  sourceUrl: string;
+  width: number;
+  height: number;
+};
+
+/** Backup file picked in the settings dialog, waiting for the per-section restore choice. */
+export type SettingsRestoreUiModel = Omit<SettingsBackup, "version" | "roster"> & {
+  fileName: string;
+  /** null when the file has no roster. */
+  participantCount: number | null;
+  modes: SettingsRestoreModes;
 };
 
 export type InquirySubmitResult =
@@ -63,11 +158,47 @@ export type UiSnapshot = {
   winnerCount: number;
   winnerCountMax: number;
   winnerCountWasClamped: boolean;
+  winnerRule: WinnerRule;
+  repeatRule: RepeatRule;
+  /** Entries the anti-repeat rule changes for the next draw; replaced (never mutated) on change. */
+  repeatRuleOutcome: RepeatRuleOutcome;
+  /** Tags in the live roster, first-seen order; replaced (never mutated) on change. */
+  participantTags: ReadonlyArray<string>;
+  /** Replaced (never mutated) on change. */
+  participantFilter: ParticipantFilter;
+  /** Participants (not entries) the tag filter lets into the next run. */
+  activeParticipantCount: number;
   startCaption: string;
+  boardLayout: BuiltinBoardLayout;
+  raceLength: RaceLength;
+  /** False for layouts without race length presets (the picker is hidden). */
+  raceLengthAvailable: boolean;
+  /** Estimated run length in real seconds at the current speed, or null when unknown. */
+  estimatedRaceSeconds: number | null;
+  /** Prize slots can only be used on the current layout when this is true (classic). */
+  prizeModeAvailable: boolean;
+  prizeMode: boolean;
+  prizeSlots: ReadonlyArray<PrizeSlot>;
+  /** Boards run on the bit-exact engine path; recorded with each draw. */
+  exactReplay: boolean;
   resultState: ResultUiState;
   settingsOpen: boolean;
   settingsDirty: boolean;
   settingsConfirmOpen: boolean;
+  rosterImport: RosterImportUiState | null;
+  avatarCrop: AvatarCropUiState | null;
+  rosterPresets: ReadonlyArray<RosterPresetUiModel>;
+  activeRosterPresetId: string;
+  shareLink: ShareLinkUiState | null;
+  sharedDrawOffer: SharedDrawUiModel | null;
+  /** The settings draft came from a share link; applying it also takes the link's draw settings. */
+  sharedDrawInDraft: boolean;
+  settingsRestore: SettingsRestoreUiModel | null;
+  /** Another tab changed the roster while the settings dialog has unsaved edits. */
+  tabSyncConflict: boolean;
+  drawHistoryOpen: boolean;
+  /** Newest first; replaced (never mutated) when a draw is added. */
+  drawHistory: ReadonlyArray<DrawHistoryEntry>;
   bgmOn: boolean;
   bgmTrack: string;
   inquiryOpen: boolean;
@@ -75,12 +206,17 @@ export type UiSnapshot = {
   inquiryStatus: string;
   inquiryForm: InquiryForm;
   speedMultiplier: number;
+  drawCommitment: string;
+  drawRevealedSeed: number | null;
+  /** Leaderboard while marbles are on the board; replaced (never mutated) when the order changes. */
+  liveRanking: LiveRankingUiModel | null;
   balls: BallUiModel[];
 };
 
 export type RunActions = {
   handleStartClick: () => void;
   prepareRestartForCountdown: () => void;
+  commitNextDraw: () => void;
   stopRunNow: () => boolean;
   togglePause: () => void;
   toggleSpeedMode: () => void;
@@ -88,10 +224,26 @@ export type RunActions = {
 
 export type GameConfigActions = {
   setWinnerCount: (nextValue: number) => void;
+  setWinnerRule: (rule: WinnerRule) => void;
+  setRepeatRule: (rule: RepeatRule) => void;
   setStartCaption: (value: string) => void;
   toggleViewLock: (isOn: boolean) => void;
   setBallCount: (ballId: string, nextValue: number) => void;
   adjustBallCount: (ballId: string, delta: number) => void;
+  /** Present <-> absent (0 entries); coming back restores the count from before. */
+  toggleBallAttendance: (ballId: string) => void;
+  setBoardLayout: (layout: BuiltinBoardLayout) => void;
+  setRaceLength: (length: RaceLength) => void;
+  setPrizeMode: (isOn: boolean) => void;
+  setPrizeSlotCount: (count: number) => void;
+  setPrizeSlot: (index: number, patch: Partial<PrizeSlot>) => void;
+  setExactReplay: (isOn: boolean) => void;
+};
+
+export type ParticipantFilterActions = {
+  /** Tag chip click: off -> include -> exclude -> off. */
+  cycleParticipantTagFilter: (tag: string) => void;
+  clearParticipantFilter: () => void;
 };
 
 export type CatalogSettingsActions = {
@@ -105,7 +257,29 @@ export type CatalogSettingsActions = {
   reorderCatalogBall: (sourceBallId: string, targetBallId: string) => boolean;
   restoreDefaultCatalog: () => boolean;
   setCatalogBallName: (ballId: string, name: string) => boolean;
-  setCatalogBallImage: (ballId: string, file: File) => Promise<boolean> | boolean;
+  /** Comma-separated tags. */
+  setCatalogBallTags: (ballId: string, text: string) => boolean;
+  /** Decodes the picked file and opens the crop dialog; nothing changes until the crop is applied. */
+  openAvatarCrop: (ballId: string, file: File) => Promise<boolean> | boolean;
+  applyAvatarCrop: (crop: AvatarCrop) => boolean;
+  closeAvatarCrop: () => void;
+};
+
+export type RosterImportActions = {
+  openRosterImport: () => void;
+  closeRosterImport: () => void;
+  setRosterImportText: (text: string) => void;
+  loadRosterImportFile: (file: File) => Promise<boolean> | boolean;
+  setRosterImportOption: (option: RosterImportOption, isOn: boolean) => void;
+  applyRosterImport: () => Promise<boolean> | boolean;
+};
+
+export type RosterPresetActions = {
+  switchRosterPreset: (presetId: string) => boolean;
+  createRosterPreset: () => boolean;
+  renameRosterPreset: (presetId: string, name: string) => boolean;
+  duplicateRosterPreset: (presetId: string) => boolean;
+  deleteRosterPreset: (presetId: string) => boolean;
 };
 
 export type ResultActions = {
@@ -115,6 +289,43 @@ export type ResultActions = {
   completeResultSpin: () => void;
   copyResults: () => Promise<boolean> | boolean;
   restartFromResult: () => void;
+  downloadDrawProof: () => boolean;
+};
+
+export type DrawHistoryExportFormat = "csv" | "json";
+
+export type DrawHistoryActions = {
+  openDrawHistory: () => void;
+  closeDrawHistory: () => void;
+  copyDrawHistoryEntry: (entryId: string) => Promise<boolean> | boolean;
+  /** Export the entries matching `filter` (what the history view shows). */
+  exportDrawHistory: (format: DrawHistoryExportFormat, filter: DrawHistoryFilter) => boolean;
+};
+
+export type ShareLinkActions = {
+  openShareLink: () => void;
+  closeShareLink: () => void;
+  setShareLinkOption: (option: ShareLinkOption, isOn: boolean) => void;
+  copyShareLink: () => Promise<boolean> | boolean;
+  /** Load the offered link into the settings draft (nothing is replaced until the draft is applied). */
+  acceptSharedDraw: () => void;
+  dismissSharedDraw: () => void;
+};
+
+export type SettingsBackupActions = {
+  /** Download the live settings (not the unapplied draft) as a backup file. */
+  exportSettingsBackup: () => boolean;
+  loadSettingsBackupFile: (file: File) => Promise<boolean> | boolean;
+  setSettingsRestoreMode: (section: SettingsBackupSection, mode: SettingsRestoreMode) => void;
+  applySettingsRestore: () => boolean;
+  closeSettingsRestore: () => void;
+};
+
+export type TabSyncActions = {
+  /** Drop the unsaved settings edits and take the roster another tab saved. */
+  loadTabSyncChanges: () => void;
+  /** Keep editing; applying the edits then replaces the other tab's roster. */
+  dismissTabSyncConflict: () => void;
 };
 
 export type AudioActions = {
@@ -131,8 +342,15 @@ export type InquiryActions = {
 
 export type UiActions = RunActions &
   GameConfigActions &
+  ParticipantFilterActions &
   CatalogSettingsActions &
+  RosterImportActions &
+  RosterPresetActions &
   ResultActions &
+  DrawHistoryActions &
+  ShareLinkActions &
+  SettingsBackupActions &
+  TabSyncActions &
   AudioActions &
   InquiryActions;
 
@@ -152,17 +370,43 @@ const DEFAULT_SNAPSHOT: UiSnapshot = Object.freeze({
   winnerCount: 1,
   winnerCountMax: 1,
   winnerCountWasClamped: false,
+  winnerRule: DEFAULT_WINNER_RULE,
+  repeatRule: DEFAULT_REPEAT_RULE,
+  repeatRuleOutcome: Object.freeze({ adjustments: {}, changes: [], skipped: false }),
+  participantTags: Object.freeze([]),
+  participantFilter: EMPTY_PARTICIPANT_FILTER,
+  activeParticipantCount: 0,
   startCaption: getDefaultStartCaption(),
+  boardLayout: DEFAULT_BOARD_LAYOUT,
+  raceLength: DEFAULT_RACE_LENGTH,
+  raceLengthAvailable: true,
+  estimatedRaceSeconds: null,
+  prizeModeAvailable: false,
+  prizeMode: false,
+  prizeSlots: DEFAULT_PRIZE_SLOTS,
+  exactReplay: false,
   resultState: Object.freeze({
     open: false,
     phase: "idle",
     requestedCount: 1,
     effectiveCount: 0,
     items: Object.freeze([]),
+    slotLabels: Object.freeze([]),
   }),
   settingsOpen: false,
   settingsDirty: false,
   settingsConfirmOpen: false,
+  rosterImport: null,
+  avatarCrop: null,
+  rosterPresets: Object.freeze([]),
+  activeRosterPresetId: "",
+  shareLink: null,
+  sharedDrawOffer: null,
+  sharedDrawInDraft: false,
+  settingsRestore: null,
+  tabSyncConflict: false,
+  drawHistoryOpen: false,
+  drawHistory: Object.freeze([]),
   bgmOn: false,
   bgmTrack: "bgm_1",
   inquiryOpen: false,
@@ -175,6 +419,9 @@ const DEFAULT_SNAPSHOT: UiSnapshot = Object.freeze({
     website: "",
   }),
   speedMultiplier: 1,
+  drawCommitment: "",
+  drawRevealedSeed: null,
+  liveRanking: null,
   balls: [],
 });
 
@@ -185,6 +432,7 @@ const NOOP_SUBMIT = (): InquirySubmitResult => ({ ok: false, message: t("ui.noop
 const RUN_NOOPS: RunActions = {
   handleStartClick: NOOP_VOID,
   prepareRestartForCountdown: NOOP_VOID,
+  commitNextDraw: NOOP_VOID,
   stopRunNow: NOOP_FALSE,
   togglePause: NOOP_VOID,
   toggleSpeedMode: NOOP_VOID,
@@ -192,10 +440,24 @@ const RUN_NOOPS: RunActions = {
 
 const GAME_CONFIG_NOOPS: GameConfigActions = {
   setWinnerCount: NOOP_VOID,
+  setWinnerRule: NOOP_VOID,
+  setRepeatRule: NOOP_VOID,
   setStartCaption: NOOP_VOID,
   toggleViewLock: NOOP_VOID,
   setBallCount: NOOP_VOID,
   adjustBallCount: NOOP_VOID,
+  toggleBallAttendance: NOOP_VOID,
+  setBoardLayout: NOOP_VOID,
+  setRaceLength: NOOP_VOID,
+  setPrizeMode: NOOP_VOID,
+  setPrizeSlotCount: NOOP_VOID,
+  setPrizeSlot: NOOP_VOID,
+  setExactReplay: NOOP_VOID,
+};
+
+const PARTICIPANT_FILTER_NOOPS: ParticipantFilterActions = {
+  cycleParticipantTagFilter: NOOP_VOID,
+  clearParticipantFilter: NOOP_VOID,
 };
 
 const CATALOG_SETTINGS_NOOPS: CatalogSettingsActions = {
@@ -209,7 +471,27 @@ const CATALOG_SETTINGS_NOOPS: CatalogSettingsActions = {
   reorderCatalogBall: NOOP_FALSE,
   restoreDefaultCatalog: NOOP_FALSE,
   setCatalogBallName: NOOP_FALSE,
-  setCatalogBallImage: NOOP_FALSE,
+  setCatalogBallTags: NOOP_FALSE,
+  openAvatarCrop: NOOP_FALSE,
+  applyAvatarCrop: NOOP_FALSE,
+  closeAvatarCrop: NOOP_VOID,
+};
+
+const ROSTER_IMPORT_NOOPS: RosterImportActions = {
+  openRosterImport: NOOP_VOID,
+  closeRosterImport: NOOP_VOID,
+  setRosterImportText: NOOP_VOID,
+  loadRosterImportFile: NOOP_FALSE,
+  setRosterImportOption: NOOP_VOID,
+  applyRosterImport: NOOP_FALSE,
+};
+
+const ROSTER_PRESET_NOOPS: RosterPresetActions = {
+  switchRosterPreset: NOOP_FALSE,
+  createRosterPreset: NOOP_FALSE,
+  renameRosterPreset: NOOP_FALSE,
+  duplicateRosterPreset: NOOP_FALSE,
+  deleteRosterPreset: NOOP_FALSE,
 };
 
 const RESULT_NOOPS: ResultActions = {
@@ -219,6 +501,36 @@ const RESULT_NOOPS: ResultActions = {
   completeResultSpin: NOOP_VOID,
   copyResults: NOOP_FALSE,
   restartFromResult: NOOP_VOID,
+  downloadDrawProof: NOOP_FALSE,
+};
+
+const DRAW_HISTORY_NOOPS: DrawHistoryActions = {
+  openDrawHistory: NOOP_VOID,
+  closeDrawHistory: NOOP_VOID,
+  copyDrawHistoryEntry: NOOP_FALSE,
+  exportDrawHistory: NOOP_FALSE,
+};
+
+const SHARE_LINK_NOOPS: ShareLinkActions = {
+  openShareLink: NOOP_VOID,
+  closeShareLink: NOOP_VOID,
+  setShareLinkOption: NOOP_VOID,
+  copyShareLink: NOOP_FALSE,
+  acceptSharedDraw: NOOP_VOID,
+  dismissSharedDraw: NOOP_VOID,
+};
+
+const SETTINGS_BACKUP_NOOPS: SettingsBackupActions = {
+  exportSettingsBackup: NOOP_FALSE,
+  loadSettingsBackupFile: NOOP_FALSE,
+  setSettingsRestoreMode: NOOP_VOID,
+  applySettingsRestore: NOOP_FALSE,
+  closeSettingsRestore: NOOP_VOID,
+};
+
+const TAB_SYNC_NOOPS: TabSyncActions = {
+  loadTabSyncChanges: NOOP_VOID,
+  dismissTabSyncConflict: NOOP_VOID,
 };
 
 const AUDIO_NOOPS: AudioActions = {
@@ -237,8 +549,15 @@ let snapshot: UiSnapshot = DEFAULT_SNAPSHOT;
 let actions: UiActions = {
   ...RUN_NOOPS,
   ...GAME_CONFIG_NOOPS,
+  ...PARTICIPANT_FILTER_NOOPS,
   ...CATALOG_SETTINGS_NOOPS,
+  ...ROSTER_IMPORT_NOOPS,
+  ...ROSTER_PRESET_NOOPS,
   ...RESULT_NOOPS,
+  ...DRAW_HISTORY_NOOPS,
+  ...SHARE_LINK_NOOPS,
+  ...SETTINGS_BACKUP_NOOPS,
+  ...TAB_SYNC_NOOPS,
   ...AUDIO_NOOPS,
   ...INQUIRY_NOOPS,
 };
@@ -265,16 +584,49 @@ function isEqualSnapshot(a: UiSnapshot, b: UiSnapshot) {
     a.winnerCount !== b.winnerCount ||
     a.winnerCountMax !== b.winnerCountMax ||
     a.winnerCountWasClamped !== b.winnerCountWasClamped ||
+    a.winnerRule.kind !== b.winnerRule.kind ||
+    (a.winnerRule.kind === "rank" && b.winnerRule.kind === "rank" && a.winnerRule.rank !== b.winnerRule.rank) ||
+    a.repeatRule.kind !== b.repeatRule.kind ||
+    a.repeatRule.draws !== b.repeatRule.draws ||
+    a.repeatRule.bonus !== b.repeatRule.bonus ||
+    a.repeatRuleOutcome !== b.repeatRuleOutcome ||
+    a.participantTags !== b.participantTags ||
+    a.participantFilter !== b.participantFilter ||
+    a.activeParticipantCount !== b.activeParticipantCount ||
     a.startCaption !== b.startCaption ||
+    a.boardLayout !== b.boardLayout ||
+    a.raceLength !== b.raceLength ||
+    a.raceLengthAvailable !== b.raceLengthAvailable ||
+    a.estimatedRaceSeconds !== b.estimatedRaceSeconds ||
+    a.prizeModeAvailable !== b.prizeModeAvailable ||
+    a.prizeMode !== b.prizeMode ||
+    a.prizeSlots.length !== b.prizeSlots.length ||
+    a.prizeSlots.some((slot, i) => slot.label !== b.prizeSlots[i].label || slot.width !== b.prizeSlots[i].width) ||
+    a.exactReplay !== b.exactReplay ||
     a.settingsOpen !== b.settingsOpen ||
     a.settingsDirty !== b.settingsDirty ||
     a.settingsConfirmOpen !== b.settingsConfirmOpen ||
+    a.rosterImport !== b.rosterImport ||
+    a.avatarCrop !== b.avatarCrop ||
+    a.activeRosterPresetId !== b.activeRosterPresetId ||
+    a.shareLink !== b.shareLink ||
+    a.sharedDrawOffer !== b.sharedDrawOffer ||
+    a.sharedDrawInDraft !== b.sharedDrawInDraft ||
+    a.settingsRestore !== b.settingsRestore ||
+    a.tabSyncConflict !== b.tabSyncConflict ||
+    a.liveRanking !== b.liveRanking ||
+    a.drawHistoryOpen !== b.drawHistoryOpen ||
+    a.drawHistory !== b.drawHistory ||
+    a.rosterPresets.length !== b.rosterPresets.length ||
+    a.rosterPresets.some((preset, i) => preset.id !== b.rosterPresets[i].id || preset.name !== b.rosterPresets[i].name) ||
     a.bgmOn !== b.bgmOn ||
     a.bgmTrack !== b.bgmTrack ||
     a.inquiryOpen !== b.inquiryOpen ||
     a.inquirySubmitting !== b.inquirySubmitting ||
     a.inquiryStatus !== b.inquiryStatus ||
-    a.speedMultiplier !== b.speedMultiplier
+    a.speedMultiplier !== b.speedMultiplier ||
+    a.drawCommitment !== b.drawCommitment ||
+    a.drawRevealedSeed !== b.drawRevealedSeed
   ) {
     return false;
   }
@@ -286,7 +638,8 @@ function isEqualSnapshot(a: UiSnapshot, b: UiSnapshot) {
     aResult.phase !== bResult.phase ||
     aResult.requestedCount !== bResult.requestedCount ||
     aResult.effectiveCount !== bResult.effectiveCount ||
-    aResult.items.length !== bResult.items.length
+    aResult.items.length !== bResult.items.length ||
+    aResult.slotLabels.join("\n") !== bResult.slotLabels.join("\n")
   ) {
     return false;
   }
@@ -329,7 +682,9 @@ function isEqualSnapshot(a: UiSnapshot, b: UiSnapshot) {
       x.name !== y.name ||
       x.imageDataUrl !== y.imageDataUrl ||
       x.count !== y.count ||
-      x.locked !== y.locked
+      x.locked !== y.locked ||
+      x.tags !== y.tags ||
+      x.active !== y.active
     ) {
       return false;
     }
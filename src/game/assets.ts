@@ -184,11 +184,63 @@ export function getDefaultBalls(language: Language = getCurrentLanguage()): Ball
 export const BALL_LIBRARY: BallCatalogItem[] = getBallLibrary("ko");
 export const DEFAULT_BALLS: BallCatalogItem[] = getDefaultBalls("ko");
 
+/** Most participants one roster can hold; past the animal library, ids and colours are generated. */
+export const BALL_CATALOG_MAX = 300;
+
+const GENERATED_BALL_ID_PREFIX = "p-";
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const v = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(v * 255)
+      .toString(16)
+      .padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/** Stable gradient for an id outside the library, so a participant keeps its colours across reloads. */
+function getGeneratedBallStyle(ballId: string): { c0: string; c1: string; tint: string } {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < ballId.length; i++) {
+    hash ^= ballId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const hue = (hash >>> 0) % 360;
+  const c0 = hslToHex(hue, 95, 68);
+  return { c0, c1: hslToHex((hue + 48) % 360, 90, 55), tint: c0 };
+}
+
+/**
+ * Next participant for a roster: the first unused animal from the library, then generated
+ * `p-<n>` ids with a letter avatar named after their place in the list.
+ */
+export function createNextBall(
+  usedIds: ReadonlySet<string>,
+  language: Language = getCurrentLanguage()
+): BallCatalogItem {
+  const free = buildBallCatalog(language).find((item) => !usedIds.has(item.id));
+  if (free) return free;
+
+  let n = usedIds.size + 1;
+  while (usedIds.has(`${GENERATED_BALL_ID_PREFIX}${n}`)) n++;
+  const id = `${GENERATED_BALL_ID_PREFIX}${n}`;
+  return makeLetterBall({
+    id,
+    name: tWithLanguage(language, "ball.participant", { n }),
+    ...getGeneratedBallStyle(id),
+  });
+}
+
 export function buildSystemBallImageDataUrl({
   ballId,
   name,
   fallbackImageDataUrl = "",
-  tint = "#ffffff",
+  tint,
 }: {
   ballId: string;
   name: string;
@@ -198,10 +250,8 @@ export function buildSystemBallImageDataUrl({
   const lib = BALL_LIBRARY.find((item) => item.id === ballId);
   const fromLibrary = lib ? readSystemBallGradient(lib.imageDataUrl) : null;
   const fromFallback = readSystemBallGradient(fallbackImageDataUrl);
-  const gradient = fromLibrary || fromFallback || {
-    c0: sanitizeHexColor(tint, "#ffffff"),
-    c1: sanitizeHexColor(tint, "#ffffff"),
-  };
+  const fromTint = tint ? { c0: sanitizeHexColor(tint, "#ffffff"), c1: sanitizeHexColor(tint, "#ffffff") } : null;
+  const gradient = fromLibrary || fromFallback || fromTint || getGeneratedBallStyle(ballId);
 
   const normalizedTint = sanitizeHexColor(tint, gradient.c0);
   return makeLetterBall({
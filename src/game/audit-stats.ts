@@ -0,0 +1,126 @@
+export type ChiSquareResult = {
+  statistic: number;
+  df: number;
+  pValue: number;
+};
+
+export type KsResult = {
+  statistic: number;
+  pValue: number;
+};
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function lnGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  const z = x - 1;
+  let a = 0.99999999999980993;
+  for (let i = 0; i < LANCZOS.length; i++) a += LANCZOS[i] / (z + i + 1);
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/**
+ * Regularized upper incomplete gamma Q(a, x) (series below a+1, continued fraction above).
+ */
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const gln = lnGamma(a);
+  if (x < a + 1) {
+    let sum = 1 / a;
+    let del = sum;
+    let ap = a;
+    for (let n = 0; n < 500; n++) {
+      ap += 1;
+      del *= x / ap;
+      sum += del;
+      if (Math.abs(del) < Math.abs(sum) * 1e-14) break;
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - gln);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-14) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - gln) * h;
+}
+
+/**
+ * Pearson chi-square goodness of fit against expected counts.
+ */
+export function chiSquareTest(observed: number[], expected: number[]): ChiSquareResult {
+  let statistic = 0;
+  let cells = 0;
+  for (let i = 0; i < observed.length; i++) {
+    const e = expected[i];
+    if (!(e > 0)) continue;
+    const diff = observed[i] - e;
+    statistic += (diff * diff) / e;
+    cells++;
+  }
+  const df = Math.max(1, cells - 1);
+  return { statistic, df, pValue: clampProbability(gammaQ(df / 2, statistic / 2)) };
+}
+
+/**
+ * Chi-square test against a uniform distribution over the given cells.
+ */
+export function chiSquareUniform(observed: number[]): ChiSquareResult {
+  const total = observed.reduce((sum, n) => sum + n, 0);
+  const expected = observed.map(() => total / Math.max(1, observed.length));
+  return chiSquareTest(observed, expected);
+}
+
+function kolmogorovQ(lambda: number): number {
+  if (lambda < 1e-3) return 1;
+  let sum = 0;
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-12) break;
+  }
+  return clampProbability(sum);
+}
+
+/**
+ * Two-sample Kolmogorov–Smirnov test (asymptotic p-value).
+ * Conservative when samples contain ties, e.g. grid spawn positions.
+ */
+export function ksTwoSample(a: number[], b: number[]): KsResult {
+  if (!a.length || !b.length) return { statistic: 0, pValue: 1 };
+  const xs = [...a].sort((p, q) => p - q);
+  const ys = [...b].sort((p, q) => p - q);
+  let i = 0;
+  let j = 0;
+  let statistic = 0;
+  while (i < xs.length && j < ys.length) {
+    const v = Math.min(xs[i], ys[j]);
+    while (i < xs.length && xs[i] <= v) i++;
+    while (j < ys.length && ys[j] <= v) j++;
+    statistic = Math.max(statistic, Math.abs(i / xs.length - j / ys.length));
+  }
+  const ne = (xs.length * ys.length) / (xs.length + ys.length);
+  const sqrtNe = Math.sqrt(ne);
+  return { statistic, pValue: kolmogorovQ((sqrtNe + 0.12 + 0.11 / sqrtNe) * statistic) };
+}
+
+function clampProbability(p: number): number {
+  if (!Number.isFinite(p)) return 1;
+  return Math.max(0, Math.min(1, p));
+}
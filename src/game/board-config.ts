@@ -1,4 +1,5 @@
-import { makeBoard, type CustomRotorInput } from "./engine.ts";
+import { makeBoard, type BoardLayout, type BoardOptions, type CustomRotorInput } from "./engine.ts";
+import { getEngineMath } from "./portable-math.ts";
 
 /**
  * Hand-tuned extra rotors (world coords or xFrac/yFrac in [0..1]).
@@ -62,15 +63,194 @@ export const CUSTOM_ROTORS: CustomRotorInput[] = [
 ];
 
 /**
- * Build the default board layout for the game.
+ * Board options for the default game board.
+ * Kept as data so replay records can rebuild the exact same board.
  */
-export function createGameBoard() {
+export const GAME_BOARD_OPTIONS: BoardOptions = {
   // Single finish slot: marbles pile in arrival order. (No per-slot outcomes.)
-  return makeBoard({
-    layout: "zigzag",
-    slotCount: 1,
-    heightMultiplier: 10,
-    elementScale: 0.85,
-    customRotors: CUSTOM_ROTORS,
+  layout: "zigzag",
+  slotCount: 1,
+  heightMultiplier: 10,
+  elementScale: 0.85,
+  customRotors: CUSTOM_ROTORS,
+};
+
+/** Layouts the engine can build without a board definition. */
+export type BuiltinBoardLayout = Exclude<BoardLayout, "custom">;
+
+/**
+ * Board options per layout. Zigzag is the shipped game board; the others use
+ * the engine's built-in layouts with the same single finish slot.
+ */
+export const BOARD_OPTIONS_BY_LAYOUT: Record<BuiltinBoardLayout, BoardOptions> = {
+  zigzag: GAME_BOARD_OPTIONS,
+  roulette: { layout: "roulette", slotCount: 1, elementScale: 0.85 },
+  classic: { layout: "classic", slotCount: 1, heightMultiplier: 3, elementScale: 0.85 },
+};
+
+export type RaceLength = "short" | "medium" | "long";
+
+/** Long is the shipped board; shorter presets cut board height and obstacle density. */
+export const DEFAULT_RACE_LENGTH: RaceLength = "long";
+
+type RaceLengthPreset = {
+  heightMultiplier: number;
+  /** Keep every n-th hand-tuned rotor (zigzag). */
+  rotorStride: number;
+};
+
+/**
+ * Race length presets per layout; roulette is a fixed map and has none.
+ * Zigzag run time is dominated by the rotors, so short/medium also thin them out.
+ */
+export const RACE_LENGTH_PRESETS: Partial<Record<BuiltinBoardLayout, Record<RaceLength, RaceLengthPreset>>> = {
+  zigzag: {
+    short: { heightMultiplier: 4, rotorStride: 4 },
+    medium: { heightMultiplier: 7, rotorStride: 2 },
+    long: { heightMultiplier: 10, rotorStride: 1 },
+  },
+  classic: {
+    short: { heightMultiplier: 1, rotorStride: 1 },
+    medium: { heightMultiplier: 2, rotorStride: 1 },
+    long: { heightMultiplier: 3, rotorStride: 1 },
+  },
+};
+
+// Rotor centers closer than this (world px) after scaling the height leave no room for a marble.
+const MIN_ROTOR_SPACING = 70;
+
+export function isRaceLength(value: unknown): value is RaceLength {
+  return value === "short" || value === "medium" || value === "long";
+}
+
+export function hasRaceLengthPresets(layout: BuiltinBoardLayout): boolean {
+  return !!RACE_LENGTH_PRESETS[layout];
+}
+
+/**
+ * Every `stride`-th rotor, minus any that would sit within MIN_ROTOR_SPACING of an earlier one
+ * on a board of `worldW` x `worldH`. Deterministic boards measure the spacing with portable math.
+ */
+export function thinCustomRotors(
+  rotors: CustomRotorInput[],
+  {
+    worldW,
+    worldH,
+    stride = 1,
+    deterministic = false
+  }: { worldW: number; worldH: number; stride?: number; deterministic?: boolean }
+): CustomRotorInput[] {
+  const { hypot } = getEngineMath(deterministic);
+  const kept: Array<{ rotor: CustomRotorInput; x: number; y: number }> = [];
+  rotors.forEach((rotor, i) => {
+    if (i % Math.max(1, Math.floor(stride)) !== 0) return;
+    const x = rotor.x ?? (rotor.xFrac ?? 0) * worldW;
+    const y = rotor.y ?? (rotor.yFrac ?? 0) * worldH;
+    if (kept.some((k) => hypot(k.x - x, k.y - y) < MIN_ROTOR_SPACING)) return;
+    kept.push({ rotor, x, y });
+  });
+  return kept.map((k) => k.rotor);
+}
+
+/** One prize-mode finish slot: a label and a relative width (1 = equal share). */
+export type PrizeSlot = { label: string; width: number };
+
+export const PRIZE_SLOT_MIN = 2;
+export const PRIZE_SLOT_MAX = 8;
+export const PRIZE_SLOT_WIDTH_MIN = 0.5;
+export const PRIZE_SLOT_WIDTH_MAX = 3;
+export const PRIZE_SLOT_LABEL_MAX = 16;
+
+export const DEFAULT_PRIZE_SLOTS: readonly PrizeSlot[] = [
+  { label: "S1", width: 1 },
+  { label: "S2", width: 1 },
+  { label: "S3", width: 1 },
+];
+
+/** Only the classic (plinko) board spreads marbles across the full width. */
+export function supportsPrizeSlots(layout: BuiltinBoardLayout): boolean {
+  return layout === "classic";
+}
+
+/**
+ * Clean up prize slots from UI input or storage: 2..8 slots, trimmed labels (falling back to `S<n>`),
+ * widths clamped to 0.5..3. Returns null when the input is not a list of slots.
+ */
+export function normalizePrizeSlots(input: unknown): PrizeSlot[] | null {
+  if (!Array.isArray(input) || input.length < PRIZE_SLOT_MIN) return null;
+  return input.slice(0, PRIZE_SLOT_MAX).map((raw, i) => {
+    const item = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+    const label = typeof item.label === "string" ? item.label.trim().slice(0, PRIZE_SLOT_LABEL_MAX) : "";
+    const width = Number(item.width);
+    return {
+      label: label || `S${i + 1}`,
+      width: Number.isFinite(width)
+        ? Math.min(PRIZE_SLOT_WIDTH_MAX, Math.max(PRIZE_SLOT_WIDTH_MIN, Math.round(width * 10) / 10))
+        : 1,
+    };
   });
 }
+
+/**
+ * Turn board options into a prize board: one finish slot per prize and no funnel corridor,
+ * so marbles can reach every slot.
+ */
+export function withPrizeSlots(options: BoardOptions, slots: PrizeSlot[]): BoardOptions {
+  return {
+    ...options,
+    corridorEnabled: false,
+    slotCount: slots.length,
+    slotLabels: slots.map((slot) => slot.label),
+    slotWidths: slots.map((slot) => slot.width),
+  };
+}
+
+/**
+ * Board options for a layout at a race length, optionally with prize slots (classic only).
+ * Long (or a layout without presets) returns the layout's shipped options unchanged, so existing
+ * replays keep rebuilding the same board. `deterministic` opts into the bit-exact engine path.
+ */
+export function getBoardOptions(
+  layout: BuiltinBoardLayout,
+  length: RaceLength = DEFAULT_RACE_LENGTH,
+  prizeSlots: PrizeSlot[] | null = null,
+  deterministic = false
+): BoardOptions {
+  if (prizeSlots && supportsPrizeSlots(layout)) {
+    return withPrizeSlots(getBoardOptions(layout, length, null, deterministic), prizeSlots);
+  }
+  const base: BoardOptions = deterministic ? { ...BOARD_OPTIONS_BY_LAYOUT[layout], deterministic } : BOARD_OPTIONS_BY_LAYOUT[layout];
+  const preset = RACE_LENGTH_PRESETS[layout]?.[length];
+  if (!preset || length === DEFAULT_RACE_LENGTH) return base;
+  const options: BoardOptions = { ...base, heightMultiplier: preset.heightMultiplier };
+  if (base.customRotors) {
+    const worldW = base.worldW ?? 900;
+    const worldH = (base.worldH ?? 1350) * preset.heightMultiplier;
+    options.customRotors = thinCustomRotors(base.customRotors, {
+      worldW,
+      worldH,
+      stride: preset.rotorStride,
+      deterministic
+    });
+  }
+  return options;
+}
+
+/** The shipped board; used when nothing (or something unknown) was saved. */
+export const DEFAULT_BOARD_LAYOUT: BuiltinBoardLayout = "zigzag";
+
+export function isBoardLayout(value: unknown): value is BuiltinBoardLayout {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(BOARD_OPTIONS_BY_LAYOUT, value);
+}
+
+/**
+ * Build the game board for a built-in layout (zigzag by default), race length and prize slots.
+ */
+export function createGameBoard(
+  layout: BuiltinBoardLayout = DEFAULT_BOARD_LAYOUT,
+  length: RaceLength = DEFAULT_RACE_LENGTH,
+  prizeSlots: PrizeSlot[] | null = null,
+  deterministic = false
+) {
+  return makeBoard(getBoardOptions(layout, length, prizeSlots, deterministic));
+}
@@ -0,0 +1,462 @@
+import type { BoxEntity, FixedEntity, Point, Propeller, Rotor } from "./engine.ts";
+
+export const BOARD_DEFINITION_FORMAT = "degururu-board";
+export const BOARD_DEFINITION_VERSION = 1;
+
+const BASE_BALL_R = 18;
+const MIN_ELEMENT_SCALE = 0.5;
+const MAX_ELEMENT_SCALE = 1.2;
+const MAX_HEIGHT_MULTIPLIER = 20;
+const MAX_SLOTS = 32;
+// Flood-fill cells per ball radius, and the wall clearance a cell center needs to count as open.
+// Deliberately lenient: marbles squeeze through gaps a little under one diameter (see the roulette wheel).
+const EXIT_CELLS_PER_R = 3;
+const EXIT_CLEARANCE_R = 0.4;
+
+export type BoardDefinitionPropeller = Pick<Propeller, "x" | "y" | "len" | "omega"> & Partial<Propeller>;
+
+export type BoardDefinitionRotor = Pick<Rotor, "x" | "y"> & Partial<Rotor>;
+
+export type BoardDefinition = {
+  format: typeof BOARD_DEFINITION_FORMAT;
+  version: typeof BOARD_DEFINITION_VERSION;
+  name?: string;
+  /** World size in px before `heightMultiplier`. */
+  world: { width: number; height: number };
+  /** Integer stretch applied to every y coordinate and to the world height. */
+  heightMultiplier?: number;
+  /** Ball/peg size factor, same range as `BoardOptions.elementScale`. */
+  elementScale?: number;
+  walls: FixedEntity[];
+  propellers?: BoardDefinitionPropeller[];
+  rotors?: BoardDefinitionRotor[];
+  /** Marbles spawn at `y` between the `leftWall` and `rightWall` polylines, which also bound the playfield. */
+  spawn: { y: number; topY?: number; leftWall: string; rightWall: string };
+  /** Equal-width finish slots across the world; one label per slot. */
+  slots: { height: number; labels: string[] };
+};
+
+export type BoardDefinitionIssue = {
+  path: string;
+  message: string;
+};
+
+type Seg = [number, number, number, number];
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isPoint(v: unknown): v is Point {
+  return Array.isArray(v) && v.length === 2 && isFiniteNumber(v[0]) && isFiniteNumber(v[1]);
+}
+
+function checkNumbers(
+  issues: BoardDefinitionIssue[],
+  obj: Record<string, unknown>,
+  path: string,
+  required: string[],
+  optional: string[] = []
+): void {
+  for (const key of required) {
+    if (!isFiniteNumber(obj[key])) issues.push({ path: `${path}.${key}`, message: "must be a number" });
+  }
+  for (const key of optional) {
+    if (obj[key] != null && !isFiniteNumber(obj[key])) issues.push({ path: `${path}.${key}`, message: "must be a number" });
+  }
+}
+
+function checkWall(issues: BoardDefinitionIssue[], raw: unknown, path: string): void {
+  if (!isRecord(raw)) {
+    issues.push({ path, message: "must be an object" });
+    return;
+  }
+  if (typeof raw.id !== "string" || !raw.id.trim()) issues.push({ path: `${path}.id`, message: "must be a non-empty string" });
+  if (raw.type === "polyline") {
+    if (!Array.isArray(raw.points) || raw.points.length < 2) {
+      issues.push({ path: `${path}.points`, message: "must have at least 2 points" });
+      return;
+    }
+    raw.points.forEach((p, i) => {
+      if (!isPoint(p)) issues.push({ path: `${path}.points[${i}]`, message: "must be [x, y]" });
+    });
+    return;
+  }
+  if (raw.type === "box") {
+    checkNumbers(issues, raw, path, ["x", "y", "w", "h"], ["rot"]);
+    if (isFiniteNumber(raw.w) && raw.w <= 0) issues.push({ path: `${path}.w`, message: "must be positive" });
+    if (isFiniteNumber(raw.h) && raw.h <= 0) issues.push({ path: `${path}.h`, message: "must be positive" });
+    return;
+  }
+  issues.push({ path: `${path}.type`, message: 'must be "polyline" or "box"' });
+}
+
+function checkSchema(input: unknown): BoardDefinitionIssue[] {
+  const issues: BoardDefinitionIssue[] = [];
+  if (!isRecord(input)) return [{ path: "board", message: "must be an object" }];
+  if (input.format !== BOARD_DEFINITION_FORMAT) {
+    issues.push({ path: "board.format", message: `must be "${BOARD_DEFINITION_FORMAT}"` });
+  }
+  if (input.version !== BOARD_DEFINITION_VERSION) {
+    issues.push({ path: "board.version", message: `unsupported version ${String(input.version)}` });
+  }
+  if (input.name != null && typeof input.name !== "string") issues.push({ path: "board.name", message: "must be a string" });
+
+  if (isRecord(input.world)) {
+    checkNumbers(issues, input.world, "board.world", ["width", "height"]);
+    for (const key of ["width", "height"]) {
+      const v = input.world[key];
+      if (isFiniteNumber(v) && v < 200) issues.push({ path: `board.world.${key}`, message: "must be at least 200" });
+    }
+  } else {
+    issues.push({ path: "board.world", message: "must be an object" });
+  }
+
+  const mul = input.heightMultiplier;
+  if (mul != null && (!Number.isInteger(mul) || (mul as number) < 1 || (mul as number) > MAX_HEIGHT_MULTIPLIER)) {
+    issues.push({ path: "board.heightMultiplier", message: `must be an integer between 1 and ${MAX_HEIGHT_MULTIPLIER}` });
+  }
+  const es = input.elementScale;
+  if (es != null && (!isFiniteNumber(es) || es < MIN_ELEMENT_SCALE || es > MAX_ELEMENT_SCALE)) {
+    issues.push({ path: "board.elementScale", message: `must be between ${MIN_ELEMENT_SCALE} and ${MAX_ELEMENT_SCALE}` });
+  }
+
+  if (Array.isArray(input.walls)) {
+    input.walls.forEach((w, i) => checkWall(issues, w, `board.walls[${i}]`));
+    const seen = new Set<string>();
+    input.walls.forEach((w, i) => {
+      if (!isRecord(w) || typeof w.id !== "string") return;
+      if (seen.has(w.id)) issues.push({ path: `board.walls[${i}].id`, message: `duplicate id "${w.id}"` });
+      seen.add(w.id);
+    });
+  } else {
+    issues.push({ path: "board.walls", message: "must be an array" });
+  }
+
+  for (const key of ["propellers", "rotors"] as const) {
+    const list = input[key];
+    if (list == null) continue;
+    if (!Array.isArray(list)) {
+      issues.push({ path: `board.${key}`, message: "must be an array" });
+      continue;
+    }
+    list.forEach((item, i) => {
+      const path = `board.${key}[${i}]`;
+      if (!isRecord(item)) {
+        issues.push({ path, message: "must be an object" });
+        return;
+      }
+      if (key === "propellers") {
+        checkNumbers(issues, item, path, ["x", "y", "len", "omega"], ["phase", "mix", "down", "maxUp", "maxSurf", "bounce"]);
+        if (isFiniteNumber(item.len) && item.len <= 0) issues.push({ path: `${path}.len`, message: "must be positive" });
+      } else {
+        checkNumbers(issues, item, path, ["x", "y"], ["r", "omega", "maxSurf", "bounce", "kick", "dampT", "down", "maxUp"]);
+        if (isFiniteNumber(item.r) && item.r <= 0) issues.push({ path: `${path}.r`, message: "must be positive" });
+      }
+    });
+  }
+
+  if (isRecord(input.spawn)) {
+    checkNumbers(issues, input.spawn, "board.spawn", ["y"], ["topY"]);
+    const walls = Array.isArray(input.walls) ? input.walls : [];
+    for (const key of ["leftWall", "rightWall"]) {
+      const id = input.spawn[key];
+      const wall = walls.find((w) => isRecord(w) && w.id === id);
+      if (typeof id !== "string") issues.push({ path: `board.spawn.${key}`, message: "must be a wall id" });
+      else if (!wall) issues.push({ path: `board.spawn.${key}`, message: `unknown wall "${id}"` });
+      else if ((wall as Record<string, unknown>).type !== "polyline") {
+        issues.push({ path: `board.spawn.${key}`, message: `wall "${id}" must be a polyline` });
+      }
+    }
+  } else {
+    issues.push({ path: "board.spawn", message: "must be an object" });
+  }
+
+  if (isRecord(input.slots)) {
+    checkNumbers(issues, input.slots, "board.slots", ["height"]);
+    if (isFiniteNumber(input.slots.height) && input.slots.height <= 0) {
+      issues.push({ path: "board.slots.height", message: "must be positive" });
+    }
+    const labels = input.slots.labels;
+    if (!Array.isArray(labels) || labels.length < 1 || labels.length > MAX_SLOTS) {
+      issues.push({ path: "board.slots.labels", message: `must have 1 to ${MAX_SLOTS} labels` });
+    } else {
+      labels.forEach((label, i) => {
+        if (typeof label !== "string") issues.push({ path: `board.slots.labels[${i}]`, message: "must be a string" });
+      });
+    }
+  } else {
+    issues.push({ path: "board.slots", message: "must be an object" });
+  }
+  return issues;
+}
+
+/** Same heuristic as the built-in layouts: magnitudes above 2π are degrees. */
+function normalizeRotation(rot: number | undefined): number {
+  const r = Number(rot) || 0;
+  if (Math.abs(r) > Math.PI * 2) return (r * Math.PI) / 180;
+  return r;
+}
+
+function stretchEntity(ent: FixedEntity, mul: number): FixedEntity {
+  if (ent.type === "polyline") {
+    return { id: ent.id, type: "polyline", points: ent.points.map(([x, y]) => [x, y * mul] as Point) };
+  }
+  return { id: ent.id, type: "box", x: ent.x, y: ent.y * mul, w: ent.w, h: ent.h, rot: normalizeRotation(ent.rot) };
+}
+
+/**
+ * Apply `heightMultiplier` so every coordinate is in final world px, and box rotations in radians.
+ * The result has `heightMultiplier: 1`; running it twice is a no-op.
+ */
+export function resolveBoardDefinition(def: BoardDefinition): BoardDefinition {
+  const mul = def.heightMultiplier ?? 1;
+  return {
+    format: BOARD_DEFINITION_FORMAT,
+    version: BOARD_DEFINITION_VERSION,
+    ...(def.name != null ? { name: def.name } : {}),
+    world: { width: def.world.width, height: def.world.height * mul },
+    heightMultiplier: 1,
+    elementScale: def.elementScale ?? 1,
+    walls: def.walls.map((w) => stretchEntity(w, mul)),
+    propellers: (def.propellers ?? []).map((p) => ({ ...p, y: p.y * mul })),
+    rotors: (def.rotors ?? []).map((r) => ({ ...r, y: r.y * mul })),
+    spawn: {
+      ...def.spawn,
+      y: def.spawn.y * mul,
+      ...(def.spawn.topY != null ? { topY: def.spawn.topY * mul } : {}),
+    },
+    slots: { height: def.slots.height, labels: [...def.slots.labels] },
+  };
+}
+
+function boxCorners(b: BoxEntity): Point[] {
+  const c = Math.cos(b.rot || 0);
+  const s = Math.sin(b.rot || 0);
+  const hw = b.w / 2;
+  const hh = b.h / 2;
+  return [
+    [-hw, -hh],
+    [hw, -hh],
+    [hw, hh],
+    [-hw, hh],
+  ].map(([x, y]) => [b.x + x * c - y * s, b.y + x * s + y * c] as Point);
+}
+
+function entitySegments(ent: FixedEntity): Seg[] {
+  const pts = ent.type === "polyline" ? ent.points : boxCorners(ent);
+  const segs: Seg[] = [];
+  for (let i = 0; i < pts.length - 1; i++) segs.push([pts[i][0], pts[i][1], pts[i + 1][0], pts[i + 1][1]]);
+  if (ent.type === "box") segs.push([pts[3][0], pts[3][1], pts[0][0], pts[0][1]]);
+  return segs;
+}
+
+function cross(ax: number, ay: number, bx: number, by: number): number {
+  return ax * by - ay * bx;
+}
+
+function segmentsCross(a: Seg, b: Seg): boolean {
+  const [x0, y0, x1, y1] = a;
+  const [x2, y2, x3, y3] = b;
+  const d1 = cross(x1 - x0, y1 - y0, x2 - x0, y2 - y0);
+  const d2 = cross(x1 - x0, y1 - y0, x3 - x0, y3 - y0);
+  const d3 = cross(x3 - x2, y3 - y2, x0 - x2, y0 - y2);
+  const d4 = cross(x3 - x2, y3 - y2, x1 - x2, y1 - y2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+/**
+ * Index of the first non-adjacent segment pair that crosses, or null.
+ * Touching endpoints (closed outlines) are allowed; proper crossings are not.
+ */
+function findSelfIntersection(points: Point[]): [number, number] | null {
+  const segs: Seg[] = [];
+  for (let i = 0; i < points.length - 1; i++) segs.push([points[i][0], points[i][1], points[i + 1][0], points[i + 1][1]]);
+  for (let i = 0; i < segs.length; i++) {
+    for (let j = i + 2; j < segs.length; j++) {
+      if (segmentsCross(segs[i], segs[j])) return [i, j];
+    }
+  }
+  return null;
+}
+
+/**
+ * Same semantics as the engine's playfield bounds: clamp to the end points outside the polyline's y range.
+ */
+function interpolateXAtY(points: Point[], y: number): number {
+  if (y <= points[0][1]) return points[0][0];
+  if (y >= points[points.length - 1][1]) return points[points.length - 1][0];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [x0, y0] = points[i];
+    const [x1, y1] = points[i + 1];
+    if ((y >= y0 && y <= y1) || (y >= y1 && y <= y0)) {
+      const t = y1 === y0 ? 0 : (y - y0) / (y1 - y0);
+      return x0 + (x1 - x0) * t;
+    }
+  }
+  return points[points.length - 1][0];
+}
+
+function distToSegment2(px: number, py: number, s: Seg): number {
+  const dx = s[2] - s[0];
+  const dy = s[3] - s[1];
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((px - s[0]) * dx + (py - s[1]) * dy) / len2)) : 0;
+  const ex = s[0] + dx * t - px;
+  const ey = s[1] + dy * t - py;
+  return ex * ex + ey * ey;
+}
+
+/**
+ * Coarse reachability check: flood-fill a grid of ball-sized cells from the spawn row
+ * and report whether any open cell reaches the finish line.
+ */
+function spawnReachesFinish(def: BoardDefinition, ballR: number, left: Point[], right: Point[]): boolean {
+  const { width, height } = def.world;
+  const finishY = height - def.slots.height;
+  const cell = ballR / EXIT_CELLS_PER_R;
+  const cols = Math.max(1, Math.ceil(width / cell));
+  const rows = Math.max(1, Math.ceil(height / cell));
+  const blocked = new Uint8Array(cols * rows);
+  const clearance = ballR * EXIT_CLEARANCE_R;
+
+  for (let row = 0; row < rows; row++) {
+    const y = (row + 0.5) * cell;
+    const l = interpolateXAtY(left, y);
+    const r = interpolateXAtY(right, y);
+    for (let col = 0; col < cols; col++) {
+      const x = (col + 0.5) * cell;
+      const inside = x >= Math.min(l, r) && x <= Math.max(l, r);
+      if (!inside && y + ballR < finishY) blocked[row * cols + col] = 1;
+    }
+  }
+  for (const wall of def.walls) {
+    for (const s of entitySegments(wall)) {
+      const c0 = Math.max(0, Math.floor((Math.min(s[0], s[2]) - clearance) / cell));
+      const c1 = Math.min(cols - 1, Math.floor((Math.max(s[0], s[2]) + clearance) / cell));
+      const r0 = Math.max(0, Math.floor((Math.min(s[1], s[3]) - clearance) / cell));
+      const r1 = Math.min(rows - 1, Math.floor((Math.max(s[1], s[3]) + clearance) / cell));
+      for (let row = r0; row <= r1; row++) {
+        for (let col = c0; col <= c1; col++) {
+          if (distToSegment2((col + 0.5) * cell, (row + 0.5) * cell, s) < clearance * clearance) blocked[row * cols + col] = 1;
+        }
+      }
+    }
+  }
+
+  const startRow = Math.min(rows - 1, Math.max(0, Math.floor(def.spawn.y / cell)));
+  const queue: number[] = [];
+  for (let col = 0; col < cols; col++) {
+    const idx = startRow * cols + col;
+    if (blocked[idx]) continue;
+    blocked[idx] = 1;
+    queue.push(idx);
+  }
+  for (let head = 0; head < queue.length; head++) {
+    const idx = queue[head];
+    const row = Math.floor(idx / cols);
+    const col = idx - row * cols;
+    if ((row + 0.5) * cell + ballR >= finishY) return true;
+    // 8-connected so narrow diagonal channels are not split into unreachable cells.
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        const nr = row + dr;
+        const nc = col + dc;
+        if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) continue;
+        const n = nr * cols + nc;
+        if (blocked[n]) continue;
+        blocked[n] = 1;
+        queue.push(n);
+      }
+    }
+  }
+  return false;
+}
+
+function checkGeometry(def: BoardDefinition, ballR: number): BoardDefinitionIssue[] {
+  const issues: BoardDefinitionIssue[] = [];
+  const { width, height } = def.world;
+  const finishY = height - def.slots.height;
+  const inWorld = (x: number, y: number) => x >= 0 && x <= width && y >= 0 && y <= height;
+
+  def.walls.forEach((wall, i) => {
+    const path = `board.walls[${i}]`;
+    if (wall.type === "polyline") {
+      const hit = findSelfIntersection(wall.points);
+      if (hit) issues.push({ path, message: `wall "${wall.id}" intersects itself (segments ${hit[0]} and ${hit[1]})` });
+      const out = wall.points.findIndex(([x, y]) => !inWorld(x, y));
+      if (out >= 0) issues.push({ path: `${path}.points[${out}]`, message: "outside the world" });
+    } else if (!boxCorners(wall).every(([x, y]) => inWorld(x, y))) {
+      issues.push({ path, message: `box "${wall.id}" extends outside the world` });
+    }
+  });
+
+  (def.rotors ?? []).forEach((rotor, i) => {
+    const r = rotor.r ?? ballR * 0.78;
+    if (rotor.x - r < 0 || rotor.x + r > width || rotor.y - r < 0 || rotor.y + r > finishY) {
+      issues.push({ path: `board.rotors[${i}]`, message: "outside the world" });
+    }
+  });
+  (def.propellers ?? []).forEach((p, i) => {
+    const half = p.len / 2;
+    if (p.x - half < 0 || p.x + half > width || p.y < 0 || p.y > finishY) {
+      issues.push({ path: `board.propellers[${i}]`, message: "outside the world" });
+    }
+  });
+
+  if (def.slots.height >= height) issues.push({ path: "board.slots.height", message: "must be smaller than the world height" });
+
+  const byId = new Map(def.walls.map((w) => [w.id, w]));
+  const left = byId.get(def.spawn.leftWall);
+  const right = byId.get(def.spawn.rightWall);
+  if (left?.type !== "polyline" || right?.type !== "polyline") return issues;
+
+  const { y } = def.spawn;
+  if (y < 0 || y >= finishY) {
+    issues.push({ path: "board.spawn.y", message: "must be above the finish line" });
+    return issues;
+  }
+  if (Math.abs(interpolateXAtY(right.points, y) - interpolateXAtY(left.points, y)) < ballR * 4) {
+    issues.push({ path: "board.spawn", message: "spawn area is narrower than two marbles" });
+    return issues;
+  }
+  if (!spawnReachesFinish(def, ballR, left.points, right.points)) {
+    issues.push({ path: "board.spawn", message: "spawn area has no exit to the finish line" });
+  }
+  return issues;
+}
+
+/**
+ * Validate an untrusted board definition. Returns every issue found with its field path,
+ * e.g. `board.rotors[3]: outside the world`. An empty list means the board is usable.
+ *
+ * Geometry checks (self-intersecting walls, out-of-world mechanisms, a spawn area with no
+ * exit) only run once the schema is valid and `geometry` is on. `ballR` is the unscaled marble radius.
+ */
+export function validateBoardDefinition(
+  input: unknown,
+  { ballR = BASE_BALL_R, geometry = true }: { ballR?: number; geometry?: boolean } = {}
+): BoardDefinitionIssue[] {
+  const issues = checkSchema(input);
+  if (issues.length || !geometry) return issues;
+  const def = resolveBoardDefinition(input as BoardDefinition);
+  return checkGeometry(def, ballR * (def.elementScale ?? 1));
+}
+
+export function formatBoardDefinitionIssues(issues: BoardDefinitionIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+}
+
+/**
+ * Validate and resolve a board definition (see `resolveBoardDefinition`).
+ * Throws with one `path: message` line per issue.
+ */
+export function parseBoardDefinition(input: unknown, opts: { ballR?: number; geometry?: boolean } = {}): BoardDefinition {
+  const issues = validateBoardDefinition(input, opts);
+  if (issues.length) throw new Error(`invalid board definition\n${formatBoardDefinitionIssues(issues)}`);
+  return resolveBoardDefinition(input as BoardDefinition);
+}
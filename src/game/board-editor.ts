@@ -0,0 +1,302 @@
+import {
+  dropAll,
+  makeBoard,
+  makeGameState,
+  startGame,
+  step,
+  type Board,
+  type FixedEntity,
+  type Point,
+} from "./engine.ts";
+import {
+  BOARD_DEFINITION_FORMAT,
+  BOARD_DEFINITION_VERSION,
+  type BoardDefinition,
+} from "./board-definition.ts";
+
+export type BoardEditorTool = "select" | "rotor" | "propeller" | "wall";
+
+export type BoardEditorSelection =
+  | { kind: "rotor"; index: number }
+  | { kind: "propeller"; index: number }
+  | { kind: "wall"; index: number; point: number };
+
+export type BoardEditorMechanismPatch = {
+  omega?: number;
+  r?: number;
+  bounce?: number;
+};
+
+export type BoardEditorEdit = {
+  definition: BoardDefinition;
+  selection: BoardEditorSelection | null;
+};
+
+export type BoardTestDropResult = {
+  completed: boolean;
+  marbles: number;
+  finished: number;
+  simSeconds: number;
+  steps: number;
+};
+
+const BASE_BALL_R = 18;
+const NEW_PROPELLER_LEN = 160;
+// A quick check, not a full draw: two simulated minutes at 60hz.
+const TEST_DROP_MAX_STEPS = 60 * 120;
+
+function cloneEntity(ent: FixedEntity): FixedEntity {
+  if (ent.type === "polyline") return { ...ent, points: ent.points.map(([x, y]) => [x, y] as Point) };
+  return { ...ent };
+}
+
+function cloneDefinition(def: BoardDefinition): BoardDefinition {
+  return {
+    ...def,
+    world: { ...def.world },
+    walls: def.walls.map(cloneEntity),
+    propellers: (def.propellers ?? []).map((p) => ({ ...p })),
+    rotors: (def.rotors ?? []).map((r) => ({ ...r })),
+    spawn: { ...def.spawn },
+    slots: { height: def.slots.height, labels: [...def.slots.labels] },
+  };
+}
+
+function round(v: number, digits = 1): number {
+  const k = 10 ** digits;
+  return Math.round(v * k) / k;
+}
+
+function clamp(v: number, a: number, b: number): number {
+  return Math.max(a, Math.min(b, v));
+}
+
+/**
+ * Straight two-wall chute, used when the current board has no fixed map (classic layout).
+ */
+export function createBlankBoardDefinition(board: Pick<Board, "worldW" | "worldH" | "slotH" | "ballR">): BoardDefinition {
+  const padX = 32;
+  const topY = 40;
+  const bottomY = board.worldH - board.slotH - 40;
+  return {
+    format: BOARD_DEFINITION_FORMAT,
+    version: BOARD_DEFINITION_VERSION,
+    name: "",
+    world: { width: board.worldW, height: board.worldH },
+    heightMultiplier: 1,
+    elementScale: round(board.ballR / BASE_BALL_R, 3),
+    walls: [
+      { id: "outer-left", type: "polyline", points: [[padX, topY], [padX, bottomY]] },
+      { id: "outer-right", type: "polyline", points: [[board.worldW - padX, topY], [board.worldW - padX, bottomY]] },
+      { id: "top-cap", type: "polyline", points: [[padX, topY], [board.worldW - padX, topY]] },
+    ],
+    propellers: [],
+    rotors: [],
+    spawn: { y: topY + 70, topY, leftWall: "outer-left", rightWall: "outer-right" },
+    slots: { height: board.slotH, labels: [""] },
+  };
+}
+
+/**
+ * Convert a built board into an editable definition in final world coordinates.
+ * Fixed-map layouts keep their walls and mechanisms; the classic layout starts from a blank chute.
+ */
+export function boardToDefinition(board: Board, name = ""): BoardDefinition {
+  const fixed = board.custom || board.zigzag || board.roulette;
+  const hasBounds =
+    !!fixed && fixed.entities.some((e) => e.id === "outer-left") && fixed.entities.some((e) => e.id === "outer-right");
+  if (!fixed || !hasBounds) return { ...createBlankBoardDefinition(board), name };
+  const mechanisms = board.custom || board.zigzag;
+  return {
+    format: BOARD_DEFINITION_FORMAT,
+    version: BOARD_DEFINITION_VERSION,
+    name: name || board.custom?.name || "",
+    world: { width: board.worldW, height: board.worldH },
+    heightMultiplier: 1,
+    elementScale: round(board.ballR / BASE_BALL_R, 3),
+    walls: fixed.entities.map(cloneEntity),
+    propellers: (mechanisms?.propellers ?? []).map((p) => ({ ...p })),
+    rotors: (mechanisms?.rotors ?? []).map((r) => ({ ...r })),
+    spawn: { y: fixed.spawnY, topY: fixed.topY, leftWall: "outer-left", rightWall: "outer-right" },
+    slots: { height: board.slotH, labels: board.slots.map((s) => s.label) },
+  };
+}
+
+/**
+ * Build a preview board from an editor draft.
+ * Geometry checks are skipped so a half-drawn wall still renders; run `validateBoardDefinition` for issues.
+ */
+export function makeEditorPreviewBoard(def: BoardDefinition): Board {
+  // A wall that is still being drawn has a single point; leave it out until it has a segment.
+  const walls = def.walls.filter((w) => w.type !== "polyline" || w.points.length >= 2);
+  return makeBoard({ definition: { ...def, walls }, definitionGeometryCheck: false });
+}
+
+/**
+ * Topmost editable target under (x, y): rotors, then propeller hubs, then wall points.
+ */
+export function pickEditorTarget(def: BoardDefinition, x: number, y: number, tolerance: number): BoardEditorSelection | null {
+  const d2 = (px: number, py: number) => (px - x) * (px - x) + (py - y) * (py - y);
+  const rotors = def.rotors ?? [];
+  for (let i = rotors.length - 1; i >= 0; i--) {
+    const reach = (rotors[i].r ?? 0) + tolerance;
+    if (d2(rotors[i].x, rotors[i].y) <= reach * reach) return { kind: "rotor", index: i };
+  }
+  const propellers = def.propellers ?? [];
+  for (let i = propellers.length - 1; i >= 0; i--) {
+    if (d2(propellers[i].x, propellers[i].y) <= tolerance * tolerance * 4) return { kind: "propeller", index: i };
+  }
+  for (let i = def.walls.length - 1; i >= 0; i--) {
+    const wall = def.walls[i];
+    if (wall.type !== "polyline") continue;
+    for (let p = wall.points.length - 1; p >= 0; p--) {
+      if (d2(wall.points[p][0], wall.points[p][1]) <= tolerance * tolerance) return { kind: "wall", index: i, point: p };
+    }
+  }
+  return null;
+}
+
+function clampToWorld(def: BoardDefinition, x: number, y: number, margin = 0): Point {
+  const { width, height } = def.world;
+  return [round(clamp(x, margin, width - margin)), round(clamp(y, margin, height - def.slots.height - margin))];
+}
+
+export function addEditorRotor(def: BoardDefinition, x: number, y: number): BoardEditorEdit {
+  const next = cloneDefinition(def);
+  const ballR = BASE_BALL_R * (def.elementScale ?? 1);
+  const r = round(ballR * 0.78);
+  const [cx, cy] = clampToWorld(def, x, y, r);
+  next.rotors = [...(next.rotors ?? []), { x: cx, y: cy, r, omega: 11, bounce: 0.28 }];
+  return { definition: next, selection: { kind: "rotor", index: next.rotors.length - 1 } };
+}
+
+export function addEditorPropeller(def: BoardDefinition, x: number, y: number): BoardEditorEdit {
+  const next = cloneDefinition(def);
+  const [cx, cy] = clampToWorld(def, x, y, NEW_PROPELLER_LEN / 2);
+  next.propellers = [...(next.propellers ?? []), { x: cx, y: cy, len: NEW_PROPELLER_LEN, omega: 1.2, bounce: 0.06 }];
+  return { definition: next, selection: { kind: "propeller", index: next.propellers.length - 1 } };
+}
+
+/**
+ * Append a point to the wall being drawn, or start a new wall when `wallIndex` is null.
+ */
+export function appendEditorWallPoint(
+  def: BoardDefinition,
+  wallIndex: number | null,
+  x: number,
+  y: number
+): BoardEditorEdit {
+  const next = cloneDefinition(def);
+  const point = clampToWorld(def, x, y);
+  const current = wallIndex == null ? null : next.walls[wallIndex];
+  if (current?.type === "polyline") {
+    current.points.push(point);
+    return { definition: next, selection: { kind: "wall", index: wallIndex as number, point: current.points.length - 1 } };
+  }
+  const used = new Set(next.walls.map((w) => w.id));
+  let n = 1;
+  while (used.has(`wall-${n}`)) n++;
+  next.walls.push({ id: `wall-${n}`, type: "polyline", points: [point] });
+  return { definition: next, selection: { kind: "wall", index: next.walls.length - 1, point: 0 } };
+}
+
+/**
+ * Drop a wall that was started but never got a second point.
+ */
+export function finishEditorWall(def: BoardDefinition, wallIndex: number | null): BoardDefinition {
+  if (wallIndex == null) return def;
+  const wall = def.walls[wallIndex];
+  if (!wall || wall.type !== "polyline" || wall.points.length >= 2) return def;
+  const next = cloneDefinition(def);
+  next.walls.splice(wallIndex, 1);
+  return next;
+}
+
+export function moveEditorSelection(def: BoardDefinition, sel: BoardEditorSelection, x: number, y: number): BoardDefinition {
+  const next = cloneDefinition(def);
+  if (sel.kind === "rotor") {
+    const rotor = next.rotors?.[sel.index];
+    if (!rotor) return def;
+    [rotor.x, rotor.y] = clampToWorld(def, x, y, rotor.r ?? 0);
+  } else if (sel.kind === "propeller") {
+    const prop = next.propellers?.[sel.index];
+    if (!prop) return def;
+    [prop.x, prop.y] = clampToWorld(def, x, y, prop.len / 2);
+  } else {
+    const wall = next.walls[sel.index];
+    if (wall?.type !== "polyline" || !wall.points[sel.point]) return def;
+    wall.points[sel.point] = clampToWorld(def, x, y);
+  }
+  return next;
+}
+
+/**
+ * Delete the selected rotor/propeller or wall point. A wall left with one point is removed,
+ * except the spawn walls, which must keep at least two points.
+ */
+export function deleteEditorSelection(def: BoardDefinition, sel: BoardEditorSelection): BoardDefinition {
+  const next = cloneDefinition(def);
+  if (sel.kind === "rotor") {
+    next.rotors = (next.rotors ?? []).filter((_, i) => i !== sel.index);
+    return next;
+  }
+  if (sel.kind === "propeller") {
+    next.propellers = (next.propellers ?? []).filter((_, i) => i !== sel.index);
+    return next;
+  }
+  const wall = next.walls[sel.index];
+  if (wall?.type !== "polyline") return def;
+  const isSpawnWall = wall.id === def.spawn.leftWall || wall.id === def.spawn.rightWall;
+  if (isSpawnWall && wall.points.length <= 2) return def;
+  wall.points.splice(sel.point, 1);
+  if (wall.points.length < 2) next.walls.splice(sel.index, 1);
+  return next;
+}
+
+export function patchEditorMechanism(
+  def: BoardDefinition,
+  sel: BoardEditorSelection,
+  patch: BoardEditorMechanismPatch
+): BoardDefinition {
+  if (sel.kind === "wall") return def;
+  const next = cloneDefinition(def);
+  const target = sel.kind === "rotor" ? next.rotors?.[sel.index] : next.propellers?.[sel.index];
+  if (!target) return def;
+  if (typeof patch.omega === "number" && Number.isFinite(patch.omega)) target.omega = patch.omega;
+  if (typeof patch.bounce === "number" && Number.isFinite(patch.bounce)) target.bounce = clamp(patch.bounce, 0, 1);
+  if (sel.kind === "rotor" && typeof patch.r === "number" && Number.isFinite(patch.r) && patch.r > 0) {
+    (target as { r?: number }).r = patch.r;
+  }
+  return next;
+}
+
+/**
+ * Headless test drop on a draft board: `marbles` marbles from the spawn area, fixed 60hz steps.
+ */
+export function runBoardTestDrop(
+  def: BoardDefinition,
+  { marbles = 8, seed = 1, maxSteps = TEST_DROP_MAX_STEPS }: { marbles?: number; seed?: number; maxSteps?: number } = {}
+): BoardTestDropResult {
+  const board = makeBoard({ definition: def });
+  const ballsCatalog = Array.from({ length: marbles }, (_, i) => ({
+    id: `t${i + 1}`,
+    name: `T${i + 1}`,
+    imageDataUrl: "",
+    tint: "#ffffff",
+  }));
+  const state = makeGameState({ seed: seed >>> 0, board, ballsCatalog });
+  startGame(state);
+  dropAll(state);
+  let steps = 0;
+  while (!state.winner && steps < maxSteps) {
+    step(state, 1 / 60);
+    steps++;
+  }
+  return {
+    completed: !!state.winner,
+    marbles: state.totalToDrop,
+    finished: state.finished.length,
+    simSeconds: state.t,
+    steps,
+  };
+}
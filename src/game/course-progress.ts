@@ -0,0 +1,46 @@
+/**
+ * How far along the course a marble is, 0 at the top of the board and 1 at the bottom.
+ *
+ * On the zigzag the corridor swings sideways, so progress is the arc length travelled along the
+ * corridor's centre line; every other board measures straight down.
+ */
+import type { Board } from "./engine.ts";
+
+export type CourseProgress = (y: number) => number;
+
+/** World units between centre-line samples; corridor bends are far wider than this. */
+const COURSE_SAMPLE_STEP = 8;
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+/** Build once per board; the returned function is cheap enough to call for every marble each frame. */
+export function createCourseProgress(board: Board): CourseProgress {
+  const height = Math.max(1, board.worldH);
+  const boundsAtY = board.layout === "zigzag" ? board.zigzag?.spawnBoundsAtY : null;
+  if (!boundsAtY) return (y) => clamp01(y / height);
+
+  const samples = Math.max(2, Math.ceil(height / COURSE_SAMPLE_STEP) + 1);
+  const step = height / (samples - 1);
+  const centerX = (y: number) => {
+    const { left, right } = boundsAtY(y);
+    return (left + right) / 2;
+  };
+  // lengths[i]: centre-line arc length from the top down to sample i.
+  const lengths = new Float64Array(samples);
+  let prevX = centerX(0);
+  for (let i = 1; i < samples; i++) {
+    const x = centerX(i * step);
+    lengths[i] = lengths[i - 1] + Math.hypot(x - prevX, step);
+    prevX = x;
+  }
+  const total = lengths[samples - 1];
+
+  return (y) => {
+    const at = clamp01(y / height) * (samples - 1);
+    const i = Math.min(samples - 2, Math.floor(at));
+    return clamp01((lengths[i] + (lengths[i + 1] - lengths[i]) * (at - i)) / total);
+  };
+}
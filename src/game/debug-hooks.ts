@@ -5,16 +5,18 @@
  *   state: State;
  *   renderer: { getViewState?: () => { cameraY: number; viewHWorld: number; cameraOverrideY?: number | null } | undefined };
  *   snapshotForText: (state: State) => Record<string, unknown>;
- *   tickFixed: (ms: number) => void;
+ *   tickFixed: (ms: number) => Promise<void> | void;
+ *   getReplayRecord?: () => unknown;
  * }} opts
  */
 export function mountDebugHooks<State>(opts: {
   state: State;
   renderer: { getViewState?: () => { cameraY: number; viewHWorld: number; cameraOverrideY?: number | null } | undefined };
   snapshotForText: (state: State) => Record<string, unknown>;
-  tickFixed: (ms: number) => void;
+  tickFixed: (ms: number) => Promise<void> | void;
+  getReplayRecord?: () => unknown;
 }): void {
-  const { state, renderer, snapshotForText, tickFixed } = opts;
+  const { state, renderer, snapshotForText, tickFixed, getReplayRecord = () => null } = opts;
 
   window.render_game_to_text = () => {
     const base = snapshotForText(state);
@@ -24,7 +26,12 @@ export function mountDebugHooks<State>(opts: {
   };
 
   window.advanceTime = async (ms) => {
-    tickFixed(ms);
+    await tickFixed(ms);
+  };
+
+  window.export_replay_record = () => {
+    const record = getReplayRecord();
+    return record ? JSON.stringify(record) : null;
   };
 }
 
@@ -32,5 +39,6 @@ declare global {
   interface Window {
     render_game_to_text?: () => string;
     advanceTime?: (ms: number) => Promise<void>;
+    export_replay_record?: () => string | null;
   }
 }
@@ -0,0 +1,203 @@
+import { isBoardLayout, isRaceLength, type BuiltinBoardLayout, type RaceLength } from "./board-config.ts";
+import { DEFAULT_WINNER_RULE, normalizeWinnerRule, type WinnerRule } from "./engine.ts";
+
+export const DRAW_HISTORY_FORMAT = "degururu-draw-history";
+export const DRAW_HISTORY_VERSION = 1;
+/** Oldest draws are dropped past this many. */
+export const DRAW_HISTORY_MAX = 200;
+
+export type DrawHistoryWinner = {
+  rank: number;
+  ballId: string;
+  name: string;
+  /** Arrival time in seconds from the drop. */
+  finishedAt: number;
+  slot: number;
+  label: string;
+};
+
+/** One completed draw; names are copied so the entry survives roster edits. */
+export type DrawHistoryEntry = {
+  id: string;
+  /** ISO timestamp of when the result was decided. */
+  at: string;
+  /** Roster preset the draw was run with. */
+  rosterName: string;
+  rosterFingerprint: string;
+  seed: number;
+  layout: BuiltinBoardLayout;
+  raceLength: RaceLength;
+  winnerRule: WinnerRule;
+  /** Requested winner count (prize boards list every finisher instead). */
+  winnerCount: number;
+  participantCount: number;
+  /** Non-empty for prize boards: winners are grouped by these slots. */
+  slotLabels: string[];
+  winners: DrawHistoryWinner[];
+};
+
+export type DrawHistoryFilter = {
+  /** Matched against winner and roster names, case-insensitively. */
+  query?: string;
+  /** Local calendar days, `YYYY-MM-DD`, both inclusive. */
+  from?: string;
+  to?: string;
+};
+
+export function createDrawHistoryId(at: string, seed: number): string {
+  return `${(Date.parse(at) || 0).toString(36)}-${(seed >>> 0).toString(36)}`;
+}
+
+/** Newest first, capped at `DRAW_HISTORY_MAX`. */
+export function appendDrawHistory(
+  entries: ReadonlyArray<DrawHistoryEntry>,
+  entry: DrawHistoryEntry
+): DrawHistoryEntry[] {
+  return [entry, ...entries.filter((item) => item.id !== entry.id)].slice(0, DRAW_HISTORY_MAX);
+}
+
+/** Local calendar day of an ISO timestamp as `YYYY-MM-DD`. */
+export function toLocalDateKey(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+export function filterDrawHistory(
+  entries: ReadonlyArray<DrawHistoryEntry>,
+  filter: DrawHistoryFilter
+): DrawHistoryEntry[] {
+  const query = String(filter.query || "").trim().toLowerCase();
+  const from = filter.from || "";
+  const to = filter.to || "";
+  return entries.filter((entry) => {
+    const day = toLocalDateKey(entry.at);
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    if (!query) return true;
+    if (entry.rosterName.toLowerCase().includes(query)) return true;
+    return entry.winners.some((winner) => winner.name.toLowerCase().includes(query));
+  });
+}
+
+function toCsvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+const CSV_HEADER = [
+  "timestamp",
+  "roster",
+  "layout",
+  "race_length",
+  "winner_rule",
+  "winner_count",
+  "participants",
+  "seed",
+  "roster_fingerprint",
+  "rank",
+  "slot",
+  "name",
+  "arrival_seconds",
+];
+
+function formatWinnerRule(rule: WinnerRule): string {
+  return rule.kind === "rank" ? `rank:${rule.rank}` : rule.kind;
+}
+
+/** One row per winner, so a spreadsheet can filter by name or day directly. */
+export function drawHistoryToCsv(entries: ReadonlyArray<DrawHistoryEntry>): string {
+  const rows = [CSV_HEADER.join(",")];
+  for (const entry of entries) {
+    for (const winner of entry.winners) {
+      rows.push(
+        [
+          entry.at,
+          entry.rosterName,
+          entry.layout,
+          entry.raceLength,
+          formatWinnerRule(entry.winnerRule),
+          entry.winnerCount,
+          entry.participantCount,
+          entry.seed,
+          entry.rosterFingerprint,
+          winner.rank,
+          winner.label,
+          winner.name,
+          winner.finishedAt.toFixed(2),
+        ]
+          .map(toCsvCell)
+          .join(",")
+      );
+    }
+  }
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+export function drawHistoryToJson(entries: ReadonlyArray<DrawHistoryEntry>, exportedAt = new Date().toISOString()) {
+  return {
+    format: DRAW_HISTORY_FORMAT,
+    version: DRAW_HISTORY_VERSION,
+    exportedAt,
+    entries: entries.map((entry) => ({ ...entry, winners: entry.winners.map((winner) => ({ ...winner })) })),
+  };
+}
+
+function normalizeWinner(input: unknown): DrawHistoryWinner | null {
+  if (!input || typeof input !== "object") return null;
+  const winner = input as Record<string, unknown>;
+  if (typeof winner.name !== "string" || !Number.isInteger(winner.rank)) return null;
+  return {
+    rank: winner.rank as number,
+    ballId: typeof winner.ballId === "string" ? winner.ballId : "",
+    name: winner.name,
+    finishedAt: Number.isFinite(winner.finishedAt) ? (winner.finishedAt as number) : 0,
+    slot: Number.isInteger(winner.slot) ? (winner.slot as number) : -1,
+    label: typeof winner.label === "string" ? winner.label : "",
+  };
+}
+
+function normalizeEntry(input: unknown): DrawHistoryEntry | null {
+  if (!input || typeof input !== "object") return null;
+  const entry = input as Record<string, unknown>;
+  if (typeof entry.at !== "string" || Number.isNaN(Date.parse(entry.at))) return null;
+  if (!Number.isInteger(entry.seed) || !isBoardLayout(entry.layout) || !Array.isArray(entry.winners)) return null;
+  const winners = entry.winners.map(normalizeWinner);
+  if (!winners.length || winners.some((winner) => !winner)) return null;
+  const seed = (entry.seed as number) >>> 0;
+  return {
+    id: typeof entry.id === "string" && entry.id ? entry.id : createDrawHistoryId(entry.at, seed),
+    at: entry.at,
+    rosterName: typeof entry.rosterName === "string" ? entry.rosterName : "",
+    rosterFingerprint: typeof entry.rosterFingerprint === "string" ? entry.rosterFingerprint : "",
+    seed,
+    layout: entry.layout,
+    raceLength: isRaceLength(entry.raceLength) ? entry.raceLength : "medium",
+    winnerRule: normalizeWinnerRule(entry.winnerRule) ?? DEFAULT_WINNER_RULE,
+    winnerCount: Number.isInteger(entry.winnerCount) ? Math.max(1, entry.winnerCount as number) : winners.length,
+    participantCount: Number.isInteger(entry.participantCount) ? (entry.participantCount as number) : 0,
+    slotLabels: Array.isArray(entry.slotLabels) ? entry.slotLabels.map((label) => String(label)) : [],
+    winners: winners as DrawHistoryWinner[],
+  };
+}
+
+/**
+ * Stored or exported history back into entries; malformed entries are skipped.
+ * Accepts the bare list as well as the `drawHistoryToJson` export.
+ */
+export function normalizeDrawHistory(input: unknown): DrawHistoryEntry[] {
+  const list = Array.isArray(input) ? input : (input as { entries?: unknown } | null)?.entries;
+  if (!Array.isArray(list)) return [];
+  const entries: DrawHistoryEntry[] = [];
+  const seen = new Set<string>();
+  for (const item of list) {
+    const entry = normalizeEntry(item);
+    if (!entry || seen.has(entry.id)) continue;
+    seen.add(entry.id);
+    entries.push(entry);
+    if (entries.length >= DRAW_HISTORY_MAX) break;
+  }
+  return entries;
+}
@@ -0,0 +1,203 @@
+import type { BallCatalogItem, FinishedMarble } from "./engine.ts";
+import { isSameFinishOrder, parseReplayRecord, replayRun, type ReplayRecord } from "./replay.ts";
+import { sha256Hex } from "./sha256.ts";
+
+export const DRAW_PROOF_FORMAT = "degururu-draw-proof";
+export const DRAW_PROOF_VERSION = 1;
+
+export type DrawSecret = {
+  seed: number;
+  nonce: string;
+};
+
+export type DrawCommitment = {
+  commitment: string;
+  rosterFingerprint: string;
+  committedAt: string;
+};
+
+export type DrawProofMarble = {
+  marbleId: string;
+  ballId: string;
+};
+
+export type DrawProof = {
+  format: typeof DRAW_PROOF_FORMAT;
+  version: typeof DRAW_PROOF_VERSION;
+  commitment: string;
+  rosterFingerprint: string;
+  committedAt: string;
+  revealedAt: string;
+  nonce: string;
+  replay: ReplayRecord;
+  result: {
+    winner: DrawProofMarble & { t: number };
+    finishOrder: DrawProofMarble[];
+  };
+};
+
+export type DrawProofVerification = {
+  ok: boolean;
+  checks: {
+    commitment: boolean;
+    roster: boolean;
+    winner: boolean;
+    finishOrder: boolean;
+  };
+  replayWinner: DrawProofMarble | null;
+  error: string | null;
+};
+
+/**
+ * JSON with object keys sorted so the same data always hashes the same.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => stableStringify(v ?? null)).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toHex(bytes: Uint8Array): string {
+  let out = "";
+  for (const b of bytes) out += b.toString(16).padStart(2, "0");
+  return out;
+}
+
+/**
+ * Pick a fresh seed plus a 128-bit nonce.
+ * The nonce keeps the 32-bit seed from being brute-forced out of the published commitment.
+ */
+export function createDrawSecret(): DrawSecret {
+  const seedWords = new Uint32Array(1);
+  const nonceBytes = new Uint8Array(16);
+  crypto.getRandomValues(seedWords);
+  crypto.getRandomValues(nonceBytes);
+  return { seed: seedWords[0] >>> 0, nonce: toHex(nonceBytes) };
+}
+
+/**
+ * Hash of the participants and their entry counts (same fields as the settings catalog fingerprint).
+ */
+export function buildRosterFingerprint(ballsCatalog: BallCatalogItem[], counts: Record<string, number>): string {
+  const roster = ballsCatalog.map((b) => ({
+    id: b.id,
+    name: b.name,
+    imageDataUrl: b.imageDataUrl,
+    tint: b.tint,
+    count: counts[b.id] ?? 1,
+  }));
+  return sha256Hex(stableStringify(roster));
+}
+
+function hashCommitment(record: ReplayRecord, nonce: string): string {
+  return sha256Hex(`${DRAW_PROOF_FORMAT}:${DRAW_PROOF_VERSION}:${nonce}:${stableStringify(record)}`);
+}
+
+/**
+ * Commit to a draw before the drop. The record already carries the seed,
+ * so the commitment binds seed, roster, board and drop position at once.
+ */
+export function commitDraw(record: ReplayRecord, nonce: string, committedAt = new Date().toISOString()): DrawCommitment {
+  return {
+    commitment: hashCommitment(record, nonce),
+    rosterFingerprint: buildRosterFingerprint(record.ballsCatalog, record.counts),
+    committedAt,
+  };
+}
+
+function toProofMarble(m: FinishedMarble): DrawProofMarble {
+  return { marbleId: m.marbleId, ballId: m.ballId };
+}
+
+/**
+ * Reveal the committed secret together with the observed result.
+ */
+export function revealDrawProof({
+  commit,
+  record,
+  nonce,
+  finished,
+  winner,
+  revealedAt = new Date().toISOString(),
+}: {
+  commit: DrawCommitment;
+  record: ReplayRecord;
+  nonce: string;
+  finished: FinishedMarble[];
+  winner: FinishedMarble;
+  revealedAt?: string;
+}): DrawProof {
+  return {
+    format: DRAW_PROOF_FORMAT,
+    version: DRAW_PROOF_VERSION,
+    commitment: commit.commitment,
+    rosterFingerprint: commit.rosterFingerprint,
+    committedAt: commit.committedAt,
+    revealedAt,
+    nonce,
+    replay: record,
+    result: {
+      winner: { ...toProofMarble(winner), t: winner.t },
+      finishOrder: finished.map(toProofMarble),
+    },
+  };
+}
+
+function failVerification(error: string): DrawProofVerification {
+  return {
+    ok: false,
+    checks: { commitment: false, roster: false, winner: false, finishOrder: false },
+    replayWinner: null,
+    error,
+  };
+}
+
+/**
+ * Check a revealed proof: the commitment matches the revealed seed/record,
+ * and a headless re-run of the engine lands on the same winner and finish order.
+ */
+export function verifyDrawProof(input: unknown): DrawProofVerification {
+  if (!input || typeof input !== "object") return failVerification("proof: must be an object");
+  const proof = input as Partial<DrawProof>;
+  if (proof.format !== DRAW_PROOF_FORMAT) return failVerification("proof.format: unsupported format");
+  if (proof.version !== DRAW_PROOF_VERSION) return failVerification(`proof.version: unsupported version ${String(proof.version)}`);
+  if (typeof proof.nonce !== "string" || typeof proof.commitment !== "string") {
+    return failVerification("proof: missing commitment or nonce");
+  }
+  const winner = proof.result?.winner;
+  const finishOrder = proof.result?.finishOrder;
+  if (!winner || !Array.isArray(finishOrder)) return failVerification("proof.result: missing winner or finish order");
+
+  let record: ReplayRecord;
+  try {
+    record = parseReplayRecord(proof.replay);
+  } catch (err) {
+    return failVerification(err instanceof Error ? err.message : String(err));
+  }
+
+  const commitment = hashCommitment(record, proof.nonce) === proof.commitment;
+  const roster = buildRosterFingerprint(record.ballsCatalog, record.counts) === proof.rosterFingerprint;
+
+  let replay;
+  try {
+    replay = replayRun(record);
+  } catch (err) {
+    const failed = failVerification(err instanceof Error ? err.message : String(err));
+    return { ...failed, checks: { ...failed.checks, commitment, roster } };
+  }
+  const replayWinner = replay.winner ? toProofMarble(replay.winner) : null;
+  const winnerOk = !!replayWinner && replayWinner.marbleId === winner.marbleId && replayWinner.ballId === winner.ballId;
+  const finishOrderOk = isSameFinishOrder(replay.finished, finishOrder);
+
+  return {
+    ok: commitment && roster && winnerOk && finishOrderOk,
+    checks: { commitment, roster, winner: winnerOk, finishOrder: finishOrderOk },
+    replayWinner,
+    error: null,
+  };
+}
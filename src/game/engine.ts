@@ -1,8 +1,11 @@
 // Lightweight, deterministic-ish pinball/ladder simulation (no external deps).
 
+import { parseBoardDefinition, type BoardDefinition } from "./board-definition.ts";
+import { getEngineMath, type EngineMath } from "./portable-math.ts";
+
 export type Rng = () => number;
 
-export type BoardLayout = "classic" | "roulette" | "zigzag";
+export type BoardLayout = "classic" | "roulette" | "zigzag" | "custom";
 
 export type Point = [number, number];
 
@@ -11,6 +14,8 @@ export type BallCatalogItem = {
   name: string;
   imageDataUrl: string;
   tint: string;
+  /** Group tags for the participant filter; see `participant-tags.ts`. */
+  tags?: string[];
 };
 
 export type Peg = {
@@ -140,6 +145,11 @@ export type ZigzagLayout = {
   spawnBoundsAtY: SpawnBoundsAtY;
 };
 
+/** Fixed map compiled from a `BoardDefinition`; same mechanisms as the zigzag layout. */
+export type CustomLayout = ZigzagLayout & {
+  name: string;
+};
+
 export type Board = {
   layout: BoardLayout;
   worldW: number;
@@ -160,9 +170,12 @@ export type Board = {
   corridor: Corridor | null;
   roulette: RouletteLayout | null;
   zigzag: ZigzagLayout | null;
+  custom: CustomLayout | null;
   wallSegments: Segment[];
   wallBins: SegmentBins | null;
   slots: Slot[];
+  /** Bit-exact mode: portable math and fixed quality tiers, so every browser steps the same run. */
+  deterministic: boolean;
 };
 
 export type MarbleResult = {
@@ -185,6 +198,19 @@ export type FinishedMarble = {
   label: string;
 };
 
+/**
+ * Which arrival wins the draw. `rank` counts arrivals from 1 (rank 1 is the same as `first`).
+ */
+export type WinnerRule = { kind: "last" } | { kind: "first" } | { kind: "rank"; rank: number };
+
+export const DEFAULT_WINNER_RULE: WinnerRule = { kind: "last" };
+
+/**
+ * `adaptive` trims sub-steps and collision work as the crowd grows (main-thread budget);
+ * `full` keeps small-crowd quality at any size (used when the simulation runs in a worker).
+ */
+export type PhysicsQuality = "adaptive" | "full";
+
 export type Marble = {
   id: string;
   ballId: string;
@@ -213,6 +239,13 @@ export type GameState = {
   board: Board;
   ballsCatalog: BallCatalogItem[];
   counts: Record<string, number>;
+  /**
+   * Per-ball entry counts that replace `counts` when the drop queue is built (0 sits the ball out).
+   * Set by the anti-repeat rules; `counts` itself stays what the user picked.
+   */
+  entryAdjustments: Record<string, number>;
+  /** Participants the tag filter leaves out of the next run; they keep their `counts`. */
+  inactiveBallIds: string[];
   stats: {
     propellerContacts: number;
   };
@@ -220,6 +253,9 @@ export type GameState = {
   released: boolean;
   totalToDrop: number;
   finishTriggerRemaining: number;
+  winnerRule: WinnerRule;
+  winnerCount: number;
+  physicsQuality: PhysicsQuality;
   finished: FinishedMarble[];
   winner: FinishedMarble | null;
   _binCounts: number[];
@@ -241,11 +277,21 @@ export type BoardOptions = {
   sidePad?: number;
   slotCount?: number;
   slotH?: number;
+  /** Finish slot labels (defaults to `S1..Sn`, or "" for a single slot). */
+  slotLabels?: string[] | null;
+  /** Relative finish slot widths (1 = equal share); missing or invalid entries count as 1. */
+  slotWidths?: number[] | null;
   heightMultiplier?: number;
   elementScale?: number;
   corridorEnabled?: boolean;
   customRotors?: CustomRotorInput[] | null;
   layout?: BoardLayout;
+  /** Data-driven board; overrides layout, world size, scales and slots. */
+  definition?: BoardDefinition | null;
+  /** Board editor previews turn this off so an unfinished draft still builds. */
+  definitionGeometryCheck?: boolean;
+  /** Same bits on every browser and device at a fixed quality cost; see `Board.deterministic`. */
+  deterministic?: boolean;
 };
 
 export type GameStateOptions = {
@@ -299,6 +345,12 @@ type WallResolveScratch = {
   stamp: number;
 };
 
+/**
+ * Bump whenever a change to the simulation can alter the outcome of a seeded run.
+ * Replay records from another engine version are not guaranteed to reproduce.
+ */
+export const ENGINE_VERSION = 1;
+
 export function makeRng(seed: number): Rng {
   let x = seed >>> 0;
   return () => {
@@ -321,12 +373,32 @@ export function makeBoard({
   sidePad = 70,
   slotCount = 8,
   slotH = 130,
+  slotLabels = null,
+  slotWidths = null,
   heightMultiplier = 1,
   elementScale = 1,
   corridorEnabled = true,
   customRotors = null, // zigzag: user-provided extra circular rotors
-  layout = "classic" // classic | roulette | zigzag
+  layout = "classic", // classic | roulette | zigzag | custom
+  definition = null,
+  definitionGeometryCheck = true,
+  deterministic = false
 }: BoardOptions = {}): Board {
+  // Validates (throws with field paths) and applies heightMultiplier to the definition's coordinates.
+  const def = definition ? parseBoardDefinition(definition, { ballR, geometry: definitionGeometryCheck }) : null;
+  if (def) {
+    layout = "custom";
+    worldW = def.world.width;
+    worldH = def.world.height;
+    heightMultiplier = 1;
+    elementScale = def.elementScale ?? 1;
+    slotCount = def.slots.labels.length;
+    slotH = def.slots.height;
+    slotLabels = def.slots.labels;
+    slotWidths = null;
+  } else if (layout === "custom") {
+    throw new Error("makeBoard: custom layout requires a board definition");
+  }
   const baseH = worldH;
   const baseRows = rows;
   const mul = Math.max(1, Math.floor(heightMultiplier));
@@ -347,8 +419,10 @@ export function makeBoard({
   // Fixed map layouts: polylines + boxes + optional propellers (no procedural pegs).
   const roulette = layout === "roulette" ? makeRouletteLayout({ worldW, worldH, slotH }) : null;
   const zigzag = layout === "zigzag" ? makeZigzagLayout({ worldW, worldH, slotH, ballR, customRotors }) : null;
-  const fixed = roulette || zigzag;
-  const wallSegments = fixed ? buildWallSegments(fixed.entities) : [];
+  const custom = def ? makeCustomLayout(def, { worldH, ballR }) : null;
+  const fixed = roulette || zigzag || custom;
+  const math = getEngineMath(deterministic);
+  const wallSegments = fixed ? buildWallSegments(fixed.entities, math) : [];
   const wallBins = wallSegments.length ? buildSegmentBins(wallSegments, 260) : null;
 
   if (layout === "classic") {
@@ -374,16 +448,8 @@ export function makeBoard({
     }
   }
 
-  const slots: Slot[] = [];
   const slotW = worldW / slotCount;
-  for (let i = 0; i < slotCount; i++) {
-    slots.push({
-      idx: i,
-      x0: i * slotW,
-      x1: (i + 1) * slotW,
-      label: slotCount === 1 ? "" : `S${i + 1}`
-    });
-  }
+  const slots = makeSlots(worldW, slotCount, slotLabels, slotWidths);
 
   return {
     layout,
@@ -405,9 +471,11 @@ export function makeBoard({
     corridor,
     roulette,
     zigzag,
+    custom,
     wallSegments,
     wallBins,
-    slots
+    slots,
+    deterministic
   };
 }
 
@@ -423,6 +491,8 @@ export function makeGameState({ seed = 1234, board = makeBoard(), ballsCatalog =
     board,
     ballsCatalog,
     counts,
+    entryAdjustments: {},
+    inactiveBallIds: [],
     stats: {
       propellerContacts: 0
     },
@@ -430,6 +500,9 @@ export function makeGameState({ seed = 1234, board = makeBoard(), ballsCatalog =
     released: false,
     totalToDrop: 0,
     finishTriggerRemaining: 4,
+    winnerRule: DEFAULT_WINNER_RULE,
+    winnerCount: 1,
+    physicsQuality: "adaptive",
     finished: [],
     winner: null,
     _binCounts: Array.from({ length: board.slotCount }, () => 0),
@@ -439,26 +512,126 @@ export function makeGameState({ seed = 1234, board = makeBoard(), ballsCatalog =
   };
 }
 
+/**
+ * Swap the board of an idle game (e.g. the layout picker). Resets any finished run and re-centers the drop.
+ */
+export function setBoard(state: GameState, board: Board): void {
+  if (state.mode === "playing" && !state.winner) throw new Error("setBoard: cannot change the board during a run");
+  state.board = board;
+  state.dropX = board.worldW / 2;
+  resetGame(state);
+}
+
+/**
+ * Set which arrival decides the draw and how many winners the result picks (used to know when the draw is decided).
+ */
+/** Highest arrival place a `rank` rule can pick. */
+export const WINNER_RANK_MAX = 999;
+
+/** The one clamp for `rank` rules, shared by the engine and every parser of stored or shared rules. */
+export function clampWinnerRank(rank: unknown): number {
+  return clampInt(Math.floor(Number(rank)) || 1, 1, WINNER_RANK_MAX);
+}
+
+export function setWinnerRule(state: GameState, rule: WinnerRule, winnerCount = 1): void {
+  if (state.mode === "playing" && !state.winner) throw new Error("setWinnerRule: cannot change the rule during a run");
+  state.winnerRule = rule.kind === "rank" ? { kind: "rank", rank: clampWinnerRank(rule.rank) } : rule;
+  state.winnerCount = clampInt(Number(winnerCount) || 1, 1, 999);
+}
+
+/**
+ * Validate an untrusted winner rule (storage, replay files, CLI). Returns null when it is not a rule.
+ */
+export function normalizeWinnerRule(input: unknown): WinnerRule | null {
+  if (!input || typeof input !== "object") return null;
+  const rule = input as Record<string, unknown>;
+  if (rule.kind === "last" || rule.kind === "first") return { kind: rule.kind };
+  if (rule.kind !== "rank" || !Number.isInteger(rule.rank) || (rule.rank as number) < 1) return null;
+  return { kind: "rank", rank: clampWinnerRank(rule.rank) };
+}
+
+/**
+ * 1-based arrival position of the (first) winner under `rule`.
+ */
+export function getWinnerArrival(rule: WinnerRule, total: number): number {
+  if (rule.kind === "last") return total;
+  if (rule.kind === "first") return Math.min(total, 1);
+  return Math.min(total, rule.rank);
+}
+
+/**
+ * How many arrivals it takes before every winner is known.
+ * `last` needs everyone; `first`/`rank` stop once the last picked place has arrived.
+ */
+export function getDecidingArrival(rule: WinnerRule, total: number, winnerCount = 1): number {
+  if (rule.kind === "last") return total;
+  const count = Math.max(1, Math.floor(winnerCount) || 1);
+  return Math.min(total, getWinnerArrival(rule, total) + count - 1);
+}
+
+/**
+ * Arrivals still needed to decide the current run (0 once decided or before the run has marbles).
+ */
+export function getRemainingToDecide(state: GameState): number {
+  const total = Number(state.totalToDrop) || 0;
+  if (total <= 0) return 0;
+  return Math.max(0, getDecidingArrival(state.winnerRule, total, state.winnerCount) - state.finished.length);
+}
+
+/**
+ * Marbles still in play that can decide the draw, leader first.
+ * Under `last` that is every marble still on the board; under `first`/`rank` only the leading pack.
+ */
+export function getContenderMarbles(state: GameState): Marble[] {
+  const remaining = getRemainingToDecide(state);
+  if (remaining <= 0) return [];
+  return state.marbles
+    .filter((m) => !m.done)
+    .sort((a, b) => b.y - a.y)
+    .slice(0, remaining);
+}
+
+/** 0 keeps the participant in the roster but sitting out (absent). */
 export function setBallCount(state: GameState, id: string, count: number): void {
   if (!state.ballsCatalog.some((b) => b.id === id)) return;
-  const safe = clampInt(Number(count) || 0, 1, 99);
+  const safe = clampInt(Number(count) || 0, 0, 99);
   state.counts[id] = safe;
 }
 
 export function getBallCount(state: GameState, id: string): number {
-  return clampInt(state.counts?.[id] ?? 1, 1, 99);
+  return clampInt(state.counts?.[id] ?? 1, 0, 99);
+}
+
+/** Takes part in the next run: present (count above 0) and not left out by the tag filter. */
+export function isBallActive(state: GameState, id: string): boolean {
+  return getBallCount(state, id) > 0 && !state.inactiveBallIds?.includes(id);
+}
+
+/**
+ * Entries the ball gets in the next drop queue: none when it is absent or the tag filter leaves it out,
+ * otherwise its count unless an entry adjustment replaces it.
+ */
+export function getDropCount(state: GameState, id: string): number {
+  if (!isBallActive(state, id)) return 0;
+  const adjusted = state.entryAdjustments?.[id];
+  if (adjusted == null) return getBallCount(state, id);
+  return clampInt(Number(adjusted) || 0, 0, 99);
 }
 
+/** Entries of the participants taking part (absentees and the tag filter applied, entry adjustments not). */
 export function getTotalSelectedCount(state: GameState): number {
+  const inactive = new Set(state.inactiveBallIds ?? []);
   let total = 0;
-  for (const b of state.ballsCatalog) total += getBallCount(state, b.id);
+  for (const b of state.ballsCatalog) {
+    if (!inactive.has(b.id)) total += getBallCount(state, b.id);
+  }
   return total;
 }
 
 export function prepareDropQueue(state: GameState, { shuffle = true }: { shuffle?: boolean } = {}): string[] {
   const queue: string[] = [];
   for (const b of state.ballsCatalog) {
-    const n = getBallCount(state, b.id);
+    const n = getDropCount(state, b.id);
     for (let i = 0; i < n; i++) queue.push(b.id);
   }
   if (shuffle && queue.length > 1) {
@@ -475,18 +648,21 @@ export function prepareDropQueue(state: GameState, { shuffle = true }: { shuffle
 function getLayoutSpawnBoundsAtY(board: Board): ((y: number) => SpawnBounds) | null {
   if (board.layout === "roulette") return board.roulette?.spawnBoundsAtY ?? null;
   if (board.layout === "zigzag") return board.zigzag?.spawnBoundsAtY ?? null;
+  if (board.layout === "custom") return board.custom?.spawnBoundsAtY ?? null;
   return null;
 }
 
 function getLayoutSpawnY(board: Board): number | null {
   if (board.layout === "roulette") return board.roulette?.spawnY ?? null;
   if (board.layout === "zigzag") return board.zigzag?.spawnY ?? null;
+  if (board.layout === "custom") return board.custom?.spawnY ?? null;
   return null;
 }
 
 function getLayoutTopY(board: Board): number | null {
   if (board.layout === "roulette") return board.roulette?.topY ?? null;
   if (board.layout === "zigzag") return board.zigzag?.topY ?? null;
+  if (board.layout === "custom") return board.custom?.topY ?? null;
   return null;
 }
 
@@ -520,11 +696,11 @@ function confineMarbleX(m: Marble, bounds: SpawnBounds, restitution: number): vo
   }
 }
 
-function separateCoincidentMarbles(a: Marble, b: Marble, rr: number): void {
+function separateCoincidentMarbles(a: Marble, b: Marble, rr: number, math: EngineMath): void {
   const seed = hash01(`${a.id}|${b.id}`);
   const ang = seed * Math.PI * 2;
-  const nx = Math.cos(ang);
-  const ny = Math.sin(ang);
+  const nx = math.cos(ang);
+  const ny = math.sin(ang);
   const push = rr * 0.501;
   a.x += nx * push;
   a.y += ny * push;
@@ -608,52 +784,56 @@ export function step(state: GameState, dt: number): void {
   const air = 0.976;
   const maxV = 1120;
 
-  const { worldW, worldH, slotH, pegRows, slots, slotW, topPad, pegGapY, corridor, wallSegments, wallBins, zigzag } =
+  const { worldW, worldH, slotH, pegRows, slots, topPad, pegGapY, corridor, wallSegments, wallBins } =
     state.board;
   const finishY = worldH - slotH;
   const layoutSpawnBoundsAtY = getLayoutSpawnBoundsAtY(state.board);
-  const propellers = zigzag?.propellers || null;
-  const propellerBins = zigzag?.propellerBins || null;
-  const rotors = zigzag?.rotors || null;
-  const rotorBins = zigzag?.rotorBins || null;
+  const mechanisms = state.board.zigzag || state.board.custom;
+  const propellers = mechanisms?.propellers || null;
+  const propellerBins = mechanisms?.propellerBins || null;
+  const rotors = mechanisms?.rotors || null;
+  const rotorBins = mechanisms?.rotorBins || null;
 
   // Prevent tunneling through thin walls when many marbles pile up by sub-stepping.
   // Keep this capped to avoid exploding CPU cost for large counts.
+  const math = getEngineMath(state.board.deterministic);
   let maxSpeed = 0;
   let minR = Infinity;
   let activeCount = 0;
   for (const m of state.marbles) {
     if (m.done) continue;
     activeCount += 1;
-    const sp = Math.hypot(m.vx, m.vy);
+    const sp = math.hypot(m.vx, m.vy);
     if (sp > maxSpeed) maxSpeed = sp;
     if (m.r < minR) minR = m.r;
   }
   const maxDisp = maxSpeed * dt + 0.5 * g * dt * dt;
   const targetDisp = Math.max(4, (Number.isFinite(minR) ? minR : 18) * 0.45);
+  // Crowd size used for the quality tiers below; `full` quality and deterministic boards always take the small-crowd tier.
+  const crowd = state.physicsQuality === "full" || state.board.deterministic ? 0 : activeCount;
   let subStepCap = 6;
   let collisionIterations = 2;
   let pegRowRadius = 2;
-  if (activeCount >= 72) {
+  if (crowd >= 72) {
     subStepCap = 2;
     collisionIterations = 1;
     pegRowRadius = 1;
-  } else if (activeCount >= 48) {
+  } else if (crowd >= 48) {
     subStepCap = 3;
     collisionIterations = 1;
     pegRowRadius = 1;
-  } else if (activeCount >= 30) {
+  } else if (crowd >= 30) {
     subStepCap = 4;
   }
   let propellerCandidateCap = 8;
   let rotorCandidateCap = 12;
-  if (activeCount >= 72) {
+  if (crowd >= 72) {
     propellerCandidateCap = 3;
     rotorCandidateCap = 5;
-  } else if (activeCount >= 48) {
+  } else if (crowd >= 48) {
     propellerCandidateCap = 4;
     rotorCandidateCap = 7;
-  } else if (activeCount >= 30) {
+  } else if (crowd >= 30) {
     propellerCandidateCap = 6;
     rotorCandidateCap = 9;
   }
@@ -670,7 +850,7 @@ export function step(state: GameState, dt: number): void {
     state.t += dtSub;
     const runtimePropellersNow =
       propellers && propellers.length
-        ? updateRuntimePropellers(runtimePropellers, propellers, state.t, state.board.ballR)
+        ? updateRuntimePropellers(runtimePropellers, propellers, state.t, state.board.ballR, math)
         : null;
 
     // Integrate.
@@ -694,9 +874,11 @@ export function step(state: GameState, dt: number): void {
 
       // Finish line -> slot result.
       if (m.y + m.r >= finishY) {
-        const idx = clampInt(Math.floor(m.x / slotW), 0, slots.length - 1);
+        const idx = slotIndexAt(slots, m.x);
         const n = (state._binCounts?.[idx] ?? 0) | 0;
-        if (!m.result) {
+        // Once decided, later arrivals still drop into the slots but are not recorded, so the finish
+        // order matches a replay that stops at the deciding arrival.
+        if (!m.result && !state.winner) {
           // If there is only one finish slot, treat "label" as arrival order.
           const order = n + 1;
           const label = slots.length === 1 ? String(order) : slots[idx].label;
@@ -890,7 +1072,7 @@ export function step(state: GameState, dt: number): void {
 
       // Marble-marble collisions (simple impulse).
       // Uses a grid broad-phase under load to avoid O(n^2) blowups.
-      resolveMarbleCollisions(state.marbles, restitution, worldW, state.board.ballR);
+      resolveMarbleCollisions(state.marbles, restitution, worldW, state.board.ballR, math);
       for (const m of state.marbles) {
         if (m.done) continue;
         confineMarbleX(m, getPlayableBoundsAtY(m.y, worldW, corridor, layoutSpawnBoundsAtY), restitution);
@@ -921,7 +1103,7 @@ export function step(state: GameState, dt: number): void {
       m._winYMin = m.y;
       m._winYMax = m.y;
 
-      const sp = Math.hypot(m.vx, m.vy);
+      const sp = math.hypot(m.vx, m.vy);
       if (dyNet > 35) m._unstuckHits = 0;
 
       // If we barely progressed and we're oscillating inside a small pocket, kick it out.
@@ -942,16 +1124,32 @@ export function step(state: GameState, dt: number): void {
       }
     }
 
-    if (state.released && state.totalToDrop > 0 && state.finished.length === state.totalToDrop) {
-      // Winner: the one who arrives last (max finish time). With simultaneous drop, this is also the last finish event.
-      const last = state.finished.reduce((a, b) => (a.t >= b.t ? a : b));
-      state.winner = last;
+    if (
+      !state.winner &&
+      state.released &&
+      state.totalToDrop > 0 &&
+      state.finished.length >= getDecidingArrival(state.winnerRule, state.totalToDrop, state.winnerCount)
+    ) {
+      state.winner = pickWinner(state);
       break;
     }
   }
 }
 
-function resolveMarbleCollisions(marbles: Marble[], restitution: number, worldW: number, ballR: number): void {
+function pickWinner(state: GameState): FinishedMarble {
+  // Winner: the one who arrives last (max finish time). With simultaneous drop, this is also the last finish event.
+  if (state.winnerRule.kind === "last") return state.finished.reduce((a, b) => (a.t >= b.t ? a : b));
+  // `finished` is in arrival order; several marbles can land in one sub-step, so index by position rather than length.
+  return state.finished[getWinnerArrival(state.winnerRule, state.totalToDrop) - 1];
+}
+
+function resolveMarbleCollisions(
+  marbles: Marble[],
+  restitution: number,
+  worldW: number,
+  ballR: number,
+  math: EngineMath
+): void {
   const activeMarbles: Marble[] = [];
   for (const marble of marbles) {
     if (marble.done) continue;
@@ -961,19 +1159,19 @@ function resolveMarbleCollisions(marbles: Marble[], restitution: number, worldW:
 
   // For small counts, direct pair checks are simpler and cheap enough.
   if (activeMarbles.length < 26) {
-    resolveMarbleCollisionsNaive(activeMarbles, restitution);
+    resolveMarbleCollisionsNaive(activeMarbles, restitution, math);
     return;
   }
 
-  resolveMarbleCollisionsGrid(activeMarbles, restitution, worldW, ballR);
+  resolveMarbleCollisionsGrid(activeMarbles, restitution, worldW, ballR, math);
 }
 
-function resolveMarbleCollisionsNaive(activeMarbles: Marble[], restitution: number): void {
+function resolveMarbleCollisionsNaive(activeMarbles: Marble[], restitution: number, math: EngineMath): void {
   for (let i = 0; i < activeMarbles.length; i++) {
     const a = activeMarbles[i];
     for (let j = i + 1; j < activeMarbles.length; j++) {
       const b = activeMarbles[j];
-      resolveMarblePair(a, b, restitution);
+      resolveMarblePair(a, b, restitution, math);
     }
   }
 }
@@ -982,7 +1180,8 @@ function resolveMarbleCollisionsGrid(
   activeMarbles: Marble[],
   restitution: number,
   worldW: number,
-  ballR: number
+  ballR: number,
+  math: EngineMath
 ): void {
   const cellSize = Math.max(14, ballR * 2.1);
   const cols = Math.max(1, Math.ceil(worldW / cellSize));
@@ -1011,7 +1210,7 @@ function resolveMarbleCollisionsGrid(
     for (let i = 0; i < list.length; i++) {
       const a = list[i];
       for (let j = i + 1; j < list.length; j++) {
-        resolveMarblePair(a, list[j], restitution);
+        resolveMarblePair(a, list[j], restitution, math);
       }
     }
 
@@ -1023,21 +1222,21 @@ function resolveMarbleCollisionsGrid(
       if (!others) continue;
       for (const a of list) {
         for (const b of others) {
-          resolveMarblePair(a, b, restitution);
+          resolveMarblePair(a, b, restitution, math);
         }
       }
     }
   }
 }
 
-function resolveMarblePair(a: Marble, b: Marble, restitution: number): void {
+function resolveMarblePair(a: Marble, b: Marble, restitution: number, math: EngineMath): void {
   const dx = a.x - b.x;
   const dy = a.y - b.y;
   const rr = a.r + b.r;
   const d2 = dx * dx + dy * dy;
   if (d2 >= rr * rr) return;
   if (d2 === 0) {
-    separateCoincidentMarbles(a, b, rr);
+    separateCoincidentMarbles(a, b, rr, math);
     return;
   }
   const d = Math.sqrt(d2);
@@ -1153,10 +1352,7 @@ function layoutPending(state: GameState): void {
     const center = clamp(state.dropX, b.left + ballR + 2, b.right - ballR - 2);
     const x0 = center - ((colsInThisRow - 1) * gap) / 2;
     const desiredX = x0 + col * gap;
-    if (
-      (state.board.layout === "roulette" && state.board.roulette?.spawnBoundsAtY) ||
-      (state.board.layout === "zigzag" && state.board.zigzag?.spawnBoundsAtY)
-    ) {
+    if (getLayoutSpawnBoundsAtY(state.board)) {
       state.pending[i].x = clamp(desiredX, b.left + ballR + 2, b.right - ballR - 2);
     } else if (state.board.corridor) {
       const { left, right } = corridorAt(state.board.corridor, state.pending[i].y);
@@ -1218,7 +1414,7 @@ function settleMarbles(state: GameState, iterations: number): void {
         const d2 = dx * dx + dy * dy;
         if (d2 >= rr * rr) continue;
         if (d2 === 0) {
-          separateCoincidentMarbles(a, b, rr);
+          separateCoincidentMarbles(a, b, rr, getEngineMath(state.board.deterministic));
           continue;
         }
         const d = Math.sqrt(d2);
@@ -1242,6 +1438,46 @@ function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
 
+function makeSlots(
+  worldW: number,
+  slotCount: number,
+  labels: string[] | null,
+  widths: number[] | null
+): Slot[] {
+  const weights = Array.from({ length: slotCount }, (_, i) => {
+    const w = widths?.[i];
+    return typeof w === "number" && Number.isFinite(w) && w > 0 ? w : 1;
+  });
+  const uneven = weights.some((w) => w !== 1);
+  const total = weights.reduce((a, b) => a + b, 0);
+  const slotW = worldW / slotCount;
+  const slots: Slot[] = [];
+  let acc = 0;
+  for (let i = 0; i < slotCount; i++) {
+    let x0 = i * slotW;
+    let x1 = (i + 1) * slotW;
+    if (uneven) {
+      x0 = (worldW * acc) / total;
+      x1 = i === slotCount - 1 ? worldW : (worldW * (acc + weights[i])) / total;
+    }
+    acc += weights[i];
+    slots.push({
+      idx: i,
+      x0,
+      x1,
+      label: labels?.[i] ?? (slotCount === 1 ? "" : `S${i + 1}`)
+    });
+  }
+  return slots;
+}
+
+function slotIndexAt(slots: Slot[], x: number): number {
+  for (let i = 0; i < slots.length - 1; i++) {
+    if (x < slots[i].x1) return i;
+  }
+  return slots.length - 1;
+}
+
 function makeCorridor({ worldW, worldH, ballR }: { worldW: number; worldH: number; ballR: number }): Corridor {
   const wideHalf = worldW / 2;
   const narrowW = ballR * 7.2; // ~2-3 balls through, depending on scale.
@@ -1484,8 +1720,15 @@ function makeZigzagLayout({
   {
     const xFrac = 0.497;
     const yFracs = [0.966, 0.976, 0.985]; // upper -> lower
-    for (let i = 0; i < yFracs.length; i++) {
-      const y = worldH * yFracs[i];
+    let exitYs = yFracs.map((f) => worldH * f);
+    // Fractions were tuned on the 10x board. On shorter boards they would crowd together and sink
+    // below the funnel end (the slot area is a fixed height), so stack them up from the funnel end instead.
+    const exitSpacing = Math.max(ballR * 6, 96);
+    const exitFits =
+      exitYs[exitYs.length - 1] <= yEnd && exitYs.every((y, i) => i === 0 || y - exitYs[i - 1] >= exitSpacing);
+    if (!exitFits) exitYs = exitYs.map((_, i) => yEnd - 32 - (exitYs.length - 1 - i) * exitSpacing);
+    for (let i = 0; i < exitYs.length; i++) {
+      const y = exitYs[i];
       const prof = profileAt(y);
       const clearance = Math.max(ballR * 2.9, 62);
       const maxLen = Math.max(120, (prof.hw - clearance) * 2);
@@ -1777,6 +2020,70 @@ function makeRouletteLayout({ worldW, worldH, slotH }: { worldW: number; worldH:
   };
 }
 
+function makeCustomLayout(def: BoardDefinition, { worldH, ballR }: { worldH: number; ballR: number }): CustomLayout {
+  const entities: FixedEntity[] = def.walls;
+  const boundsLeft = def.walls.find((w) => w.id === def.spawn.leftWall);
+  const boundsRight = def.walls.find((w) => w.id === def.spawn.rightWall);
+  const outerLeft = boundsLeft?.type === "polyline" ? boundsLeft.points : [];
+  const outerRight = boundsRight?.type === "polyline" ? boundsRight.points : [];
+  const topY = def.spawn.topY ?? Math.min(...outerLeft.map((p) => p[1]).concat(outerRight.map((p) => p[1])));
+
+  const propellers: Propeller[] = (def.propellers ?? []).map((p) => ({
+    x: p.x,
+    y: p.y,
+    len: p.len,
+    omega: p.omega,
+    phase: p.phase ?? 0,
+    mix: p.mix ?? 7,
+    down: p.down ?? 26,
+    maxUp: p.maxUp ?? 120,
+    maxSurf: p.maxSurf ?? 520,
+    bounce: p.bounce ?? 0.06
+  }));
+  // Same defaults as zigzag custom rotors.
+  const rotors: Rotor[] = (def.rotors ?? []).map((r) => ({
+    x: r.x,
+    y: r.y,
+    r: r.r ?? clamp(ballR * 0.78, ballR * 0.55, ballR * 0.95),
+    omega: r.omega ?? 11.0,
+    maxSurf: r.maxSurf ?? 620,
+    bounce: r.bounce ?? 0.28,
+    kick: r.kick ?? 190,
+    dampT: r.dampT ?? 0.02,
+    down: r.down ?? 16,
+    maxUp: r.maxUp ?? 20
+  }));
+
+  const influenceBinH = Math.max(90, ballR * 8);
+  return {
+    name: def.name ?? "",
+    entities,
+    propellers,
+    propellerBins: buildInfluenceBins(
+      worldH,
+      influenceBinH,
+      propellers.length,
+      (index) => propellers[index].y,
+      (index) => propellers[index].len * 0.5 + ballR + 8
+    ),
+    rotors,
+    rotorBins: buildInfluenceBins(
+      worldH,
+      influenceBinH,
+      rotors.length,
+      (index) => rotors[index].y,
+      (index) => rotors[index].r + ballR + 6
+    ),
+    topY,
+    spawnY: def.spawn.y,
+    spawnBoundsAtY: (y) => {
+      const left = interpolateXAtY(outerLeft, y);
+      const right = interpolateXAtY(outerRight, y);
+      return { left: Math.min(left, right), right: Math.max(left, right) };
+    }
+  };
+}
+
 function normalizeRotation(rot: number | undefined): number {
   const r = Number(rot) || 0;
   // Heuristic: values with magnitude > 2*pi are degrees.
@@ -1799,7 +2106,7 @@ function interpolateXAtY(points: Point[], y: number): number {
   return points[points.length - 1][0];
 }
 
-function buildWallSegments(entities: FixedEntity[]): Segment[] {
+function buildWallSegments(entities: FixedEntity[], math: EngineMath): Segment[] {
   const segs = [];
   for (const ent of entities || []) {
     if (!ent) continue;
@@ -1811,20 +2118,20 @@ function buildWallSegments(entities: FixedEntity[]): Segment[] {
         segs.push(makeSeg(x0, y0, x1, y1));
       }
     } else if (ent.type === "box") {
-      const edges = boxToSegments(ent);
+      const edges = boxToSegments(ent, math);
       for (const e of edges) segs.push(e);
     }
   }
   return segs;
 }
 
-function boxToSegments(b: BoxEntity): Segment[] {
+function boxToSegments(b: BoxEntity, math: EngineMath): Segment[] {
   const cx = b.x;
   const cy = b.y;
   const hw = b.w / 2;
   const hh = b.h / 2;
-  const c = Math.cos(b.rot || 0);
-  const s = Math.sin(b.rot || 0);
+  const c = math.cos(b.rot || 0);
+  const s = math.sin(b.rot || 0);
   const pts = [
     [-hw, -hh],
     [hw, -hh],
@@ -2004,7 +2311,8 @@ function updateRuntimePropellers(
   runtimeList: RuntimePropeller[],
   propellers: Propeller[],
   t: number,
-  ballR: number
+  ballR: number,
+  math: EngineMath
 ): RuntimePropeller[] {
   if (runtimeList.length > propellers.length) {
     runtimeList.length = propellers.length;
@@ -2012,8 +2320,8 @@ function updateRuntimePropellers(
   for (let i = 0; i < propellers.length; i++) {
     const p = propellers[i];
     const ang = (p.phase || 0) + (p.omega || 0) * t;
-    const c = Math.cos(ang);
-    const s = Math.sin(ang);
+    const c = math.cos(ang);
+    const s = math.sin(ang);
     const hx = (p.len / 2) * c;
     const hy = (p.len / 2) * s;
     const x0 = p.x - hx;
@@ -2087,7 +2395,7 @@ function resolveRuntimePropeller(state: GameState, m: Marble, runtime: RuntimePr
   let vSurfY = omega * rx;
   const maxSurf = Number.isFinite(p.maxSurf) ? p.maxSurf : Infinity;
   if (Number.isFinite(maxSurf) && maxSurf > 0) {
-    const vmag = Math.hypot(vSurfX, vSurfY);
+    const vmag = getEngineMath(state.board.deterministic).hypot(vSurfX, vSurfY);
     if (vmag > maxSurf) {
       const k = maxSurf / vmag;
       vSurfX *= k;
@@ -2145,7 +2453,7 @@ function resolveRotor(state: GameState, m: Marble, r: Rotor, restitution: number
   let vSurfY = omega * rx;
   const maxSurf = Number.isFinite(r.maxSurf) ? r.maxSurf : Infinity;
   if (Number.isFinite(maxSurf) && maxSurf > 0) {
-    const vmag = Math.hypot(vSurfX, vSurfY);
+    const vmag = getEngineMath(state.board.deterministic).hypot(vSurfX, vSurfY);
     if (vmag > maxSurf) {
       const k = maxSurf / vmag;
       vSurfX *= k;
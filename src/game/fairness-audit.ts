@@ -0,0 +1,257 @@
+import {
+  dropAll,
+  makeBoard,
+  makeGameState,
+  startGame,
+  step,
+  type BallCatalogItem,
+  type Board,
+  type BoardOptions,
+  type FinishedMarble,
+} from "./engine.ts";
+import { chiSquareUniform, ksTwoSample, type ChiSquareResult, type KsResult } from "./audit-stats.ts";
+
+export type AuditMarbleRecord = {
+  run: number;
+  seed: number;
+  marbleId: string;
+  ballId: string;
+  spawnIndex: number;
+  spawnRow: number;
+  spawnX: number;
+  /** 1 = winner (last to finish), same ordering as the result modal. */
+  finishRank: number;
+  finishT: number;
+};
+
+export type AuditPositionRow = {
+  spawnIndex: number;
+  spawnRow: number;
+  meanSpawnX: number;
+  wins: number;
+  winRate: number;
+  meanFinishRank: number;
+};
+
+export type AuditBallRow = {
+  ballId: string;
+  wins: number;
+  winRate: number;
+};
+
+export type FairnessAuditReport = {
+  layout: string;
+  participants: number;
+  runs: number;
+  completedRuns: number;
+  seedStart: number;
+  expectedWinRate: number;
+  positions: AuditPositionRow[];
+  balls: AuditBallRow[];
+  tests: {
+    spawnIndex: ChiSquareResult;
+    ballId: ChiSquareResult;
+    spawnX: KsResult;
+  };
+};
+
+export type FairnessAuditOptions = {
+  boardOptions: BoardOptions;
+  participants?: number;
+  runs?: number;
+  seedStart?: number;
+  maxSteps?: number;
+  onRun?: (run: number, runs: number) => void;
+};
+
+const DEFAULT_MAX_STEPS = 60 * 60 * 20;
+
+/**
+ * One audit participant per marble so position and identity effects can be told apart.
+ */
+export function makeAuditCatalog(participants: number): BallCatalogItem[] {
+  return Array.from({ length: participants }, (_, i) => ({
+    id: `b${i + 1}`,
+    name: `B${i + 1}`,
+    imageDataUrl: "",
+    tint: "#ffffff",
+  }));
+}
+
+function rankLastFinishers(finished: FinishedMarble[]): Map<string, number> {
+  const order = finished
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => {
+      if (b.entry.t !== a.entry.t) return b.entry.t - a.entry.t;
+      return a.index - b.index;
+    });
+  return new Map(order.map((x, i) => [x.entry.marbleId, i + 1]));
+}
+
+/**
+ * Run a single seeded draw and record where each marble spawned and how it ranked.
+ * Returns null when the run does not finish within `maxSteps`.
+ */
+export function runAuditTrial(
+  board: Board,
+  ballsCatalog: BallCatalogItem[],
+  seed: number,
+  run = 0,
+  maxSteps = DEFAULT_MAX_STEPS
+): AuditMarbleRecord[] | null {
+  const state = makeGameState({ seed: seed >>> 0, board, ballsCatalog });
+  startGame(state);
+
+  const rowYs = [...new Set(state.pending.map((m) => m.y))].sort((a, b) => a - b);
+  const spawnById = new Map(
+    state.pending.map((m, i) => [m.id, { spawnIndex: i, spawnRow: rowYs.indexOf(m.y), spawnX: m.x }])
+  );
+
+  dropAll(state);
+  for (let i = 0; i < maxSteps && !state.winner; i++) step(state, 1 / 60);
+  if (!state.winner) return null;
+
+  const ranks = rankLastFinishers(state.finished);
+  return state.finished.map((f) => {
+    const spawn = spawnById.get(f.marbleId);
+    return {
+      run,
+      seed: state.seed,
+      marbleId: f.marbleId,
+      ballId: f.ballId,
+      spawnIndex: spawn?.spawnIndex ?? -1,
+      spawnRow: spawn?.spawnRow ?? -1,
+      spawnX: spawn?.spawnX ?? NaN,
+      finishRank: ranks.get(f.marbleId) ?? 0,
+      finishT: f.t,
+    };
+  });
+}
+
+/**
+ * Aggregate trial records into win-rate tables and bias statistics.
+ *
+ * - spawnIndex: chi-square of winners per spawn slot vs uniform
+ * - ballId: chi-square of winners per participant vs uniform
+ * - spawnX: two-sample KS, winners' spawn x vs all marbles' spawn x
+ */
+export function summarizeFairnessAudit(
+  records: AuditMarbleRecord[],
+  meta: { layout: string; participants: number; runs: number; seedStart: number }
+): FairnessAuditReport {
+  const { participants } = meta;
+  const completedRuns = new Set(records.map((r) => r.run)).size;
+  const positions: AuditPositionRow[] = Array.from({ length: participants }, (_, spawnIndex) => ({
+    spawnIndex,
+    spawnRow: -1,
+    meanSpawnX: 0,
+    wins: 0,
+    winRate: 0,
+    meanFinishRank: 0,
+  }));
+  const seenPerPosition = new Array(participants).fill(0);
+  const ballWins = new Map<string, number>();
+  for (const ball of makeAuditCatalog(participants)) ballWins.set(ball.id, 0);
+  const winnerXs: number[] = [];
+  const allXs: number[] = [];
+
+  for (const r of records) {
+    const row = positions[r.spawnIndex];
+    if (!row) continue;
+    seenPerPosition[r.spawnIndex]++;
+    row.spawnRow = r.spawnRow;
+    row.meanSpawnX += r.spawnX;
+    row.meanFinishRank += r.finishRank;
+    allXs.push(r.spawnX);
+    if (r.finishRank === 1) {
+      row.wins++;
+      winnerXs.push(r.spawnX);
+      ballWins.set(r.ballId, (ballWins.get(r.ballId) ?? 0) + 1);
+    }
+  }
+  for (const row of positions) {
+    const n = seenPerPosition[row.spawnIndex];
+    row.meanSpawnX = n ? row.meanSpawnX / n : NaN;
+    row.meanFinishRank = n ? row.meanFinishRank / n : NaN;
+    row.winRate = completedRuns ? row.wins / completedRuns : 0;
+  }
+  const balls = [...ballWins].map(([ballId, wins]) => ({
+    ballId,
+    wins,
+    winRate: completedRuns ? wins / completedRuns : 0,
+  }));
+
+  return {
+    ...meta,
+    completedRuns,
+    expectedWinRate: 1 / Math.max(1, participants),
+    positions,
+    balls,
+    tests: {
+      spawnIndex: chiSquareUniform(positions.map((p) => p.wins)),
+      ballId: chiSquareUniform(balls.map((b) => b.wins)),
+      spawnX: ksTwoSample(winnerXs, allXs),
+    },
+  };
+}
+
+/**
+ * Run `runs` seeded draws (seeds `seedStart`, `seedStart + 1`, ...) on one board.
+ */
+export function runFairnessAudit(opts: FairnessAuditOptions): {
+  report: FairnessAuditReport;
+  records: AuditMarbleRecord[];
+} {
+  const { boardOptions, participants = 8, runs = 1000, seedStart = 1, maxSteps = DEFAULT_MAX_STEPS, onRun } = opts;
+  const board = makeBoard(boardOptions);
+  const ballsCatalog = makeAuditCatalog(participants);
+  const records: AuditMarbleRecord[] = [];
+  for (let run = 0; run < runs; run++) {
+    const trial = runAuditTrial(board, ballsCatalog, (seedStart + run) >>> 0, run, maxSteps);
+    if (trial) records.push(...trial);
+    onRun?.(run + 1, runs);
+  }
+  const report = summarizeFairnessAudit(records, {
+    layout: board.layout,
+    participants,
+    runs,
+    seedStart,
+  });
+  return { report, records };
+}
+
+function pct(v: number): string {
+  return `${(v * 100).toFixed(1)}%`;
+}
+
+/**
+ * Plain-text report with the per-position win-rate table.
+ */
+export function formatFairnessAuditText(report: FairnessAuditReport): string {
+  const { tests } = report;
+  const lines = [
+    `layout ${report.layout} · ${report.participants} marbles · ${report.completedRuns}/${report.runs} runs · seeds ${report.seedStart}..${report.seedStart + report.runs - 1}`,
+    `expected win rate per position: ${pct(report.expectedWinRate)}`,
+    "",
+    "pos  row  spawnX  wins  winRate  meanRank",
+  ];
+  for (const p of report.positions) {
+    lines.push(
+      [
+        String(p.spawnIndex).padStart(3),
+        String(p.spawnRow).padStart(4),
+        p.meanSpawnX.toFixed(1).padStart(7),
+        String(p.wins).padStart(5),
+        pct(p.winRate).padStart(8),
+        p.meanFinishRank.toFixed(2).padStart(9),
+      ].join(" ")
+    );
+  }
+  lines.push(
+    "",
+    `spawn index chi-square: χ²=${tests.spawnIndex.statistic.toFixed(3)} df=${tests.spawnIndex.df} p=${tests.spawnIndex.pValue.toFixed(4)}`,
+    `ball id chi-square:     χ²=${tests.ballId.statistic.toFixed(3)} df=${tests.ballId.df} p=${tests.ballId.pValue.toFixed(4)}`,
+    `spawn x KS (winners vs all): D=${tests.spawnX.statistic.toFixed(4)} p=${tests.spawnX.pValue.toFixed(4)}`
+  );
+  return lines.join("\n");
+}
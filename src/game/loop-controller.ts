@@ -7,6 +7,8 @@
  * @param {{
  *   state: State;
  *   stepFn: (state: State, dt: number) => void;
+ *   advanceSteps?: (steps: number) => Promise<void> | void;
+ *   isDeterministic?: () => boolean;
  *   renderer: { draw: (state: State, balls: Ball[], imagesById: Map<string, HTMLImageElement>) => void; resizeToFit?: () => void };
  *   getBallsCatalog: () => Ball[];
  *   getImagesById: () => Map<string, HTMLImageElement>;
@@ -18,6 +20,10 @@
 export function createLoopController<State extends { mode?: string; paused?: boolean }, Ball>(opts: {
   state: State;
   stepFn: (state: State, dt: number) => void;
+  /** Runs fixed steps elsewhere (e.g. the physics worker); replaces calling `stepFn` here. */
+  advanceSteps?: (steps: number) => Promise<void> | void;
+  /** Deterministic boards count steps from accumulated time instead of the device's frame budget tier. */
+  isDeterministic?: () => boolean;
   renderer: {
     draw: (state: State, balls: Ball[], imagesById: Map<string, HTMLImageElement>) => void;
     resizeToFit?: () => void;
@@ -28,9 +34,14 @@ export function createLoopController<State extends { mode?: string; paused?: boo
   syncViewportHeight?: () => void;
   initialSpeedMultiplier?: number;
 }) {
+  const fixedStepSec = 1 / 60;
   const {
     state,
     stepFn,
+    advanceSteps = (steps: number) => {
+      for (let i = 0; i < steps; i++) stepFn(state, fixedStepSec);
+    },
+    isDeterministic = () => false,
     renderer,
     getBallsCatalog,
     getImagesById,
@@ -41,7 +52,6 @@ export function createLoopController<State extends { mode?: string; paused?: boo
 
   let resizeRaf = 0;
   let last = performance.now();
-  const fixedStepSec = 1 / 60;
   const fixedStepMs = 1000 / 60;
   type FrameBudgetPolicy = {
     maxSpeedMultiplier: number;
@@ -77,26 +87,46 @@ export function createLoopController<State extends { mode?: string; paused?: boo
     return fallbackFrameBudget;
   }
 
+  // Same on every device; past it (a long hitch) the run slows down instead of freezing the tab.
+  const deterministicMaxSteps = 8;
+  let carryMs = 0;
+  function getBudgetedSteps(scaledMs: number): number {
+    const frameBudget = getFrameBudgetPolicy();
+    const maxStepBudgetMs = fixedStepMs * frameBudget.maxCatchUpSteps;
+    const budgetMs = Math.min(maxStepBudgetMs, frameBudget.maxElapsedMs, scaledMs);
+    return Math.max(1, Math.round(budgetMs / fixedStepMs));
+  }
+
+  function getAccumulatedSteps(scaledMs: number): number {
+    const totalMs = carryMs + scaledMs;
+    const steps = Math.floor(totalMs / fixedStepMs);
+    if (steps > deterministicMaxSteps) {
+      carryMs = 0;
+      return deterministicMaxSteps;
+    }
+    carryMs = totalMs - steps * fixedStepMs;
+    return steps;
+  }
+
   function draw(): void {
     renderer.draw(state, getBallsCatalog(), getImagesById());
   }
 
   /**
    * Advance simulation using a fixed 60hz step for stable behavior.
+   * Resolves once off-thread steps have landed in `state` (immediately for local stepping).
    *
    * @param {number} ms
    */
-  function tickFixed(ms: number): void {
+  function tickFixed(ms: number): Promise<void> {
     const rawMs = Number(ms);
     const safeMs = Number.isFinite(rawMs) ? Math.max(0, rawMs) : 0;
     const scaledMs = safeMs * speedMultiplier;
-    const frameBudget = getFrameBudgetPolicy();
-    const maxStepBudgetMs = fixedStepMs * frameBudget.maxCatchUpSteps;
-    const budgetMs = Math.min(maxStepBudgetMs, frameBudget.maxElapsedMs, scaledMs);
-    const steps = Math.max(1, Math.round(budgetMs / fixedStepMs));
-    for (let i = 0; i < steps; i++) stepFn(state, fixedStepSec);
+    const steps = isDeterministic() ? getAccumulatedSteps(scaledMs) : getBudgetedSteps(scaledMs);
+    const pending = steps > 0 ? advanceSteps(steps) : undefined;
     draw();
     onAfterFrame();
+    return Promise.resolve(pending);
   }
 
   function scheduleResize(): void {
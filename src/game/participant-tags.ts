@@ -0,0 +1,101 @@
+/**
+ * Participant tags ("backend", "office") and the include/exclude filter that picks who joins the next run.
+ *
+ * - with any `include` tags, only participants carrying at least one of them take part
+ * - participants carrying an `exclude` tag sit out, whatever else they carry
+ *
+ * Filter tags no participant carries are ignored (they come back into effect when a roster has them),
+ * so switching rosters never leaves a filter that nobody can pass.
+ */
+export type ParticipantFilter = {
+  include: string[];
+  exclude: string[];
+};
+
+export type TagFilterState = "off" | "include" | "exclude";
+
+export type TaggedParticipant = {
+  id: string;
+  tags?: ReadonlyArray<string>;
+};
+
+export const PARTICIPANT_TAGS_MAX = 8;
+export const PARTICIPANT_TAG_MAX_LENGTH = 24;
+export const EMPTY_PARTICIPANT_FILTER: ParticipantFilter = Object.freeze({ include: [], exclude: [] });
+
+export function normalizeTag(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value
+    .replace(/[\u0000-\u001F\u007F,]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^#+/, "")
+    .trim()
+    .slice(0, PARTICIPANT_TAG_MAX_LENGTH);
+}
+
+/** Tags from a list or a comma-separated string: trimmed, deduped, at most `PARTICIPANT_TAGS_MAX`. */
+export function normalizeTags(input: unknown): string[] {
+  const raw = typeof input === "string" ? input.split(",") : input;
+  if (!Array.isArray(raw)) return [];
+  const tags: string[] = [];
+  for (const value of raw) {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+    if (tags.length >= PARTICIPANT_TAGS_MAX) break;
+  }
+  return tags;
+}
+
+export function normalizeParticipantFilter(input: unknown): ParticipantFilter {
+  if (!input || typeof input !== "object") return { include: [], exclude: [] };
+  const filter = input as Record<string, unknown>;
+  const exclude = normalizeTags(filter.exclude);
+  // A tag is either included or excluded; exclusion wins.
+  const include = normalizeTags(filter.include).filter((tag) => !exclude.includes(tag));
+  return { include, exclude };
+}
+
+/** Every tag in the roster, in first-seen order. */
+export function collectParticipantTags(participants: ReadonlyArray<TaggedParticipant>): string[] {
+  const tags: string[] = [];
+  for (const participant of participants) {
+    for (const tag of participant.tags ?? []) {
+      if (!tags.includes(tag)) tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+export function getTagFilterState(filter: ParticipantFilter, tag: string): TagFilterState {
+  if (filter.exclude.includes(tag)) return "exclude";
+  return filter.include.includes(tag) ? "include" : "off";
+}
+
+/** Next state for a tag chip: off -> include -> exclude -> off. */
+export function cycleTagFilter(filter: ParticipantFilter, tag: string): ParticipantFilter {
+  const include = filter.include.filter((it) => it !== tag);
+  const exclude = filter.exclude.filter((it) => it !== tag);
+  const current = getTagFilterState(filter, tag);
+  if (current === "off") include.push(tag);
+  if (current === "include") exclude.push(tag);
+  return { include, exclude };
+}
+
+/** Ids the filter leaves out of the next run, in roster order. */
+export function getInactiveParticipantIds(
+  participants: ReadonlyArray<TaggedParticipant>,
+  filter: ParticipantFilter
+): string[] {
+  const rosterTags = new Set(collectParticipantTags(participants));
+  const include = filter.include.filter((tag) => rosterTags.has(tag));
+  const exclude = filter.exclude.filter((tag) => rosterTags.has(tag));
+  if (!include.length && !exclude.length) return [];
+  const inactive: string[] = [];
+  for (const participant of participants) {
+    const tags = participant.tags ?? [];
+    const included = !include.length || tags.some((tag) => include.includes(tag));
+    if (!included || tags.some((tag) => exclude.includes(tag))) inactive.push(participant.id);
+  }
+  return inactive;
+}
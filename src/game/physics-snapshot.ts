@@ -0,0 +1,138 @@
+import { step, type FinishedMarble, type GameState } from "./engine.ts";
+import { createReplayState, type ReplayRecord } from "./replay.ts";
+
+/**
+ * Compact per-frame view of a worker-owned run.
+ *
+ * Marbles travel as typed arrays in `state.marbles` order; finish results travel as the
+ * finish-list delta since they are few and carry their slot labels.
+ */
+export type PhysicsSnapshot = {
+  runId: number;
+  /** Fixed steps simulated since the drop. */
+  steps: number;
+  t: number;
+  /** x, y, vx, vy per marble. */
+  motion: Float32Array;
+  /** 1 once the marble has finished. */
+  done: Uint8Array;
+  /** Index of the first entry in `finished` within the full finish list. */
+  finishedFrom: number;
+  finished: FinishedMarble[];
+  /** Index of the winner in the full finish list, -1 until decided. */
+  winnerIndex: number;
+};
+
+export type PhysicsWorkerRequest =
+  | { type: "begin"; runId: number; record: ReplayRecord }
+  | { type: "step"; runId: number; steps: number }
+  | { type: "end"; runId: number };
+
+export type PhysicsWorkerResponse =
+  | { type: "snapshot"; snapshot: PhysicsSnapshot }
+  | { type: "error"; runId: number; message: string };
+
+const MOTION_STRIDE = 4;
+
+export function encodePhysicsSnapshot(
+  state: GameState,
+  { runId, steps, finishedFrom }: { runId: number; steps: number; finishedFrom: number }
+): PhysicsSnapshot {
+  const count = state.marbles.length;
+  const motion = new Float32Array(count * MOTION_STRIDE);
+  const done = new Uint8Array(count);
+  state.marbles.forEach((m, i) => {
+    const o = i * MOTION_STRIDE;
+    motion[o] = m.x;
+    motion[o + 1] = m.y;
+    motion[o + 2] = m.vx;
+    motion[o + 3] = m.vy;
+    done[i] = m.done ? 1 : 0;
+  });
+  return {
+    runId,
+    steps,
+    t: state.t,
+    motion,
+    done,
+    finishedFrom,
+    finished: state.finished.slice(finishedFrom).map((entry) => ({ ...entry })),
+    winnerIndex: state.winner ? state.finished.indexOf(state.winner) : -1,
+  };
+}
+
+/**
+ * Buffers to hand over with `postMessage` instead of copying.
+ */
+export function getSnapshotTransfer(snapshot: PhysicsSnapshot): ArrayBuffer[] {
+  return [snapshot.motion.buffer, snapshot.done.buffer] as ArrayBuffer[];
+}
+
+/**
+ * Mirror a worker snapshot into the main-thread state the renderer and UI read.
+ * Throws when the snapshot does not belong to this state's run.
+ */
+export function applyPhysicsSnapshot(state: GameState, snapshot: PhysicsSnapshot): void {
+  const count = state.marbles.length;
+  if (snapshot.done.length !== count) {
+    throw new Error(`physics snapshot: expected ${count} marbles, got ${snapshot.done.length}`);
+  }
+  if (snapshot.finishedFrom > state.finished.length) {
+    throw new Error(`physics snapshot: finish list gap at ${state.finished.length}`);
+  }
+  state.t = snapshot.t;
+  for (let i = 0; i < count; i++) {
+    const m = state.marbles[i];
+    const o = i * MOTION_STRIDE;
+    m.x = snapshot.motion[o];
+    m.y = snapshot.motion[o + 1];
+    m.vx = snapshot.motion[o + 2];
+    m.vy = snapshot.motion[o + 3];
+    m.done = snapshot.done[i] === 1;
+  }
+
+  state.finished.length = snapshot.finishedFrom;
+  for (const entry of snapshot.finished) {
+    state.finished.push(entry);
+    const m = state.marbles.find((marble) => marble.id === entry.marbleId);
+    if (m) m.result = { slot: entry.slot, label: entry.label };
+    state.lastResult = { marbleId: entry.marbleId, ballId: entry.ballId, slot: entry.slot, label: entry.label };
+  }
+  state.winner = snapshot.winnerIndex >= 0 ? state.finished[snapshot.winnerIndex] ?? null : null;
+}
+
+/**
+ * Worker-side run owner: rebuilds the run from its replay record, steps on request and answers with snapshots.
+ * DOM-free so it can be driven directly in tests.
+ */
+export function createPhysicsHost(post: (message: PhysicsWorkerResponse, transfer: ArrayBuffer[]) => void) {
+  let run: { runId: number; state: GameState; stepSec: number; steps: number; sentFinished: number } | null = null;
+
+  function handle(request: PhysicsWorkerRequest): void {
+    try {
+      if (request.type === "begin") {
+        const state = createReplayState(request.record);
+        run = { runId: request.runId, state, stepSec: request.record.stepSec, steps: 0, sentFinished: 0 };
+        return;
+      }
+      if (!run || run.runId !== request.runId) return;
+      if (request.type === "end") {
+        run = null;
+        return;
+      }
+      for (let i = 0; i < request.steps; i++) step(run.state, run.stepSec);
+      run.steps += request.steps;
+      const snapshot = encodePhysicsSnapshot(run.state, {
+        runId: run.runId,
+        steps: run.steps,
+        finishedFrom: run.sentFinished,
+      });
+      run.sentFinished = run.state.finished.length;
+      post({ type: "snapshot", snapshot }, getSnapshotTransfer(snapshot));
+    } catch (err) {
+      post({ type: "error", runId: request.runId, message: err instanceof Error ? err.message : String(err) }, []);
+    }
+  }
+
+  return { handle };
+}
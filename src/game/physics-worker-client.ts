@@ -0,0 +1,183 @@
+import { step, type GameState } from "./engine.ts";
+import { applyPhysicsSnapshot, type PhysicsWorkerRequest, type PhysicsWorkerResponse } from "./physics-snapshot.ts";
+import { createReplayState, type ReplayRecord } from "./replay.ts";
+
+export type PhysicsWorkerLike = {
+  postMessage(message: PhysicsWorkerRequest): void;
+  addEventListener(type: "message", listener: (event: MessageEvent<PhysicsWorkerResponse>) => void): void;
+  addEventListener(type: "error", listener: (event: Event) => void): void;
+  terminate(): void;
+};
+
+type WorkerRun = {
+  runId: number;
+  record: ReplayRecord;
+  /** Steps asked of the worker (posted or queued). */
+  requested: number;
+  /** Steps covered by the last applied snapshot. */
+  applied: number;
+  queued: number;
+  inFlight: boolean;
+  waiters: { target: number; resolve: () => void }[];
+};
+
+const FIXED_STEP_SEC = 1 / 60;
+// Two frames of the largest catch-up budget; past this the run slows down instead of piling up requests.
+const DEFAULT_MAX_QUEUED_STEPS = 14;
+// A run rebuilt after a worker failure keeps its committed quality, so the main thread takes it one step per frame.
+const FALLBACK_STEPS_PER_ADVANCE = 1;
+
+/**
+ * Main-thread side of the physics worker.
+ *
+ * - `beginRun` hands a started run (its replay record) to the worker; the worker rebuilds the
+ *   same run and the main-thread `state` becomes a mirror fed by snapshots
+ * - `advance` asks for fixed steps; it steps locally when no worker run is active
+ * - if the worker fails, the run is rebuilt locally from the record up to the last applied step
+ *   (the engine is deterministic) and continues on the main thread at its recorded quality, slowed
+ *   down rather than stalling the page; once it is decided (or ended) `state.physicsQuality` goes
+ *   back to `adaptive`, the main-thread policy, for the rest of the session
+ */
+export function createPhysicsWorkerClient(opts: {
+  state: GameState;
+  createWorker: () => PhysicsWorkerLike | null;
+  maxQueuedSteps?: number;
+  onFallback?: (err: unknown) => void;
+}) {
+  const { state, createWorker, maxQueuedSteps = DEFAULT_MAX_QUEUED_STEPS, onFallback = () => {} } = opts;
+
+  let worker: PhysicsWorkerLike | null = null;
+  let run: WorkerRun | null = null;
+  let nextRunId = 1;
+  /** A run rebuilt on the main thread after a worker failure that has not been decided yet. */
+  let fallbackRun = false;
+
+  try {
+    worker = createWorker();
+  } catch (err) {
+    worker = null;
+    onFallback(err);
+  }
+  worker?.addEventListener("message", (event) => handleResponse(event.data));
+  worker?.addEventListener("error", (event) => fallBackToLocal(event));
+
+  function settleWaiters(current: WorkerRun, all = false): void {
+    current.waiters = current.waiters.filter((waiter) => {
+      if (!all && waiter.target > current.applied) return true;
+      waiter.resolve();
+      return false;
+    });
+  }
+
+  function flush(current: WorkerRun): void {
+    if (!worker || current.inFlight || current.queued <= 0) return;
+    worker.postMessage({ type: "step", runId: current.runId, steps: current.queued });
+    current.queued = 0;
+    current.inFlight = true;
+  }
+
+  function stepLocally(steps: number): void {
+    const budget = fallbackRun ? Math.min(steps, FALLBACK_STEPS_PER_ADVANCE) : steps;
+    for (let i = 0; i < budget; i++) step(state, FIXED_STEP_SEC);
+    if (state.winner) finishFallbackRun();
+  }
+
+  function finishFallbackRun(): void {
+    if (!fallbackRun) return;
+    fallbackRun = false;
+    state.physicsQuality = "adaptive";
+  }
+
+  function endRun(): void {
+    finishFallbackRun();
+    if (!run) return;
+    const ended = run;
+    run = null;
+    worker?.postMessage({ type: "end", runId: ended.runId });
+    settleWaiters(ended, true);
+  }
+
+  function fallBackToLocal(err: unknown): void {
+    const failed = run;
+    run = null;
+    worker?.terminate();
+    worker = null;
+    onFallback(err);
+    if (!failed) {
+      state.physicsQuality = "adaptive";
+      return;
+    }
+    const local = createReplayState(failed.record);
+    for (let i = 0; i < failed.applied; i++) step(local, failed.record.stepSec);
+    const { t, marbles, finished, winner, lastResult, stats, rng, pending, released, totalToDrop, _binCounts } = local;
+    Object.assign(state, { t, marbles, finished, winner, lastResult, stats, rng, pending, released, totalToDrop, _binCounts });
+    fallbackRun = true;
+    stepLocally(failed.requested - failed.applied);
+    settleWaiters(failed, true);
+  }
+
+  function handleResponse(message: PhysicsWorkerResponse): void {
+    if (message.type === "error") {
+      if (run && message.runId === run.runId) fallBackToLocal(new Error(message.message));
+      return;
+    }
+    const current = run;
+    const { snapshot } = message;
+    if (!current || snapshot.runId !== current.runId) return;
+    try {
+      applyPhysicsSnapshot(state, snapshot);
+    } catch (err) {
+      fallBackToLocal(err);
+      return;
+    }
+    current.applied = snapshot.steps;
+    current.inFlight = false;
+    settleWaiters(current);
+    // A decided run stays with the worker: the other marbles keep falling until the next run replaces it.
+    flush(current);
+  }
+
+  /**
+   * Hand the run that `startGame` + `dropAll` just set up to the worker.
+   * Returns false (and keeps stepping locally) when no worker is available.
+   */
+  function beginRun(record: ReplayRecord): boolean {
+    endRun();
+    if (!worker) return false;
+    run = { runId: nextRunId++, record, requested: 0, applied: 0, queued: 0, inFlight: false, waiters: [] };
+    worker.postMessage({ type: "begin", runId: run.runId, record });
+    return true;
+  }
+
+  /**
+   * Advance `steps` fixed 60hz steps. Resolves once a worker snapshot covering them is applied;
+   * returns nothing when the steps already ran on the main thread.
+   */
+  function advance(steps: number): Promise<void> | void {
+    const current = run;
+    if (!current) {
+      stepLocally(steps);
+      return;
+    }
+    const room = Math.max(0, maxQueuedSteps - (current.requested - current.applied));
+    const accepted = Math.min(steps, room);
+    current.requested += accepted;
+    current.queued += accepted;
+    const target = current.requested;
+    const done = new Promise<void>((resolve) => current.waiters.push({ target, resolve }));
+    flush(current);
+    return done;
+  }
+
+  return {
+    beginRun,
+    endRun,
+    advance,
+    isWorkerAvailable: () => !!worker,
+    dispose: () => {
+      endRun();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Web Worker entry: owns the physics of the current run (see `createPhysicsWorkerClient`).
+ */
+import { createPhysicsHost, type PhysicsWorkerRequest, type PhysicsWorkerResponse } from "./physics-snapshot.ts";
+
+const scope = self as unknown as {
+  postMessage: (message: PhysicsWorkerResponse, transfer: ArrayBuffer[]) => void;
+  onmessage: ((event: MessageEvent<PhysicsWorkerRequest>) => void) | null;
+};
+
+const host = createPhysicsHost((message, transfer) => scope.postMessage(message, transfer));
+scope.onmessage = (event) => host.handle(event.data);
@@ -0,0 +1,88 @@
+/**
+ * Math the engine needs beyond + - * / and sqrt.
+ *
+ * `Math.sin`, `Math.cos` and `Math.hypot` are implementation-approximated in the spec, so two
+ * browsers may disagree in the last bit and a run drifts apart from there. The portable versions
+ * only use basic arithmetic and `Math.sqrt` (exactly rounded everywhere), so every engine
+ * produces the same bits.
+ */
+export type EngineMath = {
+  sin: (x: number) => number;
+  cos: (x: number) => number;
+  hypot: (x: number, y: number) => number;
+};
+
+export const NATIVE_MATH: EngineMath = {
+  sin: (x) => Math.sin(x),
+  cos: (x) => Math.cos(x),
+  hypot: (x, y) => Math.hypot(x, y)
+};
+
+// pi/2 as the nearest double plus its remainder, for a tighter range reduction.
+const HALF_PI_HI = 1.5707963267948966;
+const HALF_PI_LO = 6.123233995736766e-17;
+
+// fdlibm kernel coefficients, valid on [-pi/4, pi/4].
+const S1 = -1.66666666666666324348e-1;
+const S2 = 8.33333333332248946124e-3;
+const S3 = -1.98412698298579493134e-4;
+const S4 = 2.75573137070700676789e-6;
+const S5 = -2.50507602534068634195e-8;
+const S6 = 1.58969099521155010221e-10;
+const C1 = 4.16666666666666019037e-2;
+const C2 = -1.38888888888741095749e-3;
+const C3 = 2.48015872894767294178e-5;
+const C4 = -2.75573143513906633035e-7;
+const C5 = 2.08757232129817482790e-9;
+const C6 = -1.13596475577881948265e-11;
+
+function kernelSin(r: number): number {
+  const z = r * r;
+  return r + r * z * (S1 + z * (S2 + z * (S3 + z * (S4 + z * (S5 + z * S6)))));
+}
+
+function kernelCos(r: number): number {
+  const z = r * r;
+  return 1 - 0.5 * z + z * z * (C1 + z * (C2 + z * (C3 + z * (C4 + z * (C5 + z * C6)))));
+}
+
+/** Reduce `x` to `r` in [-pi/4, pi/4] and its quadrant (0..3). */
+function reduceQuadrant(x: number): { r: number; quadrant: number } {
+  const q = Math.round(x / HALF_PI_HI);
+  const r = x - q * HALF_PI_HI - q * HALF_PI_LO;
+  return { r, quadrant: ((q % 4) + 4) % 4 };
+}
+
+export function portableSin(x: number): number {
+  if (!Number.isFinite(x)) return NaN;
+  const { r, quadrant } = reduceQuadrant(x);
+  if (quadrant === 0) return kernelSin(r);
+  if (quadrant === 1) return kernelCos(r);
+  if (quadrant === 2) return -kernelSin(r);
+  return -kernelCos(r);
+}
+
+export function portableCos(x: number): number {
+  if (!Number.isFinite(x)) return NaN;
+  const { r, quadrant } = reduceQuadrant(x);
+  if (quadrant === 0) return kernelCos(r);
+  if (quadrant === 1) return -kernelSin(r);
+  if (quadrant === 2) return -kernelCos(r);
+  return kernelSin(r);
+}
+
+/** Plain sqrt(x^2 + y^2); the engine's magnitudes are far from overflow. */
+export function portableHypot(x: number, y: number): number {
+  return Math.sqrt(x * x + y * y);
+}
+
+export const PORTABLE_MATH: EngineMath = {
+  sin: portableSin,
+  cos: portableCos,
+  hypot: portableHypot
+};
+
+/** The math a board uses: portable on deterministic boards, native everywhere else. */
+export function getEngineMath(deterministic: boolean): EngineMath {
+  return deterministic ? PORTABLE_MATH : NATIVE_MATH;
+}
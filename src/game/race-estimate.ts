@@ -0,0 +1,116 @@
+import { makeBoard, type BoardOptions } from "./engine.ts";
+import { makeAuditCatalog, runAuditTrial } from "./fairness-audit.ts";
+import {
+  DEFAULT_PRIZE_SLOTS,
+  DEFAULT_RACE_LENGTH,
+  getBoardOptions,
+  hasRaceLengthPresets,
+  supportsPrizeSlots,
+  type BuiltinBoardLayout,
+  type RaceLength,
+} from "./board-config.ts";
+import SAMPLED_ESTIMATES from "./race-estimates.json";
+
+/**
+ * Sampled run durations in simulated seconds, keyed by `layout:length` (`layout+prize:length` for prize boards).
+ * `seconds[key][i]` is the median for `participants[i]` marbles.
+ */
+export type RaceEstimateTable = {
+  runs: number;
+  participants: number[];
+  seconds: Record<string, number[]>;
+};
+
+const RACE_LENGTHS: RaceLength[] = ["short", "medium", "long"];
+const DEFAULT_MAX_STEPS = 60 * 60 * 5;
+
+function tableKey(layout: BuiltinBoardLayout, length: RaceLength, prize = false): string {
+  const board = prize && supportsPrizeSlots(layout) ? `${layout}+prize` : layout;
+  return `${board}:${hasRaceLengthPresets(layout) ? length : DEFAULT_RACE_LENGTH}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Median time until the winner is decided over `runs` seeded headless draws.
+ * Returns null when no run finishes within `maxSteps`.
+ */
+export function sampleRaceSeconds(
+  boardOptions: BoardOptions,
+  participants: number,
+  { runs = 5, seedStart = 1, maxSteps = DEFAULT_MAX_STEPS }: { runs?: number; seedStart?: number; maxSteps?: number } = {}
+): number | null {
+  const board = makeBoard(boardOptions);
+  const catalog = makeAuditCatalog(participants);
+  const times: number[] = [];
+  for (let run = 0; run < runs; run++) {
+    const records = runAuditTrial(board, catalog, (seedStart + run) >>> 0, run, maxSteps);
+    if (records) times.push(Math.max(...records.map((r) => r.finishT)));
+  }
+  return times.length ? median(times) : null;
+}
+
+/**
+ * Sample every layout/length combination (layouts without presets only once), plus prize boards
+ * where supported. Slot labels and widths do not change the physics, so the default slots stand in.
+ */
+export function buildRaceEstimateTable({
+  layouts,
+  participants,
+  runs = 5,
+  onSample,
+}: {
+  layouts: BuiltinBoardLayout[];
+  participants: number[];
+  runs?: number;
+  onSample?: (key: string, participants: number, seconds: number | null) => void;
+}): RaceEstimateTable {
+  const seconds: Record<string, number[]> = {};
+  for (const layout of layouts) {
+    const lengths = hasRaceLengthPresets(layout) ? RACE_LENGTHS : [DEFAULT_RACE_LENGTH];
+    const variants = supportsPrizeSlots(layout) ? [false, true] : [false];
+    for (const prize of variants) {
+      for (const length of lengths) {
+        const key = tableKey(layout, length, prize);
+        const options = getBoardOptions(layout, length, prize ? [...DEFAULT_PRIZE_SLOTS] : null);
+        seconds[key] = participants.map((n) => {
+          const value = sampleRaceSeconds(options, n, { runs });
+          onSample?.(key, n, value);
+          // An unfinished sample is recorded as 0 and skipped by the estimate.
+          return value == null ? 0 : Math.round(value * 10) / 10;
+        });
+      }
+    }
+  }
+  return { runs, participants: [...participants], seconds };
+}
+
+/**
+ * Estimated run length in simulated seconds for `participants` marbles, interpolated
+ * between the sampled participant counts (clamped at both ends). Null when nothing was sampled.
+ */
+export function estimateRaceSeconds(
+  layout: BuiltinBoardLayout,
+  length: RaceLength,
+  participants: number,
+  { prize = false, table = SAMPLED_ESTIMATES }: { prize?: boolean; table?: RaceEstimateTable } = {}
+): number | null {
+  const row = table.seconds[tableKey(layout, length, prize)];
+  if (!row) return null;
+  const points = table.participants
+    .map((n, i) => ({ n, s: row[i] }))
+    .filter((p) => Number.isFinite(p.s) && p.s > 0);
+  if (!points.length) return null;
+  const n = Math.max(1, participants);
+  if (n <= points[0].n) return points[0].s;
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (n <= b.n) return a.s + ((b.s - a.s) * (n - a.n)) / (b.n - a.n);
+  }
+  return points[points.length - 1].s;
+}
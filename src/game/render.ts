@@ -1,4 +1,5 @@
 import type { BallCatalogItem, Board, FixedEntity, GameState, SpawnBounds } from "./engine.ts";
+import { getContenderMarbles, getRemainingToDecide } from "./engine.ts";
 import { resolveFinishTriggerRemaining } from "./finish-tension.ts";
 import {
   classifyAvatarGlyph,
@@ -23,6 +24,15 @@ export type Renderer = {
   setCameraOverrideY: (y: number | null | undefined) => void;
   clearCameraOverride: () => void;
   setStartCaption: (value: string) => void;
+  setBoard: (next: Board) => void;
+  setEditorHighlight: (marker: EditorHighlight | null) => void;
+};
+
+/** Dashed ring drawn over the board for the board editor's current selection. */
+export type EditorHighlight = {
+  x: number;
+  y: number;
+  r: number;
 };
 
 type InternalViewState = RendererViewState & {
@@ -168,6 +178,8 @@ const FINISH_CINEMA_ZOOM_MIN = 1.15;
 const FINISH_CINEMA_ZOOM_MAX = 1.2;
 const FINISH_CINEMA_SETTLE_MS = 130;
 const FINISH_CINEMA_EXIT_HOLD_MS = 320;
+// Matches the 128px viewBox of generated avatars; about 64 KB per participant.
+const AVATAR_RASTER_SIZE = 128;
 
 function pickRenderQualityProfile(cssW: number, cssH: number): RenderQualityProfile {
   const area = Math.max(1, cssW * cssH);
@@ -186,6 +198,7 @@ function isLowPowerViewport(): boolean {
 function getFixedEntities(board: Board): FixedEntity[] | null {
   if (board.roulette?.entities?.length) return board.roulette.entities;
   if (board.zigzag?.entities?.length) return board.zigzag.entities;
+  if (board.custom?.entities?.length) return board.custom.entities;
   return null;
 }
 
@@ -195,7 +208,8 @@ function sanitizeCaptionValue(value: string, maxLength = 28): string {
     .slice(0, maxLength);
 }
 
-export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Board }): Renderer {
+export function makeRenderer(canvas: HTMLCanvasElement, { board: initialBoard }: { board: Board }): Renderer {
+  let board = initialBoard;
   const context = canvas.getContext("2d", { alpha: false });
   if (!(context instanceof CanvasRenderingContext2D)) throw new Error("2D context not available");
   const ctx: CanvasRenderingContext2D = context;
@@ -243,6 +257,9 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
   const motionByMarble = new Map<string, MotionCache>();
   const catalogById = new Map<string, BallCatalogItem>();
   const avatarKindById = new Map<string, AvatarGlyphKind>();
+  // SVG avatars are re-rasterized on every drawImage; with hundreds of participants that dominates
+  // the frame, so each loaded image is drawn once into a bitmap and reused.
+  const avatarRasterByImage = new WeakMap<HTMLImageElement, HTMLCanvasElement>();
   const labelWidthByKey = new Map<string, number>();
   const impactRings: RingFx[] = [];
   const impactParticles: ParticleFx[] = [];
@@ -258,6 +275,7 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
   let lastCatalogRef: BallCatalogItem[] | null = null;
   let startCaption = "";
   let startCaptionLayout: CaptionLayout | null = null;
+  let editorHighlight: EditorHighlight | null = null;
 
   function clearRenderFxState() {
     trailsByMarble.clear();
@@ -327,6 +345,17 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
     return c;
   }
 
+  function getAvatarSource(img: HTMLImageElement): CanvasImageSource {
+    const cached = avatarRasterByImage.get(img);
+    if (cached) return cached;
+    const raster = makeCanvas(AVATAR_RASTER_SIZE, AVATAR_RASTER_SIZE);
+    const rctx = raster.getContext("2d");
+    if (!rctx) return img;
+    rctx.drawImage(img, 0, 0, AVATAR_RASTER_SIZE, AVATAR_RASTER_SIZE);
+    avatarRasterByImage.set(img, raster);
+    return raster;
+  }
+
   function ensureBgCache(cssW: number, cssH: number): void {
     if (!bgCache.base || bgCache.w !== cssW || bgCache.h !== cssH) {
       bgCache.w = cssW | 0;
@@ -682,14 +711,14 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
 
   function drawLastFewHighlight(state: GameState, nowMs: number): void {
     if (state.mode !== "playing" || state.winner) return;
-    const remaining = Math.max(0, (Number(state.totalToDrop) || 0) - state.finished.length);
+    const remaining = getRemainingToDecide(state);
     if (remaining <= 0 || remaining > 3) return;
 
     const pulse = 0.5 + 0.5 * Math.sin(nowMs / 220);
     ctx.save();
     ctx.globalCompositeOperation = "screen";
-    for (const m of state.marbles) {
-      if (m.done) continue;
+    // Only the marbles that can still take a deciding place (the whole tail for "last", the lead pack otherwise).
+    for (const m of getContenderMarbles(state)) {
       ctx.shadowColor = `rgba(255,176,0,${(0.35 + pulse * 0.22).toFixed(3)})`;
       ctx.shadowBlur = 16 + pulse * 8;
       ctx.lineWidth = 2.6;
@@ -720,6 +749,10 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       const bounds = board.roulette.spawnBoundsAtY(y);
       return { left: bounds.left, right: bounds.right };
     }
+    if (board.layout === "custom" && typeof board.custom?.spawnBoundsAtY === "function") {
+      const bounds = board.custom.spawnBoundsAtY(y);
+      return { left: bounds.left, right: bounds.right };
+    }
     if (board.corridor) {
       const bounds = corridorAt(board, y);
       return { left: bounds.left, right: bounds.right };
@@ -776,6 +809,7 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
   function getLayoutSpawnY(): number {
     if (board.layout === "zigzag" && typeof board.zigzag?.spawnY === "number") return board.zigzag.spawnY;
     if (board.layout === "roulette" && typeof board.roulette?.spawnY === "number") return board.roulette.spawnY;
+    if (board.layout === "custom" && typeof board.custom?.spawnY === "number") return board.custom.spawnY;
     return 70;
   }
 
@@ -860,7 +894,7 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       return inactiveFrame;
     }
 
-    const remaining = Math.max(0, (Number(state.totalToDrop) || 0) - state.finished.length);
+    const remaining = getRemainingToDecide(state);
     let leaderY = Number.NEGATIVE_INFINITY;
     for (const marble of state.marbles) {
       if (marble.done) continue;
@@ -1013,7 +1047,7 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
 
     // Camera:
     // - manual: minimap / view lock can set cameraOverrideY (works even before starting).
-    // - auto: in-play, follow the "tail" (smallest y among not-finished marbles).
+    // - auto: in-play, follow the back of the contenders (the "tail" under the last-arrival rule).
     if (typeof view.cameraOverrideY === "number") {
       view.cameraY = clamp(view.cameraOverrideY, 0, Math.max(0, board.worldH - view.viewHWorld));
     } else if (finishFx.active) {
@@ -1025,16 +1059,8 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       );
       view.cameraY = view.cameraY + (desired - view.cameraY) * 0.18;
     } else if (state.mode === "playing" && state.released) {
-      let targetY = 0;
-      let found = false;
-      for (const m of state.marbles) {
-        if (m.done) continue;
-        if (!found || m.y < targetY) {
-          targetY = m.y;
-          found = true;
-        }
-      }
-      if (!found) targetY = board.worldH;
+      const contenders = getContenderMarbles(state);
+      const targetY = contenders.length ? contenders[contenders.length - 1].y : board.worldH;
       const desired = clamp(targetY - view.viewHWorld * 0.22, 0, Math.max(0, board.worldH - view.viewHWorld));
       // Smooth motion to reduce jitter when the tail bounces.
       view.cameraY = view.cameraY + (desired - view.cameraY) * 0.14;
@@ -1148,11 +1174,12 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       ctx.restore();
     }
 
-    // Zigzag propellers.
-    if (board.zigzag?.propellers?.length) {
+    // Zigzag / custom board propellers.
+    const mechanisms = board.zigzag || board.custom;
+    if (mechanisms?.propellers?.length) {
       ctx.save();
       ctx.lineCap = "round";
-      for (const p of board.zigzag.propellers) {
+      for (const p of mechanisms.propellers) {
         if (p.y < view.cameraY - 260 || p.y > view.cameraY + view.viewHWorld + 260) continue;
         const ang = (p.phase || 0) + (p.omega || 0) * state.t;
         const c = Math.cos(ang);
@@ -1188,11 +1215,11 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       ctx.restore();
     }
 
-    // Zigzag circular rotors (early section).
-    if (board.zigzag?.rotors?.length) {
+    // Zigzag / custom board circular rotors.
+    if (mechanisms?.rotors?.length) {
       ctx.save();
       ctx.lineWidth = 4;
-      for (const r of board.zigzag.rotors) {
+      for (const r of mechanisms.rotors) {
         if (r.y < view.cameraY - 260 || r.y > view.cameraY + view.viewHWorld + 260) continue;
         ctx.strokeStyle = "rgba(255, 176, 0, 0.70)";
         ctx.fillStyle = "rgba(255, 176, 0, 0.08)";
@@ -1269,7 +1296,31 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       ctx.stroke();
     }
 
-    // Slot visuals removed: we only show the final (last) result via UI/modal.
+    // Single-slot boards only show the final result via UI/modal; prize slots get dividers + labels.
+    if (board.slots.length > 1 && board.worldH - board.slotH < view.cameraY + view.viewHWorld + 40) {
+      const slotTopY = board.worldH - board.slotH;
+      ctx.save();
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = "rgba(69,243,195,0.42)";
+      ctx.beginPath();
+      ctx.moveTo(14, slotTopY);
+      ctx.lineTo(board.worldW - 14, slotTopY);
+      for (const slot of board.slots.slice(1)) {
+        ctx.moveTo(slot.x0, slotTopY);
+        ctx.lineTo(slot.x0, board.worldH - 14);
+      }
+      ctx.stroke();
+      ctx.fillStyle = "rgba(255,255,255,0.86)";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "bottom";
+      for (const slot of board.slots) {
+        const slotWidth = slot.x1 - slot.x0;
+        const fontSize = clamp(Math.floor(slotWidth / 5), 12, 24);
+        ctx.font = `900 ${fontSize}px ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial`;
+        ctx.fillText(slot.label, (slot.x0 + slot.x1) / 2, slotTopY - 8, Math.max(8, slotWidth - 12));
+      }
+      ctx.restore();
+    }
 
     // Pegs.
     if (board.pegRows && board.pegRows.length) {
@@ -1376,7 +1427,7 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       const avatarKind = avatarKindById.get(m.ballId) ?? "unknown";
       const avatarOffset = getAvatarImageOffset(avatarKind, r);
       if (img && img.complete) {
-        ctx.drawImage(img, -r - avatarOffset.x, -r + avatarOffset.y, r * 2, r * 2);
+        ctx.drawImage(getAvatarSource(img), -r - avatarOffset.x, -r + avatarOffset.y, r * 2, r * 2);
       } else {
         ctx.fillStyle = "rgba(0,0,0,0.18)";
         ctx.fillRect(-r, -r, r * 2, r * 2);
@@ -1440,6 +1491,17 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
     drawParticleFx(nowMs);
     drawLastFewHighlight(state, nowMs);
 
+    if (editorHighlight) {
+      ctx.save();
+      ctx.setLineDash([8, 6]);
+      ctx.lineWidth = 2.5;
+      ctx.strokeStyle = "rgba(69,243,195,0.95)";
+      ctx.beginPath();
+      ctx.arc(editorHighlight.x, editorHighlight.y, editorHighlight.r, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+
     ctx.restore();
     drawFinishCinematicOverlay(finishFx);
   }
@@ -1466,6 +1528,18 @@ export function makeRenderer(canvas: HTMLCanvasElement, { board }: { board: Boar
       const next = sanitizeCaptionValue(value, 28);
       startCaption = next;
       startCaptionLayout = null;
+    },
+    setBoard: (next: Board): void => {
+      if (next === board) return;
+      board = next;
+      clearRenderFxState();
+      startCaptionLayout = null;
+      bgCache.base = null;
+      view.cameraY = Math.min(view.cameraY, Math.max(0, board.worldH - view.viewHWorld));
+      resizeToFit();
+    },
+    setEditorHighlight: (marker: EditorHighlight | null): void => {
+      editorHighlight = marker;
     }
   };
 }
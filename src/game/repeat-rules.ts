@@ -0,0 +1,130 @@
+import type { DrawHistoryEntry } from "./draw-history.ts";
+
+/**
+ * Anti-repeat rules on top of the draw history.
+ *
+ * - `exclude`: winners of the last `draws` draws sit the next draw out
+ * - `boost`: everyone who did not win in the last `draws` draws gets `bonus` extra entries,
+ *   so recent winners are picked less often without leaving the draw
+ *
+ * Only draws of the same roster count, and prize-slot draws are skipped (every finisher is listed there).
+ */
+export type RepeatRuleKind = "off" | "exclude" | "boost";
+
+export type RepeatRule = {
+  kind: RepeatRuleKind;
+  /** How many recent draws to look back. */
+  draws: number;
+  /** Extra entries for `boost`. */
+  bonus: number;
+};
+
+export type RepeatRuleParticipant = {
+  id: string;
+  name: string;
+  count: number;
+};
+
+/** One participant whose entries the rule changed. */
+export type RepeatRuleChange = {
+  ballId: string;
+  name: string;
+  from: number;
+  to: number;
+  /** Draws since the participant last won (1 = the previous draw); null when not a recent winner. */
+  wonDrawsAgo: number | null;
+};
+
+export type RepeatRuleOutcome = {
+  /** Ball id -> entry count, ready for `GameState.entryAdjustments`. */
+  adjustments: Record<string, number>;
+  changes: RepeatRuleChange[];
+  /** The rule would leave too few entries to decide the draw, so nothing was changed. */
+  skipped: boolean;
+};
+
+export const REPEAT_RULE_KINDS: readonly RepeatRuleKind[] = ["off", "exclude", "boost"];
+export const REPEAT_RULE_DRAWS_MAX = 10;
+export const REPEAT_RULE_BONUS_MAX = 5;
+export const DEFAULT_REPEAT_RULE: RepeatRule = { kind: "off", draws: 1, bonus: 1 };
+
+const MAX_ENTRIES = 99;
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
+
+export function normalizeRepeatRule(input: unknown): RepeatRule {
+  if (!input || typeof input !== "object") return { ...DEFAULT_REPEAT_RULE };
+  const rule = input as Record<string, unknown>;
+  const kind = REPEAT_RULE_KINDS.find((item) => item === rule.kind) ?? DEFAULT_REPEAT_RULE.kind;
+  return {
+    kind,
+    draws: clampInt(rule.draws, 1, REPEAT_RULE_DRAWS_MAX, DEFAULT_REPEAT_RULE.draws),
+    bonus: clampInt(rule.bonus, 1, REPEAT_RULE_BONUS_MAX, DEFAULT_REPEAT_RULE.bonus),
+  };
+}
+
+function toWinnerKey(ballId: string, name: string): string {
+  return `${ballId}\u0000${name}`;
+}
+
+/**
+ * Winners of the last `draws` draws of a roster, keyed by ball id + name
+ * (a renamed ball counts as a new participant), with how many draws ago they last won.
+ */
+export function getRecentWinners(
+  history: ReadonlyArray<DrawHistoryEntry>,
+  rosterName: string,
+  draws: number
+): Map<string, number> {
+  const recent = new Map<string, number>();
+  const entries = history.filter((entry) => entry.rosterName === rosterName && !entry.slotLabels.length).slice(0, draws);
+  entries.forEach((entry, index) => {
+    for (const winner of entry.winners) {
+      const key = toWinnerKey(winner.ballId, winner.name);
+      if (!recent.has(key)) recent.set(key, index + 1);
+    }
+  });
+  return recent;
+}
+
+const NO_CHANGE: RepeatRuleOutcome = { adjustments: {}, changes: [], skipped: false };
+
+export function applyRepeatRule({
+  rule,
+  participants,
+  history,
+  rosterName,
+  winnerCount,
+}: {
+  rule: RepeatRule;
+  participants: ReadonlyArray<RepeatRuleParticipant>;
+  history: ReadonlyArray<DrawHistoryEntry>;
+  rosterName: string;
+  winnerCount: number;
+}): RepeatRuleOutcome {
+  if (rule.kind === "off") return NO_CHANGE;
+  const recent = getRecentWinners(history, rosterName, rule.draws);
+  if (!recent.size) return NO_CHANGE;
+
+  const adjustments: Record<string, number> = {};
+  const changes: RepeatRuleChange[] = [];
+  let total = 0;
+  for (const participant of participants) {
+    const wonDrawsAgo = recent.get(toWinnerKey(participant.id, participant.name)) ?? null;
+    let to = participant.count;
+    if (rule.kind === "exclude" && wonDrawsAgo != null) to = 0;
+    else if (rule.kind === "boost" && wonDrawsAgo == null) to = Math.min(MAX_ENTRIES, participant.count + rule.bonus);
+    total += to;
+    if (to === participant.count) continue;
+    adjustments[participant.id] = to;
+    changes.push({ ballId: participant.id, name: participant.name, from: participant.count, to, wonDrawsAgo });
+  }
+  if (!changes.length) return NO_CHANGE;
+  // Keep at least one more entry than winners, so the draw still has someone to leave out.
+  if (total <= Math.max(1, winnerCount)) return { ...NO_CHANGE, skipped: true };
+  return { adjustments, changes, skipped: false };
+}
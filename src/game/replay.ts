@@ -0,0 +1,221 @@
+import {
+  ENGINE_VERSION,
+  dropAll,
+  getBallCount,
+  getDropCount,
+  isBallActive,
+  makeBoard,
+  makeGameState,
+  normalizeWinnerRule,
+  setWinnerRule,
+  startGame,
+  step,
+  type BallCatalogItem,
+  type BoardOptions,
+  type FinishedMarble,
+  type GameState,
+  type PhysicsQuality,
+  type WinnerRule,
+} from "./engine.ts";
+
+export const REPLAY_FORMAT = "degururu-replay";
+export const REPLAY_FORMAT_VERSION = 1;
+export const REPLAY_STEP_SEC = 1 / 60;
+// 20 minutes of simulated time at 60hz; real runs finish well before this.
+const DEFAULT_MAX_STEPS = 60 * 60 * 20;
+
+export type ReplayRecord = {
+  format: typeof REPLAY_FORMAT;
+  version: typeof REPLAY_FORMAT_VERSION;
+  engineVersion: number;
+  seed: number;
+  stepSec: number;
+  boardOptions: BoardOptions;
+  ballsCatalog: BallCatalogItem[];
+  counts: Record<string, number>;
+  /** Absent when no anti-repeat rule changed the entries; see `GameState.entryAdjustments`. */
+  entryAdjustments?: Record<string, number>;
+  /** Absent when the tag filter left nobody out; see `GameState.inactiveBallIds`. */
+  inactiveBallIds?: string[];
+  dropX: number;
+  /** Absent on records written before winner rules existed; treated as "last". */
+  winnerRule?: WinnerRule;
+  winnerCount?: number;
+  /** Absent on older records; treated as "adaptive". */
+  physicsQuality?: PhysicsQuality;
+};
+
+export type ReplayResult = {
+  state: GameState;
+  finished: FinishedMarble[];
+  winner: FinishedMarble | null;
+  steps: number;
+  completed: boolean;
+};
+
+function cloneBoardOptions(options: BoardOptions): BoardOptions {
+  return {
+    ...options,
+    customRotors: Array.isArray(options.customRotors) ? options.customRotors.map((r) => ({ ...r })) : options.customRotors,
+    slotLabels: Array.isArray(options.slotLabels) ? [...options.slotLabels] : options.slotLabels,
+    slotWidths: Array.isArray(options.slotWidths) ? [...options.slotWidths] : options.slotWidths,
+    definition: options.definition ? structuredClone(options.definition) : options.definition,
+  };
+}
+
+/**
+ * Capture everything needed to re-run the current draw.
+ * Call right after `startGame` so `seed`, `counts` and `dropX` match the run.
+ */
+export function createReplayRecord(state: GameState, boardOptions: BoardOptions): ReplayRecord {
+  const ballsCatalog = state.ballsCatalog.map((b) => ({ ...b }));
+  const counts: Record<string, number> = {};
+  for (const b of ballsCatalog) counts[b.id] = getBallCount(state, b.id);
+  const entryAdjustments: Record<string, number> = {};
+  for (const b of ballsCatalog) {
+    if (state.entryAdjustments?.[b.id] != null) entryAdjustments[b.id] = getDropCount(state, b.id);
+  }
+  const inactiveBallIds = ballsCatalog.filter((b) => !isBallActive(state, b.id)).map((b) => b.id);
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_FORMAT_VERSION,
+    engineVersion: ENGINE_VERSION,
+    seed: state.seed >>> 0,
+    stepSec: REPLAY_STEP_SEC,
+    boardOptions: cloneBoardOptions(boardOptions),
+    ballsCatalog,
+    counts,
+    // Only written when set, so records (and commitments) without adjustments keep their old shape.
+    ...(Object.keys(entryAdjustments).length ? { entryAdjustments } : {}),
+    ...(inactiveBallIds.length ? { inactiveBallIds } : {}),
+    dropX: state.dropX,
+    winnerRule: { ...state.winnerRule },
+    winnerCount: state.winnerCount,
+    physicsQuality: state.physicsQuality,
+  };
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isCatalogItem(v: unknown): v is BallCatalogItem {
+  if (!v || typeof v !== "object") return false;
+  const item = v as Record<string, unknown>;
+  return (
+    typeof item.id === "string" &&
+    typeof item.name === "string" &&
+    typeof item.imageDataUrl === "string" &&
+    typeof item.tint === "string"
+  );
+}
+
+/**
+ * Validate an untrusted replay record (e.g. loaded from a file).
+ * Throws with the offending field path on failure.
+ */
+export function parseReplayRecord(input: unknown): ReplayRecord {
+  if (!input || typeof input !== "object") throw new Error("replay: record must be an object");
+  const rec = input as Record<string, unknown>;
+  if (rec.format !== REPLAY_FORMAT) throw new Error("replay.format: unsupported format");
+  if (rec.version !== REPLAY_FORMAT_VERSION) throw new Error(`replay.version: unsupported version ${String(rec.version)}`);
+  if (!isFiniteNumber(rec.engineVersion)) throw new Error("replay.engineVersion: must be a number");
+  if (!isFiniteNumber(rec.seed)) throw new Error("replay.seed: must be a number");
+  if (!isFiniteNumber(rec.stepSec) || rec.stepSec <= 0) throw new Error("replay.stepSec: must be a positive number");
+  if (!isFiniteNumber(rec.dropX)) throw new Error("replay.dropX: must be a number");
+  if (!rec.boardOptions || typeof rec.boardOptions !== "object") throw new Error("replay.boardOptions: must be an object");
+  if (!Array.isArray(rec.ballsCatalog)) throw new Error("replay.ballsCatalog: must be an array");
+  rec.ballsCatalog.forEach((item, i) => {
+    if (!isCatalogItem(item)) throw new Error(`replay.ballsCatalog[${i}]: invalid catalog item`);
+  });
+  if (!rec.counts || typeof rec.counts !== "object") throw new Error("replay.counts: must be an object");
+  for (const [id, n] of Object.entries(rec.counts)) {
+    if (!isFiniteNumber(n)) throw new Error(`replay.counts.${id}: must be a number`);
+  }
+  if (rec.entryAdjustments !== undefined) {
+    if (!rec.entryAdjustments || typeof rec.entryAdjustments !== "object") {
+      throw new Error("replay.entryAdjustments: must be an object");
+    }
+    for (const [id, n] of Object.entries(rec.entryAdjustments)) {
+      if (!isFiniteNumber(n) || n < 0) throw new Error(`replay.entryAdjustments.${id}: must be a non-negative number`);
+    }
+  }
+  if (rec.inactiveBallIds !== undefined) {
+    if (!Array.isArray(rec.inactiveBallIds)) throw new Error("replay.inactiveBallIds: must be an array");
+    rec.inactiveBallIds.forEach((id, i) => {
+      if (typeof id !== "string") throw new Error(`replay.inactiveBallIds[${i}]: must be a string`);
+    });
+  }
+  if (rec.winnerRule !== undefined && !normalizeWinnerRule(rec.winnerRule)) throw new Error("replay.winnerRule: invalid rule");
+  if (rec.winnerCount !== undefined && (!Number.isInteger(rec.winnerCount) || (rec.winnerCount as number) < 1)) {
+    throw new Error("replay.winnerCount: must be a positive integer");
+  }
+  if (rec.physicsQuality !== undefined && rec.physicsQuality !== "adaptive" && rec.physicsQuality !== "full") {
+    throw new Error("replay.physicsQuality: must be \"adaptive\" or \"full\"");
+  }
+  return rec as ReplayRecord;
+}
+
+/**
+ * Rebuild the state of a recorded draw right after its drop (nothing stepped yet).
+ */
+export function createReplayState(record: ReplayRecord): GameState {
+  if (record.engineVersion !== ENGINE_VERSION) {
+    throw new Error(`replay: engine version mismatch (record ${record.engineVersion}, engine ${ENGINE_VERSION})`);
+  }
+  const board = makeBoard(cloneBoardOptions(record.boardOptions));
+  const state = makeGameState({
+    seed: record.seed >>> 0,
+    board,
+    ballsCatalog: record.ballsCatalog.map((b) => ({ ...b })),
+  });
+  for (const [id, n] of Object.entries(record.counts)) {
+    if (id in state.counts) state.counts[id] = n;
+  }
+  for (const [id, n] of Object.entries(record.entryAdjustments ?? {})) {
+    if (id in state.counts) state.entryAdjustments[id] = n;
+  }
+  state.inactiveBallIds = (record.inactiveBallIds ?? []).filter((id) => id in state.counts);
+  // Assign directly: the recorded value was already clamped by setDropX.
+  state.dropX = record.dropX;
+  if (record.winnerRule) setWinnerRule(state, record.winnerRule, record.winnerCount);
+  state.physicsQuality = record.physicsQuality ?? "adaptive";
+
+  startGame(state);
+  dropAll(state);
+  return state;
+}
+
+/**
+ * Re-run a recorded draw headlessly at the recorded fixed step.
+ * Produces the same `finished` order as the original run on the same engine version.
+ */
+export function replayRun(record: ReplayRecord, { maxSteps = DEFAULT_MAX_STEPS }: { maxSteps?: number } = {}): ReplayResult {
+  const state = createReplayState(record);
+  let steps = 0;
+  while (!state.winner && steps < maxSteps) {
+    step(state, record.stepSec);
+    steps++;
+  }
+  return {
+    state,
+    finished: state.finished,
+    winner: state.winner,
+    steps,
+    completed: !!state.winner,
+  };
+}
+
+/**
+ * Compare two finish orders by marble and ball identity.
+ */
+export function isSameFinishOrder(
+  a: ReadonlyArray<Pick<FinishedMarble, "marbleId" | "ballId">>,
+  b: ReadonlyArray<Pick<FinishedMarble, "marbleId" | "ballId">>
+): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i].marbleId !== b[i].marbleId || a[i].ballId !== b[i].ballId) return false;
+  }
+  return true;
+}
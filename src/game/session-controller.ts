@@ -22,6 +22,11 @@ type SessionControllerOpts<State extends SessionState, WinnerPayload> = {
   viewState: SessionViewState;
   getTotalSelectedCount: (state: State) => number;
   makeRng: (seed: number) => unknown;
+  pickSeed?: () => number;
+  /** Last say before a start; returning false leaves the board as it is. */
+  canStart?: () => boolean;
+  /** Publishes the draw commitment; used by starts that have no countdown to show it in. */
+  commitNow?: () => void;
   startGame: (state: State) => void;
   dropAll: (state: State) => number | null;
   resetGame: (state: State) => void;
@@ -37,7 +42,7 @@ type SessionControllerOpts<State extends SessionState, WinnerPayload> = {
  * Create game session controller.
  *
  * Handles:
- * - run start/restart flow
+ * - run start/restart flow (button countdown or one-step keyboard start)
  * - winner detection per frame
  * - camera focus reset and control updates around transitions
  *
@@ -52,6 +57,9 @@ export function createSessionController<State extends SessionState, WinnerPayloa
     viewState,
     getTotalSelectedCount,
     makeRng,
+    pickSeed = () => ((Date.now() & 0xffffffff) ^ (Math.random() * 0xffffffff)) >>> 0,
+    canStart = () => true,
+    commitNow = () => {},
     startGame,
     dropAll,
     resetGame,
@@ -75,8 +83,8 @@ export function createSessionController<State extends SessionState, WinnerPayloa
   }
 
   function tryStart(): boolean {
-    if (getTotalSelectedCount(state) <= 0) return false;
-    state.seed = ((Date.now() & 0xffffffff) ^ (Math.random() * 0xffffffff)) >>> 0;
+    if (getTotalSelectedCount(state) <= 0 || !canStart()) return false;
+    state.seed = pickSeed() >>> 0;
     state.rng = makeRng(state.seed);
     startGame(state);
     clearRunCaches();
@@ -88,6 +96,13 @@ export function createSessionController<State extends SessionState, WinnerPayloa
     return true;
   }
 
+  /** Keyboard start: publish the commitment and drop in one action, like the button's countdown. */
+  function commitAndStart(): boolean {
+    if (getTotalSelectedCount(state) <= 0) return false;
+    commitNow();
+    return tryStart();
+  }
+
   function restartIfPlaying(): void {
     if (state.mode !== "playing") return;
     resetGame(state);
@@ -124,6 +139,7 @@ export function createSessionController<State extends SessionState, WinnerPayloa
 
   return {
     tryStart,
+    commitAndStart,
     handleStartClick,
     prepareRestartForCountdown,
     togglePause,
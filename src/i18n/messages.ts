@@ -58,18 +58,65 @@ export const KO_MESSAGES = {
   "left.participantFoldOpen": "참가자 목록 펼치기",
   "left.participantFoldClose": "참가자 목록 접기",
   "left.participantSettings": "참가자 설정",
+  "left.openHistory": "기록",
+  "preset.title": "명단",
+  "preset.defaultName": "기본 명단",
+  "preset.newName": "명단 {{n}}",
+  "preset.copyName": "{{name}} 복사본",
+  "preset.nameLabel": "명단 이름",
+  "preset.create": "새 명단",
+  "preset.duplicate": "복제",
+  "preset.delete": "삭제",
+  "preset.deleteConfirm": "삭제 확인",
   "left.startCaption": "시작지점 문구",
   "left.startCaptionFoldOpen": "시작지점 문구 펼치기",
   "left.startCaptionFoldClose": "시작지점 문구 접기",
   "left.startCaptionPlaceholder": "예) 두근두근 당첨자는 누구일까요?",
   "left.startCaptionLocked": "진행 중에는 변경할 수 없어요.",
   "left.startCaptionHint": "띄어쓰기 포함 최대 {{max}}자, 시작지점 상단에 표시됩니다.",
+  "left.boardLayout": "보드",
+  "left.boardLayout.classic": "클래식",
+  "left.boardLayout.roulette": "룰렛",
+  "left.boardLayout.zigzag": "지그재그",
+  "left.boardLayoutHint.classic": "짧게 끝나는 플링코 보드예요.",
+  "left.boardLayoutHint.roulette": "행운의 룰렛 휠 모양 보드예요.",
+  "left.boardLayoutHint.zigzag": "길게 이어지는 지그재그 레이스예요. (기본)",
+  "left.boardLayoutLocked": "진행 중에는 보드를 바꿀 수 없어요.",
+  "left.raceLength": "레이스 길이",
+  "left.raceLength.short": "짧게",
+  "left.raceLength.medium": "보통",
+  "left.raceLength.long": "길게",
   "left.winnerCount": "당첨자 수",
   "left.winnerCountFoldOpen": "당첨자 수 펼치기",
   "left.winnerCountFoldClose": "당첨자 수 접기",
   "left.resultDisabledTip": "결과 보기는 게임 종료 이후 확인할 수 있습니다.",
   "left.openResult": "결과 보기",
   "left.resultHelper": "가장 늦게 도착한 순서대로 결과를 공개합니다.",
+  "left.resultHelperPrize": "상품 칸 모드에서는 모든 참가자를 도착한 칸별로 보여 줍니다.",
+  "left.resultHelperFirst": "가장 먼저 도착한 순서대로 결과를 공개합니다.",
+  "left.resultHelperRank": "{{rank}}번째로 도착한 참가자부터 결과를 공개합니다.",
+  "left.winnerRule": "당첨 기준",
+  "left.winnerRule.last": "꼴찌",
+  "left.winnerRule.first": "1등",
+  "left.winnerRule.rank": "N등",
+  "left.winnerRuleRank": "번째 도착",
+  "left.repeatRule": "반복 방지",
+  "left.repeatRule.off": "끄기",
+  "left.repeatRule.exclude": "최근 당첨자 제외",
+  "left.repeatRule.boost": "나머지 기회 추가",
+  "left.repeatRuleDraws": "최근 추첨 수",
+  "left.repeatRuleBonus": "추가 개수",
+  "left.repeatRuleChanges": "반복 방지로 바뀐 참가자",
+  "left.repeatRuleExcluded": "{{name}}: 제외 ({{n}}번 전 추첨 당첨)",
+  "left.repeatRuleBoosted": "{{name}}: {{from}} → {{to}}개 (최근 당첨 없음)",
+  "left.repeatRuleIdle": "이 명단의 최근 당첨 기록이 없어 바뀌는 참가자가 없어요.",
+  "left.repeatRuleSkipped": "적용하면 남는 공이 너무 적어 이번 추첨에는 적용하지 않아요.",
+  "left.prizeMode": "상품 칸 모드",
+  "left.exactReplay": "정밀 재현 모드",
+  "left.exactReplayHint": "어느 기기에서 다시 돌려도 같은 결과가 나오도록 물리 계산을 고정합니다. 참가자가 많으면 느린 기기에서 진행이 느려질 수 있습니다.",
+  "left.prizeSlotCount": "칸 {{count}}개",
+  "left.prizeSlotLabel": "{{index}}번 칸 이름",
+  "left.prizeSlotWidth": "{{index}}번 칸 너비",
   "left.resultClamped": "참가자 수를 넘어 자동으로 참가자 수로 맞춰졌습니다.",
   "left.reorderAria": "{{name}} 순서 이동",
   "left.reorderLocked": "진행 중에는 순서를 변경할 수 없어요.",
@@ -79,6 +126,8 @@ export const KO_MESSAGES = {
 
   "topbar.stop": "중지",
   "topbar.stopTitle": "진행을 중지하고 초기화",
+  "topbar.estimate": "약 {{seconds}}초",
+  "topbar.estimateTitle": "현재 보드와 인원으로 미리 돌려 본 예상 진행 시간",
   "topbar.brandTitle": "데구르르 (Degururu)",
   "topbar.brandLabel": "데구르르",
   "topbar.speedOn": "2배속",
@@ -92,6 +141,10 @@ export const KO_MESSAGES = {
 
   "board.skip": "건너뛰기",
   "board.copyCoords": "좌표 복사",
+  "board.commitment": "커밋 {{hash}}",
+  "board.commitmentTitle": "드롭 전에 공개된 시드 커밋 해시: {{hash}}",
+  "board.recommitted": "커밋을 공개한 뒤 참가자나 투하 위치가 바뀌었습니다. 새 커밋을 공개했으니 다시 시작하세요.",
+  "board.physicsFallback": "물리 계산을 브라우저 화면에서 이어 갑니다. 참가자가 많으면 움직임이 느려질 수 있어요.",
 
   "settings.title": "참가자 설정",
   "settings.dirty": "변경됨",
@@ -105,6 +158,28 @@ export const KO_MESSAGES = {
   "settings.uploadHint": "클릭해서 파일을 선택하세요",
   "settings.discardConfirm": "설정 변경을 취소하시겠습니까?",
   "settings.id": "ID",
+  "settings.tags": "태그",
+  "settings.tagsPlaceholder": "예: 백엔드, 본사 (쉼표로 구분)",
+
+  "import.open": "명단 가져오기",
+  "import.title": "명단 가져오기",
+  "import.hint": "한 줄에 한 명씩 붙여 넣거나 CSV(이름, 개수, 이미지 URL)를 올리세요. 개수와 이미지는 생략할 수 있어요.",
+  "import.placeholder": "홍길동\n김영희,2\n이철수,1,https://example.com/me.png",
+  "import.file": "CSV 파일 선택",
+  "import.replace": "기존 참가자 대신 사용",
+  "import.includeDuplicates": "같은 이름도 추가",
+  "import.summary": "추가 {{included}}명 · 중복 {{duplicates}} · 오류 {{errors}} · 인원 초과 {{overLimit}}",
+  "import.line": "{{line}}행",
+  "import.statusAdd": "추가",
+  "import.statusDuplicate": "중복",
+  "import.statusOverLimit": "인원 초과",
+  "import.apply": "목록에 반영",
+  "import.applying": "이미지 불러오는 중...",
+  "import.errorName": "이름이 비어 있어요.",
+  "import.errorCount": "개수는 1~{{max}} 사이 숫자여야 해요.",
+  "import.errorImage": "이미지는 http(s) 주소나 PNG/JPG/WEBP/GIF/AVIF 데이터 URL이어야 해요.",
+  "import.fileTooLarge": "명단 파일은 최대 1MB까지 불러올 수 있어요.",
+  "import.imageFailed": "이미지 {{count}}개를 불러오지 못해 글자 아바타로 대신했어요.",
 
   "inquiry.title": "문의하기",
   "inquiry.send": "메일 보내기",
@@ -133,7 +208,96 @@ export const KO_MESSAGES = {
   "result.waitingBody": "결과를 준비하고 있어요.",
   "result.skipReveal": "바로 보기",
   "result.copy": "결과 복사",
+  "share.open": "공유",
+  "share.title": "추첨 공유 링크",
+  "share.description": "명단과 개수, 당첨자 수, 시작 문구, 보드가 링크에 담겨요. 모두 주소의 # 뒤에 있어 서버로 전송되지 않아요.",
+  "share.includeImages": "업로드한 이미지 포함 (링크가 길어져요)",
+  "share.includeSeed": "마지막 추첨 시드 포함 (같은 결과 재현)",
+  "share.seedUnavailable": "시드는 추첨이 끝난 뒤에 포함할 수 있어요.",
+  "share.link": "공유 링크",
+  "share.building": "링크를 만드는 중…",
+  "share.length": "{{count}}자",
+  "share.tooLong": "링크가 길어 일부 메신저에서 잘릴 수 있어요.",
+  "share.copy": "링크 복사",
+  "share.copied": "공유 링크를 복사했습니다.",
+  "share.copyFailed": "링크를 복사하지 못했습니다.",
+  "share.buildFailed": "공유 링크를 만들지 못했습니다.",
+  "share.invalid": "공유 링크를 읽을 수 없습니다.",
+  "share.offerTitle": "공유된 추첨 불러오기",
+  "share.offerDescription": "불러오면 참가자 설정 창에 채워지고, 적용해야 지금 명단({{count}}명)을 덮어씁니다.",
+  "share.offerParticipants": "참가자 {{count}}명",
+  "share.offerWinners": "당첨자 {{count}}명",
+  "share.offerCaption": "시작 문구: {{caption}}",
+  "share.offerSeed": "시드 {{seed}} (다음 추첨 1회)",
+  "share.offerAccept": "설정에서 열기",
+  "share.offerDismiss": "무시",
+  "share.draftNotice": "공유 링크에서 불러온 명단입니다. 적용하면 지금 명단과 함께 보드, 당첨자 수, 시작 문구가 바뀝니다.",
+  "share.seedArmed": "다음 추첨은 공유된 시드 {{seed}}(으)로 진행됩니다.",
+  "backup.export": "설정 백업",
+  "backup.import": "백업 불러오기",
+  "backup.title": "백업 복원",
+  "backup.fileInfo": "{{file}} · {{date}} 저장",
+  "backup.hint": "항목마다 덮어쓸지, 지금 설정을 유지할지 고르세요. 복원은 바로 적용되며, 적용하지 않은 명단 수정은 사라집니다.",
+  "backup.section.roster": "참가자 명단",
+  "backup.section.draw": "추첨 설정",
+  "backup.section.audio": "BGM",
+  "backup.section.language": "언어",
+  "backup.summary.roster": "참가자 {{count}}명",
+  "backup.summary.draw": "당첨자 {{count}}명 · 속도 ×{{speed}} · 문구 “{{caption}}”",
+  "backup.summary.audioOn": "켜짐 · {{track}}",
+  "backup.summary.audioOff": "꺼짐 · {{track}}",
+  "backup.missing": "파일에 없음",
+  "backup.mode.replace": "덮어쓰기",
+  "backup.mode.merge": "합치기",
+  "backup.mode.skip": "유지",
+  "backup.apply": "복원",
+  "backup.restored": "백업을 복원했습니다.",
+  "backup.invalid": "백업 파일을 읽을 수 없습니다. 데구르르에서 저장한 설정 파일인지 확인해 주세요.",
+  "backup.fileTooLarge": "백업 파일이 너무 큽니다(최대 32MB).",
+  "backup.exportFailed": "백업 파일을 저장하지 못했습니다.",
+  "storage.quotaExceeded": "브라우저 저장 공간이 가득 차 설정을 저장하지 못했습니다. 이번 화면에는 적용되지만 새로고침하면 사라질 수 있어요. 큰 이미지를 줄이거나 지우고, “설정 백업”으로 파일을 남겨 두세요.",
+  "storage.unavailable": "이 브라우저에서는 설정을 저장할 수 없습니다(개인정보 보호 모드 등). 새로고침하면 설정이 초기화됩니다.",
+  "tabSync.conflict": "다른 탭에서 참가자 명단이 바뀌었습니다. 지금 편집한 내용을 적용하면 그 변경을 덮어씁니다.",
+  "tabSync.load": "바뀐 명단 불러오기",
+  "tabSync.keep": "내 편집 유지",
+  "tagFilter.title": "태그로 참가자 고르기",
+  "tagFilter.chip.off": "{{tag}} 태그: 필터 없음",
+  "tagFilter.chip.include": "{{tag}} 태그: 포함",
+  "tagFilter.chip.exclude": "{{tag}} 태그: 제외",
+  "tagFilter.chipHint": "누를 때마다 포함 → 제외 → 해제",
+  "tagFilter.summary": "다음 게임 참가: {{total}}명 중 {{active}}명",
+  "tagFilter.clear": "필터 해제",
+  "tagFilter.inactive": "{{name}} (이번 게임 제외)",
+  "attendance.absent": "{{name}} (불참)",
+  "attendance.markAbsent": "{{name}} 불참으로 표시",
+  "attendance.markPresent": "{{name}} 참석으로 표시",
+  "attendance.hint": "사진을 눌러 참석/불참 전환",
+  "liveRanking.title": "실시간 순위",
+  "liveRanking.arrived": "도착 시간",
+  "liveRanking.hidden": "… {{count}}개 더",
+  "history.title": "추첨 기록",
+  "history.description": "이 기기에 저장된 추첨 {{count}}건",
+  "history.search": "기록 검색",
+  "history.searchPlaceholder": "당첨자 또는 명단 이름",
+  "history.from": "시작일",
+  "history.to": "종료일",
+  "history.participants": "공 {{count}}개",
+  "history.seed": "시드 {{seed}} · 명단 {{fingerprint}}",
+  "history.more": "외 {{count}}명",
+  "history.empty": "아직 완료된 추첨이 없어요.",
+  "history.noMatch": "조건에 맞는 추첨이 없어요.",
+  "history.back": "목록으로",
+  "history.exportCsv": "CSV 내보내기",
+  "history.exportJson": "JSON 내보내기",
   "result.restart": "다시 시작",
+  "result.proofSummary": "커밋 {{hash}} · 시드 {{seed}}",
+  "result.downloadProof": "증명 다운로드",
+  "result.slotTitle": "칸별 결과({{count}})",
+  "result.slotCount": "{{count}}명",
+  "result.slotEmpty": "아무도 없어요",
+  "result.copyRule.last": "당첨 기준: 마지막 도착",
+  "result.copyRule.first": "당첨 기준: 첫 번째 도착",
+  "result.copyRule.rank": "당첨 기준: {{rank}}번째 도착",
 
   "toast.resultCopied": "결과를 복사했습니다.",
   "toast.resultCopyFailed": "결과 복사에 실패했습니다.",
@@ -143,6 +307,11 @@ export const KO_MESSAGES = {
   "upload.type": "PNG/JPG/WEBP/GIF/AVIF 이미지 파일만 업로드할 수 있어요.",
   "upload.empty": "파일이 비어 있습니다. 다른 파일을 선택해 주세요.",
   "upload.maxSize": "이미지 파일은 최대 2MB까지 업로드할 수 있어요.",
+  "upload.decode": "이미지를 열지 못했습니다. 다른 파일을 선택해 주세요.",
+  "avatarCrop.title": "{{name}} 이미지 자르기",
+  "avatarCrop.description": "원 안에 보일 부분을 드래그로 옮기고 확대해 맞추세요. 작게 줄여 다시 저장하므로 위치 정보 같은 사진 메타데이터는 남지 않습니다.",
+  "avatarCrop.zoom": "확대",
+  "avatarCrop.stage": "이미지 위치 (드래그하거나 방향키로 이동)",
 
   "minimap.hint.idle": "시작 전에도 미니맵으로 맵을 둘러볼 수 있어요.",
   "minimap.hint.playing": "토글 OFF: 자유 시점(미니맵으로 이동)\n토글 ON: 후미 공 자동 추적",
@@ -151,7 +320,27 @@ export const KO_MESSAGES = {
   "coord.copyDone": "복사됨",
   "coord.copyFail": "실패",
 
+  "editor.tool.select": "선택·이동",
+  "editor.tool.rotor": "회전체",
+  "editor.tool.propeller": "프로펠러",
+  "editor.tool.wall": "벽 그리기",
+  "editor.delete": "삭제",
+  "editor.finishWall": "벽 완료",
+  "editor.reset": "처음으로",
+  "editor.testDrop": "테스트 드롭",
+  "editor.export": "보드 내보내기",
+  "editor.hint": "도구를 고르고 보드를 클릭하세요. Delete로 삭제, Esc로 선택 해제.",
+  "editor.locked": "진행 중인 게임이 끝난 뒤 보드를 편집할 수 있어요.",
+  "editor.valid": "검증 통과",
+  "editor.issues": "문제 {{count}}개 · {{first}}",
+  "editor.keepSpawnWall": "시작 구역 벽은 점이 2개 이상 있어야 해요.",
+  "editor.testing": "테스트 드롭 중…",
+  "editor.testDone": "{{marbles}}개 중 {{finished}}개 도착 · {{seconds}}초",
+  "editor.testStuck": "{{seconds}}초 동안 {{marbles}}개 중 {{finished}}개만 도착했어요.",
+  "editor.exported": "보드 파일을 내보냈어요.",
+
   "ball.unknown": "알 수 없는 공",
+  "ball.participant": "참가자 {{n}}",
   "ball.dog": "강아지",
   "ball.rabbit": "토끼",
   "ball.hamster": "햄스터",
@@ -234,18 +423,65 @@ export const EN_MESSAGES: Record<keyof typeof KO_MESSAGES, string> = {
   "left.participantFoldOpen": "Expand participants",
   "left.participantFoldClose": "Collapse participants",
   "left.participantSettings": "Edit participants",
+  "left.openHistory": "History",
+  "preset.title": "Roster",
+  "preset.defaultName": "Default roster",
+  "preset.newName": "Roster {{n}}",
+  "preset.copyName": "{{name}} copy",
+  "preset.nameLabel": "Roster name",
+  "preset.create": "New",
+  "preset.duplicate": "Duplicate",
+  "preset.delete": "Delete",
+  "preset.deleteConfirm": "Confirm delete",
   "left.startCaption": "Start caption",
   "left.startCaptionFoldOpen": "Expand start caption",
   "left.startCaptionFoldClose": "Collapse start caption",
   "left.startCaptionPlaceholder": "e.g.) Who will be the lucky winner?",
   "left.startCaptionLocked": "You cannot change this while a run is active.",
   "left.startCaptionHint": "Up to {{max}} chars including spaces. Shown above the start area.",
+  "left.boardLayout": "Board",
+  "left.boardLayout.classic": "Classic",
+  "left.boardLayout.roulette": "Roulette",
+  "left.boardLayout.zigzag": "Zigzag",
+  "left.boardLayoutHint.classic": "A short Plinko board.",
+  "left.boardLayoutHint.roulette": "A wheel-of-fortune shaped board.",
+  "left.boardLayoutHint.zigzag": "A long zigzag race. (default)",
+  "left.boardLayoutLocked": "The board can't be changed during a run.",
+  "left.raceLength": "Race length",
+  "left.raceLength.short": "Short",
+  "left.raceLength.medium": "Medium",
+  "left.raceLength.long": "Long",
   "left.winnerCount": "Winner count",
   "left.winnerCountFoldOpen": "Expand winner count",
   "left.winnerCountFoldClose": "Collapse winner count",
   "left.resultDisabledTip": "You can open results after the run is finished.",
   "left.openResult": "View results",
   "left.resultHelper": "Results are revealed in order of latest arrival.",
+  "left.resultHelperPrize": "In prize mode, everyone is listed by the slot they landed in.",
+  "left.resultHelperFirst": "Results are revealed in order of earliest arrival.",
+  "left.resultHelperRank": "Results are revealed starting from arrival #{{rank}}.",
+  "left.winnerRule": "Winner rule",
+  "left.winnerRule.last": "Last",
+  "left.winnerRule.first": "First",
+  "left.winnerRule.rank": "Nth",
+  "left.winnerRuleRank": "place to arrive",
+  "left.repeatRule": "Anti-repeat",
+  "left.repeatRule.off": "Off",
+  "left.repeatRule.exclude": "Skip recent winners",
+  "left.repeatRule.boost": "Extra entries for others",
+  "left.repeatRuleDraws": "recent draws",
+  "left.repeatRuleBonus": "extra entries",
+  "left.repeatRuleChanges": "Entries changed by the anti-repeat rule",
+  "left.repeatRuleExcluded": "{{name}}: sits out (won {{n}} draw(s) ago)",
+  "left.repeatRuleBoosted": "{{name}}: {{from}} → {{to}} (no recent win)",
+  "left.repeatRuleIdle": "No recent winners for this roster, so no entries change.",
+  "left.repeatRuleSkipped": "Too few balls would be left, so the rule is off for this draw.",
+  "left.prizeMode": "Prize slots",
+  "left.exactReplay": "Exact replay mode",
+  "left.exactReplayHint": "Pins the physics so a replay gives the same result on any device. With large crowds, slow devices may play the run slower.",
+  "left.prizeSlotCount": "{{count}} slots",
+  "left.prizeSlotLabel": "Slot {{index}} label",
+  "left.prizeSlotWidth": "Slot {{index}} width",
   "left.resultClamped": "Winner count was clamped to participant count.",
   "left.reorderAria": "Reorder {{name}}",
   "left.reorderLocked": "Reordering is disabled during a run.",
@@ -255,6 +491,8 @@ export const EN_MESSAGES: Record<keyof typeof KO_MESSAGES, string> = {
 
   "topbar.stop": "Stop",
   "topbar.stopTitle": "Stop current run and reset",
+  "topbar.estimate": "~{{seconds}}s",
+  "topbar.estimateTitle": "Estimated run time, sampled headlessly for this board and roster",
   "topbar.brandTitle": "Degururu",
   "topbar.brandLabel": "Degururu",
   "topbar.speedOn": "2x speed",
@@ -268,6 +506,10 @@ export const EN_MESSAGES: Record<keyof typeof KO_MESSAGES, string> = {
 
   "board.skip": "Skip",
   "board.copyCoords": "Copy coords",
+  "board.commitment": "Commit {{hash}}",
+  "board.commitmentTitle": "Seed commitment published before the drop: {{hash}}",
+  "board.recommitted": "The roster or drop position changed after the commitment was shown. A new commitment is now published; start again.",
+  "board.physicsFallback": "Physics now runs on the page itself. With many participants the marbles may move slower.",
 
   "settings.title": "Participant settings",
   "settings.dirty": "Modified",
@@ -281,6 +523,28 @@ export const EN_MESSAGES: Record<keyof typeof KO_MESSAGES, string> = {
   "settings.uploadHint": "Click to choose a file",
   "settings.discardConfirm": "Discard your settings changes?",
   "settings.id": "ID",
+  "settings.tags": "Tags",
+  "settings.tagsPlaceholder": "e.g. backend, office (comma-separated)",
+
+  "import.open": "Import list",
+  "import.title": "Import participants",
+  "import.hint": "Paste one name per line, or upload a CSV (name, count, image URL). Count and image are optional.",
+  "import.placeholder": "Alex\nSam,2\nJordan,1,https://example.com/me.png",
+  "import.file": "Choose CSV file",
+  "import.replace": "Replace current participants",
+  "import.includeDuplicates": "Add duplicate names too",
+  "import.summary": "{{included}} to add · {{duplicates}} duplicates · {{errors}} errors · {{overLimit}} over the limit",
+  "import.line": "Line {{line}}",
+  "import.statusAdd": "Add",
+  "import.statusDuplicate": "Duplicate",
+  "import.statusOverLimit": "Over limit",
+  "import.apply": "Apply to list",
+  "import.applying": "Loading images...",
+  "import.errorName": "The name is empty.",
+  "import.errorCount": "Count must be a number from 1 to {{max}}.",
+  "import.errorImage": "Images must be an http(s) URL or a PNG/JPG/WEBP/GIF/AVIF data URL.",
+  "import.fileTooLarge": "Roster files can be up to 1MB.",
+  "import.imageFailed": "{{count}} image(s) could not be loaded; letter avatars were used instead.",
 
   "inquiry.title": "Contact",
   "inquiry.send": "Send mail",
@@ -309,7 +573,96 @@ export const EN_MESSAGES: Record<keyof typeof KO_MESSAGES, string> = {
   "result.waitingBody": "Preparing results.",
   "result.skipReveal": "Reveal now",
   "result.copy": "Copy results",
+  "share.open": "Share",
+  "share.title": "Share this draw",
+  "share.description": "The link carries the roster with counts, winner count, start caption and board. It all sits after the #, so it is never sent to the server.",
+  "share.includeImages": "Include uploaded images (makes the link long)",
+  "share.includeSeed": "Include the last draw's seed (replays the same result)",
+  "share.seedUnavailable": "A seed can be included once a draw has finished.",
+  "share.link": "Share link",
+  "share.building": "Building the link…",
+  "share.length": "{{count}} characters",
+  "share.tooLong": "This link is long; some chat apps may cut it off.",
+  "share.copy": "Copy link",
+  "share.copied": "Share link copied.",
+  "share.copyFailed": "Could not copy the link.",
+  "share.buildFailed": "Could not build the share link.",
+  "share.invalid": "This share link could not be read.",
+  "share.offerTitle": "Open a shared draw",
+  "share.offerDescription": "It opens in the participant settings; your current roster ({{count}}) is only replaced when you apply it.",
+  "share.offerParticipants": "{{count}} participants",
+  "share.offerWinners": "{{count}} winner(s)",
+  "share.offerCaption": "Start caption: {{caption}}",
+  "share.offerSeed": "Seed {{seed}} (next draw only)",
+  "share.offerAccept": "Open in settings",
+  "share.offerDismiss": "Ignore",
+  "share.draftNotice": "Loaded from a share link. Applying replaces your roster along with the board, winner count and start caption.",
+  "share.seedArmed": "The next draw uses the shared seed {{seed}}.",
+  "backup.export": "Back up settings",
+  "backup.import": "Restore backup",
+  "backup.title": "Restore from backup",
+  "backup.fileInfo": "{{file}} · saved {{date}}",
+  "backup.hint": "Pick whether each section replaces or keeps your current settings. Restoring applies right away and discards unapplied roster edits.",
+  "backup.section.roster": "Participants",
+  "backup.section.draw": "Draw settings",
+  "backup.section.audio": "BGM",
+  "backup.section.language": "Language",
+  "backup.summary.roster": "{{count}} participants",
+  "backup.summary.draw": "{{count}} winner(s) · speed ×{{speed}} · caption “{{caption}}”",
+  "backup.summary.audioOn": "On · {{track}}",
+  "backup.summary.audioOff": "Off · {{track}}",
+  "backup.missing": "Not in file",
+  "backup.mode.replace": "Replace",
+  "backup.mode.merge": "Merge",
+  "backup.mode.skip": "Keep current",
+  "backup.apply": "Restore",
+  "backup.restored": "Backup restored.",
+  "backup.invalid": "Could not read the backup file. Make sure it is a settings file saved from Degururu.",
+  "backup.fileTooLarge": "The backup file is too large (max 32MB).",
+  "backup.exportFailed": "Could not save the backup file.",
+  "storage.quotaExceeded": "Browser storage is full, so your settings were not saved. They apply for now but may be gone after a reload. Remove or shrink large images, and keep a file with “Back up settings”.",
+  "storage.unavailable": "This browser does not allow saving settings (e.g. private mode). They reset when you reload.",
+  "tabSync.conflict": "The roster was changed in another tab. Applying your edits will overwrite that change.",
+  "tabSync.load": "Load their roster",
+  "tabSync.keep": "Keep my edits",
+  "tagFilter.title": "Pick participants by tag",
+  "tagFilter.chip.off": "Tag {{tag}}: not filtered",
+  "tagFilter.chip.include": "Tag {{tag}}: included",
+  "tagFilter.chip.exclude": "Tag {{tag}}: excluded",
+  "tagFilter.chipHint": "Each click cycles include → exclude → off",
+  "tagFilter.summary": "Next run: {{active}} of {{total}} participants",
+  "tagFilter.clear": "Clear filter",
+  "tagFilter.inactive": "{{name}} (sitting out this run)",
+  "attendance.absent": "{{name}} (absent)",
+  "attendance.markAbsent": "Mark {{name}} absent",
+  "attendance.markPresent": "Mark {{name}} present",
+  "attendance.hint": "Tap the picture to toggle present/absent",
+  "liveRanking.title": "Live ranking",
+  "liveRanking.arrived": "Arrival time",
+  "liveRanking.hidden": "… {{count}} more",
+  "history.title": "Draw history",
+  "history.description": "{{count}} draws saved on this device",
+  "history.search": "Search history",
+  "history.searchPlaceholder": "Winner or roster name",
+  "history.from": "From",
+  "history.to": "To",
+  "history.participants": "{{count}} balls",
+  "history.seed": "Seed {{seed}} · Roster {{fingerprint}}",
+  "history.more": "+{{count}} more",
+  "history.empty": "No completed draws yet.",
+  "history.noMatch": "No draws match the filter.",
+  "history.back": "Back to list",
+  "history.exportCsv": "Export CSV",
+  "history.exportJson": "Export JSON",
   "result.restart": "Restart",
+  "result.proofSummary": "Commit {{hash}} · Seed {{seed}}",
+  "result.downloadProof": "Download proof",
+  "result.slotTitle": "Results by slot ({{count}})",
+  "result.slotCount": "{{count}}",
+  "result.slotEmpty": "Nobody",
+  "result.copyRule.last": "Winner rule: last to arrive",
+  "result.copyRule.first": "Winner rule: first to arrive",
+  "result.copyRule.rank": "Winner rule: arrival #{{rank}}",
 
   "toast.resultCopied": "Results copied.",
   "toast.resultCopyFailed": "Failed to copy results.",
@@ -319,6 +672,11 @@ export const EN_MESSAGES: Record<keyof typeof KO_MESSAGES, string> = {
   "upload.type": "Only PNG/JPG/WEBP/GIF/AVIF image files are allowed.",
   "upload.empty": "The file is empty. Please choose another file.",
   "upload.maxSize": "Image files can be up to 2MB.",
+  "upload.decode": "Could not open the image. Please choose another file.",
+  "avatarCrop.title": "Crop image for {{name}}",
+  "avatarCrop.description": "Drag and zoom to fit what should show inside the circle. The image is shrunk and saved again, so photo metadata such as location is not kept.",
+  "avatarCrop.zoom": "Zoom",
+  "avatarCrop.stage": "Image position (drag or use the arrow keys)",
 
   "minimap.hint.idle": "You can explore the map with the minimap before starting.",
   "minimap.hint.playing": "Toggle OFF: free camera (move via minimap)\nToggle ON: auto-track trailing marble",
@@ -327,7 +685,27 @@ export const EN_MESSAGES: Record<keyof typeof KO_MESSAGES, string> = {
   "coord.copyDone": "Copied",
   "coord.copyFail": "Failed",
 
+  "editor.tool.select": "Select/move",
+  "editor.tool.rotor": "Rotor",
+  "editor.tool.propeller": "Propeller",
+  "editor.tool.wall": "Draw wall",
+  "editor.delete": "Delete",
+  "editor.finishWall": "Finish wall",
+  "editor.reset": "Start over",
+  "editor.testDrop": "Test drop",
+  "editor.export": "Export board",
+  "editor.hint": "Pick a tool and click the board. Delete removes, Esc clears the selection.",
+  "editor.locked": "The board can be edited once the current run is over.",
+  "editor.valid": "Board is valid",
+  "editor.issues": "{{count}} issue(s) · {{first}}",
+  "editor.keepSpawnWall": "Spawn walls need at least two points.",
+  "editor.testing": "Running test drop…",
+  "editor.testDone": "{{finished}} of {{marbles}} finished · {{seconds}}s",
+  "editor.testStuck": "Only {{finished}} of {{marbles}} finished in {{seconds}}s.",
+  "editor.exported": "Board file exported.",
+
   "ball.unknown": "Unknown ball",
+  "ball.participant": "Participant {{n}}",
   "ball.dog": "Dog",
   "ball.rabbit": "Rabbit",
   "ball.hamster": "Hamster",
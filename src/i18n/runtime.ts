@@ -1,11 +1,10 @@
 import { MESSAGES, type MessageKey } from "./messages";
+import { STORAGE_KEYS, readStorage, writeStorage } from "../ui/storage-core.ts";
 
 export type Language = "ko" | "en";
 
 type TranslationParams = Record<string, string | number | boolean | null | undefined>;
 
-export const LANGUAGE_STORAGE_KEY = "degururu:language";
-
 const listeners = new Set<() => void>();
 
 function normalizeLanguage(value: unknown): Language | null {
@@ -27,12 +26,7 @@ function readLanguageFromUrl(): Language | null {
 }
 
 function readLanguageFromStorage(): Language | null {
-  if (typeof localStorage === "undefined") return null;
-  try {
-    return normalizeLanguage(localStorage.getItem(LANGUAGE_STORAGE_KEY));
-  } catch {
-    return null;
-  }
+  return normalizeLanguage(readStorage(STORAGE_KEYS.language));
 }
 
 function readLanguageFromNavigator(): Language | null {
@@ -47,12 +41,7 @@ function detectInitialLanguage(): Language {
 let currentLanguage: Language = detectInitialLanguage();
 
 function writeLanguageToStorage(language: Language): void {
-  if (typeof localStorage === "undefined") return;
-  try {
-    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
-  } catch {
-    // Ignore storage errors.
-  }
+  writeStorage(STORAGE_KEYS.language, language);
 }
 
 function replaceParams(template: string, params?: TranslationParams): string {
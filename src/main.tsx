@@ -6,6 +6,7 @@ import { bootstrapGameApp } from "./app/create-game-app";
 import { initializeI18n, t } from "./i18n/runtime";
 import { AppShell } from "./ui-react/AppShell";
 import { registerServiceWorker } from "./pwa/register-service-worker";
+import { prepareStorage } from "./ui/storage";
 
 declare global {
   interface Window {
@@ -48,5 +49,9 @@ initializeI18n();
 const rootEl = document.getElementById("root");
 if (!rootEl) throw new Error(t("error.rootMissing", { selector: "#root" }));
 
-createRoot(rootEl).render(<App />);
+// Uploaded avatars load from IndexedDB before the app reads its roster.
+void prepareStorage()
+  // Storage that cannot be prepared falls back to inline images; saves report their own errors.
+  .catch(() => {})
+  .finally(() => createRoot(rootEl).render(<App />));
 registerServiceWorker();
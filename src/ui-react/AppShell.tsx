@@ -15,16 +15,21 @@ import {
   type UiActions,
 } from "../app/ui-store";
 import { useI18n } from "../i18n/react";
+import { BALL_CATALOG_MAX } from "../game/assets";
 import { UPLOAD_IMAGE_ACCEPT } from "../app/image-upload-policy";
 import { Button, IconButton } from "./components/Button";
 import { GameCanvasStage } from "./components/GameCanvasStage";
 import { LeftPanel } from "./components/LeftPanel";
 import { ModalCard } from "./components/Modal";
+import { DrawHistoryModal } from "./components/modals/DrawHistoryModal";
 import { ResultModal } from "./components/modals/ResultModal";
+import { SharedDrawModal } from "./components/modals/SharedDrawModal";
+import { ShareLinkModal } from "./components/modals/ShareLinkModal";
+import { AvatarCropModal } from "./components/modals/AvatarCropModal";
+import { RosterImportPanel } from "./components/RosterImportPanel";
+import { SettingsRestorePanel } from "./components/SettingsRestorePanel";
 import { TopBar } from "./components/TopBar";
 
-const CATALOG_MAX = 15;
-
 function useUiSnapshot() {
   return useSyncExternalStore(subscribeUi, getUiSnapshot, getUiSnapshot);
 }
@@ -72,12 +77,17 @@ export function AppShell() {
 
   const settingsDialogRef = useRef<HTMLDialogElement | null>(null);
   const settingsConfirmDialogRef = useRef<HTMLDialogElement | null>(null);
+  const avatarCropDialogRef = useRef<HTMLDialogElement | null>(null);
   const inquiryDialogRef = useRef<HTMLDialogElement | null>(null);
   const resultDialogRef = useRef<HTMLDialogElement | null>(null);
+  const historyDialogRef = useRef<HTMLDialogElement | null>(null);
+  const shareDialogRef = useRef<HTMLDialogElement | null>(null);
+  const sharedDrawDialogRef = useRef<HTMLDialogElement | null>(null);
   const settingsListRef = useRef<HTMLDivElement | null>(null);
   const bgmControlRef = useRef<HTMLDivElement | null>(null);
   const countdownTimersRef = useRef<number[]>([]);
   const filePickerActiveRef = useRef(false);
+  const backupFileInputRef = useRef<HTMLInputElement | null>(null);
   const previousSettingsOpenRef = useRef<boolean>(!!ui.settingsOpen);
   const previousSettingsBallCountRef = useRef<number>(ui.balls.length);
 
@@ -98,8 +108,12 @@ export function AppShell() {
 
   useDialogSync(settingsDialogRef, !!ui.settingsOpen, () => runAction("closeSettings"));
   useDialogSync(settingsConfirmDialogRef, !!ui.settingsConfirmOpen, () => {});
+  useDialogSync(avatarCropDialogRef, !!ui.avatarCrop, () => runAction("closeAvatarCrop"));
   useDialogSync(inquiryDialogRef, !!ui.inquiryOpen, () => runAction("closeInquiry"));
   useDialogSync(resultDialogRef, !!ui.resultState.open, () => runAction("closeResultModal"));
+  useDialogSync(historyDialogRef, !!ui.drawHistoryOpen, () => runAction("closeDrawHistory"));
+  useDialogSync(shareDialogRef, !!ui.shareLink, () => runAction("closeShareLink"));
+  useDialogSync(sharedDrawDialogRef, !!ui.sharedDrawOffer, () => runAction("dismissSharedDraw"));
 
   function clearCountdownTimers() {
     for (const timerId of countdownTimersRef.current) window.clearTimeout(timerId);
@@ -116,6 +130,7 @@ export function AppShell() {
     if (countdownValue != null) return;
     clearCountdownTimers();
     setCountdownValue(3);
+    runAction("commitNextDraw");
     countdownTimersRef.current.push(
       window.setTimeout(() => setCountdownValue(2), 900),
       window.setTimeout(() => setCountdownValue(1), 1800),
@@ -217,6 +232,17 @@ export function AppShell() {
     }
   }
 
+  // Escape in the native file picker must not close the settings dialog behind it.
+  function markFilePickerActive() {
+    filePickerActiveRef.current = true;
+    const clear = () => {
+      window.setTimeout(() => {
+        filePickerActiveRef.current = false;
+      }, 0);
+    };
+    window.addEventListener("focus", clear, { once: true });
+  }
+
   async function handleInquirySubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     const result = (await runAction("submitInquiry")) as InquirySubmitResult | undefined;
@@ -225,7 +251,7 @@ export function AppShell() {
   }
 
   const inquiryMessageLength = Math.min(2000, String(ui.inquiryForm?.message || "").length);
-  const canAddCatalogBall = ui.balls.length < CATALOG_MAX && !catalogLocked;
+  const canAddCatalogBall = ui.balls.length < BALL_CATALOG_MAX && !catalogLocked;
   const canRemoveCatalogBall = ui.balls.length > 1 && !catalogLocked;
   const canApplySettings = !!ui.settingsDirty && !catalogLocked;
   const settingsCloseLabel = ui.settingsDirty ? t("common.cancel") : t("common.close");
@@ -260,6 +286,7 @@ export function AppShell() {
         <TopBar
           startDisabled={ui.startDisabled || countdownValue != null}
           startLabel={countdownValue != null ? t("game.startPreparing") : ui.startLabel}
+          estimatedRaceSeconds={ui.estimatedRaceSeconds}
           stopRunVisible={stopRunVisible}
           stopRunDisabled={stopRunDisabled}
           speedMultiplier={ui.speedMultiplier}
@@ -285,21 +312,55 @@ export function AppShell() {
             viewLockDisabled={ui.viewLockDisabled}
             viewLockTooltip={viewLockTooltip}
             resultDisabled={ui.resultDisabled}
+            historyDisabled={ui.drawHistory.length <= 0}
             winnerCount={ui.winnerCount}
             winnerCountMax={ui.winnerCountMax}
             winnerCountWasClamped={ui.winnerCountWasClamped}
+            winnerRule={ui.winnerRule}
+            repeatRule={ui.repeatRule}
+            repeatRuleOutcome={ui.repeatRuleOutcome}
             startCaption={ui.startCaption}
+            boardLayout={ui.boardLayout}
+            raceLength={ui.raceLength}
+            raceLengthAvailable={ui.raceLengthAvailable}
+            prizeModeAvailable={ui.prizeModeAvailable}
+            prizeMode={ui.prizeMode}
+            prizeSlots={ui.prizeSlots}
+            exactReplay={ui.exactReplay}
             balls={ui.balls}
+            participantTags={ui.participantTags}
+            participantFilter={ui.participantFilter}
+            activeParticipantCount={ui.activeParticipantCount}
+            rosterPresets={ui.rosterPresets}
+            activeRosterPresetId={ui.activeRosterPresetId}
             onOpenSettings={() => runAction("openSettings")}
+            onOpenShare={() => runAction("openShareLink")}
             onOpenResult={() => runAction("openResultModal")}
+            onOpenHistory={() => runAction("openDrawHistory")}
             onToggleViewLock={(isOn) => runAction("toggleViewLock", isOn)}
             onSetWinnerCount={(nextValue) => runAction("setWinnerCount", nextValue)}
+            onSetWinnerRule={(rule) => runAction("setWinnerRule", rule)}
+            onSetRepeatRule={(rule) => runAction("setRepeatRule", rule)}
             onSetStartCaption={(value) => runAction("setStartCaption", value)}
+            onSetBoardLayout={(layout) => runAction("setBoardLayout", layout)}
+            onSetRaceLength={(length) => runAction("setRaceLength", length)}
+            onSetPrizeMode={(isOn) => runAction("setPrizeMode", isOn)}
+            onSetPrizeSlotCount={(count) => runAction("setPrizeSlotCount", count)}
+            onSetPrizeSlot={(index, patch) => runAction("setPrizeSlot", index, patch)}
+            onSetExactReplay={(isOn) => runAction("setExactReplay", isOn)}
             onAdjustBallCount={(ballId, delta) => runAction("adjustBallCount", ballId, delta)}
             onSetBallCount={(ballId, nextValue) => runAction("setBallCount", ballId, nextValue)}
+            onToggleBallAttendance={(ballId) => runAction("toggleBallAttendance", ballId)}
             onReorderBall={(sourceBallId, targetBallId) =>
               runAction("reorderCatalogBall", sourceBallId, targetBallId)
             }
+            onCycleTagFilter={(tag) => runAction("cycleParticipantTagFilter", tag)}
+            onClearTagFilter={() => runAction("clearParticipantFilter")}
+            onSwitchRosterPreset={(presetId) => runAction("switchRosterPreset", presetId)}
+            onCreateRosterPreset={() => runAction("createRosterPreset")}
+            onRenameRosterPreset={(presetId, name) => runAction("renameRosterPreset", presetId, name)}
+            onDuplicateRosterPreset={(presetId) => runAction("duplicateRosterPreset", presetId)}
+            onDeleteRosterPreset={(presetId) => runAction("deleteRosterPreset", presetId)}
           />
           <GameCanvasStage
             isDev={isDev}
@@ -307,6 +368,8 @@ export function AppShell() {
             statusLabel={ui.statusLabel}
             statusTone={ui.statusTone}
             statusMetaText={statusMetaText}
+            drawCommitment={ui.drawCommitment}
+            liveRanking={ui.liveRanking}
             onSkipCountdown={skipCountdown}
           />
         </main>
@@ -354,6 +417,15 @@ export function AppShell() {
                   >
                     {t("settings.addParticipant")}
                   </Button>
+                  <Button
+                    id="import-roster"
+                    variant="ghost"
+                    type="button"
+                    disabled={catalogLocked || !!ui.rosterImport}
+                    onClick={() => runAction("openRosterImport")}
+                  >
+                    {t("import.open")}
+                  </Button>
                   <Button
                     id="restore-defaults"
                     variant="ghost"
@@ -363,6 +435,35 @@ export function AppShell() {
                   >
                     {t("settings.reset")}
                   </Button>
+                  <Button id="export-backup" variant="ghost" type="button" onClick={() => runAction("exportSettingsBackup")}>
+                    {t("backup.export")}
+                  </Button>
+                  <Button
+                    id="import-backup"
+                    variant="ghost"
+                    type="button"
+                    disabled={catalogLocked}
+                    onClick={() => {
+                      markFilePickerActive();
+                      backupFileInputRef.current?.click();
+                    }}
+                  >
+                    {t("backup.import")}
+                  </Button>
+                  <input
+                    ref={backupFileInputRef}
+                    className="fileRow__input"
+                    type="file"
+                    accept=".json,application/json"
+                    tabIndex={-1}
+                    aria-hidden="true"
+                    onChange={(event) => {
+                      filePickerActiveRef.current = false;
+                      const file = event.currentTarget.files?.[0];
+                      event.currentTarget.value = "";
+                      if (file) runAction("loadSettingsBackupFile", file);
+                    }}
+                  />
                 </div>
                 <div className="settingsFooter__right">
                   <Button
@@ -388,6 +489,41 @@ export function AppShell() {
               </div>
             }
           >
+            {ui.sharedDrawInDraft && <div className="settingsNotice">{t("share.draftNotice")}</div>}
+            {ui.tabSyncConflict && (
+              <div className="settingsNotice settingsNotice--conflict" role="alert">
+                <span>{t("tabSync.conflict")}</span>
+                <div className="settingsNotice__actions">
+                  <Button variant="primary" size="sm" type="button" onClick={() => runAction("loadTabSyncChanges")}>
+                    {t("tabSync.load")}
+                  </Button>
+                  <Button variant="ghost" size="sm" type="button" onClick={() => runAction("dismissTabSyncConflict")}>
+                    {t("tabSync.keep")}
+                  </Button>
+                </div>
+              </div>
+            )}
+            {ui.settingsRestore && (
+              <SettingsRestorePanel
+                restore={ui.settingsRestore}
+                disabled={catalogLocked}
+                onSetMode={(section, mode) => runAction("setSettingsRestoreMode", section, mode)}
+                onApply={() => runAction("applySettingsRestore")}
+                onClose={() => runAction("closeSettingsRestore")}
+              />
+            )}
+            {ui.rosterImport && (
+              <RosterImportPanel
+                importState={ui.rosterImport}
+                disabled={catalogLocked}
+                onChangeText={(text) => runAction("setRosterImportText", text)}
+                onLoadFile={(file) => runAction("loadRosterImportFile", file)}
+                onSetOption={(option, isOn) => runAction("setRosterImportOption", option, isOn)}
+                onApply={() => runAction("applyRosterImport")}
+                onClose={() => runAction("closeRosterImport")}
+                onFilePickerOpen={markFilePickerActive}
+              />
+            )}
             <div className="twList" id="settings-list" ref={settingsListRef}>
               {ui.balls.map((ball) => {
                 const fileInputId = `ball-file-${ball.id}`;
@@ -408,7 +544,7 @@ export function AppShell() {
                     <div className="twItem__topRow">
                       <div className="twItem__primaryRow">
                         <div className="twItem__thumb">
-                          <img alt={ball.name} src={ball.imageDataUrl} />
+                          <img alt={ball.name} src={ball.imageDataUrl} loading="lazy" decoding="async" />
                         </div>
                         <div className="field twItem__nameField">
                           <label htmlFor={`ball-name-${ball.id}`}>{t("settings.name")}</label>
@@ -424,6 +560,19 @@ export function AppShell() {
                       </div>
                     </div>
                     <div className="twItem__secondaryId">{t("settings.id")}: {ball.id}</div>
+                    <div className="field twItem__field">
+                      <label htmlFor={`ball-tags-${ball.id}`}>{t("settings.tags")}</label>
+                      {/* Uncontrolled so a half-typed comma is not normalized away; re-keyed when the tags change. */}
+                      <input
+                        key={ball.tags.join(",")}
+                        id={`ball-tags-${ball.id}`}
+                        type="text"
+                        defaultValue={ball.tags.join(", ")}
+                        placeholder={t("settings.tagsPlaceholder")}
+                        disabled={catalogLocked}
+                        onBlur={(event) => runAction("setCatalogBallTags", ball.id, event.currentTarget.value)}
+                      />
+                    </div>
                     <div className="field twItem__field">
                       <label htmlFor={fileInputId}>{t("settings.image")}</label>
                       <label className={`twUploadZone ${catalogLocked ? "is-disabled" : ""}`} htmlFor={fileInputId}>
@@ -437,25 +586,19 @@ export function AppShell() {
                         type="file"
                         accept={UPLOAD_IMAGE_ACCEPT}
                         disabled={catalogLocked}
-                        onClick={() => {
-                          filePickerActiveRef.current = true;
-                          const clear = () => {
-                            window.setTimeout(() => {
-                              filePickerActiveRef.current = false;
-                            }, 0);
-                          };
-                          window.addEventListener("focus", clear, { once: true });
-                        }}
+                        onClick={markFilePickerActive}
                         onChange={async (event) => {
                           filePickerActiveRef.current = false;
-                          const file = event.currentTarget.files?.[0];
+                          const input = event.currentTarget;
+                          const file = input.files?.[0];
                           setFileNames((prev) => ({
                             ...prev,
                             [ball.id]: file?.name ? file.name.slice(0, 32) : t("common.notSelected"),
                           }));
                           if (!file) return;
-                          await runAction("setCatalogBallImage", ball.id, file);
-                          event.currentTarget.value = "";
+                          // Cleared so picking the same file again after a cancelled crop still fires.
+                          input.value = "";
+                          await runAction("openAvatarCrop", ball.id, file);
                         }}
                       />
                     </div>
@@ -502,6 +645,29 @@ export function AppShell() {
         </form>
       </dialog>
 
+      <dialog
+        id="avatar-crop-dialog"
+        className="dialog dialog--settings"
+        ref={avatarCropDialogRef}
+        onCancel={(event) => {
+          event.preventDefault();
+          runAction("closeAvatarCrop");
+        }}
+        onClick={(event) => {
+          if (event.target !== event.currentTarget) return;
+          runAction("closeAvatarCrop");
+        }}
+      >
+        <form className="twModal" id="avatar-crop-form" onSubmit={(event) => event.preventDefault()}>
+          <AvatarCropModal
+            key={ui.avatarCrop?.sourceUrl ?? ""}
+            avatarCrop={ui.avatarCrop}
+            onApply={(crop) => runAction("applyAvatarCrop", crop)}
+            onClose={() => runAction("closeAvatarCrop")}
+          />
+        </form>
+      </dialog>
+
       <dialog
         id="inquiry-dialog"
         className="dialog dialog--settings"
@@ -639,6 +805,77 @@ export function AppShell() {
             onSpinDone={() => runAction("completeResultSpin")}
             onCopy={() => runAction("copyResults")}
             onRestart={handleResultRestart}
+            proofCommitment={ui.drawCommitment}
+            proofSeed={ui.drawRevealedSeed}
+            onDownloadProof={() => runAction("downloadDrawProof")}
+          />
+        </form>
+      </dialog>
+
+      <dialog
+        id="history-dialog"
+        className="dialog dialog--settings"
+        ref={historyDialogRef}
+        onCancel={(event) => {
+          event.preventDefault();
+          runAction("closeDrawHistory");
+        }}
+        onClick={(event) => {
+          if (event.target !== event.currentTarget) return;
+          runAction("closeDrawHistory");
+        }}
+      >
+        <form className="twModal" id="history-form" onSubmit={(event) => event.preventDefault()}>
+          <DrawHistoryModal
+            open={!!ui.drawHistoryOpen}
+            entries={ui.drawHistory}
+            onClose={() => runAction("closeDrawHistory")}
+            onCopy={(entryId) => runAction("copyDrawHistoryEntry", entryId)}
+            onExport={(format, filter) => runAction("exportDrawHistory", format, filter)}
+          />
+        </form>
+      </dialog>
+
+      <dialog
+        id="share-dialog"
+        className="dialog dialog--settings"
+        ref={shareDialogRef}
+        onCancel={(event) => {
+          event.preventDefault();
+          runAction("closeShareLink");
+        }}
+        onClick={(event) => {
+          if (event.target !== event.currentTarget) return;
+          runAction("closeShareLink");
+        }}
+      >
+        <form className="twModal" id="share-form" onSubmit={(event) => event.preventDefault()}>
+          <ShareLinkModal
+            shareLink={ui.shareLink}
+            seedAvailable={ui.drawRevealedSeed != null}
+            onClose={() => runAction("closeShareLink")}
+            onSetOption={(option, isOn) => runAction("setShareLinkOption", option, isOn)}
+            onCopy={() => runAction("copyShareLink")}
+          />
+        </form>
+      </dialog>
+
+      <dialog
+        id="shared-draw-dialog"
+        className="dialog dialog--settings"
+        ref={sharedDrawDialogRef}
+        onCancel={(event) => {
+          event.preventDefault();
+          runAction("dismissSharedDraw");
+        }}
+      >
+        <form className="twModal" id="shared-draw-form" onSubmit={(event) => event.preventDefault()}>
+          <SharedDrawModal
+            offer={ui.sharedDrawOffer}
+            currentCount={ui.balls.length}
+            disabled={ui.balls.some((ball) => ball.locked)}
+            onAccept={() => runAction("acceptSharedDraw")}
+            onDismiss={() => runAction("dismissSharedDraw")}
           />
         </form>
       </dialog>
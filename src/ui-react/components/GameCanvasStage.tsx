@@ -1,14 +1,24 @@
-import type { StatusTone } from "../../app/ui-store";
+import type { LiveRankingUiModel, StatusTone } from "../../app/ui-store";
 import { useI18n } from "../../i18n/react";
 import { Button } from "./Button";
+import { LiveRankingPanel } from "./LiveRankingPanel";
 import { StatusBadge } from "./StatusBadge";
 
+const EDITOR_TOOLS = ["select", "rotor", "propeller", "wall"] as const;
+const EDITOR_FIELDS = [
+  { name: "omega", step: 0.1 },
+  { name: "r", step: 0.5 },
+  { name: "bounce", step: 0.01 },
+] as const;
+
 type GameCanvasStageProps = {
   isDev: boolean;
   countdownValue: number | null;
   statusLabel: string;
   statusTone: StatusTone;
   statusMetaText?: string | null;
+  drawCommitment?: string;
+  liveRanking: LiveRankingUiModel | null;
   onSkipCountdown: () => void;
 };
 
@@ -18,6 +28,8 @@ export function GameCanvasStage({
   statusLabel,
   statusTone,
   statusMetaText,
+  drawCommitment,
+  liveRanking,
   onSkipCountdown,
 }: GameCanvasStageProps) {
   const { t } = useI18n();
@@ -32,7 +44,13 @@ export function GameCanvasStage({
           statusMetaText={statusMetaText}
           className="boardStatus__badge"
         />
+        {drawCommitment ? (
+          <div className="boardStatus__commit" title={t("board.commitmentTitle", { hash: drawCommitment })}>
+            {t("board.commitment", { hash: drawCommitment.slice(0, 12) })}
+          </div>
+        ) : null}
       </div>
+      <LiveRankingPanel ranking={liveRanking} />
       {countdownValue != null ? (
         <div className="boardCountdown" aria-live="assertive">
           <div className={`boardCountdown__value boardCountdown__value--${countdownValue}`} key={`countdown-${countdownValue}`}>
@@ -53,6 +71,46 @@ export function GameCanvasStage({
           </Button>
         </div>
       ) : null}
+      {isDev ? (
+        // Driven by src/ui/board-editor-controller.js through the data-editor-* hooks.
+        <div className="boardEditor" id="board-editor">
+          <div className="boardEditor__row">
+            {EDITOR_TOOLS.map((tool) => (
+              <button key={tool} type="button" className="btn btn--ghost btn--sm boardEditor__tool" data-editor-tool={tool}>
+                {t(`editor.tool.${tool}`)}
+              </button>
+            ))}
+          </div>
+          <div className="boardEditor__row">
+            {EDITOR_FIELDS.map((field) => (
+              <label key={field.name} className="boardEditor__field">
+                <span>{field.name}</span>
+                <input type="number" step={field.step} data-editor-field={field.name} disabled />
+              </label>
+            ))}
+          </div>
+          <div className="boardEditor__row">
+            <button type="button" className="btn btn--ghost btn--sm" data-editor-action="delete" disabled>
+              {t("editor.delete")}
+            </button>
+            <button type="button" className="btn btn--ghost btn--sm" data-editor-action="finish-wall" disabled>
+              {t("editor.finishWall")}
+            </button>
+            <button type="button" className="btn btn--ghost btn--sm" data-editor-action="reset">
+              {t("editor.reset")}
+            </button>
+          </div>
+          <div className="boardEditor__row">
+            <button type="button" className="btn btn--accent btn--sm" data-editor-action="test">
+              {t("editor.testDrop")}
+            </button>
+            <button type="button" className="btn btn--primary btn--sm" data-editor-action="export">
+              {t("editor.export")}
+            </button>
+          </div>
+          <div className="boardEditor__status" data-editor-status aria-live="polite"></div>
+        </div>
+      ) : null}
     </div>
   );
 }
@@ -1,9 +1,25 @@
 import { useEffect, useState, type DragEvent, type TouchEvent } from "react";
 import { useI18n } from "../../i18n/react";
+import type { BuiltinBoardLayout, PrizeSlot, RaceLength } from "../../game/board-config";
+import type { WinnerRule } from "../../game/engine";
+import type { ParticipantFilter } from "../../game/participant-tags";
+import type { RepeatRule, RepeatRuleOutcome } from "../../game/repeat-rules";
+import type { RosterPresetUiModel } from "../../app/ui-store";
 import { Button, IconButton } from "./Button";
 import { AppIcon } from "./Icons";
+import { ParticipantTagFilter } from "./ParticipantTagFilter";
+import { PrizeSlotsEditor } from "./PrizeSlotsEditor";
+import { RepeatRuleOption } from "./RepeatRuleOption";
+import { RosterPresetBar } from "./RosterPresetBar";
 
 const START_CAPTION_MAX = 28;
+// Shortest run first.
+const BOARD_LAYOUT_CHOICES: readonly BuiltinBoardLayout[] = ["classic", "roulette", "zigzag"];
+const RACE_LENGTH_CHOICES: readonly RaceLength[] = ["short", "medium", "long"];
+const WINNER_RULE_CHOICES: readonly WinnerRule["kind"][] = ["last", "first", "rank"];
+const DEFAULT_WINNER_RANK = 2;
+// Past this many rows the list scrolls inside the card instead of stretching the panel.
+const LONG_PARTICIPANT_LIST = 12;
 const MOBILE_MEDIA_QUERY = "(max-width: 720px)";
 const MOBILE_HUD_CLASS_BY_OPEN: Record<"open" | "collapsed", string> = {
   open: "is-mobile-open",
@@ -27,6 +43,7 @@ type LeftPanelBall = {
   imageDataUrl: string;
   count: number;
   locked: boolean;
+  active: boolean;
 };
 
 type LeftPanelProps = {
@@ -34,19 +51,53 @@ type LeftPanelProps = {
   viewLockDisabled: boolean;
   viewLockTooltip: string;
   resultDisabled: boolean;
+  historyDisabled: boolean;
   winnerCount: number;
   winnerCountMax: number;
   winnerCountWasClamped: boolean;
+  winnerRule: WinnerRule;
+  repeatRule: RepeatRule;
+  repeatRuleOutcome: RepeatRuleOutcome;
   startCaption: string;
+  boardLayout: BuiltinBoardLayout;
+  raceLength: RaceLength;
+  raceLengthAvailable: boolean;
+  prizeModeAvailable: boolean;
+  prizeMode: boolean;
+  prizeSlots: ReadonlyArray<PrizeSlot>;
+  exactReplay: boolean;
   balls: LeftPanelBall[];
+  participantTags: ReadonlyArray<string>;
+  participantFilter: ParticipantFilter;
+  activeParticipantCount: number;
+  rosterPresets: ReadonlyArray<RosterPresetUiModel>;
+  activeRosterPresetId: string;
   onOpenSettings: () => void;
+  onOpenShare: () => void;
   onOpenResult: () => void;
+  onOpenHistory: () => void;
   onToggleViewLock: (isOn: boolean) => void;
   onSetWinnerCount: (value: number) => void;
+  onSetWinnerRule: (rule: WinnerRule) => void;
+  onSetRepeatRule: (rule: RepeatRule) => void;
   onSetStartCaption: (value: string) => void;
+  onSetBoardLayout: (layout: BuiltinBoardLayout) => void;
+  onSetRaceLength: (length: RaceLength) => void;
+  onSetPrizeMode: (isOn: boolean) => void;
+  onSetPrizeSlotCount: (count: number) => void;
+  onSetPrizeSlot: (index: number, patch: Partial<PrizeSlot>) => void;
+  onSetExactReplay: (isOn: boolean) => void;
   onAdjustBallCount: (ballId: string, delta: number) => void;
   onSetBallCount: (ballId: string, value: number) => void;
+  onToggleBallAttendance: (ballId: string) => void;
   onReorderBall: (sourceBallId: string, targetBallId: string) => void;
+  onCycleTagFilter: (tag: string) => void;
+  onClearTagFilter: () => void;
+  onSwitchRosterPreset: (presetId: string) => void;
+  onCreateRosterPreset: () => void;
+  onRenameRosterPreset: (presetId: string, name: string) => void;
+  onDuplicateRosterPreset: (presetId: string) => void;
+  onDeleteRosterPreset: (presetId: string) => void;
 };
 
 export function LeftPanel(props: LeftPanelProps) {
@@ -56,19 +107,53 @@ export function LeftPanel(props: LeftPanelProps) {
     viewLockDisabled,
     viewLockTooltip,
     resultDisabled,
+    historyDisabled,
     winnerCount,
     winnerCountMax,
     winnerCountWasClamped,
+    winnerRule,
+    repeatRule,
+    repeatRuleOutcome,
     startCaption,
+    boardLayout,
+    raceLength,
+    raceLengthAvailable,
+    prizeModeAvailable,
+    prizeMode,
+    prizeSlots,
+    exactReplay,
     balls,
+    participantTags,
+    participantFilter,
+    activeParticipantCount,
+    rosterPresets,
+    activeRosterPresetId,
     onOpenSettings,
+    onOpenShare,
     onOpenResult,
+    onOpenHistory,
     onToggleViewLock,
     onSetWinnerCount,
+    onSetWinnerRule,
+    onSetRepeatRule,
     onSetStartCaption,
+    onSetBoardLayout,
+    onSetRaceLength,
+    onSetPrizeMode,
+    onSetPrizeSlotCount,
+    onSetPrizeSlot,
+    onSetExactReplay,
     onAdjustBallCount,
     onSetBallCount,
+    onToggleBallAttendance,
     onReorderBall,
+    onCycleTagFilter,
+    onClearTagFilter,
+    onSwitchRosterPreset,
+    onCreateRosterPreset,
+    onRenameRosterPreset,
+    onDuplicateRosterPreset,
+    onDeleteRosterPreset,
   } = props;
   const isLocked = !!balls.find((ball) => ball.locked);
   const [isMobileViewport, setIsMobileViewport] = useState<boolean>(readMobileViewport);
@@ -78,9 +163,19 @@ export function LeftPanel(props: LeftPanelProps) {
   const [participantsFoldOpen, setParticipantsFoldOpen] = useState<boolean>(true);
   const [resultFoldOpen, setResultFoldOpen] = useState<boolean>(() => !readMobileViewport());
   const [captionFoldOpen, setCaptionFoldOpen] = useState<boolean>(() => !readMobileViewport());
+  const isPrizeBoard = prizeModeAvailable && prizeMode;
   const canDecreaseResultCount = winnerCount > 1;
   const canIncreaseResultCount = winnerCount < winnerCountMax;
-  const totalParticipants = balls.reduce((sum, ball) => sum + Math.max(0, Math.floor(Number(ball.count) || 0)), 0);
+  const winnerRank = winnerRule.kind === "rank" ? winnerRule.rank : DEFAULT_WINNER_RANK;
+  let resultHelper = t("left.resultHelper");
+  if (isPrizeBoard) resultHelper = t("left.resultHelperPrize");
+  else if (winnerRule.kind === "first") resultHelper = t("left.resultHelperFirst");
+  else if (winnerRule.kind === "rank") resultHelper = t("left.resultHelperRank", { rank: winnerRank });
+  // Entries of the participants the tag filter lets into the next run.
+  const totalParticipants = balls.reduce(
+    (sum, ball) => (ball.active ? sum + Math.max(0, Math.floor(Number(ball.count) || 0)) : sum),
+    0
+  );
   const startCaptionLength = String(startCaption || "").length;
   const showParticipants = !isMobileViewport || participantsFoldOpen;
   const showResultOption = !isMobileViewport || resultFoldOpen;
@@ -107,6 +202,7 @@ export function LeftPanel(props: LeftPanelProps) {
   const startCaptionClassName = ["startCaption", isLocked ? "is-disabled" : "", isMobileViewport ? "is-mobileFold" : ""]
     .filter(Boolean)
     .join(" ");
+  const boardPickerClassName = ["boardPicker", isLocked ? "is-disabled" : ""].filter(Boolean).join(" ");
   const hudClassName = ["hud", resolveMobileHudClassName(isMobileViewport, mobileHudFoldOpen)]
     .filter(Boolean)
     .join(" ");
@@ -213,6 +309,9 @@ export function LeftPanel(props: LeftPanelProps) {
           <Button id="settings-btn" variant="ghost" size="sm" disabled={isLocked} onClick={onOpenSettings}>
             {t("left.participantSettings")}
           </Button>
+          <Button id="share-btn" variant="ghost" size="sm" disabled={isLocked} onClick={onOpenShare}>
+            {t("share.open")}
+          </Button>
         </div>
       </div>
     );
@@ -344,6 +443,71 @@ export function LeftPanel(props: LeftPanelProps) {
           </div>
         )}
 
+        <div className={boardPickerClassName}>
+          <div className="boardPicker__label" id="board-layout-label">
+            {t("left.boardLayout")}
+          </div>
+          <div className="boardPicker__choices" role="group" aria-labelledby="board-layout-label">
+            {BOARD_LAYOUT_CHOICES.map((layout) => (
+              <Button
+                key={layout}
+                variant="ghost"
+                size="sm"
+                className={`boardPicker__choice ${layout === boardLayout ? "is-active" : ""}`}
+                ariaPressed={layout === boardLayout}
+                disabled={isLocked}
+                onClick={() => onSetBoardLayout(layout)}
+              >
+                {t(`left.boardLayout.${layout}`)}
+              </Button>
+            ))}
+          </div>
+          {raceLengthAvailable && (
+            <>
+              <div className="boardPicker__label" id="race-length-label">
+                {t("left.raceLength")}
+              </div>
+              <div className="boardPicker__choices" role="group" aria-labelledby="race-length-label">
+                {RACE_LENGTH_CHOICES.map((length) => (
+                  <Button
+                    key={length}
+                    variant="ghost"
+                    size="sm"
+                    className={`boardPicker__choice ${length === raceLength ? "is-active" : ""}`}
+                    ariaPressed={length === raceLength}
+                    disabled={isLocked}
+                    onClick={() => onSetRaceLength(length)}
+                  >
+                    {t(`left.raceLength.${length}`)}
+                  </Button>
+                ))}
+              </div>
+            </>
+          )}
+          {prizeModeAvailable && (
+            <PrizeSlotsEditor
+              prizeMode={prizeMode}
+              prizeSlots={prizeSlots}
+              disabled={isLocked}
+              onSetPrizeMode={onSetPrizeMode}
+              onSetPrizeSlotCount={onSetPrizeSlotCount}
+              onSetPrizeSlot={onSetPrizeSlot}
+            />
+          )}
+          <label className="boardPicker__toggle" title={t("left.exactReplayHint")}>
+            <input
+              type="checkbox"
+              checked={exactReplay}
+              disabled={isLocked}
+              onChange={(event) => onSetExactReplay(event.currentTarget.checked)}
+            />
+            <span>{t("left.exactReplay")}</span>
+          </label>
+          <div className="boardPicker__hint">
+            {isLocked ? t("left.boardLayoutLocked") : t(`left.boardLayoutHint.${boardLayout}`)}
+          </div>
+        </div>
+
         <div className={startCaptionClassName}>
           {isMobileViewport && (
             <button
@@ -427,41 +591,100 @@ export function LeftPanel(props: LeftPanelProps) {
                   >
                     {t("left.openResult")}
                   </Button>
-                </div>
-              </div>
-
-              <div className="resultOption__controls">
-                <div className="resultOption__stepper">
-                  <Button
-                    variant="ghost"
-                    className="resultOption__stepBtn"
-                    disabled={isLocked || !canDecreaseResultCount}
-                    onClick={() => onSetWinnerCount(winnerCount - 1)}
-                  >
-                    -
-                  </Button>
-                  <input
-                    id="winner-count-input"
-                    className="resultOption__input"
-                    type="number"
-                    min={1}
-                    max={winnerCountMax}
-                    step={1}
-                    value={String(winnerCount)}
-                    disabled={isLocked}
-                    onChange={(event) => onSetWinnerCount(Number(event.currentTarget.value))}
-                  />
                   <Button
+                    id="history-btn"
                     variant="ghost"
-                    className="resultOption__stepBtn"
-                    disabled={isLocked || !canIncreaseResultCount}
-                    onClick={() => onSetWinnerCount(winnerCount + 1)}
+                    size="sm"
+                    className="resultOption__viewBtn"
+                    disabled={historyDisabled}
+                    onClick={onOpenHistory}
                   >
-                    +
+                    {t("left.openHistory")}
                   </Button>
                 </div>
               </div>
-              <div className="resultOption__helper">{t("left.resultHelper")}</div>
+
+              {!isPrizeBoard && (
+                <div className="resultOption__rule">
+                  <div className="boardPicker__choices" role="group" aria-label={t("left.winnerRule")}>
+                    {WINNER_RULE_CHOICES.map((kind) => (
+                      <Button
+                        key={kind}
+                        variant="ghost"
+                        size="sm"
+                        className={`boardPicker__choice ${kind === winnerRule.kind ? "is-active" : ""}`}
+                        ariaPressed={kind === winnerRule.kind}
+                        disabled={isLocked}
+                        onClick={() => onSetWinnerRule(kind === "rank" ? { kind, rank: winnerRank } : { kind })}
+                      >
+                        {t(`left.winnerRule.${kind}`)}
+                      </Button>
+                    ))}
+                  </div>
+                  {winnerRule.kind === "rank" && (
+                    <label className="resultOption__rank">
+                      <input
+                        className="resultOption__input"
+                        type="number"
+                        min={1}
+                        max={winnerCountMax}
+                        step={1}
+                        value={String(winnerRank)}
+                        disabled={isLocked}
+                        onChange={(event) => {
+                          const rank = Math.floor(Number(event.currentTarget.value));
+                          if (rank >= 1) onSetWinnerRule({ kind: "rank", rank });
+                        }}
+                      />
+                      <span>{t("left.winnerRuleRank")}</span>
+                    </label>
+                  )}
+                </div>
+              )}
+              {!isPrizeBoard && (
+                <div className="resultOption__controls">
+                  <div className="resultOption__stepper">
+                    <Button
+                      variant="ghost"
+                      className="resultOption__stepBtn"
+                      disabled={isLocked || !canDecreaseResultCount}
+                      onClick={() => onSetWinnerCount(winnerCount - 1)}
+                    >
+                      -
+                    </Button>
+                    <input
+                      id="winner-count-input"
+                      className="resultOption__input"
+                      type="number"
+                      min={1}
+                      max={winnerCountMax}
+                      step={1}
+                      value={String(winnerCount)}
+                      disabled={isLocked}
+                      onChange={(event) => onSetWinnerCount(Number(event.currentTarget.value))}
+                    />
+                    <Button
+                      variant="ghost"
+                      className="resultOption__stepBtn"
+                      disabled={isLocked || !canIncreaseResultCount}
+                      onClick={() => onSetWinnerCount(winnerCount + 1)}
+                    >
+                      +
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {!isPrizeBoard && (
+                <RepeatRuleOption
+                  rule={repeatRule}
+                  outcome={repeatRuleOutcome}
+                  disabled={isLocked}
+                  onChange={onSetRepeatRule}
+                />
+              )}
+              <div className="resultOption__helper">
+                {resultHelper}
+              </div>
               {winnerCountWasClamped && (
                 <div className="resultOption__hint">{t("left.resultClamped")}</div>
               )}
@@ -500,28 +723,63 @@ export function LeftPanel(props: LeftPanelProps) {
               >
                 {t("left.participantSettings")}
               </Button>
+              <Button id="share-btn" variant="ghost" size="md" width="full" disabled={isLocked} onClick={onOpenShare}>
+                {t("share.open")}
+              </Button>
             </div>
           )}
+          {showParticipants && (
+            <RosterPresetBar
+              presets={rosterPresets}
+              activeId={activeRosterPresetId}
+              disabled={isLocked}
+              onSwitch={onSwitchRosterPreset}
+              onCreate={onCreateRosterPreset}
+              onRename={onRenameRosterPreset}
+              onDuplicate={onDuplicateRosterPreset}
+              onDelete={onDeleteRosterPreset}
+            />
+          )}
+          {showParticipants && (
+            <ParticipantTagFilter
+              tags={participantTags}
+              filter={participantFilter}
+              activeCount={activeParticipantCount}
+              totalCount={balls.length}
+              disabled={isLocked}
+              onCycle={onCycleTagFilter}
+              onClear={onClearTagFilter}
+            />
+          )}
           {showParticipants && (
             <div id="participant-list-body" className={`participantListWrap ${isLocked ? "is-locked" : ""}`}>
-              <div className="participantList" id="balls" aria-hidden={isLocked ? "true" : undefined}>
+              <div
+                className={["participantList", balls.length > LONG_PARTICIPANT_LIST ? "is-long" : ""].filter(Boolean).join(" ")}
+                id="balls"
+                aria-hidden={isLocked ? "true" : undefined}
+              >
                 {balls.map((ball) => {
                   const rowClassName = [
                     "participantRow",
                     draggingBallId === ball.id ? "is-dragging" : "",
                     dropTargetBallId === ball.id && draggingBallId !== ball.id ? "is-drop-target" : "",
+                    ball.active ? "" : "is-inactive",
                   ]
                     .filter(Boolean)
                     .join(" ");
+                  const isPresent = ball.count > 0;
+                  let rowLabel = ball.name;
+                  if (!isPresent) rowLabel = t("attendance.absent", { name: ball.name });
+                  else if (!ball.active) rowLabel = t("tagFilter.inactive", { name: ball.name });
 
                   return (
                     <div
                       key={ball.id}
                       data-ball-id={ball.id}
                       className={`${rowClassName} tooltip`}
-                      data-tip={ball.name}
-                      title={ball.name}
-                      aria-label={ball.name}
+                      data-tip={rowLabel}
+                      title={rowLabel}
+                      aria-label={rowLabel}
                       role="group"
                       onDragOver={(event) => handleDragOver(ball.id, event)}
                       onDrop={(event) => handleDrop(ball.id, event)}
@@ -550,15 +808,23 @@ export function LeftPanel(props: LeftPanelProps) {
                         </svg>
                       </button>
 
-                      <div className="participantRow__thumb">
-                        <img alt={ball.name} src={ball.imageDataUrl} />
-                      </div>
+                      <button
+                        type="button"
+                        className="participantRow__thumb participantRow__attendance"
+                        aria-pressed={isPresent}
+                        aria-label={t(isPresent ? "attendance.markAbsent" : "attendance.markPresent", { name: ball.name })}
+                        title={t("attendance.hint")}
+                        disabled={ball.locked}
+                        onClick={() => onToggleBallAttendance(ball.id)}
+                      >
+                        <img alt="" src={ball.imageDataUrl} loading="lazy" decoding="async" />
+                      </button>
 
                       <div className="participantRow__qty">
                         <Button
                           variant="ghost"
                           className="participantRow__qtyBtn"
-                          disabled={ball.locked || ball.count <= 1}
+                          disabled={ball.locked || ball.count <= 0}
                           onClick={() => onAdjustBallCount(ball.id, -1)}
                         >
                           -
@@ -567,7 +833,7 @@ export function LeftPanel(props: LeftPanelProps) {
                           className="participantRow__count"
                           type="number"
                           inputMode="numeric"
-                          min="1"
+                          min="0"
                           max="99"
                           step="1"
                           value={String(ball.count)}
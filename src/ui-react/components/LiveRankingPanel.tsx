@@ -0,0 +1,74 @@
+import { useLayoutEffect, useRef } from "react";
+import type { LiveRankingRowUiModel, LiveRankingUiModel } from "../../app/ui-store";
+import { useI18n } from "../../i18n/react";
+import { formatArrivalTime } from "./modals/ResultModal";
+
+type LiveRankingPanelProps = {
+  ranking: LiveRankingUiModel | null;
+};
+
+const ROW_MOVE_MS = 260;
+
+function prefersReducedMotion(): boolean {
+  if (typeof window === "undefined" || typeof window.matchMedia !== "function") return false;
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
+/** Leaderboard over the board while marbles run; rows slide to their new place when the order changes. */
+export function LiveRankingPanel({ ranking }: LiveRankingPanelProps) {
+  const { t } = useI18n();
+  const rowsRef = useRef(new Map<string, HTMLLIElement>());
+  const lastTopsRef = useRef(new Map<string, number>());
+
+  // FLIP: start each moved row at its old offset and let it glide to the new one.
+  useLayoutEffect(() => {
+    const tops = new Map<string, number>();
+    const animate = !prefersReducedMotion();
+    for (const [marbleId, row] of rowsRef.current) {
+      const top = row.offsetTop;
+      tops.set(marbleId, top);
+      const lastTop = lastTopsRef.current.get(marbleId);
+      if (!animate || lastTop == null || lastTop === top || typeof row.animate !== "function") continue;
+      row.animate([{ transform: `translateY(${lastTop - top}px)` }, { transform: "translateY(0)" }], {
+        duration: ROW_MOVE_MS,
+        easing: "cubic-bezier(0.2, 0.8, 0.2, 1)",
+      });
+    }
+    lastTopsRef.current = tops;
+  }, [ranking]);
+
+  if (!ranking) return null;
+
+  const renderRow = (row: LiveRankingRowUiModel) => (
+    <li
+      key={row.marbleId}
+      ref={(node) => {
+        if (node) rowsRef.current.set(row.marbleId, node);
+        else rowsRef.current.delete(row.marbleId);
+      }}
+      className={`liveRanking__row ${row.arrivalSeconds != null ? "is-finished" : ""}`}
+    >
+      <span className="liveRanking__rank">{row.rank}</span>
+      <img className="liveRanking__avatar" alt="" src={row.imageDataUrl} decoding="async" />
+      <span className="liveRanking__name">{row.name}</span>
+      {row.arrivalSeconds != null && (
+        <span className="liveRanking__time" title={t("liveRanking.arrived")}>
+          {formatArrivalTime(row.arrivalSeconds)}
+        </span>
+      )}
+    </li>
+  );
+
+  return (
+    <section className="liveRanking" aria-label={t("liveRanking.title")}>
+      <div className="liveRanking__title">{t("liveRanking.title")}</div>
+      <ol className="liveRanking__list">
+        {ranking.head.map(renderRow)}
+        {ranking.hiddenCount > 0 && (
+          <li className="liveRanking__gap">{t("liveRanking.hidden", { count: ranking.hiddenCount })}</li>
+        )}
+        {ranking.tail.map(renderRow)}
+      </ol>
+    </section>
+  );
+}
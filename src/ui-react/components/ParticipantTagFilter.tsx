@@ -0,0 +1,73 @@
+import { getTagFilterState, type ParticipantFilter, type TagFilterState } from "../../game/participant-tags";
+import { useI18n } from "../../i18n/react";
+import { Button } from "./Button";
+
+type ParticipantTagFilterProps = {
+  tags: ReadonlyArray<string>;
+  filter: ParticipantFilter;
+  activeCount: number;
+  totalCount: number;
+  disabled: boolean;
+  onCycle: (tag: string) => void;
+  onClear: () => void;
+};
+
+const CHIP_MARK_BY_STATE: Record<TagFilterState, string> = {
+  off: "",
+  include: "+",
+  exclude: "−",
+};
+
+/** Tag chips that pick who joins the next run; hidden while the roster has no tags. */
+export function ParticipantTagFilter({
+  tags,
+  filter,
+  activeCount,
+  totalCount,
+  disabled,
+  onCycle,
+  onClear,
+}: ParticipantTagFilterProps) {
+  const { t } = useI18n();
+  if (!tags.length) return null;
+  const hasFilter = tags.some((tag) => getTagFilterState(filter, tag) !== "off");
+
+  return (
+    <div className="tagFilter" role="group" aria-label={t("tagFilter.title")}>
+      <div className="tagFilter__chips">
+        {tags.map((tag) => {
+          const state = getTagFilterState(filter, tag);
+          const mark = CHIP_MARK_BY_STATE[state];
+          return (
+            <Button
+              key={tag}
+              variant="ghost"
+              size="sm"
+              className={`tagFilter__chip is-${state}`}
+              ariaPressed={state !== "off"}
+              ariaLabel={t(`tagFilter.chip.${state}`, { tag })}
+              title={t("tagFilter.chipHint")}
+              disabled={disabled}
+              onClick={() => onCycle(tag)}
+            >
+              {mark && (
+                <span className="tagFilter__mark" aria-hidden="true">
+                  {mark}
+                </span>
+              )}
+              #{tag}
+            </Button>
+          );
+        })}
+      </div>
+      {hasFilter && (
+        <div className="tagFilter__summary">
+          <span role="status">{t("tagFilter.summary", { active: activeCount, total: totalCount })}</span>
+          <Button variant="ghost" size="sm" disabled={disabled} onClick={onClear}>
+            {t("tagFilter.clear")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
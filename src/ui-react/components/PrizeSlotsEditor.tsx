@@ -0,0 +1,102 @@
+import type { PrizeSlot } from "../../game/board-config";
+import { useI18n } from "../../i18n/react";
+import { Button } from "./Button";
+
+const SLOT_COUNT_MIN = 2;
+const SLOT_COUNT_MAX = 8;
+const SLOT_WIDTH_CHOICES: readonly number[] = [0.5, 1, 1.5, 2, 3];
+
+type PrizeSlotsEditorProps = {
+  prizeMode: boolean;
+  prizeSlots: ReadonlyArray<PrizeSlot>;
+  disabled: boolean;
+  onSetPrizeMode: (isOn: boolean) => void;
+  onSetPrizeSlotCount: (count: number) => void;
+  onSetPrizeSlot: (index: number, patch: Partial<PrizeSlot>) => void;
+};
+
+export function PrizeSlotsEditor({
+  prizeMode,
+  prizeSlots,
+  disabled,
+  onSetPrizeMode,
+  onSetPrizeSlotCount,
+  onSetPrizeSlot,
+}: PrizeSlotsEditorProps) {
+  const { t } = useI18n();
+  const count = prizeSlots.length;
+
+  return (
+    <div className="prizeSlots">
+      <label className="prizeSlots__toggle">
+        <input
+          type="checkbox"
+          checked={prizeMode}
+          disabled={disabled}
+          onChange={(event) => onSetPrizeMode(event.currentTarget.checked)}
+        />
+        <span>{t("left.prizeMode")}</span>
+      </label>
+      {prizeMode && (
+        <>
+          <div className="prizeSlots__countRow">
+            <span className="prizeSlots__countLabel">{t("left.prizeSlotCount", { count })}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={disabled || count <= SLOT_COUNT_MIN}
+              onClick={() => onSetPrizeSlotCount(count - 1)}
+            >
+              -
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={disabled || count >= SLOT_COUNT_MAX}
+              onClick={() => onSetPrizeSlotCount(count + 1)}
+            >
+              +
+            </Button>
+          </div>
+          <ol className="prizeSlots__list">
+            {prizeSlots.map((slot, index) => (
+              <li className="prizeSlots__item" key={index}>
+                {/* Committed on blur/Enter so clearing the field to retype does not snap back to the default label. */}
+                <input
+                  key={slot.label}
+                  className="prizeSlots__label"
+                  type="text"
+                  maxLength={16}
+                  defaultValue={slot.label}
+                  disabled={disabled}
+                  aria-label={t("left.prizeSlotLabel", { index: index + 1 })}
+                  onBlur={(event) => {
+                    const label = event.currentTarget.value.trim();
+                    if (!label) event.currentTarget.value = slot.label;
+                    else onSetPrizeSlot(index, { label });
+                  }}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") event.currentTarget.blur();
+                  }}
+                />
+                <select
+                  className="prizeSlots__width"
+                  value={String(slot.width)}
+                  disabled={disabled}
+                  aria-label={t("left.prizeSlotWidth", { index: index + 1 })}
+                  onChange={(event) => onSetPrizeSlot(index, { width: Number(event.currentTarget.value) })}
+                >
+                  {SLOT_WIDTH_CHOICES.map((width) => (
+                    <option key={width} value={String(width)}>
+                      ×{width}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
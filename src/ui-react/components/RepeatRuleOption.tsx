@@ -0,0 +1,101 @@
+import {
+  REPEAT_RULE_BONUS_MAX,
+  REPEAT_RULE_DRAWS_MAX,
+  REPEAT_RULE_KINDS,
+  type RepeatRule,
+  type RepeatRuleChange,
+  type RepeatRuleOutcome,
+} from "../../game/repeat-rules";
+import { useI18n } from "../../i18n/react";
+import { Button } from "./Button";
+
+type RepeatRuleOptionProps = {
+  rule: RepeatRule;
+  outcome: RepeatRuleOutcome;
+  disabled: boolean;
+  onChange: (rule: RepeatRule) => void;
+};
+
+export function RepeatRuleOption({ rule, outcome, disabled, onChange }: RepeatRuleOptionProps) {
+  const { t } = useI18n();
+
+  const describeChange = (change: RepeatRuleChange) => {
+    if (change.to === 0) return t("left.repeatRuleExcluded", { name: change.name, n: change.wonDrawsAgo ?? 1 });
+    return t("left.repeatRuleBoosted", { name: change.name, from: change.from, to: change.to });
+  };
+
+  const renderOutcome = () => {
+    if (rule.kind === "off") return null;
+    if (outcome.skipped) return <div className="resultOption__hint">{t("left.repeatRuleSkipped")}</div>;
+    if (!outcome.changes.length) return <div className="repeatRule__idle">{t("left.repeatRuleIdle")}</div>;
+    return (
+      <ul className="repeatRule__changes" aria-label={t("left.repeatRuleChanges")}>
+        {outcome.changes.map((change) => (
+          <li key={change.ballId} className={change.to === 0 ? "is-excluded" : "is-boosted"}>
+            {describeChange(change)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="repeatRule">
+      <div className="resultOption__label">{t("left.repeatRule")}</div>
+      <div className="boardPicker__choices" role="group" aria-label={t("left.repeatRule")}>
+        {REPEAT_RULE_KINDS.map((kind) => (
+          <Button
+            key={kind}
+            variant="ghost"
+            size="sm"
+            className={`boardPicker__choice ${kind === rule.kind ? "is-active" : ""}`}
+            ariaPressed={kind === rule.kind}
+            disabled={disabled}
+            onClick={() => onChange({ ...rule, kind })}
+          >
+            {t(`left.repeatRule.${kind}`)}
+          </Button>
+        ))}
+      </div>
+      {rule.kind !== "off" && (
+        <div className="repeatRule__params">
+          <label className="resultOption__rank">
+            <input
+              className="resultOption__input"
+              type="number"
+              min={1}
+              max={REPEAT_RULE_DRAWS_MAX}
+              step={1}
+              value={String(rule.draws)}
+              disabled={disabled}
+              onChange={(event) => {
+                const draws = Math.floor(Number(event.currentTarget.value));
+                if (draws >= 1) onChange({ ...rule, draws });
+              }}
+            />
+            <span>{t("left.repeatRuleDraws")}</span>
+          </label>
+          {rule.kind === "boost" && (
+            <label className="resultOption__rank">
+              <input
+                className="resultOption__input"
+                type="number"
+                min={1}
+                max={REPEAT_RULE_BONUS_MAX}
+                step={1}
+                value={String(rule.bonus)}
+                disabled={disabled}
+                onChange={(event) => {
+                  const bonus = Math.floor(Number(event.currentTarget.value));
+                  if (bonus >= 1) onChange({ ...rule, bonus });
+                }}
+              />
+              <span>{t("left.repeatRuleBonus")}</span>
+            </label>
+          )}
+        </div>
+      )}
+      {renderOutcome()}
+    </div>
+  );
+}
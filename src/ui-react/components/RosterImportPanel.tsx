@@ -0,0 +1,132 @@
+import type { RosterImportRow } from "../../app/roster-import";
+import type { RosterImportOption, RosterImportUiState } from "../../app/ui-store";
+import { useI18n } from "../../i18n/react";
+import { Button } from "./Button";
+
+const IMPORT_FILE_ACCEPT = ".csv,.tsv,.txt,text/csv,text/plain,text/tab-separated-values";
+
+type RosterImportPanelProps = {
+  importState: RosterImportUiState;
+  disabled: boolean;
+  onChangeText: (text: string) => void;
+  onLoadFile: (file: File) => void;
+  onSetOption: (option: RosterImportOption, isOn: boolean) => void;
+  onApply: () => void;
+  onClose: () => void;
+  /** Called before the native file picker opens (the dialog must not close on its Escape). */
+  onFilePickerOpen: () => void;
+};
+
+type RowTone = "error" | "duplicate" | "overLimit" | "add";
+
+function getRowTone(row: RosterImportRow): RowTone {
+  if (row.error) return "error";
+  if (row.overLimit) return "overLimit";
+  if (row.duplicate) return "duplicate";
+  return "add";
+}
+
+export function RosterImportPanel({
+  importState,
+  disabled,
+  onChangeText,
+  onLoadFile,
+  onSetOption,
+  onApply,
+  onClose,
+  onFilePickerOpen,
+}: RosterImportPanelProps) {
+  const { t } = useI18n();
+  const { preview, busy } = importState;
+  const locked = disabled || busy;
+  const statusLabel: Record<Exclude<RowTone, "error">, string> = {
+    duplicate: t("import.statusDuplicate"),
+    overLimit: t("import.statusOverLimit"),
+    add: t("import.statusAdd"),
+  };
+
+  return (
+    <section className="rosterImport" aria-label={t("import.title")}>
+      <div className="rosterImport__head">
+        <strong className="rosterImport__title">{t("import.title")}</strong>
+        <Button variant="ghost" size="sm" disabled={busy} onClick={onClose}>
+          {t("common.close")}
+        </Button>
+      </div>
+      <p className="rosterImport__hint">{t("import.hint")}</p>
+      <textarea
+        className="rosterImport__text"
+        rows={6}
+        value={importState.text}
+        disabled={locked}
+        placeholder={t("import.placeholder")}
+        aria-label={t("import.title")}
+        onChange={(event) => onChangeText(event.currentTarget.value)}
+      />
+      <div className="rosterImport__options">
+        <label className="rosterImport__file">
+          <span>{t("import.file")}</span>
+          <input
+            type="file"
+            accept={IMPORT_FILE_ACCEPT}
+            disabled={locked}
+            onClick={onFilePickerOpen}
+            onChange={(event) => {
+              const file = event.currentTarget.files?.[0];
+              event.currentTarget.value = "";
+              if (file) onLoadFile(file);
+            }}
+          />
+        </label>
+        <label className="rosterImport__toggle">
+          <input
+            type="checkbox"
+            checked={importState.replace}
+            disabled={locked}
+            onChange={(event) => onSetOption("replace", event.currentTarget.checked)}
+          />
+          <span>{t("import.replace")}</span>
+        </label>
+        <label className="rosterImport__toggle">
+          <input
+            type="checkbox"
+            checked={importState.includeDuplicates}
+            disabled={locked}
+            onChange={(event) => onSetOption("includeDuplicates", event.currentTarget.checked)}
+          />
+          <span>{t("import.includeDuplicates")}</span>
+        </label>
+      </div>
+      {preview.rows.length > 0 && (
+        <>
+          <div className="rosterImport__summary" aria-live="polite">
+            {t("import.summary", {
+              included: preview.includedCount,
+              duplicates: preview.duplicateCount,
+              errors: preview.errorCount,
+              overLimit: preview.overLimitCount,
+            })}
+          </div>
+          <ol className="rosterImport__rows">
+            {preview.rows.map((row) => {
+              const tone = getRowTone(row);
+              return (
+                <li className={`rosterImport__row is-${tone}`} key={row.line}>
+                  <span className="rosterImport__line">{t("import.line", { line: row.line })}</span>
+                  <span className="rosterImport__name">{row.name || "—"}</span>
+                  <span className="rosterImport__count">×{row.count}</span>
+                  <span className="rosterImport__status">{tone === "error" ? row.error : statusLabel[tone]}</span>
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+      <div className="rosterImport__actions">
+        <Button variant="primary" disabled={locked || preview.includedCount <= 0} onClick={onApply}>
+          {busy ? t("import.applying") : t("import.apply")}
+        </Button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { ROSTER_PRESET_MAX, ROSTER_PRESET_NAME_MAX } from "../../app/roster-presets";
+import type { RosterPresetUiModel } from "../../app/ui-store";
+import { useI18n } from "../../i18n/react";
+import { Button } from "./Button";
+
+type RosterPresetBarProps = {
+  presets: ReadonlyArray<RosterPresetUiModel>;
+  activeId: string;
+  disabled: boolean;
+  onSwitch: (presetId: string) => void;
+  onCreate: () => void;
+  onRename: (presetId: string, name: string) => void;
+  onDuplicate: (presetId: string) => void;
+  onDelete: (presetId: string) => void;
+};
+
+export function RosterPresetBar({
+  presets,
+  activeId,
+  disabled,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: RosterPresetBarProps) {
+  const { t } = useI18n();
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const active = presets.find((preset) => preset.id === activeId);
+  const isFull = presets.length >= ROSTER_PRESET_MAX;
+  const isConfirmingDelete = confirmDeleteId === activeId;
+
+  // A pending delete never carries over to another preset.
+  useEffect(() => {
+    setConfirmDeleteId(null);
+  }, [activeId, disabled]);
+
+  return (
+    <div className="rosterPresets" role="group" aria-label={t("preset.title")}>
+      <div className="rosterPresets__chips">
+        {presets.map((preset) => (
+          <Button
+            key={preset.id}
+            variant={preset.id === activeId ? "accent" : "ghost"}
+            size="sm"
+            className="rosterPresets__chip"
+            ariaPressed={preset.id === activeId}
+            disabled={disabled}
+            onClick={() => onSwitch(preset.id)}
+          >
+            {preset.name}
+          </Button>
+        ))}
+        <Button variant="ghost" size="sm" disabled={disabled || isFull} onClick={onCreate}>
+          + {t("preset.create")}
+        </Button>
+      </div>
+      {active && (
+        <div className="rosterPresets__edit">
+          {/* Committed on blur/Enter; an empty name falls back to the current one. */}
+          <input
+            key={`${active.id}:${active.name}`}
+            className="rosterPresets__name"
+            type="text"
+            maxLength={ROSTER_PRESET_NAME_MAX}
+            defaultValue={active.name}
+            disabled={disabled}
+            aria-label={t("preset.nameLabel")}
+            onBlur={(event) => {
+              const name = event.currentTarget.value.trim();
+              if (!name) event.currentTarget.value = active.name;
+              else if (name !== active.name) onRename(active.id, name);
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") event.currentTarget.blur();
+            }}
+          />
+          <Button variant="ghost" size="sm" disabled={disabled || isFull} onClick={() => onDuplicate(active.id)}>
+            {t("preset.duplicate")}
+          </Button>
+          <Button
+            variant={isConfirmingDelete ? "danger" : "ghost"}
+            size="sm"
+            disabled={disabled || presets.length <= 1}
+            onClick={() => {
+              if (!isConfirmingDelete) {
+                setConfirmDeleteId(active.id);
+                return;
+              }
+              setConfirmDeleteId(null);
+              onDelete(active.id);
+            }}
+          >
+            {isConfirmingDelete ? t("preset.deleteConfirm") : t("preset.delete")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  SETTINGS_BACKUP_SECTIONS,
+  getRestoreModeChoices,
+  type SettingsBackupSection,
+  type SettingsRestoreMode,
+} from "../../app/settings-backup";
+import type { SettingsRestoreUiModel } from "../../app/ui-store";
+import { useI18n } from "../../i18n/react";
+import { Button } from "./Button";
+
+type SettingsRestorePanelProps = {
+  restore: SettingsRestoreUiModel;
+  disabled: boolean;
+  onSetMode: (section: SettingsBackupSection, mode: SettingsRestoreMode) => void;
+  onApply: () => void;
+  onClose: () => void;
+};
+
+function formatTrack(track: string): string {
+  return track.replace(/^bgm_/, "BGM ");
+}
+
+export function SettingsRestorePanel({ restore, disabled, onSetMode, onApply, onClose }: SettingsRestorePanelProps) {
+  const { language, t } = useI18n();
+  const exportedAt = new Date(restore.exportedAt);
+  const date = Number.isNaN(exportedAt.getTime()) ? "—" : exportedAt.toLocaleString(language, { dateStyle: "medium" });
+  const canApply = SETTINGS_BACKUP_SECTIONS.some((section) => restore.modes[section] !== "skip");
+
+  const describeSection = (section: SettingsBackupSection): string => {
+    if (section === "roster") return t("backup.summary.roster", { count: restore.participantCount ?? 0 });
+    if (section === "draw" && restore.draw) {
+      return t("backup.summary.draw", {
+        count: restore.draw.winnerCount,
+        speed: restore.draw.speedMultiplier,
+        caption: restore.draw.startCaption,
+      });
+    }
+    if (section === "audio" && restore.audio) {
+      const track = formatTrack(restore.audio.bgmTrack);
+      return restore.audio.bgmOn ? t("backup.summary.audioOn", { track }) : t("backup.summary.audioOff", { track });
+    }
+    return restore.language === "en" ? t("lang.switchToEn") : t("lang.switchToKo");
+  };
+
+  const isPresent = (section: SettingsBackupSection): boolean => {
+    if (section === "roster") return restore.participantCount != null;
+    return restore[section] != null;
+  };
+
+  return (
+    <section className="rosterImport" aria-label={t("backup.title")}>
+      <div className="rosterImport__head">
+        <strong className="rosterImport__title">{t("backup.title")}</strong>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          {t("common.close")}
+        </Button>
+      </div>
+      <p className="rosterImport__hint">{t("backup.fileInfo", { file: restore.fileName, date })}</p>
+      <p className="rosterImport__hint">{t("backup.hint")}</p>
+      <ul className="settingsRestore__sections">
+        {SETTINGS_BACKUP_SECTIONS.map((section) => {
+          const present = isPresent(section);
+          return (
+            <li className={`settingsRestore__section ${present ? "" : "is-missing"}`} key={section}>
+              <div className="settingsRestore__info">
+                <strong>{t(`backup.section.${section}`)}</strong>
+                <span>{present ? describeSection(section) : t("backup.missing")}</span>
+              </div>
+              {present && (
+                <div className="boardPicker__choices" role="group" aria-label={t(`backup.section.${section}`)}>
+                  {getRestoreModeChoices(section).map((mode) => (
+                    <Button
+                      key={mode}
+                      variant="ghost"
+                      size="sm"
+                      className={`boardPicker__choice ${mode === restore.modes[section] ? "is-active" : ""}`}
+                      ariaPressed={mode === restore.modes[section]}
+                      disabled={disabled}
+                      onClick={() => onSetMode(section, mode)}
+                    >
+                      {t(`backup.mode.${mode}`)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div className="rosterImport__actions">
+        <Button variant="primary" disabled={disabled || !canApply} onClick={onApply}>
+          {t("backup.apply")}
+        </Button>
+      </div>
+    </section>
+  );
+}
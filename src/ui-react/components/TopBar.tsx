@@ -6,6 +6,7 @@ import { AppIcon } from "./Icons";
 type TopBarProps = {
   startDisabled: boolean;
   startLabel: string;
+  estimatedRaceSeconds: number | null;
   stopRunVisible: boolean;
   stopRunDisabled: boolean;
   speedMultiplier: number;
@@ -27,6 +28,7 @@ export function TopBar(props: TopBarProps) {
   const {
     startDisabled,
     startLabel,
+    estimatedRaceSeconds,
     stopRunVisible,
     stopRunDisabled,
     speedMultiplier,
@@ -82,6 +84,11 @@ export function TopBar(props: TopBarProps) {
         <Button id="start-btn" variant="primary" className="topbar__start" disabled={startDisabled} onClick={onStart}>
           {startLabel}
         </Button>
+        {estimatedRaceSeconds != null && !stopRunVisible ? (
+          <span className="topbar__estimate" title={t("topbar.estimateTitle")}>
+            {t("topbar.estimate", { seconds: estimatedRaceSeconds })}
+          </span>
+        ) : null}
         {runActionButtons.length > 0 ? (
           <div className="topbar__runActions">
             {runActionButtons}
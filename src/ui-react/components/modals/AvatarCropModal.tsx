@@ -0,0 +1,134 @@
+import { useRef, useState, type KeyboardEvent, type PointerEvent } from "react";
+import {
+  AVATAR_CROP_MAX_ZOOM,
+  DEFAULT_AVATAR_CROP,
+  getAvatarCropRect,
+  panAvatarCrop,
+  zoomAvatarCrop,
+  type AvatarCrop,
+} from "../../../app/avatar-crop";
+import type { AvatarCropUiState } from "../../../app/ui-store";
+import { useI18n } from "../../../i18n/react";
+import { Button } from "../Button";
+import { ModalCard } from "../Modal";
+
+type AvatarCropModalProps = {
+  avatarCrop: AvatarCropUiState | null;
+  onApply: (crop: AvatarCrop) => void;
+  onClose: () => void;
+};
+
+/** Matches `.avatarCrop__stage` in styles.css. */
+const STAGE_SIZE = 240;
+const KEY_PAN_STEP = 12;
+const KEY_PAN_BY_KEY: Record<string, [number, number]> = {
+  ArrowLeft: [-KEY_PAN_STEP, 0],
+  ArrowRight: [KEY_PAN_STEP, 0],
+  ArrowUp: [0, -KEY_PAN_STEP],
+  ArrowDown: [0, KEY_PAN_STEP],
+};
+
+/** Mount with `key={sourceUrl}` so each new file starts from the centred crop. */
+export function AvatarCropModal({ avatarCrop, onApply, onClose }: AvatarCropModalProps) {
+  const { t } = useI18n();
+  const width = avatarCrop?.width ?? 1;
+  const height = avatarCrop?.height ?? 1;
+  const [crop, setCrop] = useState<AvatarCrop>(DEFAULT_AVATAR_CROP);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const rect = getAvatarCropRect(width, height, crop);
+  const scale = STAGE_SIZE / rect.size;
+
+  // Moves the image by stage pixels, so the crop goes the other way.
+  function moveImage(dx: number, dy: number) {
+    setCrop((prev) => {
+      const size = getAvatarCropRect(width, height, prev).size;
+      return panAvatarCrop(width, height, prev, (-dx * size) / STAGE_SIZE, (-dy * size) / STAGE_SIZE);
+    });
+  }
+
+  function onPointerDown(event: PointerEvent<HTMLDivElement>) {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+  }
+
+  function onPointerMove(event: PointerEvent<HTMLDivElement>) {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    moveImage(event.clientX - drag.x, event.clientY - drag.y);
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY };
+  }
+
+  function onPointerEnd(event: PointerEvent<HTMLDivElement>) {
+    if (dragRef.current?.pointerId === event.pointerId) dragRef.current = null;
+  }
+
+  function onKeyDown(event: KeyboardEvent<HTMLDivElement>) {
+    const step = KEY_PAN_BY_KEY[event.key];
+    if (!step) return;
+    event.preventDefault();
+    moveImage(step[0], step[1]);
+  }
+
+  return (
+    <ModalCard
+      size="sm"
+      title={t("avatarCrop.title", { name: avatarCrop?.ballName ?? "" })}
+      description={t("avatarCrop.description")}
+      onClose={onClose}
+      footer={
+        <div className="resultModal__actions">
+          <Button variant="accent" type="button" disabled={!avatarCrop} onClick={() => onApply(crop)}>
+            {t("common.apply")}
+          </Button>
+          <Button variant="ghost" type="button" onClick={onClose}>
+            {t("common.cancel")}
+          </Button>
+        </div>
+      }
+    >
+      <div className="avatarCrop">
+        <div
+          className="avatarCrop__stage"
+          role="group"
+          tabIndex={0}
+          aria-label={t("avatarCrop.stage")}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerEnd}
+          onPointerCancel={onPointerEnd}
+          onKeyDown={onKeyDown}
+        >
+          {avatarCrop && (
+            <img
+              className="avatarCrop__image"
+              alt=""
+              draggable={false}
+              src={avatarCrop.sourceUrl}
+              style={{
+                width: width * scale,
+                height: height * scale,
+                left: -rect.x * scale,
+                top: -rect.y * scale,
+              }}
+            />
+          )}
+          <div className="avatarCrop__mask" aria-hidden="true" />
+        </div>
+        <label className="avatarCrop__zoom">
+          <span>{t("avatarCrop.zoom")}</span>
+          <input
+            type="range"
+            min={1}
+            max={AVATAR_CROP_MAX_ZOOM}
+            step={0.01}
+            value={crop.zoom}
+            onChange={(event) => {
+              const zoom = Number(event.currentTarget.value);
+              setCrop((prev) => zoomAvatarCrop(width, height, prev, zoom));
+            }}
+          />
+        </label>
+      </div>
+    </ModalCard>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from "react";
+import { filterDrawHistory, type DrawHistoryEntry, type DrawHistoryFilter } from "../../../game/draw-history";
+import type { DrawHistoryExportFormat } from "../../../app/ui-store";
+import { useI18n } from "../../../i18n/react";
+import { Button } from "../Button";
+import { ModalCard } from "../Modal";
+import { formatArrivalTime } from "./ResultModal";
+
+const WINNER_PREVIEW_COUNT = 3;
+
+type DrawHistoryModalProps = {
+  open: boolean;
+  entries: ReadonlyArray<DrawHistoryEntry>;
+  onClose: () => void;
+  onCopy: (entryId: string) => void;
+  onExport: (format: DrawHistoryExportFormat, filter: DrawHistoryFilter) => void;
+};
+
+function formatTimestamp(iso: string, language: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return date.toLocaleString(language, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function DrawHistoryModal({ open, entries, onClose, onCopy, onExport }: DrawHistoryModalProps) {
+  const { language, t } = useI18n();
+  const [filter, setFilter] = useState<DrawHistoryFilter>({ query: "", from: "", to: "" });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const visible = useMemo(() => filterDrawHistory(entries, filter), [entries, filter]);
+  const selected = selectedId ? entries.find((entry) => entry.id === selectedId) ?? null : null;
+
+  // Reopening starts from the list.
+  useEffect(() => {
+    if (!open) setSelectedId(null);
+  }, [open]);
+
+  function updateFilter(patch: Partial<DrawHistoryFilter>) {
+    setFilter((prev) => ({ ...prev, ...patch }));
+  }
+
+  const renderWinners = (entry: DrawHistoryEntry) => {
+    if (!entry.slotLabels.length) {
+      return (
+        <ol className="resultSummaryList">
+          {entry.winners.map((winner) => (
+            <li
+              key={`${winner.rank}-${winner.ballId}-${winner.finishedAt}`}
+              className={`resultSummaryList__item ${winner.rank === 1 ? "is-top" : ""}`}
+            >
+              <span className="resultSummaryList__rank">#{winner.rank}</span>
+              <span className="resultSummaryList__name">{winner.name}</span>
+              <span className="resultSummaryList__time">{formatArrivalTime(winner.finishedAt)}</span>
+            </li>
+          ))}
+        </ol>
+      );
+    }
+
+    return (
+      <div className="resultSlotGroups">
+        {entry.slotLabels.map((label, slot) => {
+          const members = entry.winners.filter((winner) => winner.slot === slot);
+          return (
+            <section className="resultSlotGroups__group" key={`${slot}-${label}`}>
+              <div className="resultSlotGroups__head">
+                <span className="resultSlotGroups__label">{label}</span>
+                <span className="resultSlotGroups__count">{t("result.slotCount", { count: members.length })}</span>
+              </div>
+              {members.length ? (
+                <ul className="resultSlotGroups__names">
+                  {members.map((winner) => (
+                    <li key={`${winner.rank}-${winner.ballId}`}>{winner.name}</li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="resultSlotGroups__empty">{t("result.slotEmpty")}</div>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderDetail = (entry: DrawHistoryEntry) => (
+    <div className="drawHistory__detail">
+      <div className="drawHistory__meta">
+        <span>{formatTimestamp(entry.at, language)}</span>
+        <span>{entry.rosterName}</span>
+        <span>
+          {t(`left.boardLayout.${entry.layout}`)} · {t("history.participants", { count: entry.participantCount })}
+        </span>
+        <span title={entry.rosterFingerprint}>
+          {t("history.seed", { seed: entry.seed, fingerprint: entry.rosterFingerprint.slice(0, 12) })}
+        </span>
+      </div>
+      {renderWinners(entry)}
+    </div>
+  );
+
+  const renderEntries = () => {
+    if (!visible.length) {
+      return <div className="drawHistory__empty">{entries.length ? t("history.noMatch") : t("history.empty")}</div>;
+    }
+
+    return (
+      <ul className="drawHistory__list">
+        {visible.map((entry) => {
+          const names = entry.winners.slice(0, WINNER_PREVIEW_COUNT).map((winner) => winner.name);
+          const more = entry.winners.length - names.length;
+          return (
+            <li key={entry.id}>
+              <button type="button" className="drawHistory__item" onClick={() => setSelectedId(entry.id)}>
+                <span className="drawHistory__when">{formatTimestamp(entry.at, language)}</span>
+                <span className="drawHistory__roster">
+                  {entry.rosterName} · {t(`left.boardLayout.${entry.layout}`)}
+                </span>
+                <span className="drawHistory__winners">
+                  {names.join(", ")}
+                  {more > 0 ? ` ${t("history.more", { count: more })}` : ""}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  const renderList = () => (
+    <>
+      <div className="drawHistory__filters">
+        <input
+          className="drawHistory__query"
+          type="search"
+          value={filter.query}
+          placeholder={t("history.searchPlaceholder")}
+          aria-label={t("history.search")}
+          onChange={(event) => updateFilter({ query: event.currentTarget.value })}
+        />
+        <label className="drawHistory__date">
+          <span>{t("history.from")}</span>
+          <input type="date" value={filter.from} onChange={(event) => updateFilter({ from: event.currentTarget.value })} />
+        </label>
+        <label className="drawHistory__date">
+          <span>{t("history.to")}</span>
+          <input type="date" value={filter.to} onChange={(event) => updateFilter({ to: event.currentTarget.value })} />
+        </label>
+      </div>
+      {renderEntries()}
+    </>
+  );
+
+  const footer = selected ? (
+    <div className="resultModal__actions">
+      <Button variant="ghost" type="button" onClick={() => setSelectedId(null)}>
+        {t("history.back")}
+      </Button>
+      <Button variant="accent" type="button" onClick={() => onCopy(selected.id)}>
+        {t("result.copy")}
+      </Button>
+    </div>
+  ) : (
+    <div className="resultModal__actions">
+      <Button variant="ghost" type="button" disabled={!visible.length} onClick={() => onExport("csv", filter)}>
+        {t("history.exportCsv")}
+      </Button>
+      <Button variant="ghost" type="button" disabled={!visible.length} onClick={() => onExport("json", filter)}>
+        {t("history.exportJson")}
+      </Button>
+      <Button variant="ghost" type="button" onClick={onClose}>
+        {t("common.close")}
+      </Button>
+    </div>
+  );
+
+  return (
+    <ModalCard
+      size="md"
+      className="twModal__card--scrollable"
+      title={t("history.title")}
+      description={t("history.description", { count: entries.length })}
+      onClose={onClose}
+      footer={footer}
+    >
+      <div className="drawHistory">{selected ? renderDetail(selected) : renderList()}</div>
+    </ModalCard>
+  );
+}
@@ -18,6 +18,9 @@ type ResultModalProps = {
   onSpinDone: () => void;
   onCopy: () => void;
   onRestart: () => void;
+  proofCommitment?: string;
+  proofSeed?: number | null;
+  onDownloadProof?: () => void;
 };
 
 const SPIN_DURATION_MS = 3700;
@@ -26,7 +29,7 @@ const REEL_ITEM_HEIGHT = 68;
 const REEL_CENTER_Y = REEL_ITEM_HEIGHT;
 const RESULT_BURST_DURATION_MS = 1100;
 
-type ResultViewKind = "spinning" | "single" | "summary" | "waiting";
+type ResultViewKind = "spinning" | "single" | "summary" | "slots" | "waiting";
 
 function easeOutCubic(t: number) {
   return 1 - (1 - t) ** 3;
@@ -40,7 +43,7 @@ function lerp(a: number, b: number, t: number) {
   return a + (b - a) * t;
 }
 
-function formatArrivalTime(value: number): string {
+export function formatArrivalTime(value: number): string {
   if (!Number.isFinite(value) || value <= 0) return "00:00:00";
   const totalMs = Math.max(0, Math.round(value * 1000));
   const minutes = Math.floor(totalMs / 60000);
@@ -58,7 +61,9 @@ function getResultViewKind(params: {
   isSingle: boolean;
   hasWinner: boolean;
   isSummary: boolean;
+  isSlotGroups: boolean;
 }): ResultViewKind {
+  if (params.isSlotGroups) return "slots";
   if (params.isSpinning && params.spinPlan) return "spinning";
   if (params.isSingle && params.hasWinner) return "single";
   if (params.isSummary) return "summary";
@@ -73,6 +78,9 @@ export function ResultModal({
   onSpinDone,
   onCopy,
   onRestart,
+  proofCommitment = "",
+  proofSeed = null,
+  onDownloadProof,
 }: ResultModalProps) {
   const { t } = useI18n();
   const reelViewportRef = useRef<HTMLDivElement | null>(null);
@@ -89,6 +97,8 @@ export function ResultModal({
   const isSpinning = state.phase === "spinning";
   const isSingle = state.phase === "single" && state.items.length === 1;
   const isSummary = state.phase === "summary" && state.items.length >= 2;
+  const hasProof = proofSeed != null && !!proofCommitment;
+  const isSlotGroups = state.slotLabels.length > 0 && state.phase === "summary";
 
   useEffect(() => {
     onSpinDoneRef.current = onSpinDone;
@@ -242,13 +252,15 @@ export function ResultModal({
   }, [state.open, isSpinning, isSingle, isSummary]);
 
   const resultCountTitle = t("result.listTitle", { count: state.items.length });
-  const title = isSpinning ? t("result.waitingTitle") : resultCountTitle;
+  let title = isSpinning ? t("result.waitingTitle") : resultCountTitle;
+  if (isSlotGroups) title = t("result.slotTitle", { count: state.items.length });
   const viewKind = getResultViewKind({
     isSpinning,
     spinPlan,
     isSingle,
     hasWinner: Boolean(finalWinner),
     isSummary,
+    isSlotGroups,
   });
 
   const renderBody = () => {
@@ -301,6 +313,33 @@ export function ResultModal({
       );
     }
 
+    if (viewKind === "slots") {
+      return (
+        <div className="resultSlotGroups">
+          {state.slotLabels.map((label, slot) => {
+            const members = state.items.filter((item) => item.slot === slot);
+            return (
+              <section className="resultSlotGroups__group" key={`${slot}-${label}`}>
+                <div className="resultSlotGroups__head">
+                  <span className="resultSlotGroups__label">{label}</span>
+                  <span className="resultSlotGroups__count">{t("result.slotCount", { count: members.length })}</span>
+                </div>
+                {members.length ? (
+                  <ul className="resultSlotGroups__names">
+                    {members.map((item) => (
+                      <li key={`${item.rank}-${item.ballId}`}>{item.name}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="resultSlotGroups__empty">{t("result.slotEmpty")}</div>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      );
+    }
+
     return <div className="resultRevealWaiting">{t("result.waitingBody")}</div>;
   };
 
@@ -317,6 +356,11 @@ export function ResultModal({
 
     return (
       <div className="resultModal__actions">
+        {hasProof && onDownloadProof ? (
+          <Button variant="ghost" className="resultModal__proof" type="button" onClick={onDownloadProof}>
+            {t("result.downloadProof")}
+          </Button>
+        ) : null}
         <Button variant="ghost" className="resultModal__copy" type="button" onClick={onCopy}>
           {t("result.copy")}
         </Button>
@@ -350,6 +394,11 @@ export function ResultModal({
           </div>
         ) : null}
         {renderBody()}
+        {hasProof && !isSpinning ? (
+          <div className="resultModal__proofSummary" title={proofCommitment}>
+            {t("result.proofSummary", { hash: proofCommitment.slice(0, 12), seed: proofSeed })}
+          </div>
+        ) : null}
       </div>
     </ModalCard>
   );
@@ -0,0 +1,75 @@
+import { SHARE_LINK_SOFT_MAX } from "../../../app/share-link";
+import type { ShareLinkOption, ShareLinkUiState } from "../../../app/ui-store";
+import { useI18n } from "../../../i18n/react";
+import { Button } from "../Button";
+import { ModalCard } from "../Modal";
+
+type ShareLinkModalProps = {
+  shareLink: ShareLinkUiState | null;
+  /** A finished draw has a revealed seed to share. */
+  seedAvailable: boolean;
+  onClose: () => void;
+  onSetOption: (option: ShareLinkOption, isOn: boolean) => void;
+  onCopy: () => void;
+};
+
+export function ShareLinkModal({ shareLink, seedAvailable, onClose, onSetOption, onCopy }: ShareLinkModalProps) {
+  const { t } = useI18n();
+  const url = shareLink?.url ?? "";
+  const busy = !!shareLink?.busy;
+
+  return (
+    <ModalCard
+      size="md"
+      title={t("share.title")}
+      description={t("share.description")}
+      onClose={onClose}
+      footer={
+        <div className="resultModal__actions">
+          <Button variant="accent" type="button" disabled={!url || busy} onClick={onCopy}>
+            {t("share.copy")}
+          </Button>
+          <Button variant="ghost" type="button" onClick={onClose}>
+            {t("common.close")}
+          </Button>
+        </div>
+      }
+    >
+      <div className="shareLink">
+        <label className="prizeSlots__toggle">
+          <input
+            type="checkbox"
+            checked={!!shareLink?.includeImages}
+            disabled={busy}
+            onChange={(event) => onSetOption("includeImages", event.currentTarget.checked)}
+          />
+          <span>{t("share.includeImages")}</span>
+        </label>
+        <label className="prizeSlots__toggle">
+          <input
+            type="checkbox"
+            checked={!!shareLink?.includeSeed}
+            disabled={busy || !seedAvailable}
+            onChange={(event) => onSetOption("includeSeed", event.currentTarget.checked)}
+          />
+          <span>{t("share.includeSeed")}</span>
+        </label>
+        {!seedAvailable && <div className="shareLink__hint">{t("share.seedUnavailable")}</div>}
+        <input
+          className="shareLink__url"
+          type="text"
+          readOnly
+          aria-label={t("share.link")}
+          value={busy ? t("share.building") : url}
+          onFocus={(event) => event.currentTarget.select()}
+        />
+        {url && !busy && (
+          <div className="shareLink__hint">
+            {t("share.length", { count: url.length })}
+            {url.length > SHARE_LINK_SOFT_MAX ? ` · ${t("share.tooLong")}` : ""}
+          </div>
+        )}
+      </div>
+    </ModalCard>
+  );
+}
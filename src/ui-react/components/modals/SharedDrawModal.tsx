@@ -0,0 +1,55 @@
+import type { SharedDrawUiModel } from "../../../app/ui-store";
+import { useI18n } from "../../../i18n/react";
+import { Button } from "../Button";
+import { ModalCard } from "../Modal";
+
+const NAME_PREVIEW_COUNT = 8;
+
+type SharedDrawModalProps = {
+  offer: SharedDrawUiModel | null;
+  /** Participants in the roster the link would replace. */
+  currentCount: number;
+  disabled: boolean;
+  onAccept: () => void;
+  onDismiss: () => void;
+};
+
+export function SharedDrawModal({ offer, currentCount, disabled, onAccept, onDismiss }: SharedDrawModalProps) {
+  const { t } = useI18n();
+  if (!offer) return null;
+  const names = offer.names.slice(0, NAME_PREVIEW_COUNT);
+  const more = offer.names.length - names.length;
+
+  return (
+    <ModalCard
+      size="sm"
+      title={t("share.offerTitle")}
+      description={t("share.offerDescription", { count: currentCount })}
+      onClose={onDismiss}
+      footer={
+        <div className="resultModal__actions">
+          <Button variant="primary" type="button" disabled={disabled} onClick={onAccept}>
+            {t("share.offerAccept")}
+          </Button>
+          <Button variant="ghost" type="button" onClick={onDismiss}>
+            {t("share.offerDismiss")}
+          </Button>
+        </div>
+      }
+    >
+      <div className="shareLink__offer">
+        <span>
+          {t("share.offerParticipants", { count: offer.participantCount })} ·{" "}
+          {t("share.offerWinners", { count: offer.winnerCount })}
+        </span>
+        <span>{t(`left.boardLayout.${offer.layout}`)}</span>
+        {offer.startCaption && <span>{t("share.offerCaption", { caption: offer.startCaption })}</span>}
+        {offer.seed != null && <span>{t("share.offerSeed", { seed: offer.seed })}</span>}
+      </div>
+      <p className="shareLink__names">
+        {names.join(", ")}
+        {more > 0 ? ` ${t("history.more", { count: more })}` : ""}
+      </p>
+    </ModalCard>
+  );
+}
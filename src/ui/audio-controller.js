@@ -1,3 +1,5 @@
+import { STORAGE_KEYS, readStorage, writeStorage } from "./storage-core.ts";
+
 const TRACKS = Object.freeze({
   bgm_1: ["/assets/bgm_1.mp3", "/public/assets/bgm_1.mp3"],
   bgm_2: ["/assets/bgm_2.mp3", "/public/assets/bgm_2.mp3"],
@@ -19,15 +21,15 @@ function clamp(value, min, max) {
  * Create BGM controller (MP3 tracks).
  *
  * @param {{
- *   storageKey?: string;
- *   trackStorageKey?: string;
+ *   storageKey?: import("./storage-core.ts").StorageKey;
+ *   trackStorageKey?: import("./storage-core.ts").StorageKey;
  *   onStateChange?: (state: { on: boolean; track: string }) => void;
  * }} opts
  */
 export function createAudioController(opts = {}) {
   const {
-    storageKey = "bgmOn",
-    trackStorageKey = "bgmTrack",
+    storageKey = STORAGE_KEYS.bgmOn,
+    trackStorageKey = STORAGE_KEYS.bgmTrack,
     onStateChange = () => {},
   } = opts;
 
@@ -192,11 +194,7 @@ export function createAudioController(opts = {}) {
     if (!isValidTrack(trackId)) return;
 
     bgm.track = trackId;
-    try {
-      localStorage.setItem(trackStorageKey, bgm.track);
-    } catch {
-      // ignore
-    }
+    writeStorage(trackStorageKey, bgm.track);
 
     ensureAudioForTrack();
     emitState();
@@ -213,11 +211,7 @@ export function createAudioController(opts = {}) {
   function setOn(on, opts = {}) {
     const { autoplay = true } = opts;
     bgm.on = !!on;
-    try {
-      localStorage.setItem(storageKey, bgm.on ? "1" : "0");
-    } catch {
-      // ignore
-    }
+    writeStorage(storageKey, bgm.on ? "1" : "0");
 
     emitState();
 
@@ -248,27 +242,21 @@ export function createAudioController(opts = {}) {
   }
 
   function restoreFromStorage() {
-    let nextOn = false;
-
-    try {
-      const savedTrack = localStorage.getItem(trackStorageKey);
-      if (isValidTrack(savedTrack)) bgm.track = savedTrack;
-    } catch {
-      // ignore
-    }
-
-    try {
-      const v = localStorage.getItem(storageKey);
-      if (v === "0") nextOn = false;
-      else if (v === "1") nextOn = true;
-    } catch {
-      nextOn = false;
-    }
+    const savedTrack = readStorage(trackStorageKey);
+    if (isValidTrack(savedTrack)) bgm.track = savedTrack;
 
-    setOn(nextOn, { autoplay: false });
+    setOn(readStorage(storageKey) === "1", { autoplay: false });
     emitState();
   }
 
+  /** Picks up BGM settings another tab saved; writing the same values back fires no event there. */
+  function syncFromStorage() {
+    const savedTrack = readStorage(trackStorageKey);
+    if (isValidTrack(savedTrack) && savedTrack !== bgm.track) setTrack(savedTrack);
+    const savedOn = readStorage(storageKey) === "1";
+    if (savedOn !== bgm.on) setOn(savedOn);
+  }
+
   emitState();
 
   return {
@@ -279,5 +267,6 @@ export function createAudioController(opts = {}) {
     toggle,
     setTrack,
     restoreFromStorage,
+    syncFromStorage,
   };
 }
@@ -0,0 +1,347 @@
+import { t } from "../i18n/runtime.ts";
+import { validateBoardDefinition } from "../game/board-definition.ts";
+import {
+  addEditorPropeller,
+  addEditorRotor,
+  appendEditorWallPoint,
+  boardToDefinition,
+  deleteEditorSelection,
+  finishEditorWall,
+  makeEditorPreviewBoard,
+  moveEditorSelection,
+  patchEditorMechanism,
+  pickEditorTarget,
+  runBoardTestDrop,
+} from "../game/board-editor.ts";
+
+// Pick radius in screen pixels, converted to world units with the current view scale.
+const PICK_TOLERANCE_PX = 12;
+
+/**
+ * Board editor shown inside coordinate mode. Edits a draft board definition, previews it through
+ * the renderer/minimap and exports it as a board file.
+ *
+ * @param {{
+ *   getBoard: () => import("../game/engine.ts").Board;
+ *   state: { mode?: string };
+ *   renderer: {
+ *     getViewState?: () => { scale?: number } | undefined;
+ *     setEditorHighlight?: (marker: { x: number; y: number; r: number } | null) => void;
+ *   };
+ *   editorEl?: HTMLElement | null;
+ *   onPreviewBoard?: (board: import("../game/engine.ts").Board | null) => void;
+ * }} opts
+ */
+export function mountBoardEditorController(opts) {
+  const { getBoard, state, renderer, editorEl, onPreviewBoard = () => {} } = opts;
+
+  /** @type {import("../game/board-definition.ts").BoardDefinition | null} */
+  let draft = null;
+  /** @type {import("../game/board-editor.ts").BoardEditorTool} */
+  let tool = "select";
+  /** @type {import("../game/board-editor.ts").BoardEditorSelection | null} */
+  let selection = null;
+  /** @type {number | null} */
+  let drawingWall = null;
+  let dragging = false;
+  let active = false;
+
+  const statusEl = editorEl?.querySelector("[data-editor-status]") ?? null;
+  const toolBtns = editorEl ? [...editorEl.querySelectorAll("[data-editor-tool]")] : [];
+  /** @type {Record<string, HTMLInputElement | null>} */
+  const fields = {
+    omega: findInput("omega"),
+    r: findInput("r"),
+    bounce: findInput("bounce"),
+  };
+
+  /**
+   * @param {string} name
+   */
+  function findInput(name) {
+    const el = editorEl?.querySelector(`[data-editor-field="${name}"]`);
+    return el instanceof HTMLInputElement ? el : null;
+  }
+
+  /**
+   * @param {string} action
+   */
+  function findAction(action) {
+    const el = editorEl?.querySelector(`[data-editor-action="${action}"]`);
+    return el instanceof HTMLButtonElement ? el : null;
+  }
+
+  /**
+   * @param {string} text
+   * @param {"info" | "ok" | "error"} [tone]
+   */
+  function setStatus(text, tone = "info") {
+    if (!statusEl) return;
+    statusEl.textContent = text;
+    statusEl.setAttribute("data-tone", tone);
+  }
+
+  function isLocked() {
+    return state.mode === "playing";
+  }
+
+  /**
+   * Return validation issues and show the first one (or "valid") in the status line.
+   */
+  function reportIssues() {
+    if (!draft) return [];
+    const issues = validateBoardDefinition(draft);
+    if (!issues.length) setStatus(t("editor.valid"), "ok");
+    else {
+      const first = `${issues[0].path}: ${issues[0].message}`;
+      setStatus(t("editor.issues", { count: issues.length, first }), "error");
+    }
+    return issues;
+  }
+
+  function highlightFor() {
+    if (!draft || !selection) return null;
+    const k = draft.heightMultiplier ?? 1;
+    if (selection.kind === "rotor") {
+      const rotor = draft.rotors?.[selection.index];
+      return rotor ? { x: rotor.x, y: rotor.y * k, r: (rotor.r ?? 0) + 6 } : null;
+    }
+    if (selection.kind === "propeller") {
+      const prop = draft.propellers?.[selection.index];
+      return prop ? { x: prop.x, y: prop.y * k, r: prop.len / 2 + 6 } : null;
+    }
+    const wall = draft.walls[selection.index];
+    const point = wall?.type === "polyline" ? wall.points[selection.point] : null;
+    return point ? { x: point[0], y: point[1] * k, r: 10 } : null;
+  }
+
+  function selectedMechanism() {
+    if (selection?.kind === "rotor") return draft?.rotors?.[selection.index] ?? null;
+    if (selection?.kind === "propeller") return draft?.propellers?.[selection.index] ?? null;
+    return null;
+  }
+
+  function syncFields() {
+    const mechanism = selectedMechanism();
+    for (const [name, input] of Object.entries(fields)) {
+      if (!input) continue;
+      const value = mechanism ? /** @type {Record<string, unknown>} */ (mechanism)[name] : undefined;
+      const usable = !!mechanism && (name !== "r" || selection?.kind === "rotor");
+      input.disabled = !usable;
+      if (document.activeElement !== input) input.value = usable && typeof value === "number" ? String(value) : "";
+    }
+    const deleteBtn = findAction("delete");
+    if (deleteBtn) deleteBtn.disabled = !selection;
+    const finishBtn = findAction("finish-wall");
+    if (finishBtn) finishBtn.disabled = drawingWall == null;
+    for (const btn of toolBtns) btn.classList.toggle("is-active", btn.getAttribute("data-editor-tool") === tool);
+  }
+
+  /**
+   * @param {import("../game/board-definition.ts").BoardDefinition} next
+   */
+  function applyDraft(next) {
+    draft = next;
+    try {
+      onPreviewBoard(makeEditorPreviewBoard(draft));
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : String(err), "error");
+    }
+    renderer.setEditorHighlight?.(highlightFor());
+    syncFields();
+  }
+
+  /**
+   * @param {import("../game/board-editor.ts").BoardEditorSelection | null} next
+   */
+  function select(next) {
+    selection = next;
+    renderer.setEditorHighlight?.(highlightFor());
+    syncFields();
+  }
+
+  function endWall() {
+    if (!draft || drawingWall == null) return;
+    const wallIndex = drawingWall;
+    drawingWall = null;
+    const next = finishEditorWall(draft, wallIndex);
+    if (next !== draft) selection = null;
+    applyDraft(next);
+    reportIssues();
+  }
+
+  /**
+   * @param {import("../game/board-editor.ts").BoardEditorTool} next
+   */
+  function setTool(next) {
+    if (next !== "wall") endWall();
+    tool = next;
+    syncFields();
+  }
+
+  function activate() {
+    active = true;
+    if (isLocked()) {
+      draft = null;
+      setStatus(t("editor.locked"), "error");
+      return;
+    }
+    draft = null;
+    selection = null;
+    drawingWall = null;
+    applyDraft(boardToDefinition(getBoard()));
+    setStatus(t("editor.hint"));
+  }
+
+  function deactivate() {
+    active = false;
+    dragging = false;
+    draft = null;
+    selection = null;
+    drawingWall = null;
+    renderer.setEditorHighlight?.(null);
+    onPreviewBoard(null);
+  }
+
+  /**
+   * @param {number} x
+   * @param {number} y
+   */
+  function toDraft(x, y) {
+    return { x, y: y / (draft?.heightMultiplier ?? 1) };
+  }
+
+  /**
+   * Handle a canvas press in world coordinates. Returns true when the editor used it.
+   *
+   * @param {{ x: number; y: number }} world
+   */
+  function pointerDown(world) {
+    if (!active || !draft || isLocked()) return false;
+    const { x, y } = toDraft(world.x, world.y);
+    if (tool === "rotor" || tool === "propeller") {
+      const edit = tool === "rotor" ? addEditorRotor(draft, x, y) : addEditorPropeller(draft, x, y);
+      selection = edit.selection;
+      applyDraft(edit.definition);
+      reportIssues();
+      return true;
+    }
+    if (tool === "wall") {
+      const edit = appendEditorWallPoint(draft, drawingWall, x, y);
+      selection = edit.selection;
+      drawingWall = edit.selection?.index ?? null;
+      applyDraft(edit.definition);
+      return true;
+    }
+    const scale = renderer.getViewState?.()?.scale || 1;
+    const hit = pickEditorTarget(draft, x, y, PICK_TOLERANCE_PX / scale);
+    select(hit);
+    dragging = !!hit;
+    return !!hit;
+  }
+
+  /**
+   * @param {{ x: number; y: number }} world
+   */
+  function pointerMove(world) {
+    if (!active || !draft || !dragging || !selection) return false;
+    const { x, y } = toDraft(world.x, world.y);
+    applyDraft(moveEditorSelection(draft, selection, x, y));
+    return true;
+  }
+
+  function pointerUp() {
+    if (!dragging) return;
+    dragging = false;
+    reportIssues();
+  }
+
+  function deleteSelection() {
+    if (!draft || !selection) return;
+    const next = deleteEditorSelection(draft, selection);
+    if (next === draft) {
+      setStatus(t("editor.keepSpawnWall"), "error");
+      return;
+    }
+    if (selection.kind === "wall" && selection.index === drawingWall) drawingWall = null;
+    selection = null;
+    applyDraft(next);
+    reportIssues();
+  }
+
+  function testDrop() {
+    if (!draft || reportIssues().length) return;
+    const def = draft;
+    setStatus(t("editor.testing"));
+    // Let the status paint before the (synchronous) simulation blocks the main thread.
+    setTimeout(() => {
+      if (draft !== def) return;
+      const result = runBoardTestDrop(def);
+      const params = {
+        finished: result.finished,
+        marbles: result.marbles,
+        seconds: result.simSeconds.toFixed(1),
+      };
+      if (result.completed) setStatus(t("editor.testDone", params), "ok");
+      else setStatus(t("editor.testStuck", params), "error");
+    }, 30);
+  }
+
+  function exportDraft() {
+    if (!draft || reportIssues().length) return;
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `degururu-board-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    setStatus(t("editor.exported"), "ok");
+  }
+
+  for (const btn of toolBtns) {
+    btn.addEventListener("click", () => {
+      const next = btn.getAttribute("data-editor-tool");
+      if (next === "select" || next === "rotor" || next === "propeller" || next === "wall") setTool(next);
+    });
+  }
+  for (const [name, input] of Object.entries(fields)) {
+    input?.addEventListener("change", () => {
+      if (!draft || !selection) return;
+      applyDraft(patchEditorMechanism(draft, selection, { [name]: Number(input.value) }));
+      reportIssues();
+    });
+  }
+  findAction("delete")?.addEventListener("click", deleteSelection);
+  findAction("finish-wall")?.addEventListener("click", endWall);
+  findAction("test")?.addEventListener("click", testDrop);
+  findAction("export")?.addEventListener("click", exportDraft);
+  findAction("reset")?.addEventListener("click", () => {
+    if (active) activate();
+  });
+
+  /**
+   * @param {KeyboardEvent} e
+   */
+  function onKeyDown(e) {
+    if (!active || !draft) return;
+    const target = e.target;
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return;
+    if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      deleteSelection();
+    } else if (e.key === "Escape") {
+      endWall();
+      select(null);
+    }
+  }
+  document.addEventListener("keydown", onKeyDown);
+
+  function dispose() {
+    document.removeEventListener("keydown", onKeyDown);
+  }
+
+  return { activate, deactivate, pointerDown, pointerMove, pointerUp, isActive: () => active, dispose };
+}
@@ -1,9 +1,12 @@
 import {
+  BALL_CATALOG_MAX,
+  createNextBall,
   getBallLibrary,
   getBallDisplayName,
   buildSystemBallImageDataUrl,
   isSystemBallAvatarUrl,
 } from "../game/assets.ts";
+import { normalizeTags } from "../game/participant-tags.ts";
 import { t } from "../i18n/runtime.ts";
 import {
   loadBallsCatalog,
@@ -11,7 +14,7 @@ import {
   restoreDefaultBalls,
   saveBallsCatalog,
   saveBallCounts,
-} from "./storage.js";
+} from "./storage.ts";
 
 /**
  * Create catalog controller for balls/settings/images.
@@ -66,8 +69,15 @@ export function createCatalogController(opts) {
   }
 
   function refreshImages() {
+    // Keep already decoded images; a large roster would otherwise re-decode every avatar per edit.
+    const previous = new Map(imagesById);
     imagesById.clear();
     for (const b of catalog) {
+      const kept = previous.get(b.id);
+      if (kept && kept.src === b.imageDataUrl) {
+        imagesById.set(b.id, kept);
+        continue;
+      }
       const img = new Image();
       img.src = b.imageDataUrl;
       imagesById.set(b.id, img);
@@ -103,12 +113,9 @@ export function createCatalogController(opts) {
   }
 
   function addNextBall() {
-    const library = getBallLibrary();
-    if (catalog.length >= library.length) return false;
-    const used = new Set(catalog.map((b) => b.id));
-    const nextBall = library.find((b) => !used.has(b.id));
-    if (!nextBall) return false;
-    const next = [...catalog, structuredClone(nextBall)];
+    if (catalog.length >= BALL_CATALOG_MAX) return false;
+    const nextBall = createNextBall(new Set(catalog.map((b) => b.id)));
+    const next = [...catalog, nextBall];
     saveBallsCatalog(next);
     setCatalog(next);
     return true;
@@ -224,7 +231,7 @@ export function createCatalogController(opts) {
   /**
    * Replace entire catalog from external draft (used by settings "Apply").
    *
-   * @param {Array<{id?: unknown; name?: unknown; imageDataUrl?: unknown; tint?: unknown}>} nextInput
+   * @param {Array<{id?: unknown; name?: unknown; imageDataUrl?: unknown; tint?: unknown; tags?: unknown}>} nextInput
    */
   function replaceCatalog(nextInput) {
     const libById = new Map(getBallLibrary().map((b) => [b.id, b]));
@@ -232,17 +239,23 @@ export function createCatalogController(opts) {
     const next = [];
 
     for (const item of Array.isArray(nextInput) ? nextInput : []) {
-      const id = String(item?.id || "");
+      if (next.length >= BALL_CATALOG_MAX) break;
+      const id = String(item?.id || "").slice(0, 40);
       if (!id || used.has(id)) continue;
-      const lib = libById.get(id);
-      if (!lib) continue;
       used.add(id);
 
+      const lib = libById.get(id);
+      const name = sanitizeName(item?.name, lib?.name || id);
+      const tint = typeof item?.tint === "string" ? item.tint : lib?.tint;
+      const tags = normalizeTags(item?.tags);
+      // Only balls the library does not know get a letter avatar; library balls keep their picture.
+      const fallbackImage = lib ? lib.imageDataUrl : buildSystemBallImageDataUrl({ ballId: id, name, tint });
       next.push({
         id,
-        name: sanitizeName(item?.name, lib.name),
-        imageDataUrl: isDataImageUrl(item?.imageDataUrl) ? item.imageDataUrl : lib.imageDataUrl,
-        tint: typeof item?.tint === "string" ? item.tint : lib.tint,
+        name,
+        imageDataUrl: isDataImageUrl(item?.imageDataUrl) ? item.imageDataUrl : fallbackImage,
+        tint: tint || "#ffffff",
+        ...(tags.length ? { tags } : {}),
       });
     }
 
@@ -254,6 +267,25 @@ export function createCatalogController(opts) {
     return true;
   }
 
+  /**
+   * Re-read the catalog and counts another tab saved. Nothing is written back, so tabs never echo each other.
+   *
+   * @returns {boolean} whether anything changed
+   */
+  function reloadFromStorage() {
+    const next = loadBallsCatalog();
+    const nextCounts = loadBallCounts(next);
+    const unchanged =
+      JSON.stringify(next) === JSON.stringify(catalog) && JSON.stringify(nextCounts) === JSON.stringify(state.counts);
+    if (unchanged) return false;
+    catalog = next;
+    state.ballsCatalog = next;
+    state.counts = nextCounts;
+    refreshImages();
+    onCatalogChange();
+    return true;
+  }
+
   /**
    * @param {string | undefined} ballId
    */
@@ -277,8 +309,9 @@ export function createCatalogController(opts) {
     restoreDefaults,
     relocalizeCatalog,
     replaceCatalog,
-    getCatalogMax: () => getBallLibrary().length,
-    isAtMax: () => catalog.length >= getBallLibrary().length,
+    reloadFromStorage,
+    getCatalogMax: () => BALL_CATALOG_MAX,
+    isAtMax: () => catalog.length >= BALL_CATALOG_MAX,
     getWinnerPayload,
     notifyCatalogMutated: onCatalogChange,
   };
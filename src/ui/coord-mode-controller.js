@@ -1,27 +1,48 @@
 import { t } from "../i18n/runtime.ts";
+import { mountBoardEditorController } from "./board-editor-controller.js";
 
 /**
  * Mount secret coordinate mode controls for board canvas.
+ * Coordinate mode also hosts the board editor (see board-editor-controller.js).
  *
  * @param {{
- *   board: { worldW: number; worldH: number };
- *   renderer: { screenToWorld: (sx: number, sy: number) => { x: number; y: number } };
+ *   board: import("../game/engine.ts").Board;
+ *   state: { mode?: string };
+ *   renderer: {
+ *     screenToWorld: (sx: number, sy: number) => { x: number; y: number };
+ *     getViewState?: () => { scale?: number } | undefined;
+ *     setEditorHighlight?: (marker: { x: number; y: number; r: number } | null) => void;
+ *   };
  *   canvas?: HTMLCanvasElement | null;
  *   canvasCoordReadoutEl?: HTMLElement | null;
  *   canvasCoordCopyBtn?: HTMLButtonElement | null;
  *   minimapTitleEl?: HTMLElement | null;
+ *   boardEditorEl?: HTMLElement | null;
+ *   onPreviewBoard?: (board: import("../game/engine.ts").Board | null) => void;
  }} opts
  */
 export function mountCoordModeController(opts) {
   const {
-    board,
+    board: initialBoard,
+    state,
     renderer,
     canvas,
     canvasCoordReadoutEl,
     canvasCoordCopyBtn,
     minimapTitleEl,
+    boardEditorEl,
+    onPreviewBoard,
   } = opts;
 
+  let board = initialBoard;
+  const editor = mountBoardEditorController({
+    getBoard: () => board,
+    state,
+    renderer,
+    editorEl: boardEditorEl,
+    onPreviewBoard,
+  });
+
   let lastCanvasFrac = null; // {xFrac,yFrac}
   let pinnedCanvasFrac = null; // {xFrac,yFrac}
   let coordMode = false;
@@ -84,16 +105,28 @@ export function mountCoordModeController(opts) {
     document.documentElement.classList.toggle("coord-mode", coordMode);
     pinnedCanvasFrac = null;
     lastCanvasFrac = null;
-    if (coordMode) updateCanvasCoordReadout(NaN, NaN);
+    if (coordMode) {
+      updateCanvasCoordReadout(NaN, NaN);
+      editor.activate();
+    } else if (editor.isActive()) editor.deactivate();
   }
 
-  canvas?.addEventListener("pointermove", (e) => {
-    if (!coordMode || pinnedCanvasFrac) return;
+  /**
+   * @param {PointerEvent} e
+   */
+  function eventToWorld(e) {
+    if (!canvas) return null;
     const rect = canvas.getBoundingClientRect();
-    if (!rect.width || !rect.height) return;
-    const sx = e.clientX - rect.left;
-    const sy = e.clientY - rect.top;
-    const w = renderer.screenToWorld(sx, sy);
+    if (!rect.width || !rect.height) return null;
+    return renderer.screenToWorld(e.clientX - rect.left, e.clientY - rect.top);
+  }
+
+  canvas?.addEventListener("pointermove", (e) => {
+    if (!coordMode) return;
+    const w = eventToWorld(e);
+    if (!w) return;
+    editor.pointerMove(w);
+    if (pinnedCanvasFrac) return;
     updateCanvasCoordReadout(w.x / board.worldW, w.y / board.worldH);
   });
   canvas?.addEventListener("pointerleave", () => {
@@ -102,14 +135,17 @@ export function mountCoordModeController(opts) {
   });
   canvas?.addEventListener("pointerdown", (e) => {
     if (!coordMode) return;
-    const rect = canvas.getBoundingClientRect();
-    if (!rect.width || !rect.height) return;
-    const sx = e.clientX - rect.left;
-    const sy = e.clientY - rect.top;
-    const w = renderer.screenToWorld(sx, sy);
+    const w = eventToWorld(e);
+    if (!w) return;
+    if (editor.pointerDown(w)) {
+      canvas.setPointerCapture?.(e.pointerId);
+      return;
+    }
     pinnedCanvasFrac = { xFrac: clamp01(w.x / board.worldW), yFrac: clamp01(w.y / board.worldH) };
     updateCanvasCoordReadout(pinnedCanvasFrac.xFrac, pinnedCanvasFrac.yFrac);
   });
+  canvas?.addEventListener("pointerup", () => editor.pointerUp());
+  canvas?.addEventListener("pointercancel", () => editor.pointerUp());
   canvasCoordCopyBtn?.addEventListener("click", async () => {
     if (!coordMode) return;
     const v = pinnedCanvasFrac || lastCanvasFrac;
@@ -145,6 +181,14 @@ export function mountCoordModeController(opts) {
     });
   }
 
+  /**
+   * @param {import("../game/engine.ts").Board} next
+   */
+  function setBoard(next) {
+    board = next;
+    if (editor.isActive()) editor.activate();
+  }
+
   setCoordMode(false);
-  return { isCoordMode: () => coordMode };
+  return { isCoordMode: () => coordMode, setBoard, dispose: editor.dispose };
 }
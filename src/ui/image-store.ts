@@ -0,0 +1,184 @@
+/**
+ * IndexedDB backend for uploaded avatars.
+ *
+ * Uploaded images (up to 2 MB each as data URLs) would fill localStorage quickly, so stored rosters
+ * keep a content reference (`img:<sha256 prefix>`) and the image itself lives here. All images are
+ * read into memory once at boot, which keeps catalog loading synchronous; writes go out in the background.
+ *
+ * A reference is only handed out once its image is committed, so a failed write (quota included) never
+ * leaves a roster pointing at nothing. While the write is on its way `storeImage` says so and callers
+ * hold their save back; after a failed write, and without IndexedDB (private modes, tests), it returns
+ * null and callers keep the data URL inline.
+ */
+import { sha256Hex } from "../game/sha256.ts";
+import { isQuotaExceededError, reportStorageError } from "./storage-core.ts";
+
+export const IMAGE_REF_PREFIX = "img:";
+
+const DB_NAME = "degururu";
+const DB_VERSION = 1;
+const STORE_NAME = "images";
+const REF_HASH_LENGTH = 24;
+
+/** ref -> data URL, for every image loaded or committed this session. */
+const images = new Map<string, string>();
+/** Refs whose write has not committed yet. */
+const pendingRefs = new Set<string>();
+/** Refs whose write failed; those images stay inline for the rest of the session. */
+const failedRefs = new Set<string>();
+/** Memo so re-saving a roster does not hash each image again. */
+const refByDataUrl = new Map<string, string>();
+const writeListeners = new Set<() => void>();
+let db: IDBDatabase | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("image store: database upgrade is blocked"));
+  });
+}
+
+function reportWriteError(err: unknown): void {
+  reportStorageError(isQuotaExceededError(err) ? "quota" : "unavailable", "images");
+}
+
+export function isImageRef(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(IMAGE_REF_PREFIX);
+}
+
+export function isImageStoreReady(): boolean {
+  return db != null;
+}
+
+/**
+ * Opens the store and loads every image into memory. Resolves false when IndexedDB is missing,
+ * broken or slower than `timeoutMs`; images then stay inline in localStorage.
+ */
+export async function openImageStore(timeoutMs = 3000): Promise<boolean> {
+  if (db) return true;
+  if (typeof indexedDB === "undefined") return false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("image store: open timed out")), timeoutMs);
+  });
+  try {
+    const opened = await Promise.race([openDatabase(), timeout]);
+    const store = opened.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const [keys, values] = await Promise.race([
+      Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]),
+      timeout,
+    ]);
+    keys.forEach((key, i) => {
+      if (typeof key === "string" && typeof values[i] === "string") images.set(key, values[i]);
+    });
+    db = opened;
+    return true;
+  } catch {
+    // Runs before the app listens for storage errors; inline images are the documented fallback.
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function resolveImageRef(ref: string): string | null {
+  return images.get(ref) ?? null;
+}
+
+/** Reads images another tab stored since this one opened the store. */
+export async function loadImages(refs: ReadonlyArray<string>): Promise<void> {
+  if (!db || !refs.length) return;
+  try {
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const values = await Promise.all(refs.map((ref) => requestToPromise(store.get(ref))));
+    values.forEach((value, i) => {
+      if (typeof value === "string") images.set(refs[i], value);
+    });
+  } catch {
+    // Those participants show letter avatars until a reload.
+    reportStorageError("unavailable", "images");
+  }
+}
+
+/** Called whenever a write started by `storeImage` commits or fails, so held-back saves can go out. */
+export function subscribeImageWrites(listener: () => void): () => void {
+  writeListeners.add(listener);
+  return () => writeListeners.delete(listener);
+}
+
+function finishWrite(ref: string, dataUrl: string | null): void {
+  pendingRefs.delete(ref);
+  if (dataUrl == null) failedRefs.add(ref);
+  else images.set(ref, dataUrl);
+  for (const listener of writeListeners) listener();
+}
+
+/**
+ * Reference for `dataUrl` once it is committed to IndexedDB; `pending` while the write (started by the
+ * first call) is on its way; null when the image has to stay inline.
+ */
+export function storeImage(dataUrl: string): string | "pending" | null {
+  if (!db) return null;
+  let ref = refByDataUrl.get(dataUrl);
+  if (!ref) {
+    ref = IMAGE_REF_PREFIX + sha256Hex(dataUrl).slice(0, REF_HASH_LENGTH);
+    refByDataUrl.set(dataUrl, ref);
+  }
+  if (images.get(ref) === dataUrl) return ref;
+  if (failedRefs.has(ref)) return null;
+  if (pendingRefs.has(ref)) return "pending";
+  const key = ref;
+  try {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    tx.objectStore(STORE_NAME).put(dataUrl, key);
+    tx.oncomplete = () => finishWrite(key, dataUrl);
+    // A failed put (quota included) aborts the transaction.
+    tx.onabort = () => {
+      reportWriteError(tx.error);
+      finishWrite(key, null);
+    };
+  } catch (err) {
+    reportWriteError(err);
+    failedRefs.add(key);
+    return null;
+  }
+  pendingRefs.add(key);
+  return "pending";
+}
+
+/** Deletes images no stored roster points to any more. */
+export async function pruneImageStore(keep: ReadonlySet<string>): Promise<number> {
+  if (!db) return 0;
+  const unused = [...images.keys()].filter((ref) => !keep.has(ref));
+  if (!unused.length) return 0;
+  for (const ref of unused) {
+    const dataUrl = images.get(ref);
+    images.delete(ref);
+    if (dataUrl) refByDataUrl.delete(dataUrl);
+  }
+  try {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    const store = tx.objectStore(STORE_NAME);
+    for (const ref of unused) store.delete(ref);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } catch {
+    // Unused images only take space; the next prune tries again.
+  }
+  return unused.length;
+}
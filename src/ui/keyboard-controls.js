@@ -1,7 +1,7 @@
 /**
  * Mount global keyboard interactions:
  * - `f`: fullscreen toggle
- * - `Enter`: start game when idle
+ * - `Enter`: start game when idle (publishes the draw commitment and starts at once)
  *
  * @param {{
  *   getMode: () => string;
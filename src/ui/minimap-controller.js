@@ -4,7 +4,7 @@ import { t } from "../i18n/runtime.ts";
  * Mount minimap rendering and camera interaction controls.
  *
  * @param {{
- *   board: { worldW: number; worldH: number; slotH: number; layout: string; zigzag?: { propellers?: Array<{x:number;y:number}> } };
+ *   board: { worldW: number; worldH: number; slotH: number; layout: string; zigzag?: { propellers?: Array<{x:number;y:number}> } | null; custom?: { propellers?: Array<{x:number;y:number}> } | null };
  *   state: { mode?: string; pending?: Array<{x:number;y:number}>; marbles?: Array<{x:number;y:number}> };
  *   renderer: {
  *     getViewState?: () => { cameraY: number; viewHWorld: number } | undefined;
@@ -20,7 +20,7 @@ import { t } from "../i18n/runtime.ts";
  */
 export function mountMinimapController(opts) {
   const {
-    board,
+    board: initialBoard,
     state,
     renderer,
     viewState,
@@ -30,6 +30,7 @@ export function mountMinimapController(opts) {
     updateControls = () => {},
   } = opts;
 
+  let board = initialBoard;
   const minimapCtx = minimap?.getContext?.("2d");
 
   /**
@@ -78,8 +79,9 @@ export function mountMinimapController(opts) {
     minimapCtx.lineWidth = 2;
     minimapCtx.strokeRect(trackX + 1, trackY + trackH * y0, trackW - 2, Math.max(8, trackH * (y1 - y0)));
 
-    if (board.layout === "zigzag" && board.zigzag?.propellers?.length) {
-      for (const p of board.zigzag.propellers) {
+    const propellers = (board.zigzag || board.custom)?.propellers;
+    if (propellers?.length) {
+      for (const p of propellers) {
         const nx = p.x / worldW;
         const ny = p.y / worldH;
         minimapCtx.fillStyle = "rgba(255,176,0,0.95)";
@@ -160,5 +162,13 @@ export function mountMinimapController(opts) {
     minimap.removeEventListener("pointermove", onPointerMove);
   }
 
-  return { drawMinimap, dispose };
+  /**
+   * @param {typeof board} next
+   */
+  function setBoard(next) {
+    board = next;
+    drawMinimap();
+  }
+
+  return { drawMinimap, setBoard, dispose };
 }
@@ -0,0 +1,196 @@
+/**
+ * Versioned key/value layer under every persisted setting.
+ *
+ * - one registry of keys (`STORAGE_KEYS`) and a schema version stored next to them
+ * - migrations run once per storage, on first access, before any key is read
+ * - writes never throw: failures are reported to `subscribeStorageErrors` listeners,
+ *   so the app can tell the user when space runs out instead of breaking the action
+ * - `subscribeStorageChanges` reports keys other tabs wrote, for live sync between tabs
+ *
+ * Nothing here imports app modules (the i18n runtime reads the language through it at load time).
+ */
+export const STORAGE_KEYS = {
+  balls: "degururu:balls",
+  ballCounts: "degururu:ball-counts",
+  countsBeforeAbsence: "degururu:counts-before-absence",
+  boardLayout: "degururu:board-layout",
+  raceLength: "degururu:race-length",
+  prizeSlots: "degururu:prize-slots",
+  winnerRule: "degururu:winner-rule",
+  rosterPresets: "degururu:roster-presets",
+  drawHistory: "degururu:draw-history",
+  repeatRule: "degururu:repeat-rule",
+  participantFilter: "degururu:participant-filter",
+  exactReplay: "degururu:exact-replay",
+  bgmOn: "degururu:bgm-on",
+  bgmTrack: "degururu:bgm-track",
+  language: "degururu:language",
+} as const;
+
+export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
+
+export const STORAGE_SCHEMA_KEY = "degururu:schema-version";
+export const STORAGE_SCHEMA_VERSION = 2;
+
+/** `quota`: the browser refused for lack of space; `unavailable`: storage is blocked or broken. */
+export type StorageErrorKind = "quota" | "unavailable";
+
+export type StorageErrorEvent = {
+  kind: StorageErrorKind;
+  /** Storage key, or `images` for the image store. */
+  key: string;
+};
+
+type Migration = {
+  /** Schema version the storage has after this step. */
+  version: number;
+  migrate: (storage: Storage) => void;
+};
+
+/**
+ * v1: the keys released before this registry: the roster and counts under `marble-roulette:*:v1`
+ * and the audio controller's `bgmOn` / `bgmTrack`. The language key kept its name.
+ */
+const V1_KEY_MOVES: ReadonlyArray<[from: string, to: StorageKey]> = [
+  ["marble-roulette:balls:v1", STORAGE_KEYS.balls],
+  ["marble-roulette:ball-counts:v1", STORAGE_KEYS.ballCounts],
+  ["bgmOn", STORAGE_KEYS.bgmOn],
+  ["bgmTrack", STORAGE_KEYS.bgmTrack],
+];
+
+const MIGRATIONS: ReadonlyArray<Migration> = [
+  {
+    version: 2,
+    migrate: (storage) => {
+      for (const [from, to] of V1_KEY_MOVES) {
+        const value = storage.getItem(from);
+        if (value == null) continue;
+        // A value already under the new key is newer than the leftover v1 one.
+        if (storage.getItem(to) == null) storage.setItem(to, value);
+        storage.removeItem(from);
+      }
+    },
+  },
+];
+
+const STORAGE_KEY_SET = new Set<string>(Object.values(STORAGE_KEYS));
+
+const listeners = new Set<(event: StorageErrorEvent) => void>();
+let migratedStorage: Storage | null = null;
+let reportedUnavailable = false;
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    // Some browsers throw on access when site data is blocked.
+    return null;
+  }
+}
+
+export function isQuotaExceededError(err: unknown): boolean {
+  if (!err || typeof err !== "object") return false;
+  const { name, code } = err as { name?: unknown; code?: unknown };
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED" || code === 22 || code === 1014;
+}
+
+export function subscribeStorageErrors(listener: (event: StorageErrorEvent) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Blocked storage is reported once per session; running out of space every time. */
+export function reportStorageError(kind: StorageErrorKind, key: string): void {
+  if (kind === "unavailable") {
+    if (reportedUnavailable) return;
+    reportedUnavailable = true;
+  }
+  for (const listener of listeners) listener({ kind, key });
+}
+
+/**
+ * Calls `listener` with each key another tab changed; the browser never reports a tab's own writes.
+ * Clearing site data from another tab reports every key.
+ */
+export function subscribeStorageChanges(listener: (key: StorageKey) => void): () => void {
+  if (typeof window === "undefined") return () => {};
+  const onStorage = (event: StorageEvent) => {
+    if (event.storageArea !== getStorage()) return;
+    if (event.key == null) {
+      for (const key of STORAGE_KEY_SET) listener(key as StorageKey);
+    } else if (STORAGE_KEY_SET.has(event.key)) {
+      listener(event.key as StorageKey);
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
+
+export function readSchemaVersion(storage: Storage): number {
+  const version = Number(storage.getItem(STORAGE_SCHEMA_KEY));
+  return Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+/**
+ * Brings `storage` up to `STORAGE_SCHEMA_VERSION`. A failing step is retried on the next load;
+ * the keys it already moved are simply found under their new names.
+ */
+export function migrateStorage(storage: Storage): void {
+  const from = readSchemaVersion(storage);
+  if (from >= STORAGE_SCHEMA_VERSION) return;
+  try {
+    for (const step of MIGRATIONS) {
+      if (step.version > from) step.migrate(storage);
+    }
+    storage.setItem(STORAGE_SCHEMA_KEY, String(STORAGE_SCHEMA_VERSION));
+  } catch (err) {
+    reportStorageError(isQuotaExceededError(err) ? "quota" : "unavailable", STORAGE_SCHEMA_KEY);
+  }
+}
+
+function getMigratedStorage(): Storage | null {
+  const storage = getStorage();
+  if (!storage) return null;
+  // Keyed by the storage object, so a replaced `localStorage` (tests) is migrated too.
+  if (migratedStorage !== storage) {
+    migratedStorage = storage;
+    try {
+      migrateStorage(storage);
+    } catch {
+      // ignore: reads below fail the same way and fall back to defaults
+    }
+  }
+  return storage;
+}
+
+export function readStorage(key: StorageKey): string | null {
+  try {
+    return getMigratedStorage()?.getItem(key) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Returns whether the value was stored; failures are reported, never thrown. */
+export function writeStorage(key: StorageKey, value: string): boolean {
+  const storage = getMigratedStorage();
+  if (!storage) {
+    reportStorageError("unavailable", key);
+    return false;
+  }
+  try {
+    storage.setItem(key, value);
+    return true;
+  } catch (err) {
+    reportStorageError(isQuotaExceededError(err) ? "quota" : "unavailable", key);
+    return false;
+  }
+}
+
+export function removeStorage(key: StorageKey): void {
+  try {
+    getMigratedStorage()?.removeItem(key);
+  } catch {
+    // ignore: a stale value only means an old default
+  }
+}
@@ -0,0 +1,430 @@
+import {
+  BALL_CATALOG_MAX,
+  buildSystemBallImageDataUrl,
+  getDefaultBalls,
+  isSystemBallAvatarUrl,
+} from "../game/assets.ts";
+import { getCurrentLanguage } from "../i18n/runtime.ts";
+import {
+  DEFAULT_BOARD_LAYOUT,
+  DEFAULT_PRIZE_SLOTS,
+  DEFAULT_RACE_LENGTH,
+  isBoardLayout,
+  isRaceLength,
+  normalizePrizeSlots,
+  type BuiltinBoardLayout,
+  type PrizeSlot,
+  type RaceLength,
+} from "../game/board-config.ts";
+import { DEFAULT_WINNER_RULE, normalizeWinnerRule, type WinnerRule } from "../game/engine.ts";
+import { appendDrawHistory, normalizeDrawHistory, type DrawHistoryEntry } from "../game/draw-history.ts";
+import { normalizeRepeatRule, type RepeatRule } from "../game/repeat-rules.ts";
+import { normalizeParticipantFilter, normalizeTags, type ParticipantFilter } from "../game/participant-tags.ts";
+import type { RosterPresetStore } from "../app/roster-presets.ts";
+import {
+  isImageRef,
+  isImageStoreReady,
+  loadImages,
+  openImageStore,
+  pruneImageStore,
+  resolveImageRef,
+  storeImage,
+  subscribeImageWrites,
+} from "./image-store.ts";
+import { STORAGE_KEYS, readStorage, removeStorage, writeStorage, type StorageKey } from "./storage-core.ts";
+
+export type StoredBall = {
+  id: string;
+  name: string;
+  imageDataUrl: string;
+  tint: string;
+  /** Omitted when the participant has no tags. */
+  tags?: string[];
+};
+
+export type StoredPrize = {
+  enabled: boolean;
+  slots: PrizeSlot[];
+};
+
+function cloneDefaultBalls(): StoredBall[] {
+  return structuredClone(getDefaultBalls(getCurrentLanguage()));
+}
+
+function readJson(key: StorageKey): unknown {
+  const raw = readStorage(key);
+  return raw ? JSON.parse(raw) : null;
+}
+
+function isUploadedImage(value: string): boolean {
+  return value.startsWith("data:image/") && !isSystemBallAvatarUrl(value);
+}
+
+/**
+ * Uploaded images move to the image store; once committed there, the stored ball keeps a reference.
+ * Null while one of them is still being written: the roster is saved when the write settles, so a
+ * fresh upload never has to fit into localStorage inline.
+ */
+function toStoredBalls(balls: ReadonlyArray<StoredBall>): StoredBall[] | null {
+  let pending = false;
+  const stored = balls.map((ball) => {
+    if (!isUploadedImage(ball.imageDataUrl)) return ball;
+    const ref = storeImage(ball.imageDataUrl);
+    if (ref === "pending") pending = true;
+    return ref && ref !== "pending" ? { ...ball, imageDataUrl: ref } : ball;
+  });
+  return pending ? null : stored;
+}
+
+/** Saves held back until their images are written, by key; a newer save of the same key replaces the older one. */
+const heldSaves = new Map<StorageKey, () => void>();
+
+subscribeImageWrites(() => {
+  const saves = [...heldSaves.values()];
+  heldSaves.clear();
+  for (const save of saves) save();
+});
+
+/** Writes `key` now, or holds the save back while its images are on their way (reported as saved). */
+function writeRosterStorage(key: StorageKey, build: () => string | null, retry: () => void): boolean {
+  const value = build();
+  if (value == null) {
+    heldSaves.set(key, retry);
+    return true;
+  }
+  heldSaves.delete(key);
+  return writeStorage(key, value);
+}
+
+/**
+ * The rules every stored or imported catalog goes through (ids deduped, images must be data URLs).
+ * Image references are resolved; one whose image is gone gets a generated avatar.
+ */
+export function sanitizeStoredBalls(parsed: unknown): StoredBall[] {
+  if (!Array.isArray(parsed)) return [];
+  const safe: StoredBall[] = [];
+  const seen = new Set<string>();
+  for (const it of parsed) {
+    if (safe.length >= BALL_CATALOG_MAX) break;
+    if (!it || typeof it !== "object") continue;
+    if (typeof it.id !== "string" || !it.id) continue;
+    if (typeof it.name !== "string" || !it.name) continue;
+    const isRef = isImageRef(it.imageDataUrl);
+    if (!isRef && (typeof it.imageDataUrl !== "string" || !it.imageDataUrl.startsWith("data:image/"))) continue;
+    const id = it.id.slice(0, 40);
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const name = it.name.slice(0, 40);
+    const tint = typeof it.tint === "string" ? it.tint : "#ffffff";
+    const tags = normalizeTags(it.tags);
+    safe.push({
+      id,
+      name,
+      imageDataUrl: isRef
+        ? resolveImageRef(it.imageDataUrl) ?? buildSystemBallImageDataUrl({ ballId: id, name, tint })
+        : it.imageDataUrl,
+      tint,
+      ...(tags.length ? { tags } : {}),
+    });
+  }
+  return safe;
+}
+
+export function sanitizeStoredCounts(
+  parsed: unknown,
+  ballsCatalog: ReadonlyArray<{ id: string }>
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const b of ballsCatalog) counts[b.id] = 1;
+  if (!parsed || typeof parsed !== "object") return counts;
+  const stored = parsed as Record<string, unknown>;
+  for (const b of ballsCatalog) {
+    const v = stored[b.id];
+    if (typeof v === "number" && Number.isFinite(v)) counts[b.id] = Math.max(0, Math.min(99, v | 0));
+  }
+  return counts;
+}
+
+export function loadBallsCatalog(): StoredBall[] {
+  try {
+    const safe = sanitizeStoredBalls(readJson(STORAGE_KEYS.balls));
+    return safe.length ? safe : cloneDefaultBalls();
+  } catch {
+    return cloneDefaultBalls();
+  }
+}
+
+/** Returns whether the catalog was stored; a full storage is reported, not thrown. */
+export function saveBallsCatalog(balls: ReadonlyArray<StoredBall>): boolean {
+  return writeRosterStorage(
+    STORAGE_KEYS.balls,
+    () => {
+      const stored = toStoredBalls(balls);
+      return stored && JSON.stringify(stored);
+    },
+    () => saveBallsCatalog(balls)
+  );
+}
+
+export function restoreDefaultBalls(): StoredBall[] {
+  removeStorage(STORAGE_KEYS.balls);
+  return cloneDefaultBalls();
+}
+
+export function loadBallCounts(ballsCatalog: ReadonlyArray<{ id: string }>): Record<string, number> {
+  try {
+    return sanitizeStoredCounts(readJson(STORAGE_KEYS.ballCounts), ballsCatalog);
+  } catch {
+    return sanitizeStoredCounts(null, ballsCatalog);
+  }
+}
+
+export function saveBallCounts(counts: Record<string, number>): boolean {
+  return writeStorage(STORAGE_KEYS.ballCounts, JSON.stringify(counts));
+}
+
+/** Entry counts of participants marked absent, keyed by ball id; restored when they are marked present. */
+export function loadCountsBeforeAbsence(): Record<string, number> {
+  const counts: Record<string, number> = {};
+  try {
+    const parsed = readJson(STORAGE_KEYS.countsBeforeAbsence);
+    if (!parsed || typeof parsed !== "object") return counts;
+    for (const [id, v] of Object.entries(parsed as Record<string, unknown>)) {
+      if (typeof v === "number" && Number.isFinite(v) && v >= 1) counts[id] = Math.min(99, v | 0);
+    }
+  } catch {
+    // Corrupt value: absent participants come back with one entry.
+  }
+  return counts;
+}
+
+export function saveCountsBeforeAbsence(counts: Record<string, number>): void {
+  writeStorage(STORAGE_KEYS.countsBeforeAbsence, JSON.stringify(counts));
+}
+
+export function loadBoardLayout(): BuiltinBoardLayout {
+  const raw = readStorage(STORAGE_KEYS.boardLayout);
+  return isBoardLayout(raw) ? raw : DEFAULT_BOARD_LAYOUT;
+}
+
+export function saveBoardLayout(layout: BuiltinBoardLayout): void {
+  writeStorage(STORAGE_KEYS.boardLayout, layout);
+}
+
+export function loadRaceLength(): RaceLength {
+  const raw = readStorage(STORAGE_KEYS.raceLength);
+  return isRaceLength(raw) ? raw : DEFAULT_RACE_LENGTH;
+}
+
+export function saveRaceLength(length: RaceLength): void {
+  writeStorage(STORAGE_KEYS.raceLength, length);
+}
+
+export function loadPrizeSlots(): StoredPrize {
+  const fallback = { enabled: false, slots: DEFAULT_PRIZE_SLOTS.map((slot) => ({ ...slot })) };
+  try {
+    const parsed = readJson(STORAGE_KEYS.prizeSlots) as { enabled?: unknown; slots?: unknown } | null;
+    const slots = normalizePrizeSlots(parsed?.slots);
+    return parsed && slots ? { enabled: parsed.enabled === true, slots } : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function savePrizeSlots(prize: StoredPrize): void {
+  writeStorage(STORAGE_KEYS.prizeSlots, JSON.stringify({ enabled: prize.enabled, slots: prize.slots }));
+}
+
+export function loadExactReplay(): boolean {
+  return readStorage(STORAGE_KEYS.exactReplay) === "1";
+}
+
+export function saveExactReplay(isOn: boolean): void {
+  writeStorage(STORAGE_KEYS.exactReplay, isOn ? "1" : "0");
+}
+
+export function loadWinnerRule(): WinnerRule {
+  try {
+    return normalizeWinnerRule(readJson(STORAGE_KEYS.winnerRule)) ?? DEFAULT_WINNER_RULE;
+  } catch {
+    return DEFAULT_WINNER_RULE;
+  }
+}
+
+export function saveWinnerRule(rule: WinnerRule): void {
+  writeStorage(STORAGE_KEYS.winnerRule, JSON.stringify(rule));
+}
+
+/**
+ * Saved roster presets. The active preset's participants and counts live under the catalog keys,
+ * so its entry may have an empty `balls` list; inactive entries without participants are dropped.
+ */
+export function loadRosterPresets(): RosterPresetStore | null {
+  try {
+    const parsed = readJson(STORAGE_KEYS.rosterPresets) as { activeId?: unknown; presets?: unknown } | null;
+    if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.presets)) return null;
+    if (typeof parsed.activeId !== "string") return null;
+    const presets: RosterPresetStore["presets"] = [];
+    const seen = new Set<string>();
+    for (const it of parsed.presets) {
+      if (!it || typeof it !== "object") continue;
+      if (typeof it.id !== "string" || !it.id || seen.has(it.id)) continue;
+      const isActive = it.id === parsed.activeId;
+      const balls = sanitizeStoredBalls(it.balls);
+      if (!isActive && !balls.length) continue;
+      seen.add(it.id);
+      presets.push({
+        id: it.id,
+        name: typeof it.name === "string" && it.name ? it.name.slice(0, 40) : it.id,
+        balls: isActive ? [] : balls,
+        counts: isActive ? {} : sanitizeStoredCounts(it.counts, balls),
+        winnerCount: Number.isFinite(it.winnerCount) ? Math.max(1, it.winnerCount | 0) : 1,
+        startCaption: typeof it.startCaption === "string" ? it.startCaption : "",
+      });
+    }
+    if (!seen.has(parsed.activeId)) return null;
+    return { activeId: parsed.activeId, presets };
+  } catch {
+    return null;
+  }
+}
+
+export function saveRosterPresets(store: RosterPresetStore): void {
+  writeRosterStorage(
+    STORAGE_KEYS.rosterPresets,
+    () => {
+      // Every preset's images start writing before the save decides to wait for them.
+      const balls = store.presets.map((preset) => toStoredBalls(preset.balls));
+      if (balls.some((stored) => stored == null)) return null;
+      const presets = store.presets.map((preset, i) => ({ ...preset, balls: balls[i] }));
+      return JSON.stringify({ ...store, presets });
+    },
+    () => saveRosterPresets(store)
+  );
+}
+
+export function loadDrawHistory(): DrawHistoryEntry[] {
+  try {
+    return normalizeDrawHistory(readJson(STORAGE_KEYS.drawHistory));
+  } catch {
+    return [];
+  }
+}
+
+export function saveDrawHistory(entries: ReadonlyArray<DrawHistoryEntry>): void {
+  writeStorage(STORAGE_KEYS.drawHistory, JSON.stringify(entries));
+}
+
+/** Appends to what is stored now, not to a list loaded earlier, so draws saved by other tabs are kept. */
+export function appendStoredDrawHistory(entry: DrawHistoryEntry): DrawHistoryEntry[] {
+  const next = appendDrawHistory(loadDrawHistory(), entry);
+  saveDrawHistory(next);
+  return next;
+}
+
+export function loadRepeatRule(): RepeatRule {
+  try {
+    return normalizeRepeatRule(readJson(STORAGE_KEYS.repeatRule));
+  } catch {
+    return normalizeRepeatRule(null);
+  }
+}
+
+export function saveRepeatRule(rule: RepeatRule): void {
+  writeStorage(STORAGE_KEYS.repeatRule, JSON.stringify(rule));
+}
+
+export function loadParticipantFilter(): ParticipantFilter {
+  try {
+    return normalizeParticipantFilter(readJson(STORAGE_KEYS.participantFilter));
+  } catch {
+    return normalizeParticipantFilter(null);
+  }
+}
+
+export function saveParticipantFilter(filter: ParticipantFilter): void {
+  writeStorage(STORAGE_KEYS.participantFilter, JSON.stringify(filter));
+}
+
+/** Raw stored rosters: the live catalog and every preset's participants. */
+function readStoredRosters(): { catalog: unknown; presets: { activeId?: unknown; presets?: unknown } | null } {
+  let catalog: unknown = null;
+  let presets = null;
+  try {
+    catalog = readJson(STORAGE_KEYS.balls);
+  } catch {
+    // ignore: a broken catalog loads as the defaults anyway
+  }
+  try {
+    presets = readJson(STORAGE_KEYS.rosterPresets) as { activeId?: unknown; presets?: unknown } | null;
+  } catch {
+    // ignore: broken presets are rebuilt from the live roster
+  }
+  return { catalog, presets };
+}
+
+function hasInlineUpload(balls: unknown): boolean {
+  return (
+    Array.isArray(balls) &&
+    balls.some((ball) => typeof ball?.imageDataUrl === "string" && isUploadedImage(ball.imageDataUrl))
+  );
+}
+
+function collectImageRefs(balls: unknown, into: Set<string>): void {
+  if (!Array.isArray(balls)) return;
+  for (const ball of balls) {
+    if (isImageRef(ball?.imageDataUrl)) into.add(ball.imageDataUrl);
+  }
+}
+
+/** Every image reference in the stored rosters; null when neither can be read. */
+function collectStoredImageRefs(): Set<string> | null {
+  const stored = readStoredRosters();
+  if (stored.catalog == null && stored.presets == null) return null;
+  const refs = new Set<string>();
+  collectImageRefs(stored.catalog, refs);
+  if (Array.isArray(stored.presets?.presets)) {
+    for (const preset of stored.presets.presets) collectImageRefs(preset?.balls, refs);
+  }
+  return refs;
+}
+
+/** Re-saves stored rosters that still keep uploaded images inline (v1 data), moving the images to the store. */
+function moveInlineImagesToStore(): void {
+  const { catalog, presets } = readStoredRosters();
+  const presetList = Array.isArray(presets?.presets) ? presets.presets : [];
+  if (hasInlineUpload(catalog)) saveBallsCatalog(catalog as StoredBall[]);
+  if (presets && presetList.some((preset) => hasInlineUpload(preset?.balls))) {
+    saveRosterPresets(presets as RosterPresetStore);
+  }
+}
+
+/**
+ * Boot step before the app reads its rosters: opens the image store, moves images still inline
+ * in localStorage (v1 data) into it, and drops images nothing points to any more.
+ */
+export async function prepareStorage(): Promise<void> {
+  if (!(await openImageStore())) return;
+  moveInlineImagesToStore();
+
+  const keep = collectStoredImageRefs();
+  // Nothing readable (storage blocked or cleared mid-session): better to keep every image.
+  if (keep) await pruneImageStore(keep);
+}
+
+const IMAGE_SYNC_ATTEMPTS = 4;
+const IMAGE_SYNC_RETRY_MS = 150;
+
+/**
+ * Loads the images another tab saved rosters with, before this tab reads them. That tab's image
+ * writes may still be committing when its roster change arrives, so missing ones are retried briefly.
+ */
+export async function loadStoredRosterImages(): Promise<void> {
+  if (!isImageStoreReady()) return;
+  for (let attempt = 0; attempt < IMAGE_SYNC_ATTEMPTS; attempt++) {
+    const missing = [...(collectStoredImageRefs() ?? [])].filter((ref) => resolveImageRef(ref) == null);
+    if (!missing.length) return;
+    if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, IMAGE_SYNC_RETRY_MS));
+    await loadImages(missing);
+  }
+}
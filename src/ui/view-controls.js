@@ -5,13 +5,15 @@ import { mountCoordModeController } from "./coord-mode-controller.js";
  * Mount camera/minimap/coordinate debug controls.
  *
  * @param {{
- *   board: { worldW: number; worldH: number; slotH: number; layout: string; zigzag?: { propellers?: Array<{x:number;y:number}> } };
+ *   board: { worldW: number; worldH: number; slotH: number; layout: string; zigzag?: { propellers?: Array<{x:number;y:number}> } | null; custom?: { propellers?: Array<{x:number;y:number}> } | null };
  *   state: { mode?: string; pending?: Array<{x:number;y:number}>; marbles?: Array<{x:number;y:number}>; released?: boolean };
  *   renderer: {
  *     getViewState?: () => { cameraY: number; viewHWorld: number; cameraOverrideY?: number } | undefined;
  *     setCameraOverrideY?: (y: number) => void;
  *     clearCameraOverride?: () => void;
  *     screenToWorld: (sx: number, sy: number) => { x: number; y: number };
+ *     setBoard?: (next: import("../game/engine.ts").Board) => void;
+ *     setEditorHighlight?: (marker: { x: number; y: number; r: number } | null) => void;
  *   };
  *   viewState: { tailFocusOn: boolean };
  *   minimap?: HTMLCanvasElement | null;
@@ -21,6 +23,7 @@ import { mountCoordModeController } from "./coord-mode-controller.js";
  *   canvas?: HTMLCanvasElement | null;
  *   canvasCoordReadoutEl?: HTMLElement | null;
  *   canvasCoordCopyBtn?: HTMLButtonElement | null;
+ *   boardEditorEl?: HTMLElement | null;
  *   updateControls?: () => void;
  * }} opts
  */
@@ -37,9 +40,12 @@ export function mountViewControls(opts) {
     canvas,
     canvasCoordReadoutEl,
     canvasCoordCopyBtn,
+    boardEditorEl,
     updateControls = () => {},
   } = opts;
 
+  let currentBoard = board;
+
   const minimapController = mountMinimapController({
     board,
     state,
@@ -51,20 +57,47 @@ export function mountViewControls(opts) {
     updateControls,
   });
 
+  /**
+   * Show an editor preview board, or the current game board again when `preview` is null.
+   *
+   * @param {typeof board | null} preview
+   */
+  function showBoard(preview) {
+    const next = preview || currentBoard;
+    renderer.setBoard?.(next);
+    minimapController.setBoard(next);
+  }
+
   const coordModeController = mountCoordModeController({
     board,
+    state,
     renderer,
     canvas,
     canvasCoordReadoutEl,
     canvasCoordCopyBtn,
     minimapTitleEl,
+    boardEditorEl,
+    onPreviewBoard: showBoard,
   });
 
+  /**
+   * Switch to a new game board (layout picker). An open board editor restarts from it.
+   *
+   * @param {typeof board} next
+   */
+  function setBoard(next) {
+    currentBoard = next;
+    showBoard(null);
+    coordModeController.setBoard(next);
+  }
+
   return {
     drawMinimap: minimapController.drawMinimap,
     isCoordMode: coordModeController.isCoordMode,
+    setBoard,
     dispose: () => {
       minimapController.dispose?.();
+      coordModeController.dispose();
     },
   };
 }
@@ -1,6 +1,11 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { buildSystemBallImageDataUrl, isSystemBallAvatarUrl } from "../src/game/assets.ts";
+import {
+  BALL_LIBRARY,
+  buildSystemBallImageDataUrl,
+  createNextBall,
+  isSystemBallAvatarUrl,
+} from "../src/game/assets.ts";
 
 function decodeSvg(dataUrl) {
   const commaIndex = String(dataUrl).indexOf(",");
@@ -29,3 +34,28 @@ test("buildSystemBallImageDataUrl updates glyph from the latest name (emoji 포
   assert.equal(svg.includes('font-size="56"'), true);
   assert.equal(svg.includes('dominant-baseline="middle"'), true);
 });
+
+test("createNextBall uses the animal library first, then generated ids with stable colours", () => {
+  const first = createNextBall(new Set(["dog"]), "ko");
+  assert.equal(first.id, "rabbit");
+
+  const used = new Set(BALL_LIBRARY.map((ball) => ball.id));
+  const generated = createNextBall(used, "en");
+  assert.equal(generated.id, `p-${used.size + 1}`);
+  assert.equal(generated.name, `Participant ${used.size + 1}`);
+  assert.equal(isSystemBallAvatarUrl(generated.imageDataUrl), true);
+  assert.match(generated.tint, /^#[0-9a-f]{6}$/);
+
+  used.add(generated.id);
+  const next = createNextBall(used, "en");
+  assert.notEqual(next.id, generated.id);
+  assert.equal(createNextBall(new Set(BALL_LIBRARY.map((ball) => ball.id)), "en").tint, generated.tint);
+});
+
+test("buildSystemBallImageDataUrl derives a gradient for generated ids", () => {
+  const a = buildSystemBallImageDataUrl({ ballId: "p-16", name: "Ann" });
+  const b = buildSystemBallImageDataUrl({ ballId: "p-17", name: "Ann" });
+  assert.equal(isSystemBallAvatarUrl(a), true);
+  assert.notEqual(a, b);
+  assert.equal(buildSystemBallImageDataUrl({ ballId: "p-16", name: "Ann" }), a);
+});
@@ -1,6 +1,7 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 import { createAudioController } from "../src/ui/audio-controller.js";
+import { STORAGE_KEYS } from "../src/ui/storage-core.ts";
 
 function makeStorage() {
   const db = new Map();
@@ -131,3 +132,21 @@ test("setTrack while bgm on disposes previous audio and avoids dual playback", a
   assert.equal(first.playCalls, firstPlayCalls);
   assert.equal(second.playCalls, 1);
 });
+
+test("syncFromStorage takes the track and on/off another tab saved", async () => {
+  const controller = createAudioController();
+  localStorage.setItem(STORAGE_KEYS.bgmTrack, "bgm_2");
+  localStorage.setItem(STORAGE_KEYS.bgmOn, "1");
+
+  controller.syncFromStorage();
+  await Promise.resolve();
+
+  assert.equal(controller.getTrack(), "bgm_2");
+  assert.equal(controller.isOn(), true);
+  assert.equal(FakeAudio.instances.at(-1).playCalls, 1);
+
+  localStorage.setItem(STORAGE_KEYS.bgmOn, "0");
+  controller.syncFromStorage();
+  assert.equal(controller.isOn(), false);
+  assert.equal(FakeAudio.instances.at(-1).paused, true);
+});
@@ -0,0 +1,111 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  AVATAR_CROP_MAX_ZOOM,
+  AVATAR_OUTPUT_SIZE,
+  DEFAULT_AVATAR_CROP,
+  clampAvatarCrop,
+  encodeAvatar,
+  reencodeIncomingAvatars,
+  reencodeIncomingImage,
+  getAvatarCropRect,
+  panAvatarCrop,
+  zoomAvatarCrop,
+} from "../src/app/avatar-crop.ts";
+import { buildSystemBallImageDataUrl } from "../src/game/assets.ts";
+
+function roundedRect(width, height, crop) {
+  const rect = getAvatarCropRect(width, height, crop);
+  return { x: Math.round(rect.x), y: Math.round(rect.y), size: Math.round(rect.size) };
+}
+
+test("default crop is the centred square of the shorter side", () => {
+  assert.deepEqual(getAvatarCropRect(400, 300, DEFAULT_AVATAR_CROP), { x: 50, y: 0, size: 300 });
+  assert.deepEqual(getAvatarCropRect(200, 500, DEFAULT_AVATAR_CROP), { x: 0, y: 150, size: 200 });
+});
+
+test("zoom shrinks the crop around its centre and is capped", () => {
+  const zoomed = zoomAvatarCrop(400, 400, DEFAULT_AVATAR_CROP, 2);
+  assert.deepEqual(getAvatarCropRect(400, 400, zoomed), { x: 100, y: 100, size: 200 });
+  assert.equal(zoomAvatarCrop(400, 400, DEFAULT_AVATAR_CROP, 50).zoom, AVATAR_CROP_MAX_ZOOM);
+  assert.equal(zoomAvatarCrop(400, 400, DEFAULT_AVATAR_CROP, 0.2).zoom, 1);
+});
+
+test("panning moves the crop in source pixels and stops at the image edge", () => {
+  const zoomed = zoomAvatarCrop(400, 400, DEFAULT_AVATAR_CROP, 2);
+  assert.deepEqual(roundedRect(400, 400, panAvatarCrop(400, 400, zoomed, -40, 30)), { x: 60, y: 130, size: 200 });
+  assert.deepEqual(roundedRect(400, 400, panAvatarCrop(400, 400, zoomed, 500, -500)), { x: 200, y: 0, size: 200 });
+  // Without zoom a landscape image only pans sideways.
+  assert.deepEqual(roundedRect(400, 300, panAvatarCrop(400, 300, DEFAULT_AVATAR_CROP, 20, 80)), {
+    x: 70,
+    y: 0,
+    size: 300,
+  });
+});
+
+test("clampAvatarCrop pulls an out-of-range centre back inside", () => {
+  assert.deepEqual(clampAvatarCrop(400, 300, { centerX: 2, centerY: Number.NaN, zoom: 1 }), {
+    centerX: 250 / 400,
+    centerY: 0.5,
+    zoom: 1,
+  });
+});
+
+/** Canvas stand-in: records the draw and "encodes" to a short WebP data URL. */
+function installFakeCanvas() {
+  const canvases = [];
+  globalThis.document = {
+    createElement: () => {
+      const canvas = {
+        draws: [],
+        getContext: () => ({ drawImage: (...args) => canvas.draws.push(args) }),
+        toDataURL: (type) => `data:${type};base64,UklGRg==`,
+      };
+      canvases.push(canvas);
+      return canvas;
+    },
+  };
+  return canvases;
+}
+
+test("encodeAvatar draws only the crop square at the output size", () => {
+  const canvases = installFakeCanvas();
+  const source = {};
+  const dataUrl = encodeAvatar({ source, width: 400, height: 300, release: () => {} }, DEFAULT_AVATAR_CROP);
+  assert.equal(dataUrl, "data:image/webp;base64,UklGRg==");
+  const [canvas] = canvases;
+  assert.equal(canvas.width, AVATAR_OUTPUT_SIZE);
+  assert.equal(canvas.height, AVATAR_OUTPUT_SIZE);
+  assert.deepEqual(canvas.draws, [[source, 50, 0, 300, 300, 0, 0, AVATAR_OUTPUT_SIZE, AVATAR_OUTPUT_SIZE]]);
+});
+
+test("carried-in pictures are decoded and re-encoded; letter avatars and unusable images are not kept", async () => {
+  const canvases = installFakeCanvas();
+  let released = 0;
+  const decodedTypes = [];
+  globalThis.createImageBitmap = async (blob) => {
+    decodedTypes.push(blob.type);
+    return { width: 640, height: 480, close: () => released++ };
+  };
+  // A JPEG as it comes off a phone, metadata and all.
+  const original = `data:image/jpeg;base64,${Buffer.from("JPEG+EXIF+GPS".repeat(100)).toString("base64")}`;
+
+  assert.equal(await reencodeIncomingImage(original), "data:image/webp;base64,UklGRg==");
+  assert.deepEqual(decodedTypes, ["image/jpeg"]);
+  assert.equal(released, 1);
+  assert.equal(canvases.length, 1);
+
+  assert.equal(await reencodeIncomingImage("data:text/plain;base64,aGk="), "");
+  assert.equal(await reencodeIncomingImage(""), "");
+
+  const letter = buildSystemBallImageDataUrl({ ballId: "b", name: "Bo", tint: "#123456" });
+  const balls = await reencodeIncomingAvatars([
+    { id: "a", imageDataUrl: original },
+    { id: "b", imageDataUrl: letter },
+    { id: "c", imageDataUrl: "" },
+  ]);
+  assert.deepEqual(
+    balls.map((ball) => ball.imageDataUrl),
+    ["data:image/webp;base64,UklGRg==", letter, ""]
+  );
+});
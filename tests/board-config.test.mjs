@@ -0,0 +1,57 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { makeBoard, makeGameState, startGame } from "../src/game/engine.ts";
+import { createGameBoard, getBoardOptions, normalizePrizeSlots } from "../src/game/board-config.ts";
+import { createReplayRecord, createReplayState, parseReplayRecord } from "../src/game/replay.ts";
+
+test("prize slots are cleaned up: count, labels and widths", () => {
+  assert.equal(normalizePrizeSlots(null), null);
+  assert.equal(normalizePrizeSlots([{ label: "Solo", width: 1 }]), null);
+  const slots = normalizePrizeSlots([
+    { label: "  Coffee  ", width: 2 },
+    { label: "", width: 9 },
+    { width: "x" },
+    ...Array.from({ length: 8 }, () => ({ label: "more", width: 1 })),
+  ]);
+  assert.equal(slots.length, 8);
+  assert.deepEqual(slots.slice(0, 3), [
+    { label: "Coffee", width: 2 },
+    { label: "S2", width: 3 },
+    { label: "S3", width: 1 },
+  ]);
+});
+
+test("prize slots only change the classic board", () => {
+  const prize = [
+    { label: "Coffee", width: 1 },
+    { label: "Lunch", width: 2 },
+  ];
+  const options = getBoardOptions("classic", "short", prize);
+  assert.equal(options.corridorEnabled, false);
+  assert.deepEqual(options.slotLabels, ["Coffee", "Lunch"]);
+  assert.equal(options.heightMultiplier, 1);
+  const board = makeBoard(options);
+  assert.equal(board.corridor, null);
+  assert.deepEqual(board.slots.map((slot) => slot.x1), [300, 900]);
+
+  assert.equal(createGameBoard("zigzag", "long", prize).slots.length, 1);
+});
+
+test("exact replay builds a deterministic board and the replay record carries it", () => {
+  const prize = [
+    { label: "Coffee", width: 1 },
+    { label: "Lunch", width: 2 },
+  ];
+  const options = getBoardOptions("classic", "short", prize, true);
+  assert.deepEqual(options, { ...getBoardOptions("classic", "short", prize), deterministic: true });
+  assert.equal(getBoardOptions("zigzag", "long").deterministic, undefined);
+
+  const board = createGameBoard("classic", "short", prize, true);
+  assert.equal(board.deterministic, true);
+  const ballsCatalog = [{ id: "dog", name: "Dog", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" }];
+  const state = makeGameState({ seed: 7, board, ballsCatalog });
+  startGame(state);
+  const record = parseReplayRecord(JSON.parse(JSON.stringify(createReplayRecord(state, options))));
+  assert.equal(record.boardOptions.deterministic, true);
+  assert.equal(createReplayState(record).board.deterministic, true);
+});
@@ -0,0 +1,80 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { dropAll, makeBoard, makeGameState, startGame, step } from "../src/game/engine.ts";
+import { parseBoardDefinition, validateBoardDefinition } from "../src/game/board-definition.ts";
+import { createReplayRecord, replayRun, isSameFinishOrder } from "../src/game/replay.ts";
+
+const SAMPLE = JSON.parse(fs.readFileSync(new URL("../docs/boards/sample-funnel.json", import.meta.url), "utf8"));
+const BALLS = ["a", "b", "c", "d"].map((id) => ({ id, name: id.toUpperCase(), imageDataUrl: "", tint: "#fff" }));
+
+function sample() {
+  return structuredClone(SAMPLE);
+}
+
+test("makeBoard builds a custom layout from a board definition", () => {
+  const board = makeBoard({ definition: sample() });
+  assert.equal(board.layout, "custom");
+  assert.equal(board.worldH, SAMPLE.world.height * SAMPLE.heightMultiplier);
+  assert.equal(board.slotCount, 1);
+  assert.equal(board.custom.name, "Sample funnel");
+  assert.equal(board.custom.rotors.length, SAMPLE.rotors.length);
+  assert.equal(board.custom.spawnY, SAMPLE.spawn.y * SAMPLE.heightMultiplier);
+  assert.ok(board.wallSegments.length > 0);
+
+  const state = makeGameState({ seed: 7, board, ballsCatalog: BALLS.map((b) => ({ ...b })) });
+  startGame(state);
+  const record = createReplayRecord(state, { definition: sample() });
+  dropAll(state);
+  for (let i = 0; i < 60 * 60 && !state.winner; i++) step(state, 1 / 60);
+  assert.ok(state.winner, "expected the sample board to finish");
+
+  const replay = replayRun(JSON.parse(JSON.stringify(record)));
+  assert.ok(isSameFinishOrder(replay.finished, state.finished));
+});
+
+test("slot labels come from the definition", () => {
+  const def = sample();
+  def.slots.labels = ["1등", "2등", "3등"];
+  const board = makeBoard({ definition: def });
+  assert.deepEqual(
+    board.slots.map((s) => [s.label, s.x0]),
+    [
+      ["1등", 0],
+      ["2등", 300],
+      ["3등", 600],
+    ]
+  );
+});
+
+test("schema errors carry field paths", () => {
+  const def = sample();
+  def.format = "other";
+  def.walls[1].points[2] = [1];
+  def.spawn.leftWall = "missing";
+  delete def.slots;
+  assert.deepEqual(
+    validateBoardDefinition(def).map((issue) => issue.path),
+    ["board.format", "board.walls[1].points[2]", "board.spawn.leftWall", "board.slots"]
+  );
+  assert.throws(() => makeBoard({ definition: def }), /board\.walls\[1\]\.points\[2\]: must be \[x, y\]/);
+  assert.throws(() => makeBoard({ layout: "custom" }), /requires a board definition/);
+});
+
+test("geometry checks catch self-intersecting walls, stray rotors and blocked spawns", () => {
+  const crossed = sample();
+  crossed.walls.push({ id: "bow", type: "polyline", points: [[420, 500], [480, 560], [480, 500], [420, 560]] });
+  assert.throws(() => parseBoardDefinition(crossed), /board\.walls\[5\]: wall "bow" intersects itself/);
+
+  const stray = sample();
+  stray.rotors[2].x = 895;
+  assert.deepEqual(validateBoardDefinition(stray), [{ path: "board.rotors[2]", message: "outside the world" }]);
+
+  const blocked = sample();
+  blocked.walls.push({ id: "plug", type: "box", x: 450, y: 700, w: 400, h: 10, rot: 0 });
+  assert.deepEqual(validateBoardDefinition(blocked), [
+    { path: "board.spawn", message: "spawn area has no exit to the finish line" },
+  ]);
+
+  assert.deepEqual(validateBoardDefinition(sample()), []);
+});
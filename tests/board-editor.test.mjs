@@ -0,0 +1,94 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { makeBoard } from "../src/game/engine.ts";
+import { BOARD_OPTIONS_BY_LAYOUT } from "../src/game/board-config.ts";
+import { validateBoardDefinition } from "../src/game/board-definition.ts";
+import {
+  addEditorPropeller,
+  addEditorRotor,
+  appendEditorWallPoint,
+  boardToDefinition,
+  deleteEditorSelection,
+  finishEditorWall,
+  makeEditorPreviewBoard,
+  moveEditorSelection,
+  patchEditorMechanism,
+  pickEditorTarget,
+  runBoardTestDrop,
+} from "../src/game/board-editor.ts";
+
+const SAMPLE = JSON.parse(fs.readFileSync(new URL("../docs/boards/sample-funnel.json", import.meta.url), "utf8"));
+
+test("built-in boards convert to valid editable definitions", () => {
+  for (const layout of ["zigzag", "classic"]) {
+    const board = makeBoard(BOARD_OPTIONS_BY_LAYOUT[layout]);
+    const def = boardToDefinition(board);
+    assert.equal(def.world.width, board.worldW, layout);
+    assert.equal(def.heightMultiplier, 1, layout);
+    assert.deepEqual(validateBoardDefinition(def), [], layout);
+  }
+  const zigzagBoard = makeBoard(BOARD_OPTIONS_BY_LAYOUT.zigzag);
+  assert.equal(boardToDefinition(zigzagBoard).rotors.length, zigzagBoard.zigzag.rotors.length);
+});
+
+test("rotors and propellers can be added, picked, moved, tuned and deleted", () => {
+  const base = boardToDefinition(makeBoard({ definition: structuredClone(SAMPLE) }));
+  const rotorCount = base.rotors.length;
+
+  const added = addEditorRotor(base, 450, 900);
+  assert.equal(added.definition.rotors.length, rotorCount + 1);
+  assert.deepEqual(added.selection, { kind: "rotor", index: rotorCount });
+  assert.equal(base.rotors.length, rotorCount, "edits must not mutate the input definition");
+
+  const picked = pickEditorTarget(added.definition, 452, 903, 8);
+  assert.deepEqual(picked, added.selection);
+
+  const moved = moveEditorSelection(added.definition, picked, 5000, 1000);
+  const rotor = moved.rotors[rotorCount];
+  assert.equal(rotor.x, moved.world.width - rotor.r, "moves are clamped inside the world");
+  assert.equal(rotor.y, 1000);
+
+  const tuned = patchEditorMechanism(moved, picked, { omega: -4, r: 20, bounce: 3 });
+  assert.deepEqual(
+    [tuned.rotors[rotorCount].omega, tuned.rotors[rotorCount].r, tuned.rotors[rotorCount].bounce],
+    [-4, 20, 1]
+  );
+
+  const prop = addEditorPropeller(tuned, 450, 600);
+  assert.equal(prop.selection.kind, "propeller");
+  const noRadius = patchEditorMechanism(prop.definition, prop.selection, { r: 40 });
+  assert.equal("r" in noRadius.propellers[prop.selection.index], false);
+
+  const removed = deleteEditorSelection(prop.definition, picked);
+  assert.equal(removed.rotors.length, rotorCount);
+  assert.equal(removed.propellers.length, prop.definition.propellers.length);
+});
+
+test("walls are drawn point by point and spawn walls keep two points", () => {
+  const base = boardToDefinition(makeBoard(BOARD_OPTIONS_BY_LAYOUT.classic));
+  const first = appendEditorWallPoint(base, null, 300, 600);
+  const wallIndex = first.selection.index;
+  assert.equal(first.definition.walls[wallIndex].id, "wall-1");
+  assert.equal(finishEditorWall(first.definition, wallIndex).walls.length, base.walls.length);
+  assert.doesNotThrow(() => makeEditorPreviewBoard(first.definition));
+
+  const second = appendEditorWallPoint(first.definition, wallIndex, 420, 640);
+  assert.deepEqual(second.definition.walls[wallIndex].points, [
+    [300, 600],
+    [420, 640],
+  ]);
+  assert.equal(finishEditorWall(second.definition, wallIndex), second.definition);
+  assert.deepEqual(validateBoardDefinition(second.definition), []);
+
+  const left = base.walls.findIndex((w) => w.id === base.spawn.leftWall);
+  assert.equal(deleteEditorSelection(base, { kind: "wall", index: left, point: 0 }), base);
+});
+
+test("test drop runs the draft board headlessly", () => {
+  const result = runBoardTestDrop(structuredClone(SAMPLE), { marbles: 4 });
+  assert.equal(result.completed, true);
+  assert.equal(result.marbles, 4);
+  assert.equal(result.finished, 4);
+  assert.ok(result.simSeconds > 0);
+});
@@ -0,0 +1,51 @@
+import test, { beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { getBallLibrary, buildSystemBallImageDataUrl } from "../src/game/assets.ts";
+import { createCatalogController } from "../src/ui/catalog-controller.js";
+
+function makeStorage() {
+  const db = new Map();
+  return {
+    getItem(key) {
+      return db.has(key) ? db.get(key) : null;
+    },
+    setItem(key, value) {
+      db.set(key, String(value));
+    },
+    removeItem(key) {
+      db.delete(key);
+    },
+    clear() {
+      db.clear();
+    },
+  };
+}
+
+class FakeImage {
+  src = "";
+}
+
+beforeEach(() => {
+  globalThis.localStorage = makeStorage();
+  globalThis.Image = FakeImage;
+});
+
+test("applying settings keeps library pictures and gives only new balls a letter avatar", () => {
+  const state = {};
+  const controller = createCatalogController({ state });
+  const lib = getBallLibrary()[0];
+
+  assert.equal(
+    controller.replaceCatalog([
+      { id: lib.id, name: "Renamed", tint: lib.tint },
+      { id: "custom-1", name: "Mina", tint: "#123456" },
+    ]),
+    true
+  );
+  const [kept, added] = state.ballsCatalog;
+  assert.equal(kept.imageDataUrl, lib.imageDataUrl);
+  assert.equal(
+    added.imageDataUrl,
+    buildSystemBallImageDataUrl({ ballId: "custom-1", name: "Mina", tint: "#123456" })
+  );
+});
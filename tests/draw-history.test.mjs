@@ -0,0 +1,89 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DRAW_HISTORY_MAX,
+  appendDrawHistory,
+  createDrawHistoryId,
+  drawHistoryToCsv,
+  drawHistoryToJson,
+  filterDrawHistory,
+  normalizeDrawHistory,
+  toLocalDateKey,
+} from "../src/game/draw-history.ts";
+
+function entry(at, seed, winners, rosterName = "Dev team") {
+  return {
+    id: createDrawHistoryId(at, seed),
+    at,
+    rosterName,
+    rosterFingerprint: "abc123",
+    seed,
+    layout: "zigzag",
+    raceLength: "medium",
+    winnerRule: { kind: "last" },
+    winnerCount: winners.length,
+    participantCount: 5,
+    slotLabels: [],
+    winners: winners.map((name, i) => ({ rank: i + 1, ballId: `b${i}`, name, finishedAt: 12.5 + i, slot: -1, label: "" })),
+  };
+}
+
+test("history keeps the newest draw first and drops the oldest past the cap", () => {
+  let history = [];
+  for (let i = 0; i < DRAW_HISTORY_MAX + 5; i++) {
+    history = appendDrawHistory(history, entry(new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(), i, ["A"]));
+  }
+  assert.equal(history.length, DRAW_HISTORY_MAX);
+  assert.equal(history[0].seed, DRAW_HISTORY_MAX + 4);
+  assert.equal(history.at(-1).seed, 5);
+
+  // Appending the same draw again only moves it to the top.
+  const again = appendDrawHistory(history, history[3]);
+  assert.equal(again.length, DRAW_HISTORY_MAX);
+  assert.equal(again[0].id, history[3].id);
+  assert.equal(new Set(again.map((item) => item.id)).size, DRAW_HISTORY_MAX);
+});
+
+test("filter matches winner or roster names and an inclusive local date range", () => {
+  const first = entry(new Date(2026, 2, 1, 12).toISOString(), 1, ["Mina", "Joon"]);
+  const second = entry(new Date(2026, 2, 3, 12).toISOString(), 2, ["Sora"], "Whole floor");
+  const history = [second, first];
+
+  assert.deepEqual(filterDrawHistory(history, { query: "joon" }).map((item) => item.seed), [1]);
+  assert.deepEqual(filterDrawHistory(history, { query: " FLOOR " }).map((item) => item.seed), [2]);
+  assert.deepEqual(filterDrawHistory(history, { from: "2026-03-02" }).map((item) => item.seed), [2]);
+  assert.deepEqual(filterDrawHistory(history, { to: toLocalDateKey(first.at) }).map((item) => item.seed), [1]);
+  assert.equal(filterDrawHistory(history, {}).length, 2);
+});
+
+test("csv export writes one escaped row per winner", () => {
+  const csv = drawHistoryToCsv([entry("2026-03-01T03:00:00.000Z", 7, ['Kim, "Boss"', "Lee"])]);
+  const rows = csv.trimEnd().split("\r\n");
+  assert.equal(rows.length, 3);
+  assert.match(rows[0], /^timestamp,roster,layout,/);
+  assert.equal(
+    rows[1],
+    '2026-03-01T03:00:00.000Z,Dev team,zigzag,medium,last,2,5,7,abc123,1,,"Kim, ""Boss""",12.50'
+  );
+  assert.ok(rows[2].endsWith(",2,,Lee,13.50"));
+});
+
+test("json export round-trips and malformed entries are skipped", () => {
+  const valid = entry("2026-03-01T03:00:00.000Z", 7, ["Mina"]);
+  const exported = drawHistoryToJson([valid], "2026-03-02T00:00:00.000Z");
+  assert.equal(exported.format, "degururu-draw-history");
+  assert.deepEqual(normalizeDrawHistory(JSON.parse(JSON.stringify(exported))), [valid]);
+
+  const restored = normalizeDrawHistory([
+    valid,
+    valid,
+    { ...valid, id: "bad-date", at: "nope" },
+    { ...valid, id: "bad-layout", layout: "spiral" },
+    { ...valid, id: "no-winners", winners: [] },
+    { ...valid, id: "legacy", winnerRule: null, raceLength: "huge" },
+  ]);
+  assert.deepEqual(restored.map((item) => item.id), [valid.id, "legacy"]);
+  assert.deepEqual(restored[1].winnerRule, { kind: "last" });
+  assert.equal(restored[1].raceLength, "medium");
+  assert.deepEqual(normalizeDrawHistory(null), []);
+});
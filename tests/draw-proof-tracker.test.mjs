@@ -0,0 +1,100 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { makeBoard, makeGameState, makeRng, startGame, setBallCount } from "../src/game/engine.ts";
+import { createDrawProofTracker } from "../src/app/draw-proof-tracker.ts";
+
+const BOARD_OPTIONS = { layout: "zigzag", slotCount: 1, heightMultiplier: 1, elementScale: 0.85 };
+
+function makeState() {
+  const ballsCatalog = [{ id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" }];
+  return makeGameState({ seed: 1, board: makeBoard(BOARD_OPTIONS), ballsCatalog });
+}
+
+function makeSecrets() {
+  let n = 0;
+  return () => {
+    n++;
+    return { seed: 1000 + n, nonce: `nonce-${n}` };
+  };
+}
+
+function startWithSeed(tracker, state) {
+  const seed = tracker.takeSeed(state);
+  state.seed = seed;
+  state.rng = makeRng(seed);
+  startGame(state);
+  return tracker.beginRun(state);
+}
+
+test("draw proof tracker keeps the countdown commitment when nothing changed", () => {
+  const tracker = createDrawProofTracker({ boardOptions: BOARD_OPTIONS, createSecret: makeSecrets() });
+  const state = makeState();
+
+  const commit = tracker.commitNext(state);
+  assert.equal(tracker.getPendingCommitment(), commit);
+
+  const record = startWithSeed(tracker, state);
+  assert.equal(record.seed, 1001);
+  assert.equal(tracker.getPendingCommitment(), null);
+  assert.equal(tracker.getActiveCommitment(), commit);
+  assert.equal(tracker.getReplayRecord(), record);
+});
+
+test("draw proof tracker re-commits when the roster changes after the commitment", () => {
+  const tracker = createDrawProofTracker({ boardOptions: BOARD_OPTIONS, createSecret: makeSecrets() });
+  const state = makeState();
+
+  const commit = tracker.commitNext(state);
+  setBallCount(state, "dog", 3);
+  startWithSeed(tracker, state);
+
+  const active = tracker.getActiveCommitment();
+  assert.notEqual(active?.commitment, commit.commitment);
+  assert.notEqual(active?.rosterFingerprint, commit.rosterFingerprint);
+  assert.equal(tracker.getReplayRecord()?.seed, 1001);
+  assert.equal(tracker.reveal(state), null, "no proof before a winner exists");
+});
+
+test("switching the board drops a commitment made for the old board", () => {
+  const tracker = createDrawProofTracker({ boardOptions: BOARD_OPTIONS, createSecret: makeSecrets() });
+  const state = makeState();
+
+  tracker.commitNext(state);
+  const classic = { layout: "classic", slotCount: 1, heightMultiplier: 1, elementScale: 0.85 };
+  tracker.setBoardOptions(classic);
+  assert.equal(tracker.getPendingCommitment(), null);
+
+  const record = startWithSeed(tracker, state);
+  assert.equal(record.seed, 1002);
+  assert.equal(record.boardOptions.layout, "classic");
+});
+
+test("a roster change after the commitment was shown blocks the start until a new one is published", () => {
+  const tracker = createDrawProofTracker({ boardOptions: BOARD_OPTIONS, createSecret: makeSecrets() });
+  const state = makeState();
+
+  const shown = tracker.commitNext(state);
+  assert.equal(tracker.isCommitmentCurrent(state), true);
+  assert.equal(tracker.commitNext(state), shown, "a shown commitment that still matches is kept");
+
+  setBallCount(state, "dog", 3);
+  assert.equal(tracker.isCommitmentCurrent(state), false);
+
+  const republished = tracker.commitNext(state);
+  assert.notEqual(republished.commitment, shown.commitment);
+  assert.equal(tracker.isCommitmentCurrent(state), true);
+  startWithSeed(tracker, state);
+  assert.equal(tracker.getActiveCommitment(), republished, "the drop uses the commitment that was published");
+});
+
+test("an armed seed is used by the next commitment only", () => {
+  const tracker = createDrawProofTracker({ boardOptions: BOARD_OPTIONS, createSecret: makeSecrets() });
+  const state = makeState();
+
+  tracker.armSeed(42);
+  const record = startWithSeed(tracker, state);
+  assert.equal(record.seed, 42);
+
+  const next = startWithSeed(tracker, makeState());
+  assert.notEqual(next.seed, 42);
+});
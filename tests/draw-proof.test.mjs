@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { makeBoard, makeGameState, makeRng, startGame, setBallCount, dropAll, step } from "../src/game/engine.ts";
+import { createReplayRecord } from "../src/game/replay.ts";
+import { sha256Hex } from "../src/game/sha256.ts";
+import { buildRosterFingerprint, commitDraw, revealDrawProof, verifyDrawProof } from "../src/game/draw-proof.ts";
+
+const BOARD_OPTIONS = { layout: "zigzag", slotCount: 1, heightMultiplier: 1, elementScale: 0.85 };
+const BALLS = [
+  { id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" },
+  { id: "cat", name: "고양이", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#000" },
+];
+const NONCE = "00112233445566778899aabbccddeeff";
+
+function runCommittedDraw(seed) {
+  const state = makeGameState({ seed: 1, board: makeBoard(BOARD_OPTIONS), ballsCatalog: BALLS.map((b) => ({ ...b })) });
+  setBallCount(state, "dog", 2);
+  setBallCount(state, "cat", 2);
+  state.seed = seed;
+  state.rng = makeRng(seed);
+  startGame(state);
+  const record = createReplayRecord(state, BOARD_OPTIONS);
+  const commit = commitDraw(record, NONCE, "2026-01-01T00:00:00.000Z");
+  dropAll(state);
+  for (let i = 0; i < 120 * 60 && !state.winner; i++) step(state, 1 / 60);
+  return revealDrawProof({ commit, record, nonce: NONCE, finished: state.finished, winner: state.winner });
+}
+
+test("sha256Hex matches known vectors", () => {
+  assert.equal(sha256Hex(""), "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+  assert.equal(sha256Hex("abc"), "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+});
+
+test("revealed draw proof verifies against a headless re-run", () => {
+  const proof = runCommittedDraw(2024);
+  const result = verifyDrawProof(JSON.parse(JSON.stringify(proof)));
+  assert.equal(result.error, null);
+  assert.deepEqual(result.checks, { commitment: true, roster: true, winner: true, finishOrder: true });
+  assert.equal(result.ok, true);
+  assert.equal(result.replayWinner?.marbleId, proof.result.winner.marbleId);
+});
+
+test("draw proof verification catches a swapped seed or winner", () => {
+  const proof = runCommittedDraw(77);
+
+  const reseeded = { ...proof, replay: { ...proof.replay, seed: 78 } };
+  const reseededResult = verifyDrawProof(reseeded);
+  assert.equal(reseededResult.ok, false);
+  assert.equal(reseededResult.checks.commitment, false);
+
+  const loser = proof.result.finishOrder[0];
+  const swapped = { ...proof, result: { ...proof.result, winner: { ...loser, t: 0 } } };
+  const swappedResult = verifyDrawProof(swapped);
+  assert.equal(swappedResult.ok, false);
+  assert.equal(swappedResult.checks.commitment, true);
+  assert.equal(swappedResult.checks.winner, false);
+});
+
+test("roster fingerprint changes with entry counts", () => {
+  const a = buildRosterFingerprint(BALLS, { dog: 1, cat: 1 });
+  const b = buildRosterFingerprint(BALLS, { dog: 2, cat: 1 });
+  assert.notEqual(a, b);
+  assert.equal(a, buildRosterFingerprint(BALLS.map((x) => ({ ...x })), { cat: 1, dog: 1 }));
+});
@@ -1,6 +1,29 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { makeBoard, makeGameState, startGame, setDropX, dropAll, setBallCount, step } from "../src/game/engine.ts";
+import {
+  makeBoard,
+  makeGameState,
+  startGame,
+  setDropX,
+  dropAll,
+  setBallCount,
+  setBoard,
+  setWinnerRule,
+  getTotalSelectedCount,
+  isBallActive,
+  prepareDropQueue,
+  getDecidingArrival,
+  getRemainingToDecide,
+  getContenderMarbles,
+  step,
+  clampWinnerRank,
+  normalizeWinnerRule,
+  WINNER_RANK_MAX,
+} from "../src/game/engine.ts";
+import { sha256Hex } from "../src/game/sha256.ts";
+
+// 36 marbles on the zigzag board, seed 2024; changes only with an intentional physics change.
+const DETERMINISTIC_RUN_HASH = "e0ebbd44146e1c8c99dfc81c36ce2fe657463041dca59bba64d6824e68d9285c";
 
 test("dropAll releases all marbles and winner is the last finisher", () => {
   const board = makeBoard({ slotCount: 8, heightMultiplier: 1, corridorEnabled: false });
@@ -25,6 +48,23 @@ test("dropAll releases all marbles and winner is the last finisher", () => {
   assert.equal(state.winner.t, Math.max(...state.finished.map((x) => x.t)));
 });
 
+test("absent participants (0 entries) stay in the roster but get no marbles", () => {
+  const ballsCatalog = [
+    { id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" },
+    { id: "cat", name: "고양이", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#000" },
+  ];
+  const state = makeGameState({ seed: 7, board: makeBoard({ layout: "zigzag" }), ballsCatalog });
+  setBallCount(state, "dog", 3);
+  setBallCount(state, "cat", 0);
+  assert.equal(isBallActive(state, "cat"), false);
+  assert.equal(getTotalSelectedCount(state), 3);
+
+  // An entry adjustment (e.g. the anti-repeat bonus) never brings an absentee back.
+  state.entryAdjustments = { cat: 4 };
+  assert.deepEqual(prepareDropQueue(state, { shuffle: false }), ["dog", "dog", "dog"]);
+  assert.equal(state.ballsCatalog.length, 2);
+});
+
 test("zigzag layout reduces straight falls (lateral motion) and propeller mixes", () => {
   const board = makeBoard({ layout: "zigzag", slotCount: 8, heightMultiplier: 1, corridorEnabled: false, elementScale: 0.85 });
   const ballsCatalog = [
@@ -90,3 +130,148 @@ test("zigzag marbles stay inside playable bounds under congestion", () => {
     }
   }
 });
+
+test("setBoard swaps the board between runs but not during one", () => {
+  const ballsCatalog = [{ id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" }];
+  const state = makeGameState({ seed: 3, board: makeBoard({ layout: "zigzag", heightMultiplier: 1 }), ballsCatalog });
+  startGame(state);
+  const classic = makeBoard({ layout: "classic", slotCount: 4, heightMultiplier: 1 });
+  assert.throws(() => setBoard(state, classic), /during a run/);
+
+  state.winner = { marbleId: "m", ballId: "dog", slot: 0, label: "", t: 1 };
+  setBoard(state, classic);
+  assert.equal(state.board, classic);
+  assert.equal(state.mode, "menu");
+  assert.equal(state.winner, null);
+  assert.equal(state._binCounts.length, 4);
+  assert.equal(state.dropX, classic.worldW / 2);
+});
+
+test("slots take custom labels and relative widths", () => {
+  const board = makeBoard({ slotCount: 3, slotLabels: ["Coffee", "Lunch", "Free"], slotWidths: [1, 2, 1] });
+  assert.deepEqual(
+    board.slots.map((slot) => [slot.label, slot.x0, slot.x1]),
+    [
+      ["Coffee", 0, 225],
+      ["Lunch", 225, 675],
+      ["Free", 675, 900],
+    ]
+  );
+  const equal = makeBoard({ slotCount: 4 });
+  assert.deepEqual(
+    equal.slots.map((slot) => slot.label),
+    ["S1", "S2", "S3", "S4"]
+  );
+
+  const ballsCatalog = [{ id: "a", name: "A", imageDataUrl: "", tint: "#fff" }];
+  const prizeBoard = makeBoard({
+    slotCount: 3,
+    slotLabels: ["Coffee", "Lunch", "Free"],
+    slotWidths: [1, 2, 1],
+    corridorEnabled: false,
+  });
+  const state = makeGameState({ seed: 7, board: prizeBoard, ballsCatalog });
+  setBallCount(state, "a", 6);
+  startGame(state);
+  dropAll(state);
+  for (let i = 0; i < 60 * 60 && !state.winner; i++) step(state, 1 / 60);
+  assert.ok(state.winner);
+  for (const entry of state.finished) {
+    const slot = state.board.slots[entry.slot];
+    assert.equal(entry.label, slot.label);
+  }
+});
+
+test("winner rules decide at the right arrival and stop recording once decided", () => {
+  assert.equal(getDecidingArrival({ kind: "last" }, 10, 3), 10);
+  assert.equal(getDecidingArrival({ kind: "first" }, 10, 3), 3);
+  assert.equal(getDecidingArrival({ kind: "rank", rank: 4 }, 10, 2), 5);
+  assert.equal(getDecidingArrival({ kind: "rank", rank: 9 }, 10, 3), 10);
+
+  const board = makeBoard({ slotCount: 1, heightMultiplier: 1, corridorEnabled: false });
+  const ballsCatalog = [{ id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" }];
+  const state = makeGameState({ seed: 7, board, ballsCatalog });
+  setBallCount(state, "dog", 6);
+  setWinnerRule(state, { kind: "rank", rank: 2 }, 2);
+  startGame(state);
+  assert.throws(() => setWinnerRule(state, { kind: "first" }), /during a run/);
+  dropAll(state);
+  assert.equal(getRemainingToDecide(state), 3);
+  assert.equal(getContenderMarbles(state).length, 3);
+
+  for (let i = 0; i < 60 * 60 && !state.winner; i++) step(state, 1 / 60);
+  assert.ok(state.winner);
+  assert.ok(state.finished.length >= 3 && state.finished.length < 6);
+  assert.equal(state.winner, state.finished[1]);
+  assert.equal(getRemainingToDecide(state), 0);
+
+  const falling = state.marbles.filter((m) => !m.result);
+  const before = falling.map((m) => [m.x, m.y]);
+  const finishedCount = state.finished.length;
+  const winner = state.winner;
+  for (let i = 0; i < 60; i++) step(state, 1 / 60);
+  assert.notDeepEqual(falling.map((m) => [m.x, m.y]), before);
+  assert.equal(state.finished.length, finishedCount);
+  assert.equal(state.winner, winner);
+});
+
+test("rank rules share one clamp between the engine and stored rules", () => {
+  assert.equal(WINNER_RANK_MAX, 999);
+  assert.equal(clampWinnerRank(0), 1);
+  assert.equal(clampWinnerRank(3.7), 3);
+  assert.equal(clampWinnerRank(5000), WINNER_RANK_MAX);
+  assert.deepEqual(normalizeWinnerRule({ kind: "rank", rank: 5000 }), { kind: "rank", rank: WINNER_RANK_MAX });
+  assert.equal(normalizeWinnerRule({ kind: "rank", rank: 0 }), null);
+
+  const state = makeGameState({ seed: 1, board: makeBoard({ slotCount: 1, heightMultiplier: 1, corridorEnabled: false }), ballsCatalog: [] });
+  setWinnerRule(state, { kind: "rank", rank: 5000 });
+  assert.deepEqual(state.winnerRule, normalizeWinnerRule({ kind: "rank", rank: 5000 }));
+});
+
+
+function hashRun(state, maxSteps) {
+  // Exact bits of every marble every half second, plus the finish order.
+  const bits = new DataView(new ArrayBuffer(8));
+  const parts = [];
+  let steps = 0;
+  for (; steps < maxSteps && !state.winner; steps++) {
+    step(state, 1 / 60);
+    if (steps % 30 !== 0) continue;
+    for (const m of state.marbles) {
+      for (const v of [m.x, m.y, m.vx, m.vy]) {
+        bits.setFloat64(0, v);
+        parts.push(bits.getBigUint64(0).toString(16));
+      }
+    }
+  }
+  parts.push(state.finished.map((f) => f.marbleId).join(","));
+  return { hash: sha256Hex(parts.join("|")), steps };
+}
+
+function startDeterministicRun(physicsQuality) {
+  const board = makeBoard({ layout: "zigzag", slotCount: 1, heightMultiplier: 1, elementScale: 0.85, deterministic: true });
+  const ballsCatalog = ["dog", "cat", "fox", "owl"].map((id) => ({ id, name: id, imageDataUrl: "", tint: "#fff" }));
+  const state = makeGameState({ seed: 2024, board, ballsCatalog });
+  for (const b of ballsCatalog) setBallCount(state, b.id, 9);
+  state.physicsQuality = physicsQuality;
+  startGame(state);
+  dropAll(state);
+  return state;
+}
+
+test("deterministic boards hash the same full run regardless of quality and native math", () => {
+  const native = { sin: Math.sin, cos: Math.cos, hypot: Math.hypot };
+  const first = hashRun(startDeterministicRun("adaptive"), 60 * 120);
+  assert.ok(first.steps < 60 * 120, "run should finish");
+  assert.equal(first.hash, DETERMINISTIC_RUN_HASH);
+
+  // A different browser's last-bit rounding must not leak into the run.
+  Math.sin = (x) => native.sin(x) * (1 + 2 ** -50);
+  Math.cos = (x) => native.cos(x) * (1 + 2 ** -50);
+  Math.hypot = (x, y) => native.hypot(x, y) * (1 + 2 ** -50);
+  try {
+    assert.deepEqual(hashRun(startDeterministicRun("full"), 60 * 120), first);
+  } finally {
+    Object.assign(Math, native);
+  }
+});
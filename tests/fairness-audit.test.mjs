@@ -0,0 +1,73 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { chiSquareTest, chiSquareUniform, ksTwoSample } from "../src/game/audit-stats.ts";
+import { formatFairnessAuditText, runFairnessAudit, summarizeFairnessAudit } from "../src/game/fairness-audit.ts";
+
+test("chi-square and KS statistics match reference values", () => {
+  const chi = chiSquareTest([10, 20, 30], [20, 20, 20]);
+  assert.equal(chi.statistic, 10);
+  assert.equal(chi.df, 2);
+  // exp(-5) for df=2
+  assert.ok(Math.abs(chi.pValue - Math.exp(-5)) < 1e-9);
+
+  assert.equal(chiSquareUniform([25, 25, 25, 25]).pValue, 1);
+
+  const same = ksTwoSample([1, 2, 3, 4, 5], [1, 2, 3, 4, 5]);
+  assert.equal(same.statistic, 0);
+  assert.equal(same.pValue, 1);
+
+  const apart = ksTwoSample(
+    Array.from({ length: 50 }, (_, i) => i),
+    Array.from({ length: 50 }, (_, i) => 100 + i)
+  );
+  assert.equal(apart.statistic, 1);
+  assert.ok(apart.pValue < 1e-6);
+});
+
+test("audit summary builds per-position win rates from trial records", () => {
+  const records = [];
+  for (let run = 0; run < 4; run++) {
+    for (let spawnIndex = 0; spawnIndex < 2; spawnIndex++) {
+      records.push({
+        run,
+        seed: run + 1,
+        marbleId: `m_${spawnIndex}_${run}`,
+        ballId: `b${((run + spawnIndex) % 2) + 1}`,
+        spawnIndex,
+        spawnRow: 0,
+        spawnX: spawnIndex === 0 ? 400 : 500,
+        finishRank: spawnIndex === 0 ? 1 : 2,
+        finishT: 10,
+      });
+    }
+  }
+  const report = summarizeFairnessAudit(records, { layout: "zigzag", participants: 2, runs: 4, seedStart: 1 });
+  assert.equal(report.completedRuns, 4);
+  assert.deepEqual(
+    report.positions.map((p) => [p.spawnIndex, p.wins, p.winRate, p.meanSpawnX, p.meanFinishRank]),
+    [
+      [0, 4, 1, 400, 1],
+      [1, 0, 0, 500, 2],
+    ]
+  );
+  assert.deepEqual(report.balls.map((b) => b.wins), [2, 2]);
+  assert.equal(report.tests.spawnIndex.statistic, 4);
+  assert.equal(report.tests.ballId.statistic, 0);
+});
+
+test("audit runs seeded draws and records every marble", () => {
+  const { report, records } = runFairnessAudit({
+    boardOptions: { layout: "classic", slotCount: 1 },
+    participants: 3,
+    runs: 3,
+    seedStart: 10,
+  });
+  assert.equal(records.length, 9);
+  assert.equal(report.completedRuns, 3);
+  assert.equal(report.positions.reduce((sum, p) => sum + p.wins, 0), 3);
+  for (let run = 0; run < 3; run++) {
+    const ranks = records.filter((r) => r.run === run).map((r) => r.finishRank).sort();
+    assert.deepEqual(ranks, [1, 2, 3]);
+  }
+  assert.match(formatFairnessAuditText(report), /pos {2}row {2}spawnX/);
+});
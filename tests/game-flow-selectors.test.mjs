@@ -45,6 +45,26 @@ test("finish tension snapshot activates near finish and slowdown clamps correctl
   assert.equal(getFinishTempoMultiplier(1, snapshot) <= 0.56, true);
 });
 
+test("finish tension counts the arrivals the winner rule still needs", () => {
+  const base = {
+    mode: "playing",
+    hasWinner: false,
+    released: true,
+    totalToDrop: 8,
+    finishedCount: 0,
+    finishTriggerRemaining: 3,
+    worldH: 1000,
+    marbles: [
+      { done: false, y: 950 },
+      { done: false, y: 400 },
+    ],
+  };
+  assert.equal(getFinishTensionSnapshot(base).active, false, "last arrival is still far off");
+  const firstArrival = getFinishTensionSnapshot({ ...base, remainingToDecide: 1 });
+  assert.equal(firstArrival.active, true);
+  assert.equal(firstArrival.remaining, 1);
+});
+
 test("sanitize helpers trim control chars and preserve fallback", () => {
   assert.equal(sanitizeBallName("  토끼\t\n", "기본"), "토끼");
   assert.equal(sanitizeBallName("", "기본"), "기본");
@@ -0,0 +1,63 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatHeadlessDrawText,
+  parseRosterText,
+  parseWinnerRuleText,
+  runHeadlessDraw,
+} from "../src/app/headless-draw.ts";
+
+test("roster parser accepts text lines with counts and JSON arrays", () => {
+  const fromText = parseRosterText("# team\n민수\n지영, 3\n\nAlex\n");
+  assert.deepEqual(
+    fromText.map((e) => [e.ball.id, e.ball.name, e.count]),
+    [
+      ["p1", "민수", 1],
+      ["p2", "지영", 3],
+      ["p3", "Alex", 1],
+    ]
+  );
+
+  const fromJson = parseRosterText('["A", { "id": "b", "name": "B", "count": 2 }]');
+  assert.deepEqual(
+    fromJson.map((e) => [e.ball.id, e.ball.name, e.count]),
+    [
+      ["p1", "A", 1],
+      ["b", "B", 2],
+    ]
+  );
+});
+
+test("roster parser reports the failing entry", () => {
+  assert.throws(() => parseRosterText(""), /no participants/);
+  assert.throws(() => parseRosterText('[{ "name": "A", "count": 0 }]'), /roster\[0\]\.count/);
+  assert.throws(() => parseRosterText('[{ "id": "x", "name": "A" }, { "id": "x", "name": "B" }]'), /duplicate id "x"/);
+});
+
+test("headless draw is repeatable per seed and ranks last finishers first", () => {
+  const roster = parseRosterText("A\nB,2\nC");
+  const a = runHeadlessDraw({ roster, winnerCount: 2, layout: "classic", seed: 31 });
+  const b = runHeadlessDraw({ roster, winnerCount: 2, layout: "classic", seed: 31 });
+
+  assert.equal(a.participantCount, 4);
+  assert.equal(a.items.length, 2);
+  assert.deepEqual(a.items, b.items);
+  assert.deepEqual(Object.keys(a.items[0]).sort(), ["ballId", "finishedAt", "img", "label", "name", "rank", "slot"]);
+  assert.ok(a.items[0].finishedAt >= a.items[1].finishedAt);
+  assert.match(formatHeadlessDrawText(a), /^seed 31 · classic · 4 marbles/);
+});
+
+test("headless draw applies the winner rule to selection and numbering", () => {
+  assert.deepEqual(parseWinnerRuleText("first"), { kind: "first" });
+  assert.deepEqual(parseWinnerRuleText("3"), { kind: "rank", rank: 3 });
+  assert.throws(() => parseWinnerRuleText("0"), /rule:/);
+
+  const roster = parseRosterText("A\nB\nC\nD");
+  const result = runHeadlessDraw({ roster, winnerRule: { kind: "rank", rank: 2 }, layout: "classic", seed: 31 });
+  const firstTwo = runHeadlessDraw({ roster, winnerCount: 2, winnerRule: { kind: "first" }, layout: "classic", seed: 31 });
+  assert.equal(result.items[0].ballId, firstTwo.items[1].ballId);
+  assert.deepEqual(result.winnerRule, { kind: "rank", rank: 2 });
+  const text = formatHeadlessDrawText(result);
+  assert.match(text, / · place 2\n2\. /);
+});
+
@@ -0,0 +1,179 @@
+import test, { beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { openImageStore, resolveImageRef, storeImage, subscribeImageWrites } from "../src/ui/image-store.ts";
+import {
+  loadBallsCatalog,
+  loadRosterPresets,
+  prepareStorage,
+  saveBallsCatalog,
+  saveRosterPresets,
+} from "../src/ui/storage.ts";
+import { STORAGE_KEYS, subscribeStorageErrors } from "../src/ui/storage-core.ts";
+
+/** localStorage with room for `quota` characters of values. */
+function makeStorage(quota = Infinity) {
+  const db = new Map();
+  return {
+    getItem(key) {
+      return db.has(key) ? db.get(key) : null;
+    },
+    setItem(key, value) {
+      const used = [...db].reduce((sum, [k, v]) => sum + (k === key ? 0 : v.length), 0);
+      if (used + String(value).length > quota) {
+        throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+      }
+      db.set(key, String(value));
+    },
+    removeItem(key) {
+      db.delete(key);
+    },
+    clear() {
+      db.clear();
+    },
+  };
+}
+
+/** Just enough IndexedDB for the image store; `quotaFull` makes every write transaction abort. */
+function makeIndexedDb() {
+  const data = new Map();
+  const fake = { data, quotaFull: false };
+  const request = (read) => {
+    const req = {};
+    queueMicrotask(() => {
+      req.result = read();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+  const db = {
+    objectStoreNames: { contains: () => true },
+    transaction() {
+      const tx = { error: null };
+      const puts = [];
+      tx.objectStore = () => ({
+        getAllKeys: () => request(() => [...data.keys()]),
+        getAll: () => request(() => [...data.values()]),
+        get: (key) => request(() => data.get(key)),
+        put: (value, key) => puts.push([key, value]),
+        delete: (key) => puts.push([key, undefined]),
+      });
+      setTimeout(() => {
+        if (fake.quotaFull && puts.some(([, value]) => value !== undefined)) {
+          tx.error = new DOMException("The quota has been exceeded.", "QuotaExceededError");
+          tx.onabort?.();
+          return;
+        }
+        for (const [key, value] of puts) {
+          if (value === undefined) data.delete(key);
+          else data.set(key, value);
+        }
+        tx.oncomplete?.();
+      }, 0);
+      return tx;
+    },
+  };
+  fake.open = () => request(() => db);
+  return fake;
+}
+
+const idb = makeIndexedDb();
+globalThis.indexedDB = idb;
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 5));
+const upload = (tag, size = 0) =>
+  `data:image/png;base64,${Buffer.from(`image-${tag}`.padEnd(size, "x")).toString("base64")}`;
+const ball = (imageDataUrl) => ({ id: "dog", name: "강아지", imageDataUrl, tint: "#fff" });
+
+beforeEach(() => {
+  globalThis.localStorage = makeStorage();
+  idb.quotaFull = false;
+});
+
+test("a reference is handed out only after the image is committed", async () => {
+  assert.equal(await openImageStore(), true);
+  let writes = 0;
+  const unsubscribe = subscribeImageWrites(() => writes++);
+  const dataUrl = upload("committed");
+
+  assert.equal(storeImage(dataUrl), "pending");
+  assert.equal(storeImage(dataUrl), "pending", "a write already on its way is not started twice");
+  await settle();
+  unsubscribe();
+
+  assert.equal(writes, 1);
+  const ref = storeImage(dataUrl);
+  assert.match(ref, /^img:/);
+  assert.equal(idb.data.get(ref), dataUrl);
+  assert.equal(resolveImageRef(ref), dataUrl);
+});
+
+test("a new upload too big for localStorage is saved as a reference once its write commits", async () => {
+  assert.equal(await openImageStore(), true);
+  globalThis.localStorage = makeStorage(20000);
+  const errors = [];
+  const unsubscribe = subscribeStorageErrors((event) => errors.push(event));
+  const dataUrl = upload("large", 50000);
+
+  assert.equal(saveBallsCatalog([ball(dataUrl)]), true);
+  assert.equal(localStorage.getItem(STORAGE_KEYS.balls), null, "the roster waits for the image");
+  await settle();
+  unsubscribe();
+
+  assert.deepEqual(errors, []);
+  assert.match(JSON.parse(localStorage.getItem(STORAGE_KEYS.balls))[0].imageDataUrl, /^img:/);
+  assert.equal(loadBallsCatalog()[0].imageDataUrl, dataUrl);
+});
+
+test("roster presets wait for their uploads the same way, and the latest save wins", async () => {
+  assert.equal(await openImageStore(), true);
+  globalThis.localStorage = makeStorage(20000);
+  const dataUrl = upload("preset", 50000);
+  // The active preset's roster lives in the catalog; the parked one carries the upload.
+  const store = (name) => ({
+    activeId: "live",
+    presets: [
+      { id: "live", name: "Live", balls: [], counts: {}, winnerCount: 1, startCaption: "" },
+      { id: "parked", name, balls: [ball(dataUrl)], counts: { dog: 1 }, winnerCount: 1, startCaption: "" },
+    ],
+  });
+
+  saveRosterPresets(store("Old"));
+  saveRosterPresets(store("New"));
+  assert.equal(localStorage.getItem(STORAGE_KEYS.rosterPresets), null);
+  await settle();
+
+  const stored = JSON.parse(localStorage.getItem(STORAGE_KEYS.rosterPresets));
+  assert.equal(stored.presets[1].name, "New");
+  assert.match(stored.presets[1].balls[0].imageDataUrl, /^img:/);
+  assert.equal(loadRosterPresets().presets[1].balls[0].imageDataUrl, dataUrl);
+});
+
+test("an aborted write keeps the image inline in the saved roster", async () => {
+  assert.equal(await openImageStore(), true);
+  const errors = [];
+  const unsubscribe = subscribeStorageErrors((event) => errors.push(event));
+  idb.quotaFull = true;
+  const dataUrl = upload("aborted");
+
+  saveBallsCatalog([ball(dataUrl)]);
+  await settle();
+  unsubscribe();
+
+  assert.deepEqual(errors, [{ kind: "quota", key: "images" }]);
+  assert.equal(JSON.parse(localStorage.getItem(STORAGE_KEYS.balls))[0].imageDataUrl, dataUrl);
+  assert.equal(loadBallsCatalog()[0].imageDataUrl, dataUrl);
+
+  // Later saves keep it inline instead of retrying a store that is full.
+  idb.quotaFull = false;
+  saveBallsCatalog([ball(dataUrl)]);
+  assert.equal(JSON.parse(localStorage.getItem(STORAGE_KEYS.balls))[0].imageDataUrl, dataUrl);
+});
+
+test("at boot, rosters saved with inline images switch to references once the images are committed", async () => {
+  const dataUrl = upload("boot");
+  localStorage.setItem(STORAGE_KEYS.balls, JSON.stringify([ball(dataUrl)]));
+
+  await prepareStorage();
+  await settle();
+  assert.match(JSON.parse(localStorage.getItem(STORAGE_KEYS.balls))[0].imageDataUrl, /^img:/);
+});
@@ -0,0 +1,63 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { makeBoard } from "../src/game/engine.ts";
+import { createCourseProgress } from "../src/game/course-progress.ts";
+import { pickLiveRankingRows, rankLiveMarbles } from "../src/app/live-ranking.ts";
+
+function marble(id, y, done = false) {
+  return { id, ballId: id.split("#")[0], name: id.toUpperCase(), y, done };
+}
+
+test("arrivals rank first in arrival order, then marbles furthest along the course", () => {
+  const entries = rankLiveMarbles({
+    finished: [
+      { marbleId: "b#1", ballId: "b", t: 9.5, slot: 0, label: "" },
+      { marbleId: "a#1", ballId: "a", t: 8.25, slot: 0, label: "" },
+    ],
+    marbles: [marble("a#1", 900, true), marble("b#1", 900, true), marble("c#1", 300), marble("d#1", 700)],
+    progressAt: (y) => y / 1000,
+    getArrivalSeconds: (entry) => entry.t * 2,
+  });
+  assert.deepEqual(
+    entries.map((entry) => [entry.rank, entry.marbleId, entry.name, entry.arrivalSeconds]),
+    [
+      [1, "a#1", "A#1", 16.5],
+      [2, "b#1", "B#1", 19],
+      [3, "d#1", "D#1", null],
+      [4, "c#1", "C#1", null],
+    ]
+  );
+});
+
+test("long rankings keep the leaders and the last places", () => {
+  const entries = Array.from({ length: 25 }, (_, i) => ({ marbleId: `m${i}`, rank: i + 1 }));
+  const rows = pickLiveRankingRows(entries, 10);
+  assert.deepEqual(
+    rows.head.map((entry) => entry.rank),
+    [1, 2, 3, 4, 5]
+  );
+  assert.deepEqual(
+    rows.tail.map((entry) => entry.rank),
+    [21, 22, 23, 24, 25]
+  );
+  assert.equal(rows.hiddenCount, 15);
+  assert.deepEqual(pickLiveRankingRows(entries.slice(0, 4), 10), { head: entries.slice(0, 4), tail: [], hiddenCount: 0 });
+});
+
+test("course progress runs from 0 to 1 and follows the zigzag corridor", () => {
+  const classic = makeBoard({ layout: "classic" });
+  const straight = createCourseProgress(classic);
+  assert.equal(straight(classic.worldH / 4), 0.25);
+  assert.equal(straight(-50), 0);
+
+  const zigzag = makeBoard({ layout: "zigzag" });
+  const along = createCourseProgress(zigzag);
+  assert.equal(along(0), 0);
+  assert.equal(along(zigzag.worldH), 1);
+  let last = 0;
+  for (let y = 0; y <= zigzag.worldH; y += zigzag.worldH / 50) {
+    const progress = along(y);
+    assert.ok(progress >= last, `progress must not go back at y=${y}`);
+    last = progress;
+  }
+});
@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  PARTICIPANT_TAGS_MAX,
+  collectParticipantTags,
+  cycleTagFilter,
+  getInactiveParticipantIds,
+  getTagFilterState,
+  normalizeParticipantFilter,
+  normalizeTags,
+} from "../src/game/participant-tags.ts";
+import { getTotalSelectedCount, makeBoard, makeGameState, setBallCount } from "../src/game/engine.ts";
+
+const ROSTER = [
+  { id: "a", tags: ["backend", "office"] },
+  { id: "b", tags: ["frontend", "office"] },
+  { id: "c", tags: ["backend", "remote"] },
+  { id: "d" },
+];
+
+test("tags are trimmed, deduped and capped; a string is split on commas", () => {
+  assert.deepEqual(normalizeTags(" #backend ,office,, backend , re\nmote"), ["backend", "office", "re mote"]);
+  assert.deepEqual(normalizeTags([1, "ok", null]), ["ok"]);
+  assert.deepEqual(normalizeTags({ tags: "x" }), []);
+  const many = Array.from({ length: 20 }, (_, i) => `t${i}`);
+  assert.equal(normalizeTags(many).length, PARTICIPANT_TAGS_MAX);
+});
+
+test("a stored filter keeps each tag on one side only, exclusion winning", () => {
+  assert.deepEqual(normalizeParticipantFilter({ include: ["office", "backend"], exclude: "backend" }), {
+    include: ["office"],
+    exclude: ["backend"],
+  });
+  assert.deepEqual(normalizeParticipantFilter("nope"), { include: [], exclude: [] });
+});
+
+test("chip clicks cycle a tag through include, exclude and off", () => {
+  let filter = normalizeParticipantFilter(null);
+  filter = cycleTagFilter(filter, "office");
+  assert.equal(getTagFilterState(filter, "office"), "include");
+  filter = cycleTagFilter(filter, "office");
+  assert.equal(getTagFilterState(filter, "office"), "exclude");
+  filter = cycleTagFilter(filter, "office");
+  assert.deepEqual(filter, { include: [], exclude: [] });
+});
+
+test("include keeps participants with any included tag; exclude always sits them out", () => {
+  assert.deepEqual(collectParticipantTags(ROSTER), ["backend", "office", "frontend", "remote"]);
+  assert.deepEqual(getInactiveParticipantIds(ROSTER, { include: [], exclude: [] }), []);
+  assert.deepEqual(getInactiveParticipantIds(ROSTER, { include: ["backend"], exclude: [] }), ["b", "d"]);
+  assert.deepEqual(getInactiveParticipantIds(ROSTER, { include: ["backend", "frontend"], exclude: ["remote"] }), [
+    "c",
+    "d",
+  ]);
+  assert.deepEqual(getInactiveParticipantIds(ROSTER, { include: [], exclude: ["office"] }), ["a", "b"]);
+});
+
+test("filter tags the roster does not carry are ignored", () => {
+  assert.deepEqual(getInactiveParticipantIds(ROSTER, { include: ["sales"], exclude: ["hr"] }), []);
+  assert.deepEqual(getInactiveParticipantIds(ROSTER, { include: ["sales", "remote"], exclude: [] }), ["a", "b", "d"]);
+});
+
+test("only active participants count toward the next run", () => {
+  const ballsCatalog = ROSTER.map((ball) => ({ ...ball, name: ball.id, imageDataUrl: "", tint: "#fff" }));
+  const state = makeGameState({ seed: 1, board: makeBoard({ layout: "zigzag" }), ballsCatalog });
+  setBallCount(state, "a", 3);
+  assert.equal(getTotalSelectedCount(state), 6);
+  state.inactiveBallIds = getInactiveParticipantIds(ballsCatalog, { include: ["backend"], exclude: [] });
+  assert.equal(getTotalSelectedCount(state), 4);
+});
@@ -0,0 +1,135 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { dropAll, makeBoard, makeGameState, setBallCount, startGame, step } from "../src/game/engine.ts";
+import { createReplayRecord, isSameFinishOrder, parseReplayRecord, replayRun } from "../src/game/replay.ts";
+import {
+  applyPhysicsSnapshot,
+  createPhysicsHost,
+  encodePhysicsSnapshot,
+  getSnapshotTransfer,
+} from "../src/game/physics-snapshot.ts";
+import { createPhysicsWorkerClient } from "../src/game/physics-worker-client.ts";
+
+const BOARD_OPTIONS = { layout: "zigzag", slotCount: 1, heightMultiplier: 1, elementScale: 0.85 };
+const BALLS = [
+  { id: "dog", name: "강아지", imageDataUrl: "", tint: "#fff" },
+  { id: "cat", name: "고양이", imageDataUrl: "", tint: "#000" },
+];
+
+function startRun({ physicsQuality = "full" } = {}) {
+  const state = makeGameState({ seed: 77, board: makeBoard(BOARD_OPTIONS), ballsCatalog: BALLS.map((b) => ({ ...b })) });
+  setBallCount(state, "dog", 3);
+  setBallCount(state, "cat", 2);
+  state.physicsQuality = physicsQuality;
+  startGame(state);
+  const record = createReplayRecord(state, BOARD_OPTIONS);
+  return { state, record };
+}
+
+// Stands in for a Worker: structured-clones requests into a host and answers asynchronously.
+function makeFakeWorker() {
+  const listeners = { message: [], error: [] };
+  const host = createPhysicsHost((message) => {
+    setTimeout(() => listeners.message.forEach((fn) => fn({ data: message })));
+  });
+  return {
+    terminated: false,
+    postMessage(message) {
+      host.handle(structuredClone(message));
+    },
+    addEventListener(type, fn) {
+      listeners[type].push(fn);
+    },
+    terminate() {
+      this.terminated = true;
+    },
+    fail(err) {
+      listeners.error.forEach((fn) => fn(err));
+    },
+  };
+}
+
+test("snapshots round-trip marble motion, finishes and the winner", () => {
+  const { state: source } = startRun();
+  dropAll(source);
+  for (let i = 0; i < 60 * 120 && !source.winner; i++) step(source, 1 / 60);
+  assert.ok(source.winner);
+
+  const { state: mirror } = startRun();
+  dropAll(mirror);
+  const snapshot = encodePhysicsSnapshot(source, { runId: 1, steps: 10, finishedFrom: 0 });
+  assert.equal(snapshot.motion.length, source.marbles.length * 4);
+  assert.equal(getSnapshotTransfer(snapshot).length, 2);
+
+  applyPhysicsSnapshot(mirror, snapshot);
+  assert.ok(isSameFinishOrder(mirror.finished, source.finished));
+  assert.equal(mirror.winner.marbleId, source.winner.marbleId);
+  assert.ok(mirror.marbles.every((m, i) => m.done === source.marbles[i].done && m.result?.label === source.marbles[i].result?.label));
+  assert.throws(() => applyPhysicsSnapshot(mirror, { ...snapshot, done: new Uint8Array(1) }), /expected 5 marbles/);
+});
+
+test("worker client mirrors the same run the replay produces", async () => {
+  const { state, record } = startRun();
+  const worker = makeFakeWorker();
+  const client = createPhysicsWorkerClient({ state, createWorker: () => worker });
+  assert.equal(client.beginRun(record), true);
+  dropAll(state);
+
+  for (let i = 0; i < 60 * 60 && !state.winner; i++) await client.advance(3);
+  const replay = replayRun(parseReplayRecord(JSON.parse(JSON.stringify(record))));
+  assert.ok(state.winner);
+  assert.ok(isSameFinishOrder(state.finished, replay.finished));
+  assert.equal(state.winner.marbleId, replay.winner.marbleId);
+
+  // A decided run stays on the worker: later steps still go through it, but the finish order is fixed.
+  const t = state.t;
+  const finishedCount = state.finished.length;
+  for (let i = 0; i < 20; i++) await client.advance(3);
+  assert.ok(state.t > t);
+  assert.equal(state.finished.length, finishedCount);
+  assert.equal(state.winner.marbleId, replay.winner.marbleId);
+});
+
+test("worker failure rebuilds the run locally and keeps the same result", async () => {
+  const { state, record } = startRun();
+  const worker = makeFakeWorker();
+  const fallbacks = [];
+  const client = createPhysicsWorkerClient({ state, createWorker: () => worker, onFallback: (err) => fallbacks.push(err) });
+  client.beginRun(record);
+  dropAll(state);
+  for (let i = 0; i < 20; i++) await client.advance(3);
+
+  worker.fail(new Error("boom"));
+  assert.equal(worker.terminated, true);
+  assert.equal(fallbacks.length, 1);
+  assert.equal(client.isWorkerAvailable(), false);
+  assert.equal(state.physicsQuality, "full");
+
+  // The rebuilt run keeps its recorded quality but only takes one step per advance.
+  const t = state.t;
+  client.advance(3);
+  assert.ok(Math.abs(state.t - t - 1 / 60) < 1e-9);
+  for (let i = 0; i < 60 * 120 && !state.winner; i++) client.advance(3);
+
+  const replay = replayRun(record);
+  assert.ok(isSameFinishOrder(state.finished, replay.finished));
+  assert.equal(state.physicsQuality, "adaptive");
+});
+
+test("a worker failure between runs goes straight back to adaptive quality", () => {
+  const { state } = startRun();
+  const worker = makeFakeWorker();
+  const client = createPhysicsWorkerClient({ state, createWorker: () => worker });
+  worker.fail(new Error("boom"));
+  assert.equal(state.physicsQuality, "adaptive");
+  assert.equal(client.beginRun(createReplayRecord(state, BOARD_OPTIONS)), false);
+});
+
+test("without a worker the client steps on the main thread", () => {
+  const { state, record } = startRun({ physicsQuality: "adaptive" });
+  const client = createPhysicsWorkerClient({ state, createWorker: () => null });
+  assert.equal(client.beginRun(record), false);
+  dropAll(state);
+  client.advance(5);
+  assert.ok(Math.abs(state.t - 5 / 60) < 1e-9);
+});
@@ -0,0 +1,23 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { portableCos, portableHypot, portableSin } from "../src/game/portable-math.ts";
+
+test("portable sin/cos stay within a few ulps of Math across the engine's angle range", () => {
+  for (let i = -2000; i <= 2000; i++) {
+    const x = i * 0.7371;
+    assert.ok(Math.abs(portableSin(x) - Math.sin(x)) < 1e-12, `sin(${x})`);
+    assert.ok(Math.abs(portableCos(x) - Math.cos(x)) < 1e-12, `cos(${x})`);
+  }
+  assert.equal(portableSin(0), 0);
+  assert.equal(portableCos(0), 1);
+  assert.ok(Number.isNaN(portableSin(Infinity)));
+});
+
+test("portable hypot matches Math.hypot for engine-sized vectors", () => {
+  assert.equal(portableHypot(3, 4), 5);
+  for (let i = 1; i < 500; i++) {
+    const x = i * 3.17 - 700;
+    const y = 900 - i * 1.91;
+    assert.ok(Math.abs(portableHypot(x, y) - Math.hypot(x, y)) < 1e-9);
+  }
+});
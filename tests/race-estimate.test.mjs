@@ -0,0 +1,72 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { makeBoard } from "../src/game/engine.ts";
+import {
+  BOARD_OPTIONS_BY_LAYOUT,
+  CUSTOM_ROTORS,
+  getBoardOptions,
+  thinCustomRotors,
+} from "../src/game/board-config.ts";
+import { estimateRaceSeconds, sampleRaceSeconds } from "../src/game/race-estimate.ts";
+
+test("long keeps the shipped board options; shorter presets lower the board and thin rotors", () => {
+  assert.equal(getBoardOptions("zigzag", "long"), BOARD_OPTIONS_BY_LAYOUT.zigzag);
+  assert.equal(getBoardOptions("roulette", "short"), BOARD_OPTIONS_BY_LAYOUT.roulette);
+
+  const short = getBoardOptions("zigzag", "short");
+  assert.equal(short.heightMultiplier, 4);
+  assert.ok(short.customRotors.length < CUSTOM_ROTORS.length);
+  const shortBoard = makeBoard(short);
+  const longBoard = makeBoard(BOARD_OPTIONS_BY_LAYOUT.zigzag);
+  assert.ok(shortBoard.worldH < longBoard.worldH);
+  const slotTop = shortBoard.worldH - shortBoard.slotH;
+  for (const p of shortBoard.zigzag.propellers) assert.ok(p.y < slotTop, "exit propellers stay above the slots");
+
+  assert.equal(getBoardOptions("classic", "medium").heightMultiplier, 2);
+});
+
+test("thinning keeps every n-th rotor and drops crowded ones", () => {
+  const rotors = [
+    { x: 100, y: 100 },
+    { x: 300, y: 100 },
+    { x: 120, y: 110 },
+    { x: 500, y: 100 },
+  ];
+  assert.deepEqual(thinCustomRotors(rotors, { worldW: 900, worldH: 1000 }), [rotors[0], rotors[1], rotors[3]]);
+  assert.deepEqual(thinCustomRotors(rotors, { worldW: 900, worldH: 1000, stride: 2 }), [rotors[0]]);
+  assert.deepEqual(thinCustomRotors(rotors, { worldW: 900, worldH: 1000, deterministic: true }), [rotors[0], rotors[1], rotors[3]]);
+});
+
+test("deterministic boards thin rotors the same way and keep the flag at every length", () => {
+  for (const length of ["short", "medium", "long"]) {
+    const native = getBoardOptions("zigzag", length);
+    const exact = getBoardOptions("zigzag", length, null, true);
+    assert.equal(exact.deterministic, true);
+    assert.deepEqual(exact.customRotors, native.customRotors);
+  }
+});
+
+test("estimates interpolate between sampled participant counts", () => {
+  const table = {
+    runs: 1,
+    participants: [2, 10, 20],
+    seconds: { "zigzag:short": [10, 20, 0], "roulette:long": [30, 40, 50] },
+  };
+  assert.equal(estimateRaceSeconds("zigzag", "short", 1, { table }), 10);
+  assert.equal(estimateRaceSeconds("zigzag", "short", 6, { table }), 15);
+  assert.equal(estimateRaceSeconds("zigzag", "short", 40, { table }), 20, "unfinished samples are skipped");
+  assert.equal(estimateRaceSeconds("roulette", "short", 15, { table }), 45, "roulette ignores the race length");
+  assert.equal(estimateRaceSeconds("classic", "long", 5, { table }), null);
+});
+
+test("shipped estimates get shorter with shorter presets", () => {
+  for (const layout of ["zigzag", "classic"]) {
+    const [short, medium, long] = ["short", "medium", "long"].map((len) => estimateRaceSeconds(layout, len, 8));
+    assert.ok(short < medium && medium < long, `${layout}: ${short} < ${medium} < ${long}`);
+  }
+});
+
+test("sampling reports the median finish time of headless draws", () => {
+  const seconds = sampleRaceSeconds(BOARD_OPTIONS_BY_LAYOUT.classic, 2, { runs: 1, maxSteps: 60 * 120 });
+  assert.ok(seconds > 0);
+});
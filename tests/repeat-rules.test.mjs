@@ -0,0 +1,91 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { applyRepeatRule, getRecentWinners, normalizeRepeatRule } from "../src/game/repeat-rules.ts";
+
+const PARTICIPANTS = [
+  { id: "dog", name: "Mina", count: 1 },
+  { id: "cat", name: "Joon", count: 2 },
+  { id: "fox", name: "Sora", count: 1 },
+  { id: "owl", name: "Hana", count: 1 },
+];
+
+function draw(winners, { rosterName = "Dev", slotLabels = [] } = {}) {
+  return {
+    rosterName,
+    slotLabels,
+    winners: winners.map(([ballId, name], i) => ({ rank: i + 1, ballId, name, finishedAt: 10, slot: -1, label: "" })),
+  };
+}
+
+// Newest first, like the stored history.
+const HISTORY = [
+  draw([["dog", "Mina"]]),
+  draw([["fox", "Sora"]], { rosterName: "Floor" }),
+  draw([["cat", "Joon"]]),
+  draw([["owl", "Hana"]]),
+];
+
+test("recent winners only count draws of the same roster without prize slots", () => {
+  const history = [draw([["fox", "Sora"]], { slotLabels: ["Coffee", "Lunch"] }), ...HISTORY];
+  assert.deepEqual([...getRecentWinners(history, "Dev", 2)], [
+    ["dog\u0000Mina", 1],
+    ["cat\u0000Joon", 2],
+  ]);
+});
+
+test("exclude sits recent winners out and lists who changed", () => {
+  const outcome = applyRepeatRule({
+    rule: { kind: "exclude", draws: 2, bonus: 1 },
+    participants: PARTICIPANTS,
+    history: HISTORY,
+    rosterName: "Dev",
+    winnerCount: 1,
+  });
+  assert.deepEqual(outcome.adjustments, { dog: 0, cat: 0 });
+  assert.deepEqual(
+    outcome.changes.map((change) => [change.name, change.from, change.to, change.wonDrawsAgo]),
+    [
+      ["Mina", 1, 0, 1],
+      ["Joon", 2, 0, 2],
+    ]
+  );
+  assert.equal(outcome.skipped, false);
+});
+
+test("boost gives extra entries to everyone without a recent win", () => {
+  const outcome = applyRepeatRule({
+    rule: { kind: "boost", draws: 1, bonus: 2 },
+    participants: PARTICIPANTS,
+    history: HISTORY,
+    rosterName: "Dev",
+    winnerCount: 1,
+  });
+  assert.deepEqual(outcome.adjustments, { cat: 4, fox: 3, owl: 3 });
+  assert.ok(outcome.changes.every((change) => change.wonDrawsAgo === null));
+});
+
+test("the rule is skipped when too few entries would be left, and renamed balls start fresh", () => {
+  const skipped = applyRepeatRule({
+    rule: { kind: "exclude", draws: 3, bonus: 1 },
+    participants: PARTICIPANTS,
+    history: HISTORY,
+    rosterName: "Dev",
+    winnerCount: 1,
+  });
+  assert.deepEqual(skipped, { adjustments: {}, changes: [], skipped: true });
+
+  const renamed = applyRepeatRule({
+    rule: { kind: "exclude", draws: 1, bonus: 1 },
+    participants: [{ id: "dog", name: "Minji", count: 1 }, ...PARTICIPANTS.slice(1)],
+    history: HISTORY,
+    rosterName: "Dev",
+    winnerCount: 1,
+  });
+  assert.deepEqual(renamed.changes, []);
+});
+
+test("stored rules are clamped back into range", () => {
+  assert.deepEqual(normalizeRepeatRule({ kind: "exclude", draws: 40, bonus: 0 }), { kind: "exclude", draws: 10, bonus: 1 });
+  assert.deepEqual(normalizeRepeatRule({ kind: "nope" }), { kind: "off", draws: 1, bonus: 1 });
+  assert.deepEqual(normalizeRepeatRule(null), { kind: "off", draws: 1, bonus: 1 });
+});
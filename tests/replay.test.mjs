@@ -0,0 +1,113 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  ENGINE_VERSION,
+  makeBoard,
+  makeGameState,
+  makeRng,
+  startGame,
+  setDropX,
+  dropAll,
+  setBallCount,
+  setWinnerRule,
+  step,
+} from "../src/game/engine.ts";
+import {
+  createReplayRecord,
+  isSameFinishOrder,
+  parseReplayRecord,
+  replayRun,
+} from "../src/game/replay.ts";
+
+const BOARD_OPTIONS = { layout: "zigzag", slotCount: 1, heightMultiplier: 1, elementScale: 0.85 };
+const BALLS = [
+  { id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" },
+  { id: "cat", name: "고양이", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#000" },
+];
+
+function runLikeSession(seed, winnerRule, entryAdjustments, inactiveBallIds) {
+  const board = makeBoard(BOARD_OPTIONS);
+  const state = makeGameState({ seed: 1337, board, ballsCatalog: BALLS.map((b) => ({ ...b })) });
+  setBallCount(state, "dog", 3);
+  setBallCount(state, "cat", 2);
+  setDropX(state, board.worldW * 0.4);
+  if (winnerRule) setWinnerRule(state, winnerRule);
+  if (entryAdjustments) state.entryAdjustments = entryAdjustments;
+  if (inactiveBallIds) state.inactiveBallIds = inactiveBallIds;
+  state.seed = seed;
+  state.rng = makeRng(seed);
+  startGame(state);
+  const record = createReplayRecord(state, BOARD_OPTIONS);
+  dropAll(state);
+  for (let i = 0; i < 120 * 60 && !state.winner; i++) step(state, 1 / 60);
+  return { state, record };
+}
+
+test("replay record reproduces the original finish order", () => {
+  const { state, record } = runLikeSession(0xc0ffee);
+  assert.ok(state.winner, "expected original run to finish");
+
+  const roundTripped = parseReplayRecord(JSON.parse(JSON.stringify(record)));
+  const replay = replayRun(roundTripped);
+  assert.equal(replay.completed, true);
+  assert.ok(isSameFinishOrder(replay.finished, state.finished));
+  assert.deepEqual(replay.winner, state.winner);
+});
+
+test("replay record keeps seed, counts and engine version after reset", () => {
+  const { record } = runLikeSession(99);
+  assert.equal(record.seed, 99);
+  assert.equal(record.engineVersion, ENGINE_VERSION);
+  assert.deepEqual(record.counts, { dog: 3, cat: 2 });
+  assert.equal(record.ballsCatalog.length, 2);
+  assert.equal("entryAdjustments" in record, false);
+  assert.equal("inactiveBallIds" in record, false);
+});
+
+test("entry adjustments replace counts in the queue and replay the same way", () => {
+  const { state, record } = runLikeSession(0xfeed, null, { cat: 0, dog: 4 });
+  assert.equal(state.totalToDrop, 4);
+  assert.ok(state.finished.every((m) => m.ballId === "dog"));
+  assert.deepEqual(record.counts, { dog: 3, cat: 2 }, "the picked counts stay as they were");
+  assert.deepEqual(record.entryAdjustments, { dog: 4, cat: 0 });
+
+  const replay = replayRun(parseReplayRecord(JSON.parse(JSON.stringify(record))));
+  assert.ok(isSameFinishOrder(replay.finished, state.finished));
+  assert.throws(() => parseReplayRecord({ ...record, entryAdjustments: { cat: -1 } }), /replay\.entryAdjustments\.cat/);
+});
+
+test("participants left out by the tag filter are not dropped and replay the same way", () => {
+  const { state, record } = runLikeSession(0xabc, null, null, ["dog"]);
+  assert.equal(state.totalToDrop, 2);
+  assert.ok(state.finished.every((m) => m.ballId === "cat"));
+  assert.deepEqual(record.counts, { dog: 3, cat: 2 }, "the picked counts stay as they were");
+  assert.deepEqual(record.inactiveBallIds, ["dog"]);
+
+  const replay = replayRun(parseReplayRecord(JSON.parse(JSON.stringify(record))));
+  assert.ok(isSameFinishOrder(replay.finished, state.finished));
+  assert.throws(() => parseReplayRecord({ ...record, inactiveBallIds: [1] }), /replay\.inactiveBallIds\[0\]/);
+});
+
+test("replay rejects mismatched engine version and malformed records", () => {
+  const { record } = runLikeSession(5);
+  assert.throws(() => replayRun({ ...record, engineVersion: ENGINE_VERSION + 1 }), /engine version mismatch/);
+  assert.throws(() => parseReplayRecord({ ...record, seed: "5" }), /replay\.seed/);
+  assert.throws(() => parseReplayRecord({ ...record, ballsCatalog: [{ id: 1 }] }), /replay\.ballsCatalog\[0\]/);
+  assert.throws(() => parseReplayRecord({ ...record, winnerRule: { kind: "rank", rank: 0 } }), /replay\.winnerRule/);
+  assert.throws(() => parseReplayRecord({ ...record, physicsQuality: "ultra" }), /replay\.physicsQuality/);
+});
+
+
+test("replay keeps the winner rule and stops at the same deciding arrival", () => {
+  const { state, record } = runLikeSession(0xbeef, { kind: "first" });
+  assert.deepEqual(record.winnerRule, { kind: "first" });
+  assert.ok(state.winner);
+  assert.equal(state.winner, state.finished[0]);
+
+  const replay = replayRun(parseReplayRecord(JSON.parse(JSON.stringify(record))));
+  assert.ok(isSameFinishOrder(replay.finished, state.finished));
+  assert.deepEqual(replay.winner, state.winner);
+
+  const { winnerRule: _rule, winnerCount: _count, ...legacy } = record;
+  assert.equal(replayRun(legacy).finished.length, 5, "records without a rule replay as last arrival");
+});
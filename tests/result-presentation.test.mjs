@@ -16,6 +16,7 @@ test("result state helpers handle idle -> spinning -> summary/single flow", () =
     requestedCount: 2,
     effectiveCount: 0,
     items: [],
+    slotLabels: [],
   });
 
   const oneItem = [
@@ -62,3 +63,15 @@ test("buildResultItems maps winners with payload and arrival time", () => {
     ]
   );
 });
+
+test("slot results skip the reel and keep every slot label", () => {
+  const items = [
+    { rank: 1, ballId: "b1", name: "강", img: "", finishedAt: 1.2, slot: 0, label: "Coffee" },
+    { rank: 2, ballId: "b2", name: "산", img: "", finishedAt: 1.5, slot: 2, label: "Free" },
+  ];
+  const state = buildResultStateFromItems(items, 1, ["Coffee", "Lunch", "Free"]);
+  assert.equal(state.phase, "summary");
+  assert.equal(state.effectiveCount, 2);
+  assert.deepEqual(state.slotLabels, ["Coffee", "Lunch", "Free"]);
+  assert.equal(closeResultPresentation(state).phase, "summary");
+});
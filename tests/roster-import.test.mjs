@@ -0,0 +1,67 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildRosterImportPreview, parseDelimitedText } from "../src/app/roster-import.ts";
+
+test("parses pasted names, CSV quoting and spreadsheet tabs", () => {
+  assert.deepEqual(
+    parseDelimitedText('이름,개수\n"Kim, Jr.",2\n\n"say ""hi""",1\r\nLee').map((row) => row.cells),
+    [["이름", "개수"], ["Kim, Jr.", "2"], ['say "hi"', "1"], ["Lee"]]
+  );
+  assert.deepEqual(
+    parseDelimitedText("Park\t3\nChoi\t").map((row) => row.cells),
+    [["Park", "3"], ["Choi", ""]]
+  );
+  assert.deepEqual(
+    parseDelimitedText('a\n"multi\nline",2\nb').map((row) => row.line),
+    [1, 2, 4]
+  );
+});
+
+test("preview skips the header, validates counts and images, and flags duplicates", () => {
+  const preview = buildRosterImportPreview(
+    [
+      "name,count,image",
+      "Alex",
+      "Sam,2,https://example.com/sam.png",
+      "alex",
+      " ,1",
+      "Jordan,abc",
+      "Robin,1,javascript:alert(1)",
+      "Casey,1,data:image/png;base64,AAAA",
+      "Taylor",
+    ].join("\n"),
+    { existingNames: ["Taylor"] }
+  );
+  assert.deepEqual(
+    preview.rows.map((row) => [row.line, row.name, row.count, row.included]),
+    [
+      [2, "Alex", 1, true],
+      [3, "Sam", 2, true],
+      [4, "alex", 1, false],
+      [5, "", 1, false],
+      [6, "Jordan", 1, false],
+      [7, "Robin", 1, false],
+      [8, "Casey", 1, true],
+      [9, "Taylor", 1, false],
+    ]
+  );
+  assert.equal(preview.rows[1].image, "https://example.com/sam.png");
+  assert.ok(preview.rows.slice(3, 6).every((row) => row.error));
+  assert.equal(preview.duplicateCount, 2);
+  assert.equal(preview.errorCount, 3);
+  assert.equal(preview.includedCount, 3);
+});
+
+test("duplicates can be kept and rows past the capacity are marked over the limit", () => {
+  const preview = buildRosterImportPreview("A\nB\na\nC", { capacity: 3, includeDuplicates: true });
+  assert.deepEqual(
+    preview.rows.map((row) => [row.name, row.duplicate, row.included, row.overLimit]),
+    [
+      ["A", false, true, false],
+      ["B", false, true, false],
+      ["a", true, true, false],
+      ["C", false, false, true],
+    ]
+  );
+  assert.equal(preview.overLimitCount, 1);
+});
@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  ROSTER_PRESET_MAX,
+  addRosterPreset,
+  createRosterPresetStore,
+  deleteRosterPreset,
+  duplicateRosterPreset,
+  getActiveRosterPreset,
+  renameRosterPreset,
+  switchRosterPreset,
+  updateActiveRosterPreset,
+} from "../src/app/roster-presets.ts";
+
+function ball(id) {
+  return { id, name: id, imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" };
+}
+
+function content(ids, winnerCount = 1, startCaption = "") {
+  return {
+    balls: ids.map(ball),
+    counts: Object.fromEntries(ids.map((id) => [id, 2])),
+    winnerCount,
+    startCaption,
+  };
+}
+
+test("switching parks the live roster and hands back the target's", () => {
+  const dev = content(["dog", "cat"], 1, "dev");
+  let store = createRosterPresetStore("Dev team", dev);
+  const added = addRosterPreset(store, "Floor", content(["p-1", "p-2", "p-3"], 2, "floor"), dev);
+  assert.ok(added);
+  assert.equal(added.store.activeId, "preset-2");
+  assert.deepEqual(
+    added.content.balls.map((b) => b.id),
+    ["p-1", "p-2", "p-3"]
+  );
+  // The live preset keeps only its settings; the roster lives in catalog storage.
+  assert.deepEqual(getActiveRosterPreset(added.store).balls, []);
+
+  store = updateActiveRosterPreset(added.store, { winnerCount: 3 });
+  const floorLive = { ...added.content, winnerCount: 3 };
+  const back = switchRosterPreset(store, "preset-1", floorLive);
+  assert.ok(back);
+  assert.equal(back.content.startCaption, "dev");
+  assert.deepEqual(back.content.counts, { dog: 2, cat: 2 });
+  const parked = back.store.presets.find((preset) => preset.id === "preset-2");
+  assert.equal(parked.winnerCount, 3);
+  assert.equal(parked.balls.length, 3);
+
+  assert.equal(switchRosterPreset(back.store, "preset-1", dev), null);
+  assert.equal(switchRosterPreset(back.store, "missing", dev), null);
+});
+
+test("rename, duplicate and delete keep at least one preset", () => {
+  const live = content(["dog"], 1, "quiz");
+  let store = createRosterPresetStore("Quiz", live);
+  assert.equal(renameRosterPreset(store, "preset-1", "   "), null);
+  store = renameRosterPreset(store, "preset-1", "Weekly  quiz");
+  assert.equal(store.presets[0].name, "Weekly quiz");
+
+  store = duplicateRosterPreset(store, "preset-1", "Weekly quiz copy", live);
+  assert.deepEqual(
+    store.presets.map((preset) => preset.name),
+    ["Weekly quiz", "Weekly quiz copy"]
+  );
+  assert.deepEqual(
+    store.presets[1].balls.map((b) => b.id),
+    ["dog"]
+  );
+
+  const deleted = deleteRosterPreset(store, "preset-1");
+  assert.equal(deleted.store.activeId, "preset-2");
+  assert.equal(deleted.content.startCaption, "quiz");
+  assert.equal(deleteRosterPreset(deleted.store, "preset-2"), null);
+});
+
+test("presets stop at the maximum", () => {
+  const live = content(["dog"]);
+  let store = createRosterPresetStore("A", live);
+  for (let i = 1; i < ROSTER_PRESET_MAX; i++) {
+    store = addRosterPreset(store, `P${i}`, live, live).store;
+  }
+  assert.equal(store.presets.length, ROSTER_PRESET_MAX);
+  assert.equal(addRosterPreset(store, "one more", live, live), null);
+  assert.equal(duplicateRosterPreset(store, store.activeId, "copy", live), null);
+});
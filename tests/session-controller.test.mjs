@@ -58,6 +58,77 @@ test("session controller starts a run and applies default run view", () => {
   assert.equal(clearCameraCounter.calls.length, 1);
 });
 
+test("session controller leaves the board alone when canStart says no", () => {
+  const state = { mode: "menu", winner: null, paused: false, seed: 7 };
+  const controller = createSessionController({
+    state,
+    renderer: {},
+    viewState: { tailFocusOn: false },
+    getTotalSelectedCount: () => 5,
+    makeRng: () => ({}),
+    pickSeed: () => {
+      throw new Error("no seed should be taken for a blocked start");
+    },
+    canStart: () => false,
+    startGame: () => {
+      throw new Error("startGame should not run for a blocked start");
+    },
+    dropAll: () => 0,
+    resetGame: () => {},
+  });
+
+  assert.equal(controller.tryStart(), false);
+  assert.equal(state.mode, "menu");
+  assert.equal(state.seed, 7);
+});
+
+test("keyboard start publishes the commitment and starts in one action", () => {
+  const state = { mode: "menu", winner: null, paused: false };
+  let commitment = null;
+  const controller = createSessionController({
+    state,
+    renderer: {},
+    viewState: { tailFocusOn: false },
+    getTotalSelectedCount: () => 5,
+    makeRng: () => ({}),
+    pickSeed: () => commitment.seed,
+    canStart: () => commitment !== null,
+    commitNow: () => {
+      commitment = { seed: 42 };
+    },
+    startGame: (s) => {
+      s.mode = "playing";
+    },
+    dropAll: () => 5,
+    resetGame: () => {},
+  });
+
+  assert.equal(controller.tryStart(), false);
+  assert.equal(state.mode, "menu");
+
+  assert.equal(controller.commitAndStart(), true);
+  assert.equal(state.mode, "playing");
+  assert.equal(state.seed, 42);
+});
+
+test("keyboard start commits nothing for an empty roster", () => {
+  const commits = makeCallCounter();
+  const controller = createSessionController({
+    state: { mode: "menu", winner: null },
+    renderer: {},
+    viewState: { tailFocusOn: false },
+    getTotalSelectedCount: () => 0,
+    makeRng: () => ({}),
+    commitNow: commits.fn,
+    startGame: () => {},
+    dropAll: () => 0,
+    resetGame: () => {},
+  });
+
+  assert.equal(controller.commitAndStart(), false);
+  assert.equal(commits.calls.length, 0);
+});
+
 test("session controller toggles pause only while in active run", () => {
   const state = { mode: "menu", winner: null, paused: false };
   const updateCounter = makeCallCounter();
@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  SETTINGS_BACKUP_KIND,
+  buildSettingsBackup,
+  getDefaultRestoreModes,
+  getRestoreModeChoices,
+  mergeBackupRoster,
+  parseSettingsBackup,
+  settingsBackupToJson,
+} from "../src/app/settings-backup.ts";
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+
+function ball(id, name = id.toUpperCase()) {
+  return { id, name, imageDataUrl: PNG, tint: "#123456" };
+}
+
+function sampleBackup() {
+  return buildSettingsBackup(
+    {
+      roster: { balls: [ball("a"), ball("b")], counts: { a: 3, b: 1 } },
+      draw: { winnerCount: 2, startCaption: "Who pays?", speedMultiplier: 2 },
+      audio: { bgmOn: true, bgmTrack: "bgm_2" },
+      language: "en",
+    },
+    new Date("2026-03-01T09:00:00Z")
+  );
+}
+
+test("settingsBackupToJson / parseSettingsBackup: round-trips every section", () => {
+  const backup = sampleBackup();
+  const json = settingsBackupToJson(backup);
+  assert.equal(JSON.parse(json).kind, SETTINGS_BACKUP_KIND);
+  assert.deepEqual(parseSettingsBackup(json), backup);
+});
+
+test("parseSettingsBackup: cleans the roster with the catalog storage rules", () => {
+  const parsed = parseSettingsBackup(
+    JSON.stringify({
+      kind: SETTINGS_BACKUP_KIND,
+      version: 1,
+      roster: {
+        balls: [ball("a"), ball("a", "Dup"), { id: "x", name: "No image", imageDataUrl: "https://example.com/x.png" }],
+        counts: { a: 500, ghost: 4 },
+      },
+    })
+  );
+  assert.deepEqual(
+    parsed.roster.balls.map((item) => item.id),
+    ["a"]
+  );
+  assert.deepEqual(parsed.roster.counts, { a: 99 });
+  assert.equal(parsed.draw, null);
+  assert.equal(parsed.language, null);
+});
+
+test("parseSettingsBackup: rejects other files with the offending field", () => {
+  assert.throws(() => parseSettingsBackup("not json"), /not valid JSON/);
+  assert.throws(() => parseSettingsBackup(JSON.stringify({ version: 1 })), /backup\.kind/);
+  assert.throws(() => parseSettingsBackup(JSON.stringify({ kind: SETTINGS_BACKUP_KIND, version: 9 })), /backup\.version/);
+  assert.throws(
+    () => parseSettingsBackup(JSON.stringify({ kind: SETTINGS_BACKUP_KIND, version: 1, roster: { balls: [] } })),
+    /backup\.roster\.balls/
+  );
+  assert.throws(
+    () => parseSettingsBackup(JSON.stringify({ kind: SETTINGS_BACKUP_KIND, version: 1, language: "fr" })),
+    /backup\.language/
+  );
+  assert.throws(() => parseSettingsBackup(JSON.stringify({ kind: SETTINGS_BACKUP_KIND, version: 1 })), /no settings/);
+});
+
+test("getDefaultRestoreModes: replaces what the file has and keeps the rest", () => {
+  const backup = { ...sampleBackup(), audio: null };
+  assert.deepEqual(getDefaultRestoreModes(backup), {
+    roster: "replace",
+    draw: "replace",
+    audio: "skip",
+    language: "replace",
+  });
+  assert.ok(getRestoreModeChoices("roster").includes("merge"));
+  assert.ok(!getRestoreModeChoices("language").includes("merge"));
+});
+
+test("mergeBackupRoster: adds missing participants and keeps current ones untouched", () => {
+  const current = { balls: [ball("a", "Alice"), ball("c")], counts: { a: 2, c: 1 } };
+  const merged = mergeBackupRoster(current, sampleBackup().roster);
+  assert.deepEqual(
+    merged.balls.map((item) => `${item.id}:${item.name}`),
+    ["a:Alice", "c:C", "b:B"]
+  );
+  assert.deepEqual(merged.counts, { a: 2, c: 1, b: 1 });
+});
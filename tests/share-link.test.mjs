@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  SHARE_HASH_PARAM,
+  buildShareUrl,
+  decodeSharedDraw,
+  encodeSharedDraw,
+  readShareToken,
+} from "../src/app/share-link.ts";
+import { DEFAULT_RACE_LENGTH } from "../src/game/board-config.ts";
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+const SYSTEM_AVATAR = 'data:image/svg+xml;utf8,<svg data-dg-avatar="1"></svg>';
+
+function draw(overrides = {}) {
+  return {
+    balls: [
+      { id: "a", name: "Alice", tint: "#ff0000", count: 2, imageDataUrl: PNG },
+      { id: "b", name: "Bob", tint: "#00ff00", count: 1, imageDataUrl: SYSTEM_AVATAR },
+    ],
+    winnerCount: 1,
+    startCaption: "Lunch duty",
+    layout: "zigzag",
+    raceLength: "medium",
+    seed: null,
+    ...overrides,
+  };
+}
+
+function plainToken(payload) {
+  return "j" + Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+test("encodeSharedDraw: round-trips roster and settings through a compressed token", async () => {
+  const token = await encodeSharedDraw(draw({ seed: 12345 }));
+  assert.equal(token[0], "z");
+  assert.match(token, /^[A-Za-z0-9_-]+$/);
+
+  const decoded = await decodeSharedDraw(token);
+  assert.deepEqual(
+    decoded.balls.map((ball) => [ball.id, ball.name, ball.tint, ball.count, ball.imageDataUrl]),
+    [
+      ["a", "Alice", "#ff0000", 2, ""],
+      ["b", "Bob", "#00ff00", 1, ""],
+    ]
+  );
+  assert.equal(decoded.winnerCount, 1);
+  assert.equal(decoded.startCaption, "Lunch duty");
+  assert.equal(decoded.layout, "zigzag");
+  assert.equal(decoded.raceLength, "medium");
+  assert.equal(decoded.seed, 12345);
+});
+
+test("encodeSharedDraw: uploaded images only on request, system avatars never", async () => {
+  const decoded = await decodeSharedDraw(await encodeSharedDraw(draw(), { includeImages: true }));
+  assert.equal(decoded.balls[0].imageDataUrl, PNG);
+  assert.equal(decoded.balls[1].imageDataUrl, "");
+  assert.equal(decoded.seed, null);
+});
+
+test("decodeSharedDraw: reads plain tokens, dedupes ids and clamps counts", async () => {
+  const decoded = await decodeSharedDraw(
+    plainToken({
+      v: 1,
+      b: [
+        ["a", "Alice", "not-a-color", 500],
+        ["a", "Alice again", "#000000", 1],
+        ["c", "Carol", "#0000ff", 0, "data:text/html,<b>x</b>"],
+      ],
+      w: 0,
+      c: "",
+      l: "zigzag",
+      r: "nope",
+    })
+  );
+  assert.deepEqual(
+    decoded.balls.map((ball) => [ball.id, ball.tint, ball.count, ball.imageDataUrl]),
+    [
+      ["a", "", 99, ""],
+      ["c", "#0000ff", 0, ""],
+    ]
+  );
+  assert.equal(decoded.winnerCount, 1);
+  assert.equal(decoded.raceLength, DEFAULT_RACE_LENGTH);
+});
+
+test("decodeSharedDraw: rejects damaged or unsupported links with the offending field", async () => {
+  await assert.rejects(decodeSharedDraw(plainToken({ v: 2, b: [["a", "A"]], l: "zigzag" })), /share\.v/);
+  await assert.rejects(decodeSharedDraw(plainToken({ v: 1, b: [["a", "A"]], l: "maze" })), /share\.l/);
+  await assert.rejects(decodeSharedDraw(plainToken({ v: 1, b: [[1, "A"]], l: "zigzag" })), /share\.b\[0\]/);
+  await assert.rejects(decodeSharedDraw("x" + Buffer.from("{}").toString("base64url")), /unknown link encoding/);
+  await assert.rejects(decodeSharedDraw("zAAAA"), /damaged/);
+});
+
+test("buildShareUrl / readShareToken: token lives in the fragment and keeps the query", () => {
+  const url = buildShareUrl("https://example.com/play?lang=en#old", "zABC");
+  assert.equal(url, `https://example.com/play?lang=en#${SHARE_HASH_PARAM}=zABC`);
+  assert.equal(readShareToken(url), "zABC");
+  assert.equal(readShareToken("https://example.com/play"), null);
+  assert.equal(readShareToken("not a url"), null);
+});
@@ -0,0 +1,116 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  STORAGE_KEYS,
+  STORAGE_SCHEMA_KEY,
+  STORAGE_SCHEMA_VERSION,
+  migrateStorage,
+  readStorage,
+  subscribeStorageChanges,
+  subscribeStorageErrors,
+  writeStorage,
+} from "../src/ui/storage-core.ts";
+import { saveBallsCatalog } from "../src/ui/storage.ts";
+
+function makeStorage(entries = {}) {
+  const db = new Map(Object.entries(entries));
+  return {
+    db,
+    getItem(key) {
+      return db.has(key) ? db.get(key) : null;
+    },
+    setItem(key, value) {
+      db.set(key, String(value));
+    },
+    removeItem(key) {
+      db.delete(key);
+    },
+  };
+}
+
+function makeFullStorage() {
+  return {
+    ...makeStorage(),
+    setItem() {
+      const err = new Error("full");
+      err.name = "QuotaExceededError";
+      throw err;
+    },
+  };
+}
+
+test("migration moves v1 keys to the versioned keys and records the schema version", () => {
+  const storage = makeStorage({
+    "marble-roulette:balls:v1": "[]",
+    "marble-roulette:ball-counts:v1": '{"dog":2}',
+    bgmOn: "1",
+    bgmTrack: "bgm_2",
+    // Never released, so never migrated.
+    "marble-roulette:race-length:v1": "short",
+  });
+  migrateStorage(storage);
+  assert.equal(storage.getItem(STORAGE_KEYS.balls), "[]");
+  assert.equal(storage.getItem(STORAGE_KEYS.ballCounts), '{"dog":2}');
+  assert.equal(storage.getItem(STORAGE_KEYS.bgmOn), "1");
+  assert.equal(storage.getItem(STORAGE_KEYS.bgmTrack), "bgm_2");
+  assert.equal(storage.getItem("bgmOn"), null);
+  assert.equal(storage.getItem("marble-roulette:balls:v1"), null);
+  assert.equal(storage.getItem(STORAGE_KEYS.raceLength), null);
+  assert.equal(storage.getItem(STORAGE_SCHEMA_KEY), String(STORAGE_SCHEMA_VERSION));
+});
+
+test("migration keeps a value already under the new key and runs only once", () => {
+  const storage = makeStorage({
+    bgmTrack: "bgm_1",
+    [STORAGE_KEYS.bgmTrack]: "bgm_2",
+  });
+  migrateStorage(storage);
+  assert.equal(storage.getItem(STORAGE_KEYS.bgmTrack), "bgm_2");
+  assert.equal(storage.getItem("bgmTrack"), null);
+
+  storage.setItem("bgmTrack", "bgm_1");
+  migrateStorage(storage);
+  assert.equal(storage.getItem("bgmTrack"), "bgm_1");
+});
+
+test("reads migrate the current localStorage on first access", () => {
+  globalThis.localStorage = makeStorage({ bgmOn: "1" });
+  assert.equal(readStorage(STORAGE_KEYS.bgmOn), "1");
+});
+
+test("a full storage is reported to listeners instead of thrown", () => {
+  globalThis.localStorage = makeFullStorage();
+  const events = [];
+  const unsubscribe = subscribeStorageErrors((event) => events.push(event));
+  try {
+    assert.equal(writeStorage(STORAGE_KEYS.raceLength, "short"), false);
+    assert.equal(saveBallsCatalog([]), false);
+  } finally {
+    unsubscribe();
+  }
+  assert.deepEqual(events, [
+    { kind: "quota", key: STORAGE_SCHEMA_KEY },
+    { kind: "quota", key: STORAGE_KEYS.raceLength },
+    { kind: "quota", key: STORAGE_KEYS.balls },
+  ]);
+});
+
+test("changes from other tabs are reported for known keys only", () => {
+  globalThis.localStorage = makeStorage();
+  globalThis.window = new EventTarget();
+  const storageEvent = (key, storageArea = localStorage) => Object.assign(new Event("storage"), { key, storageArea });
+  const keys = [];
+  const unsubscribe = subscribeStorageChanges((key) => keys.push(key));
+  try {
+    window.dispatchEvent(storageEvent(STORAGE_KEYS.balls));
+    window.dispatchEvent(storageEvent("someone-else:key"));
+    window.dispatchEvent(storageEvent(STORAGE_KEYS.language, makeStorage()));
+    assert.deepEqual(keys, [STORAGE_KEYS.balls]);
+
+    window.dispatchEvent(storageEvent(null));
+    assert.equal(keys.length, 1 + Object.keys(STORAGE_KEYS).length);
+  } finally {
+    unsubscribe();
+    delete globalThis.window;
+  }
+});
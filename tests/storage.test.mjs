@@ -1,13 +1,31 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { DEFAULT_BALLS } from "../src/game/assets.ts";
+import { BALL_CATALOG_MAX, DEFAULT_BALLS } from "../src/game/assets.ts";
 import {
   loadBallsCatalog,
   saveBallsCatalog,
   restoreDefaultBalls,
   loadBallCounts,
   saveBallCounts,
-} from "../src/ui/storage.js";
+  loadBoardLayout,
+  loadCountsBeforeAbsence,
+  saveCountsBeforeAbsence,
+  loadExactReplay,
+  saveExactReplay,
+  saveBoardLayout,
+  loadRaceLength,
+  saveRaceLength,
+  loadPrizeSlots,
+  savePrizeSlots,
+  loadWinnerRule,
+  saveWinnerRule,
+  loadRosterPresets,
+  saveRosterPresets,
+  loadDrawHistory,
+  saveDrawHistory,
+  appendStoredDrawHistory,
+} from "../src/ui/storage.ts";
+import { STORAGE_KEYS } from "../src/ui/storage-core.ts";
 
 function makeStorage() {
   const db = new Map();
@@ -32,12 +50,26 @@ test.beforeEach(() => {
 });
 
 test("loadBallsCatalog falls back to defaults for invalid payload", () => {
-  localStorage.setItem("marble-roulette:balls:v1", "{not-json");
+  localStorage.setItem(STORAGE_KEYS.balls, "{not-json");
   const balls = loadBallsCatalog();
   assert.equal(Array.isArray(balls), true);
   assert.equal(balls.length, DEFAULT_BALLS.length);
 });
 
+test("loadBallsCatalog keeps generated ids, drops duplicates and caps large rosters", () => {
+  const ball = (id) => ({ id, name: id, imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" });
+  const many = Array.from({ length: BALL_CATALOG_MAX + 20 }, (_, i) => ball(`p-${i + 1}`));
+  saveBallsCatalog([ball("dog"), ball("dog"), ...many]);
+
+  const balls = loadBallsCatalog();
+  assert.equal(balls.length, BALL_CATALOG_MAX);
+  assert.equal(new Set(balls.map((b) => b.id)).size, BALL_CATALOG_MAX);
+  assert.deepEqual(
+    balls.slice(0, 2).map((b) => b.id),
+    ["dog", "p-1"]
+  );
+});
+
 test("save/load ball counts clamps values to supported range", () => {
   const catalog = [
     { id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" },
@@ -47,10 +79,27 @@ test("save/load ball counts clamps values to supported range", () => {
   saveBallCounts({ dog: -10, cat: 150 });
   const counts = loadBallCounts(catalog);
 
-  assert.equal(counts.dog, 1);
+  assert.equal(counts.dog, 0);
   assert.equal(counts.cat, 99);
 });
 
+test("an absent participant (0 entries) stays absent after a reload", () => {
+  const catalog = [{ id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" }];
+  saveBallCounts({ dog: 0 });
+  assert.deepEqual(loadBallCounts(catalog), { dog: 0 });
+});
+
+test("counts from before an absence survive a reload and ignore bad values", () => {
+  assert.deepEqual(loadCountsBeforeAbsence(), {});
+  saveCountsBeforeAbsence({ dog: 3 });
+  assert.deepEqual(loadCountsBeforeAbsence(), { dog: 3 });
+
+  localStorage.setItem(STORAGE_KEYS.countsBeforeAbsence, JSON.stringify({ dog: 150, cat: 0, fox: "2" }));
+  assert.deepEqual(loadCountsBeforeAbsence(), { dog: 99 });
+  localStorage.setItem(STORAGE_KEYS.countsBeforeAbsence, "{not json");
+  assert.deepEqual(loadCountsBeforeAbsence(), {});
+});
+
 test("restoreDefaultBalls removes custom catalog from storage", () => {
   const custom = [{ id: "x", name: "테스트", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" }];
   saveBallsCatalog(custom);
@@ -60,3 +109,127 @@ test("restoreDefaultBalls removes custom catalog from storage", () => {
   assert.equal(restored.length, DEFAULT_BALLS.length);
   assert.equal(loadBallsCatalog().length, DEFAULT_BALLS.length);
 });
+
+test("board layout choice round-trips and falls back to zigzag", () => {
+  assert.equal(loadBoardLayout(), "zigzag");
+  saveBoardLayout("classic");
+  assert.equal(loadBoardLayout(), "classic");
+  localStorage.setItem(STORAGE_KEYS.boardLayout, "custom");
+  assert.equal(loadBoardLayout(), "zigzag");
+});
+
+test("exact replay mode is off until switched on", () => {
+  assert.equal(loadExactReplay(), false);
+  saveExactReplay(true);
+  assert.equal(loadExactReplay(), true);
+  saveExactReplay(false);
+  assert.equal(loadExactReplay(), false);
+});
+
+test("race length choice round-trips and falls back to long", () => {
+  assert.equal(loadRaceLength(), "long");
+  saveRaceLength("short");
+  assert.equal(loadRaceLength(), "short");
+  localStorage.setItem(STORAGE_KEYS.raceLength, "epic");
+  assert.equal(loadRaceLength(), "long");
+});
+
+test("winner rule round-trips and falls back to last arrival", () => {
+  assert.deepEqual(loadWinnerRule(), { kind: "last" });
+  saveWinnerRule({ kind: "rank", rank: 3 });
+  assert.deepEqual(loadWinnerRule(), { kind: "rank", rank: 3 });
+  localStorage.setItem(STORAGE_KEYS.winnerRule, '{"kind":"rank","rank":-1}');
+  assert.deepEqual(loadWinnerRule(), { kind: "last" });
+});
+
+test("prize slots round-trip and fall back to three default slots", () => {
+  assert.deepEqual(loadPrizeSlots(), {
+    enabled: false,
+    slots: [
+      { label: "S1", width: 1 },
+      { label: "S2", width: 1 },
+      { label: "S3", width: 1 },
+    ],
+  });
+  savePrizeSlots({
+    enabled: true,
+    slots: [
+      { label: "Coffee", width: 2 },
+      { label: "Lunch", width: 1 },
+    ],
+  });
+  assert.equal(loadPrizeSlots().enabled, true);
+  assert.deepEqual(loadPrizeSlots().slots.map((slot) => slot.label), ["Coffee", "Lunch"]);
+  localStorage.setItem(STORAGE_KEYS.prizeSlots, JSON.stringify({ enabled: true, slots: [{ label: "Solo" }] }));
+  assert.equal(loadPrizeSlots().enabled, false);
+});
+
+test("roster presets round-trip and drop inactive presets without participants", () => {
+  assert.equal(loadRosterPresets(), null);
+  const ball = { id: "dog", name: "강아지", imageDataUrl: "data:image/svg+xml;utf8,<svg/>", tint: "#fff" };
+  saveRosterPresets({
+    activeId: "preset-1",
+    presets: [
+      { id: "preset-1", name: "Dev", balls: [], counts: {}, winnerCount: 2, startCaption: "go" },
+      { id: "preset-2", name: "Floor", balls: [ball], counts: { dog: 150 }, winnerCount: 1, startCaption: "" },
+      { id: "preset-3", name: "Broken", balls: [], counts: {}, winnerCount: 1, startCaption: "" },
+    ],
+  });
+
+  const store = loadRosterPresets();
+  assert.deepEqual(
+    store.presets.map((preset) => preset.id),
+    ["preset-1", "preset-2"]
+  );
+  assert.equal(store.presets[0].winnerCount, 2);
+  assert.deepEqual(store.presets[1].counts, { dog: 99 });
+
+  localStorage.setItem(STORAGE_KEYS.rosterPresets, JSON.stringify({ activeId: "gone", presets: [] }));
+  assert.equal(loadRosterPresets(), null);
+});
+
+test("draw history round-trips and survives a corrupt value", () => {
+  assert.deepEqual(loadDrawHistory(), []);
+  const entry = {
+    id: "x1",
+    at: "2026-03-01T03:00:00.000Z",
+    rosterName: "Dev",
+    rosterFingerprint: "abc",
+    seed: 42,
+    layout: "classic",
+    raceLength: "short",
+    winnerRule: { kind: "first" },
+    winnerCount: 1,
+    participantCount: 3,
+    slotLabels: [],
+    winners: [{ rank: 1, ballId: "dog", name: "강아지", finishedAt: 9.1, slot: -1, label: "" }],
+  };
+  saveDrawHistory([entry]);
+  assert.deepEqual(loadDrawHistory(), [entry]);
+
+  localStorage.setItem(STORAGE_KEYS.drawHistory, "{not json");
+  assert.deepEqual(loadDrawHistory(), []);
+});
+
+test("two tabs appending draw history keep each other's entries", () => {
+  const entry = (id, at) => ({
+    id,
+    at,
+    rosterName: "Dev",
+    rosterFingerprint: "abc",
+    seed: 42,
+    layout: "classic",
+    raceLength: "short",
+    winnerRule: { kind: "first" },
+    winnerCount: 1,
+    participantCount: 3,
+    slotLabels: [],
+    winners: [{ rank: 1, ballId: "dog", name: "강아지", finishedAt: 9.1, slot: -1, label: "" }],
+  });
+  // Both tabs loaded the empty history at boot; each then finishes a draw.
+  const first = entry("a1", "2026-03-01T03:00:00.000Z");
+  const second = entry("b1", "2026-03-01T03:05:00.000Z");
+  assert.deepEqual(appendStoredDrawHistory(first), [first]);
+  assert.deepEqual(appendStoredDrawHistory(second), [second, first]);
+  assert.deepEqual(loadDrawHistory(), [second, first]);
+});
@@ -0,0 +1,36 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { getTabSyncGroup, getTabSyncStep } from "../src/app/tab-sync.ts";
+import { STORAGE_KEYS } from "../src/ui/storage-core.ts";
+
+const IDLE = { runOnScreen: false, settingsDirty: false };
+
+test("roster, language and BGM keys sync; other settings stay per tab", () => {
+  assert.equal(getTabSyncGroup(STORAGE_KEYS.balls), "roster");
+  assert.equal(getTabSyncGroup(STORAGE_KEYS.ballCounts), "roster");
+  assert.equal(getTabSyncGroup(STORAGE_KEYS.countsBeforeAbsence), "roster");
+  assert.equal(getTabSyncGroup(STORAGE_KEYS.rosterPresets), "roster");
+  assert.equal(getTabSyncGroup(STORAGE_KEYS.language), "language");
+  assert.equal(getTabSyncGroup(STORAGE_KEYS.bgmTrack), "audio");
+  assert.equal(getTabSyncGroup(STORAGE_KEYS.drawHistory), null);
+});
+
+test("pending groups apply language first", () => {
+  assert.deepEqual(getTabSyncStep(new Set(["audio", "roster", "language"]), IDLE), {
+    apply: ["language", "roster", "audio"],
+    conflict: false,
+  });
+});
+
+test("a run on screen holds every change back", () => {
+  assert.deepEqual(getTabSyncStep(new Set(["roster", "audio"]), { runOnScreen: true, settingsDirty: true }), {
+    apply: [],
+    conflict: false,
+  });
+});
+
+test("unsaved settings edits hold the roster back as a conflict", () => {
+  const blockers = { runOnScreen: false, settingsDirty: true };
+  assert.deepEqual(getTabSyncStep(new Set(["roster", "language"]), blockers), { apply: ["language"], conflict: true });
+  assert.deepEqual(getTabSyncStep(new Set(["audio"]), blockers), { apply: ["audio"], conflict: false });
+});
@@ -1,6 +1,12 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { clampResultCount, selectLastFinishers } from "../src/app/ui-selectors.ts";
+import {
+  clampResultCount,
+  getWinnerPlaceNumber,
+  selectFinishersBySlot,
+  selectLastFinishers,
+  selectWinnersByRule,
+} from "../src/app/ui-selectors.ts";
 
 test("clampResultCount keeps value inside [1, max]", () => {
   assert.equal(clampResultCount(2, 5), 2);
@@ -22,3 +28,34 @@ test("selectLastFinishers picks latest finishers and keeps stable tie order", ()
     ["m2", "m3", "m1"]
   );
 });
+
+test("selectWinnersByRule counts forward from the first or ranked arrival", () => {
+  const finished = [
+    { marbleId: "m1", ballId: "b1", t: 1, slot: 0, label: "A" },
+    { marbleId: "m2", ballId: "b2", t: 2, slot: 0, label: "B" },
+    { marbleId: "m3", ballId: "b3", t: 2, slot: 0, label: "C" },
+    { marbleId: "m4", ballId: "b4", t: 5, slot: 0, label: "D" },
+  ];
+  const ids = (items) => items.map((item) => item.marbleId);
+
+  assert.deepEqual(ids(selectWinnersByRule(finished, { kind: "last" }, 2, 4)), ["m4", "m2"]);
+  assert.deepEqual(ids(selectWinnersByRule(finished, { kind: "first" }, 2, 4)), ["m1", "m2"]);
+  assert.deepEqual(ids(selectWinnersByRule(finished, { kind: "rank", rank: 3 }, 5, 4)), ["m3", "m4"]);
+  assert.deepEqual(ids(selectWinnersByRule(finished.slice(0, 2), { kind: "rank", rank: 2 }, 1, 4)), ["m2"]);
+  assert.equal(getWinnerPlaceNumber({ kind: "rank", rank: 3 }, 2), 4);
+  assert.equal(getWinnerPlaceNumber({ kind: "last" }, 2), 2);
+});
+
+test("selectFinishersBySlot groups everyone by slot in arrival order", () => {
+  const finished = [
+    { marbleId: "m1", ballId: "b1", t: 3, slot: 2, label: "Free" },
+    { marbleId: "m2", ballId: "b2", t: 1, slot: 0, label: "Coffee" },
+    { marbleId: "m3", ballId: "b3", t: 2, slot: 2, label: "Free" },
+    { marbleId: "m4", ballId: "b4", t: 5, slot: 0, label: "Coffee" },
+  ];
+  assert.deepEqual(
+    selectFinishersBySlot(finished).map((entry) => entry.marbleId),
+    ["m2", "m4", "m3", "m1"]
+  );
+  assert.deepEqual(selectFinishersBySlot([]), []);
+});